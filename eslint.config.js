@@ -0,0 +1,33 @@
+/**
+ * @fileoverview ESLint configuration
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+const js = require('@eslint/js');
+const globals = require('globals');
+const tseslint = require('typescript-eslint');
+
+module.exports = tseslint.config(
+  {
+    ignores: ['dist/', 'docs/', 'coverage/', 'node_modules/'],
+  },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    languageOptions: {
+      globals: globals.node,
+    },
+    rules: {
+      // Mongoose documents and request bodies are typed loosely on purpose
+      '@typescript-eslint/no-explicit-any': 'off',
+      // Lazy require() is used for modules only some code paths need
+      '@typescript-eslint/no-require-imports': 'off',
+      // Express error handlers need all four parameters even when they do not use `next`
+      '@typescript-eslint/no-unused-vars': ['error', { args: 'none', caughtErrors: 'none' }],
+      // Declaration merging with the Express namespace extends Request
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+    },
+  }
+);
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Jest configuration
+ * @description Runs the TypeScript tests in tests/ with ts-jest. Tests never reach MongoDB,
+ * Cloudinary or the mail server: model and service calls are mocked per test.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  clearMocks: true,
+  restoreMocks: true,
+};
@@ -7,7 +7,7 @@
  */
 
 import dotenv from 'dotenv';
-import { Environment } from '../types';
+import { Environment, UserRole } from '../types';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -28,7 +28,9 @@ interface IEnvironmentConfig {
   // Authentication Configuration
   jwtSecret: string;
   jwtExpiresIn: string | number;
+  refreshTokenTtlDays: number;
   bcryptSaltRounds: number;
+  twoFactorRequiredRoles: UserRole[];
 
   // Email Configuration
   emailService: string;
@@ -46,6 +48,28 @@ interface IEnvironmentConfig {
   // Rate Limiting Configuration
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
+  authRateLimitMaxRequests: number;
+  loginMaxAttempts: number;
+  loginLockoutMs: number;
+
+  // Account Deletion Configuration
+  accountDeletionGraceDays: number;
+  accountPurgeIntervalMs: number;
+
+  // Rating Ranking Configuration
+  ratingPriorMean: number;
+  ratingMinVotes: number;
+
+  // View Counting Configuration
+  viewDedupWindowMs: number;
+  viewMinWatchSeconds: number;
+
+  // Recommendations Configuration
+  similarityRecomputeIntervalMs: number;
+
+  // Comments Configuration
+  commentMaxThreadDepth: number;
+  commentReportHideThreshold: number;
 }
 
 /**
@@ -117,8 +141,10 @@ class EnvironmentManager {
 
       // Authentication Configuration
       jwtSecret: process.env.JWT_SECRET!,
-      jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+      jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+      refreshTokenTtlDays: this.parseNumber(process.env.REFRESH_TOKEN_TTL_DAYS, 30),
       bcryptSaltRounds: this.parseNumber(process.env.BCRYPT_SALT_ROUNDS, 12),
+      twoFactorRequiredRoles: this.parseList(process.env.TWO_FACTOR_REQUIRED_ROLES) as UserRole[],
 
       // Email Configuration
       emailService: process.env.EMAIL_SERVICE || 'gmail',
@@ -136,6 +162,28 @@ class EnvironmentManager {
       // Rate Limiting Configuration
       rateLimitWindowMs: this.parseNumber(process.env.RATE_LIMIT_WINDOW_MS, 900000), // 15 minutes
       rateLimitMaxRequests: this.parseNumber(process.env.RATE_LIMIT_MAX_REQUESTS, 100),
+      authRateLimitMaxRequests: this.parseNumber(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS, 10),
+      loginMaxAttempts: this.parseNumber(process.env.LOGIN_MAX_ATTEMPTS, 5),
+      loginLockoutMs: this.parseNumber(process.env.LOGIN_LOCKOUT_MS, 900000), // 15 minutes
+
+      // Account Deletion Configuration
+      accountDeletionGraceDays: this.parseNumber(process.env.ACCOUNT_DELETION_GRACE_DAYS, 30),
+      accountPurgeIntervalMs: this.parseNumber(process.env.ACCOUNT_PURGE_INTERVAL_MS, 3600000), // 1 hour
+
+      // Rating Ranking Configuration
+      ratingPriorMean: this.parseDecimal(process.env.RATING_PRIOR_MEAN, 3),
+      ratingMinVotes: this.parseNumber(process.env.RATING_MIN_VOTES, 10),
+
+      // View Counting Configuration
+      viewDedupWindowMs: this.parseNumber(process.env.VIEW_DEDUP_WINDOW_MS, 21600000), // 6 hours
+      viewMinWatchSeconds: this.parseNumber(process.env.VIEW_MIN_WATCH_SECONDS, 30),
+
+      // Recommendations Configuration
+      similarityRecomputeIntervalMs: this.parseNumber(process.env.SIMILARITY_RECOMPUTE_INTERVAL_MS, 21600000), // 6 hours
+
+      // Comments Configuration
+      commentMaxThreadDepth: this.parseNumber(process.env.COMMENT_MAX_THREAD_DEPTH, 3),
+      commentReportHideThreshold: this.parseNumber(process.env.COMMENT_REPORT_HIDE_THRESHOLD, 3),
     };
 
     // Validate configuration
@@ -177,6 +225,35 @@ class EnvironmentManager {
     return isNaN(parsed) ? fallback : parsed;
   }
 
+  /**
+   * @method parseDecimal
+   * @description Parses string to a decimal number with fallback
+   * @param {string} value - String value to parse
+   * @param {number} fallback - Fallback value
+   * @returns {number} Parsed number or fallback
+   * @private
+   */
+  private parseDecimal(value: string | undefined, fallback: number): number {
+    if (!value) return fallback;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? fallback : parsed;
+  }
+
+  /**
+   * @method parseList
+   * @description Parses a comma separated string into a list of trimmed, non-empty values
+   * @param {string} value - Comma separated value
+   * @returns {string[]} Parsed list (empty if not set)
+   * @private
+   */
+  private parseList(value: string | undefined): string[] {
+    if (!value) return [];
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+
   /**
    * @method validateConfig
    * @description Validates configuration values
@@ -195,11 +272,25 @@ class EnvironmentManager {
       throw new Error('JWT_SECRET must be at least 32 characters long for security.');
     }
 
+    // Validate refresh token lifetime
+    if (config.refreshTokenTtlDays < 1 || config.refreshTokenTtlDays > 365) {
+      throw new Error('REFRESH_TOKEN_TTL_DAYS must be between 1 and 365.');
+    }
+
     // Validate bcrypt salt rounds
     if (config.bcryptSaltRounds < 10 || config.bcryptSaltRounds > 15) {
       throw new Error('BCRYPT_SALT_ROUNDS must be between 10 and 15.');
     }
 
+    // Validate roles that must use two-factor authentication
+    const validRoles: UserRole[] = ['user', 'moderator', 'admin'];
+    const invalidRoles = config.twoFactorRequiredRoles.filter((role) => !validRoles.includes(role));
+    if (invalidRoles.length > 0) {
+      throw new Error(
+        `Invalid TWO_FACTOR_REQUIRED_ROLES: ${invalidRoles.join(', ')}. Valid roles are: ${validRoles.join(', ')}.`
+      );
+    }
+
     // Validate email user (can be email or SMTP username)
     // For SMTP services like Mailtrap, username may not be an email format
     if (config.emailService !== 'smtp') {
@@ -217,6 +308,60 @@ class EnvironmentManager {
     if (config.rateLimitMaxRequests < 1) {
       throw new Error('RATE_LIMIT_MAX_REQUESTS must be at least 1.');
     }
+
+    if (config.authRateLimitMaxRequests < 1) {
+      throw new Error('AUTH_RATE_LIMIT_MAX_REQUESTS must be at least 1.');
+    }
+
+    // Validate login lockout values
+    if (config.loginMaxAttempts < 1) {
+      throw new Error('LOGIN_MAX_ATTEMPTS must be at least 1.');
+    }
+
+    if (config.loginLockoutMs < 60000) {
+      throw new Error('LOGIN_LOCKOUT_MS must be at least 60000ms (1 minute).');
+    }
+
+    // Validate account deletion values
+    if (config.accountDeletionGraceDays < 1) {
+      throw new Error('ACCOUNT_DELETION_GRACE_DAYS must be at least 1.');
+    }
+
+    if (config.accountPurgeIntervalMs < 60000) {
+      throw new Error('ACCOUNT_PURGE_INTERVAL_MS must be at least 60000ms (1 minute).');
+    }
+
+    // Validate rating ranking values
+    if (config.ratingPriorMean < 1 || config.ratingPriorMean > 5) {
+      throw new Error('RATING_PRIOR_MEAN must be between 1 and 5.');
+    }
+
+    if (config.ratingMinVotes < 1) {
+      throw new Error('RATING_MIN_VOTES must be at least 1.');
+    }
+
+    // Validate view counting values
+    if (config.viewDedupWindowMs < 60000) {
+      throw new Error('VIEW_DEDUP_WINDOW_MS must be at least 60000ms (1 minute).');
+    }
+
+    if (config.viewMinWatchSeconds < 1) {
+      throw new Error('VIEW_MIN_WATCH_SECONDS must be at least 1.');
+    }
+
+    // Validate recommendation values
+    if (config.similarityRecomputeIntervalMs < 300000) {
+      throw new Error('SIMILARITY_RECOMPUTE_INTERVAL_MS must be at least 300000ms (5 minutes).');
+    }
+
+    // Validate comment values
+    if (config.commentMaxThreadDepth < 1 || config.commentMaxThreadDepth > 10) {
+      throw new Error('COMMENT_MAX_THREAD_DEPTH must be between 1 and 10.');
+    }
+
+    if (config.commentReportHideThreshold < 1 || config.commentReportHideThreshold > 100) {
+      throw new Error('COMMENT_REPORT_HIDE_THRESHOLD must be between 1 and 100.');
+    }
   }
 
   /**
@@ -276,12 +421,26 @@ class EnvironmentManager {
       port: this.config.port,
       apiBaseUrl: this.config.apiBaseUrl,
       jwtExpiresIn: this.config.jwtExpiresIn,
+      refreshTokenTtlDays: this.config.refreshTokenTtlDays,
       bcryptSaltRounds: this.config.bcryptSaltRounds,
+      twoFactorRequiredRoles: this.config.twoFactorRequiredRoles,
       emailService: this.config.emailService,
       emailUser: this.config.emailUser,
       frontendUrl: this.config.frontendUrl,
       rateLimitWindowMs: this.config.rateLimitWindowMs,
       rateLimitMaxRequests: this.config.rateLimitMaxRequests,
+      authRateLimitMaxRequests: this.config.authRateLimitMaxRequests,
+      loginMaxAttempts: this.config.loginMaxAttempts,
+      loginLockoutMs: this.config.loginLockoutMs,
+      accountDeletionGraceDays: this.config.accountDeletionGraceDays,
+      accountPurgeIntervalMs: this.config.accountPurgeIntervalMs,
+      ratingPriorMean: this.config.ratingPriorMean,
+      ratingMinVotes: this.config.ratingMinVotes,
+      viewDedupWindowMs: this.config.viewDedupWindowMs,
+      viewMinWatchSeconds: this.config.viewMinWatchSeconds,
+      similarityRecomputeIntervalMs: this.config.similarityRecomputeIntervalMs,
+      commentMaxThreadDepth: this.config.commentMaxThreadDepth,
+      commentReportHideThreshold: this.config.commentReportHideThreshold,
       // Sensitive data masked
       mongodbUri: this.maskSensitiveData(this.config.mongodbUri),
       jwtSecret: '***MASKED***',
@@ -8,6 +8,8 @@
 
 import { Response, NextFunction } from 'express';
 import { User, IUserDocument } from '../models/User';
+import { Session } from '../models/Session';
+import { DataExport, IDataExportDocument, DATA_EXPORT_FORMATS } from '../models/DataExport';
 import {
   IAuthenticatedRequest,
   IApiResponse,
@@ -15,15 +17,148 @@ import {
   IUserLogin,
   IPasswordResetData,
   IPasswordResetConfirm,
+  ISessionClientInfo,
+  DataExportFormat,
 } from '../types';
-import { authManager } from '../middleware/auth';
 import { emailService } from '../services/emailService';
+import { sessionService } from '../services/sessionService';
+import { totpService } from '../services/totpService';
+import { dataExportService } from '../services/dataExportService';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { authManager } from '../middleware/auth';
 import { createError, notFoundError, unauthorizedError, conflictError } from '../middleware/errorHandler';
 import { environment } from '../config/environment';
 import { translate } from '../config/i18n';
 import { getLanguage } from '../middleware/language';
+import { SupportedLanguage } from '../config/i18n';
 import crypto from 'crypto';
 
+/**
+ * @function getClientInfo
+ * @description Extracts the client details stored on a session from the request
+ * @param {IAuthenticatedRequest} req - Express request object
+ * @returns {ISessionClientInfo} User agent and IP address of the client
+ */
+const getClientInfo = (req: IAuthenticatedRequest): ISessionClientInfo => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip,
+});
+
+/**
+ * @function sendVerificationEmail
+ * @description Sends the email verification link for a freshly generated token
+ * @param {IUserDocument} user - User whose email must be verified
+ * @param {string} verificationToken - Plain verification token
+ * @param {SupportedLanguage} lang - Language of the email
+ * @returns {Promise<void>}
+ */
+const sendVerificationEmail = async (
+  user: IUserDocument,
+  verificationToken: string,
+  lang: SupportedLanguage
+): Promise<void> => {
+  const verificationUrl = `${environment.get('frontendUrl')}/verify-email?token=${verificationToken}`;
+
+  await emailService.sendEmailVerificationEmail(user.email, user.firstName, verificationUrl, lang);
+
+  // Log verification link in development
+  if (environment.isDevelopment()) {
+    console.log(`Email verification token for ${user.email}: ${verificationToken}`);
+    console.log(`Verification URL: ${verificationUrl}`);
+  }
+};
+
+/**
+ * @function accountLockedError
+ * @description Builds the 423 error for a locked account and sets the Retry-After header
+ * @param {Response} res - Express response object
+ * @param {Date} lockUntil - When login is allowed again
+ * @param {SupportedLanguage} lang - Response language
+ * @returns {Error} Locked error
+ */
+const accountLockedError = (
+  res: Response,
+  lockUntil: Date,
+  lang: SupportedLanguage
+): Error => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((lockUntil.getTime() - Date.now()) / 1000));
+
+  res.set('Retry-After', retryAfterSeconds.toString());
+
+  return createError(
+    translate('auth.accountLocked', lang, { minutes: Math.ceil(retryAfterSeconds / 60) }),
+    423
+  );
+};
+
+/**
+ * @function verifySecondFactor
+ * @description Checks a TOTP code or a recovery code against the user's 2FA settings. Accepted
+ * codes are consumed (the user document is modified but not saved): TOTP codes cannot be
+ * replayed and recovery codes are removed.
+ * @param {IUserDocument} user - User loaded with the 2FA secret fields
+ * @param {string} code - TOTP code (optional)
+ * @param {string} recoveryCode - Recovery code (optional)
+ * @returns {'code' | 'recovery' | null} Which factor matched, or null if none did
+ */
+const verifySecondFactor = (
+  user: IUserDocument,
+  code?: string,
+  recoveryCode?: string
+): 'code' | 'recovery' | null => {
+  if (code && user.twoFactorSecret) {
+    const step = totpService.verifyCode(user.twoFactorSecret, String(code));
+
+    if (step !== null && (user.twoFactorLastUsedStep == null || step > user.twoFactorLastUsedStep)) {
+      user.twoFactorLastUsedStep = step;
+      return 'code';
+    }
+  }
+
+  if (recoveryCode) {
+    const hashedCode = totpService.hashRecoveryCode(String(recoveryCode));
+    const remainingCodes = user.twoFactorRecoveryCodes || [];
+
+    if (remainingCodes.includes(hashedCode)) {
+      user.twoFactorRecoveryCodes = remainingCodes.filter((hash) => hash !== hashedCode);
+      return 'recovery';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * @function findOwnDataExport
+ * @description Finds a data export of the current user, hiding exports of other users as not found
+ * @param {IAuthenticatedRequest} req - Express request object with the export ID in params
+ * @param {SupportedLanguage} lang - Language of error messages
+ * @returns {Promise<IDataExportDocument>} The export
+ * @throws {Error} 400 for an invalid ID, 404 when the export does not exist or has expired
+ */
+const findOwnDataExport = async (
+  req: IAuthenticatedRequest,
+  lang: SupportedLanguage
+): Promise<IDataExportDocument> => {
+  const { exportId } = req.params;
+
+  if (!exportId || !/^[0-9a-fA-F]{24}$/.test(exportId)) {
+    throw createError(translate('auth.invalidExportId', lang), 400);
+  }
+
+  const dataExport = await DataExport.findOne({
+    _id: exportId,
+    userId: req.user!.userId,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!dataExport) {
+    throw createError(translate('auth.exportNotFound', lang), 404);
+  }
+
+  return dataExport;
+};
+
 /**
  * @class AuthController
  * @description Handles authentication operations
@@ -60,12 +195,17 @@ class AuthController {
         email: userData.email,
         password: userData.password,
         age: userData.age,
+        emailVerified: false,
       });
 
+      const verificationToken = newUser.generateEmailVerificationToken();
       const savedUser = await newUser.save();
 
-      // Generate JWT token
-      const token = authManager.generateToken(savedUser._id.toString(), savedUser.email);
+      // A failed delivery must not fail the registration; the user can request a new link
+      await sendVerificationEmail(savedUser, verificationToken, lang);
+
+      // Open a session and issue access/refresh tokens
+      const tokens = await sessionService.createSession(savedUser, getClientInfo(req));
 
       // Prepare response data
       const userResponse = savedUser.toSafeObject();
@@ -75,7 +215,9 @@ class AuthController {
         message: translate('auth.registerSuccess', lang),
         data: {
           user: userResponse,
-          token,
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
         },
       };
 
@@ -103,21 +245,65 @@ class AuthController {
       const { email, password }: IUserLogin = req.body;
       const lang = getLanguage(req);
 
-      // Find user by email and include password for comparison
-      const user = await User.findOne({ email, isActive: true }).select('+password');
+      // Find user by email and include password and lockout state for comparison
+      const user = await User.findOne({ email, isActive: true }).select(
+        '+password +failedLoginAttempts +lockUntil +lockCount'
+      );
 
       if (!user) {
         throw unauthorizedError(translate('auth.invalidCredentials', lang));
       }
 
+      // Reject locked accounts before comparing the password
+      if (user.isLocked()) {
+        throw accountLockedError(res, user.lockUntil!, lang);
+      }
+
       // Check password
       const isPasswordValid = await user.comparePassword(password);
       if (!isPasswordValid) {
+        const locked = await user.registerFailedLogin(
+          environment.get('loginMaxAttempts'),
+          environment.get('loginLockoutMs')
+        );
+
+        if (locked) {
+          await emailService.sendAccountLockedEmail(user.email, user.firstName, user.lockUntil!, lang);
+          throw accountLockedError(res, user.lockUntil!, lang);
+        }
+
         throw unauthorizedError(translate('auth.invalidCredentials', lang));
       }
 
-      // Generate JWT token
-      const token = authManager.generateToken(user._id.toString(), user.email);
+      // An admin forced a password reset; the old password must no longer grant access
+      if (user.mustResetPassword) {
+        throw createError(translate('auth.passwordResetRequired', lang), 403);
+      }
+
+      // With 2FA enabled the password only earns a challenge token; the session is opened
+      // at POST /api/auth/2fa/verify. Failed attempts are reset only after both factors pass.
+      if (user.twoFactorEnabled) {
+        const response: IApiResponse = {
+          success: true,
+          message: translate('auth.twoFactorRequired', lang),
+          data: {
+            twoFactorRequired: true,
+            challengeToken: authManager.generateTwoFactorChallengeToken(user._id.toString()),
+            expiresIn: '5m',
+          },
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      await user.resetLoginAttempts();
+
+      // Logging in during the deletion grace period keeps the account
+      const deletionCancelled = await user.cancelDeletion();
+
+      // Open a session and issue access/refresh tokens
+      const tokens = await sessionService.createSession(user, getClientInfo(req));
 
       // Update last login (could be added to User schema)
       // user.lastLoginAt = new Date();
@@ -131,7 +317,56 @@ class AuthController {
         message: translate('auth.loginSuccess', lang, { name: user.firstName }),
         data: {
           user: userResponse,
-          token,
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
+          ...(deletionCancelled && { deletionCancelled: true }),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method refresh
+   * @description Exchanges a refresh token for a new access/refresh token pair
+   * @route POST /api/auth/refresh
+   * @param {IAuthenticatedRequest} req - Express request object with the refresh token
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async refresh(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+      const lang = getLanguage(req);
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        throw createError(translate('auth.refreshTokenRequired', lang), 400);
+      }
+
+      const tokens = await sessionService.refreshSession(
+        refreshToken,
+        getClientInfo(req)
+      );
+      if (!tokens) {
+        throw unauthorizedError(translate('auth.refreshTokenInvalid', lang));
+      }
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.tokenRefreshed', lang),
+        data: {
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
         },
       };
 
@@ -143,7 +378,7 @@ class AuthController {
 
   /**
    * @method logout
-   * @description Logs out user (client-side token invalidation)
+   * @description Logs out user by revoking the current session
    * @route POST /api/auth/logout
    * @param {IAuthenticatedRequest} req - Express request object
    * @param {Response} res - Express response object
@@ -157,8 +392,13 @@ class AuthController {
   ): Promise<void> {
     try {
       const lang = getLanguage(req);
-      // Note: With JWT, logout is typically handled client-side by removing the token
-      // For additional security, you could implement a token blacklist in Redis
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      // Revoking the session invalidates both the refresh token and any access token issued for it
+      await Session.revokeSession(req.user.sessionId, 'logout');
 
       const response: IApiResponse = {
         success: true,
@@ -216,7 +456,8 @@ class AuthController {
 
   /**
    * @method updateProfile
-   * @description Updates user profile information
+   * @description Updates user profile information. Changing the email address marks it as
+   * unverified and sends a verification link to the new address.
    * @route PUT /api/auth/profile
    * @param {IAuthenticatedRequest} req - Express request object
    * @param {Response} res - Express response object
@@ -254,13 +495,27 @@ class AuthController {
         (user as any)[update] = req.body[update];
       });
 
+      // A new address has to be verified again before it counts as verified
+      const emailChanged = user.isModified('email');
+      const verificationToken = emailChanged ? user.generateEmailVerificationToken() : null;
+      if (emailChanged) {
+        user.emailVerified = false;
+      }
+
       const updatedUser = await user.save();
 
+      if (verificationToken) {
+        await sendVerificationEmail(updatedUser, verificationToken, lang);
+      }
+
       const response: IApiResponse = {
         success: true,
-        message: translate('auth.profileUpdated', lang),
+        message: translate(emailChanged ? 'auth.profileUpdatedVerifyEmail' : 'auth.profileUpdated', lang, {
+          email: updatedUser.email,
+        }),
         data: {
           user: updatedUser.toSafeObject(),
+          emailVerificationSent: emailChanged,
         },
       };
 
@@ -272,7 +527,8 @@ class AuthController {
 
   /**
    * @method deleteAccount
-   * @description Deletes user account (soft delete by setting isActive to false)
+   * @description Schedules the user's account for deletion after a grace period and signs it
+   * out everywhere. Logging in again during the grace period cancels the deletion.
    * @route DELETE /api/auth/account
    * @param {IAuthenticatedRequest} req - Express request object
    * @param {Response} res - Express response object
@@ -308,14 +564,17 @@ class AuthController {
         throw unauthorizedError(translate('auth.invalidPassword', lang));
       }
 
-      // Hard delete user from database
-      await User.findByIdAndDelete(req.user.userId);
+      // The account is only purged after the grace period; logging in before then cancels it
+      const deletionScheduledFor = await accountDeletionService.scheduleDeletion(user, lang);
 
       const response: IApiResponse = {
         success: true,
         message: translate('auth.accountDeleted', lang),
         data: {
-          message: translate('auth.accountDeletedMessage', lang),
+          message: translate('auth.accountDeletedMessage', lang, {
+            days: environment.get('accountDeletionGraceDays'),
+          }),
+          deletionScheduledFor,
         },
       };
 
@@ -430,9 +689,13 @@ class AuthController {
       user.password = newPassword;
       user.passwordResetToken = undefined;
       user.passwordResetExpires = undefined;
+      user.mustResetPassword = false;
 
       await user.save();
 
+      // Sign out every device, since the old password may have been compromised
+      await Session.revokeUserSessions(user._id.toString(), 'password_reset');
+
       // Send confirmation email
       await emailService.sendPasswordResetConfirmationEmail(user.email, user.getFullName());
 
@@ -497,6 +760,9 @@ class AuthController {
       user.password = newPassword;
       await user.save();
 
+      // Sign out all other devices; the current session stays valid
+      await Session.revokeUserSessions(user._id.toString(), 'password_change', req.user.sessionId);
+
       const response: IApiResponse = {
         success: true,
         message: translate('auth.passwordChanged', lang),
@@ -512,15 +778,71 @@ class AuthController {
   }
 
   /**
-   * @method verifyToken
-   * @description Verifies if a JWT token is valid
-   * @route POST /api/auth/verify-token
+   * @method verifyEmail
+   * @description Verifies the user's email address using the token sent by email
+   * @route POST /api/auth/verify-email
    * @param {IAuthenticatedRequest} req - Express request object
    * @param {Response} res - Express response object
    * @param {NextFunction} next - Express next function
    * @returns {Promise<void>}
    */
-  public async verifyToken(
+  public async verifyEmail(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { token } = req.body;
+      const lang = getLanguage(req);
+
+      if (!token || typeof token !== 'string') {
+        throw createError(translate('auth.verificationTokenRequired', lang), 400);
+      }
+
+      const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+      const user = await User.findOne({
+        emailVerificationToken: hashedToken,
+        emailVerificationExpires: { $gt: Date.now() },
+        isActive: true,
+      });
+
+      if (!user) {
+        throw createError(translate('auth.verificationTokenInvalid', lang), 400);
+      }
+
+      user.emailVerified = true;
+      user.emailVerificationToken = undefined;
+      user.emailVerificationExpires = undefined;
+      await user.save({ validateBeforeSave: false });
+
+      // The account is now fully active, so welcome the user
+      await emailService.sendWelcomeEmail(user.email, user.firstName);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.emailVerified', lang),
+        data: {
+          user: user.toSafeObject(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method resendVerification
+   * @description Sends a new email verification link to the authenticated user
+   * @route POST /api/auth/resend-verification
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async resendVerification(
     req: IAuthenticatedRequest,
     res: Response,
     next: NextFunction
@@ -528,19 +850,169 @@ class AuthController {
     try {
       const lang = getLanguage(req);
 
-      // If we reach here, the authenticate middleware has already verified the token
       if (!req.user) {
-        throw unauthorizedError(translate('auth.tokenInvalid', lang));
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const user = await User.findById(req.user.userId);
+      if (!user || !user.isActive) {
+        throw notFoundError('User');
       }
 
+      if (user.emailVerified) {
+        throw createError(translate('auth.emailAlreadyVerified', lang), 400);
+      }
+
+      // Issuing a new token invalidates the previous link
+      const verificationToken = user.generateEmailVerificationToken();
+      await user.save({ validateBeforeSave: false });
+
+      await sendVerificationEmail(user, verificationToken, lang);
+
       const response: IApiResponse = {
         success: true,
-        message: translate('auth.tokenValid', lang),
+        message: translate('auth.verificationEmailSent', lang),
         data: {
-          user: {
-            userId: req.user.userId,
-            email: req.user.email,
-          },
+          message: translate('auth.verificationEmailMessage', lang, { email: user.email }),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method verifyTwoFactor
+   * @description Completes a login for an account with 2FA by exchanging the challenge token
+   * and a TOTP or recovery code for a session
+   * @route POST /api/auth/2fa/verify
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async verifyTwoFactor(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+      const lang = getLanguage(req);
+
+      if (!challengeToken || (!code && !recoveryCode)) {
+        throw createError(translate('auth.twoFactorFieldsRequired', lang), 400);
+      }
+
+      const userId = authManager.validateTwoFactorChallengeToken(String(challengeToken));
+      if (!userId) {
+        throw unauthorizedError(translate('auth.twoFactorChallengeInvalid', lang));
+      }
+
+      const user = await User.findOne({ _id: userId, isActive: true }).select(
+        '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep +failedLoginAttempts +lockUntil +lockCount'
+      );
+
+      if (!user || !user.twoFactorEnabled) {
+        throw unauthorizedError(translate('auth.twoFactorChallengeInvalid', lang));
+      }
+
+      if (user.isLocked()) {
+        throw accountLockedError(res, user.lockUntil!, lang);
+      }
+
+      const factor = verifySecondFactor(user, code, recoveryCode);
+
+      if (!factor) {
+        // Wrong codes count towards the same lockout as wrong passwords
+        const locked = await user.registerFailedLogin(
+          environment.get('loginMaxAttempts'),
+          environment.get('loginLockoutMs')
+        );
+
+        if (locked) {
+          await emailService.sendAccountLockedEmail(user.email, user.firstName, user.lockUntil!, lang);
+          throw accountLockedError(res, user.lockUntil!, lang);
+        }
+
+        throw unauthorizedError(translate('auth.twoFactorCodeInvalid', lang));
+      }
+
+      user.failedLoginAttempts = 0;
+      user.lockUntil = null;
+      user.lockCount = 0;
+      await user.save({ validateBeforeSave: false });
+
+      // Logging in during the deletion grace period keeps the account
+      const deletionCancelled = await user.cancelDeletion();
+
+      const tokens = await sessionService.createSession(user, getClientInfo(req));
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.loginSuccess', lang, { name: user.firstName }),
+        data: {
+          user: user.toSafeObject(),
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
+          ...(factor === 'recovery' && {
+            remainingRecoveryCodes: (user.twoFactorRecoveryCodes || []).length,
+          }),
+          ...(deletionCancelled && { deletionCancelled: true }),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method setupTwoFactor
+   * @description Starts 2FA enrollment by generating a new TOTP secret. 2FA is not active
+   * until the first code is confirmed at POST /api/auth/2fa/enable.
+   * @route POST /api/auth/2fa/setup
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async setupTwoFactor(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const user = await User.findById(req.user.userId);
+      if (!user || !user.isActive) {
+        throw notFoundError('User');
+      }
+
+      if (user.twoFactorEnabled) {
+        throw createError(translate('auth.twoFactorAlreadyEnabled', lang), 400);
+      }
+
+      const secret = totpService.generateSecret();
+      user.twoFactorSecret = secret;
+      user.twoFactorLastUsedStep = null;
+      await user.save({ validateBeforeSave: false });
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.twoFactorSetupStarted', lang),
+        data: {
+          secret,
+          otpauthUri: totpService.buildOtpAuthUri(secret, user.email),
         },
       };
 
@@ -549,6 +1021,477 @@ class AuthController {
       next(error);
     }
   }
+
+  /**
+   * @method enableTwoFactor
+   * @description Confirms 2FA enrollment with a code from the authenticator app and returns
+   * the one-time recovery codes (shown only once)
+   * @route POST /api/auth/2fa/enable
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async enableTwoFactor(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const { code } = req.body;
+      if (!code) {
+        throw createError(translate('auth.twoFactorCodeRequired', lang), 400);
+      }
+
+      const user = await User.findById(req.user.userId).select(
+        '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep'
+      );
+      if (!user || !user.isActive) {
+        throw notFoundError('User');
+      }
+
+      if (user.twoFactorEnabled) {
+        throw createError(translate('auth.twoFactorAlreadyEnabled', lang), 400);
+      }
+
+      if (!user.twoFactorSecret) {
+        throw createError(translate('auth.twoFactorSetupRequired', lang), 400);
+      }
+
+      if (verifySecondFactor(user, code) !== 'code') {
+        throw createError(translate('auth.twoFactorCodeInvalid', lang), 400);
+      }
+
+      const recoveryCodes = totpService.generateRecoveryCodes();
+      user.twoFactorEnabled = true;
+      user.twoFactorRecoveryCodes = recoveryCodes.map((recoveryCode) =>
+        totpService.hashRecoveryCode(recoveryCode)
+      );
+      await user.save({ validateBeforeSave: false });
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.twoFactorEnabled', lang),
+        data: {
+          recoveryCodes,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method disableTwoFactor
+   * @description Turns 2FA off after checking the password and a current code or recovery code
+   * @route POST /api/auth/2fa/disable
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async disableTwoFactor(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const { password, code, recoveryCode } = req.body;
+      if (!password || (!code && !recoveryCode)) {
+        throw createError(translate('auth.twoFactorDisableFieldsRequired', lang), 400);
+      }
+
+      if (environment.get('twoFactorRequiredRoles').includes(req.user.role)) {
+        throw createError(translate('auth.twoFactorRequiredForRole', lang), 403);
+      }
+
+      const user = await User.findById(req.user.userId).select(
+        '+password +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep'
+      );
+      if (!user || !user.isActive) {
+        throw notFoundError('User');
+      }
+
+      if (!user.twoFactorEnabled) {
+        throw createError(translate('auth.twoFactorNotEnabled', lang), 400);
+      }
+
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid) {
+        throw unauthorizedError(translate('auth.incorrectPassword', lang));
+      }
+
+      if (!verifySecondFactor(user, code, recoveryCode)) {
+        throw unauthorizedError(translate('auth.twoFactorCodeInvalid', lang));
+      }
+
+      user.twoFactorEnabled = false;
+      user.twoFactorSecret = null;
+      user.twoFactorRecoveryCodes = [];
+      user.twoFactorLastUsedStep = null;
+      await user.save({ validateBeforeSave: false });
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.twoFactorDisabled', lang),
+        data: {
+          twoFactorEnabled: false,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getSessions
+   * @description Lists the active sessions (devices) of the current user
+   * @route GET /api/auth/sessions
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async getSessions(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const sessions = await Session.findActiveByUser(req.user.userId);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.sessionsRetrieved', lang),
+        data: {
+          sessions: sessions.map((session) => ({
+            id: session._id.toString(),
+            device: session.getDeviceName(),
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session._id.toString() === req.user!.sessionId,
+          })),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method revokeSession
+   * @description Signs out one of the current user's sessions
+   * @route DELETE /api/auth/sessions/:sessionId
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async revokeSession(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const { sessionId } = req.params;
+
+      if (!sessionId || !/^[0-9a-fA-F]{24}$/.test(sessionId)) {
+        throw createError(translate('auth.invalidSessionId', lang), 400);
+      }
+
+      // Only sessions owned by the current user can be revoked
+      const session = await Session.findOne({
+        _id: sessionId,
+        userId: req.user.userId,
+        revokedAt: null,
+      });
+
+      if (!session) {
+        throw createError(translate('auth.sessionNotFound', lang), 404);
+      }
+
+      await Session.revokeSession(sessionId, 'revoked_by_user');
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.sessionRevoked', lang),
+        data: {
+          sessionId,
+          current: sessionId === req.user.sessionId,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method revokeOtherSessions
+   * @description Signs out every session of the current user except the one making the request
+   * @route DELETE /api/auth/sessions
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async revokeOtherSessions(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const revokedCount = await Session.revokeUserSessions(
+        req.user.userId,
+        'revoked_by_user',
+        req.user.sessionId
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.otherSessionsRevoked', lang, { count: revokedCount }),
+        data: {
+          revokedCount,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method requestDataExport
+   * @description Exports all personal data of the current user. Small JSON exports are returned
+   * in the response; large exports and ZIP archives are produced in the background and the user
+   * is emailed a download link.
+   * @route POST /api/auth/account/export
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async requestDataExport(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const format: DataExportFormat = req.body?.format || 'json';
+
+      if (!DATA_EXPORT_FORMATS.includes(format)) {
+        throw createError(
+          translate('auth.invalidExportFormat', lang, { formats: DATA_EXPORT_FORMATS.join(', ') }),
+          400
+        );
+      }
+
+      const inProgress = await DataExport.findInProgressForUser(req.user.userId);
+      if (inProgress) {
+        throw conflictError(translate('auth.exportInProgress', lang));
+      }
+
+      const result = await dataExportService.requestExport(req.user.userId, format, lang);
+
+      if (result.mode === 'sync') {
+        const response: IApiResponse = {
+          success: true,
+          message: translate('auth.exportReady', lang),
+          data: {
+            export: result.data,
+          },
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.exportStarted', lang),
+        data: {
+          export: result.dataExport.toJSON(),
+        },
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getDataExport
+   * @description Gets the status of a background data export of the current user
+   * @route GET /api/auth/account/exports/:exportId
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async getDataExport(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const dataExport = await findOwnDataExport(req, lang);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.exportRetrieved', lang),
+        data: {
+          export: dataExport.toJSON(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method downloadDataExport
+   * @description Downloads the archive of a completed data export of the current user
+   * @route GET /api/auth/account/exports/:exportId/download
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async downloadDataExport(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.authRequired', lang));
+      }
+
+      const dataExport = await findOwnDataExport(req, lang);
+      const archive =
+        dataExport.status === 'completed' ? await dataExportService.openArchive(dataExport) : null;
+
+      if (!archive) {
+        throw conflictError(translate('auth.exportNotReady', lang));
+      }
+
+      res.setHeader('Content-Type', dataExport.contentType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${dataExport.fileName}"`);
+      res.setHeader('Content-Length', archive.length.toString());
+      res.status(200);
+
+      // Headers are sent with the first chunk, so a read error can only cut the download short
+      archive.stream.on('error', (error) => {
+        if (res.headersSent) {
+          res.destroy(error);
+        } else {
+          next(error);
+        }
+      });
+      archive.stream.pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method verifyToken
+   * @description Verifies if a JWT token is valid
+   * @route POST /api/auth/verify-token
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async verifyToken(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+
+      // If we reach here, the authenticate middleware has already verified the token
+      if (!req.user) {
+        throw unauthorizedError(translate('auth.tokenInvalid', lang));
+      }
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('auth.tokenValid', lang),
+        data: {
+          user: {
+            userId: req.user.userId,
+            email: req.user.email,
+            role: req.user.role,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
 }
 
 // Export singleton instance
@@ -7,10 +7,15 @@
  */
 
 import { Response, NextFunction } from 'express';
-import Comment, { ICommentDocument } from '@/models/Comment';
+import Comment, { COMMENT_SORTS, CommentSort, ICommentDocument, ICommentThread } from '@/models/Comment';
+import { CommentReaction, COMMENT_REACTIONS } from '@/models/CommentReaction';
+import { CommentReport, COMMENT_REPORT_REASONS } from '@/models/CommentReport';
 import Movie from '@/models/Movie';
-import { IAuthenticatedRequest } from '@/types';
+import { CommentReactionType, CommentReportReason, IAuthenticatedRequest } from '@/types';
 import { createError } from '@/middleware/errorHandler';
+import { trendingService } from '@/services/trendingService';
+import { environment } from '@/config/environment';
+import { parsePagination } from '@/utils/pagination';
 
 /**
  * @class CommentController
@@ -32,9 +37,90 @@ class CommentController {
     return CommentController.instance;
   }
 
+  /**
+   * @method parseDepth
+   * @description Parses the `depth` query parameter: levels of replies to nest in a list response
+   * @param {unknown} value - Query parameter value
+   * @returns {number} Depth, COMMENT_MAX_THREAD_DEPTH when not given
+   * @throws {Error} 400 when the depth is not between 0 and COMMENT_MAX_THREAD_DEPTH
+   * @private
+   */
+  private parseDepth(value: unknown): number {
+    const maxDepth = environment.get('commentMaxThreadDepth');
+
+    if (value === undefined || value === '') {
+      return maxDepth;
+    }
+
+    const depth = Number(value);
+
+    if (!Number.isInteger(depth) || depth < 0 || depth > maxDepth) {
+      throw createError(`Depth must be an integer between 0 and ${maxDepth}`, 400);
+    }
+
+    return depth;
+  }
+
+  /**
+   * @method parseSort
+   * @description Parses the `sort` query parameter of a comment list
+   * @param {unknown} value - Query parameter value
+   * @param {CommentSort} defaultSort - Sort when none is given
+   * @returns {CommentSort} Sort
+   * @throws {Error} 400 for an unknown sort
+   * @private
+   */
+  private parseSort(value: unknown, defaultSort: CommentSort): CommentSort {
+    if (value === undefined || value === '') {
+      return defaultSort;
+    }
+
+    const sorts = Object.keys(COMMENT_SORTS);
+
+    if (typeof value !== 'string' || !sorts.includes(value)) {
+      throw createError(`Invalid sort: ${value}. Valid values are: ${sorts.join(', ')}`, 400);
+    }
+
+    return value as CommentSort;
+  }
+
+  /**
+   * @method addUserReactions
+   * @description Sets `myReactions` on every comment of a list, nested replies included, to the
+   * reactions the signed-in user left on it
+   * @param {ICommentThread[]} comments - Comments (modified in place)
+   * @param {string | undefined} userId - Signed-in user, if any
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async addUserReactions(comments: ICommentThread[], userId?: string): Promise<void> {
+    if (!userId) {
+      return;
+    }
+
+    const all: ICommentThread[] = [];
+    const collect = (list: ICommentThread[]): void => {
+      list.forEach((comment) => {
+        all.push(comment);
+        collect(comment.replies || []);
+      });
+    };
+    collect(comments);
+
+    const reactions = await CommentReaction.getUserReactions(
+      userId,
+      all.map((comment) => comment._id.toString())
+    );
+
+    all.forEach((comment) => {
+      (comment as ICommentThread & { myReactions: CommentReactionType[] }).myReactions =
+        reactions.get(comment._id.toString()) || [];
+    });
+  }
+
   /**
    * @method createComment
-   * @description Create a new comment on a movie
+   * @description Create a new comment on a movie, or a reply to another comment
    * @route POST /api/comments/:movieId
    * @access Protected
    * @param {IAuthenticatedRequest} req - Express request with authenticated user
@@ -49,7 +135,7 @@ class CommentController {
   ): Promise<void> => {
     try {
       const { movieId } = req.params;
-      const { content } = req.body;
+      const { content, parentId } = req.body;
       const userId = req.user?.userId;
 
       // Validate required fields
@@ -67,14 +153,48 @@ class CommentController {
         throw createError('Movie not found', 404);
       }
 
+      // Verify the comment replied to
+      let parent: ICommentDocument | null = null;
+      if (parentId !== undefined && parentId !== null) {
+        if (typeof parentId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(parentId)) {
+          throw createError('Invalid parent comment ID format', 400);
+        }
+
+        parent = await Comment.findById(parentId);
+        if (!parent) {
+          throw createError('Parent comment not found', 404);
+        }
+
+        if (parent.movieId.toString() !== movieId) {
+          throw createError('Parent comment belongs to another movie', 400);
+        }
+
+        if (parent.deleted) {
+          throw createError('Cannot reply to a removed comment', 400);
+        }
+
+        if (parent.hidden) {
+          throw createError('Cannot reply to a comment hidden for review', 400);
+        }
+      }
+
       // Create comment
       const comment = await Comment.create({
         userId,
         movieId,
         content: content.trim(),
         edited: false,
+        parentId: parent ? parent._id.toString() : null,
+        rootId: parent ? parent.rootId || parent._id.toString() : null,
+        depth: parent ? (parent.depth || 0) + 1 : 0,
       });
 
+      if (parent) {
+        await Comment.updateOne({ _id: parent._id }, { $inc: { replyCount: 1 } });
+      }
+
+      await trendingService.record(movieId, 'comment');
+
       // Populate user data
       await comment.populate('userId', 'firstName lastName avatar');
 
@@ -90,7 +210,7 @@ class CommentController {
 
   /**
    * @method getMovieComments
-   * @description Get all comments for a specific movie
+   * @description Get the top-level comments of a movie with their replies nested down to `depth`
    * @route GET /api/comments/movie/:movieId
    * @access Public
    * @param {IAuthenticatedRequest} req - Express request
@@ -105,8 +225,9 @@ class CommentController {
   ): Promise<void> => {
     try {
       const { movieId } = req.params;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
+      const pagination = parsePagination(req.query, { defaultLimit: 20 });
+      const depth = this.parseDepth(req.query.depth);
+      const sort = this.parseSort(req.query.sort, 'newest');
 
       // Verify movie exists
       const movie = await Movie.findById(movieId);
@@ -115,7 +236,8 @@ class CommentController {
       }
 
       // Get paginated comments
-      const result = await Comment.getMovieComments(movieId, page, limit);
+      const result = await Comment.getMovieComments(movieId, pagination, depth, sort);
+      await this.addUserReactions(result.comments, req.user?.userId);
 
       res.status(200).json({
         success: true,
@@ -127,6 +249,52 @@ class CommentController {
     }
   };
 
+  /**
+   * @method getReplies
+   * @description Get the direct replies to a comment, oldest first, with their own replies nested
+   * down to `depth`
+   * @route GET /api/comments/:commentId/replies
+   * @access Public
+   * @param {IAuthenticatedRequest} req - Express request
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public getReplies = async (
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { commentId } = req.params;
+      const pagination = parsePagination(req.query, { defaultLimit: 20 });
+      const depth = this.parseDepth(req.query.depth);
+      const sort = this.parseSort(req.query.sort, 'oldest');
+
+      // Verify the parent exists (removed comments still list their replies)
+      const comment = await Comment.findById(commentId);
+      if (!comment) {
+        throw createError('Comment not found', 404);
+      }
+
+      // Get paginated replies
+      const result = await Comment.getReplies(commentId, pagination, depth, sort);
+      await this.addUserReactions(result.comments, req.user?.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Replies retrieved successfully',
+        data: {
+          parentId: commentId,
+          replyCount: comment.replyCount || 0,
+          ...result,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * @method getUserComments
    * @description Get all comments by the authenticated user
@@ -144,15 +312,14 @@ class CommentController {
   ): Promise<void> => {
     try {
       const userId = req.user?.userId;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
+      const pagination = parsePagination(req.query, { defaultLimit: 20 });
 
       if (!userId) {
         throw createError('Authentication required', 401);
       }
 
       // Get paginated comments
-      const result = await Comment.getUserComments(userId, page, limit);
+      const result = await Comment.getUserComments(userId, pagination);
 
       res.status(200).json({
         success: true,
@@ -195,20 +362,25 @@ class CommentController {
 
       // Find comment
       const comment = await Comment.findById(commentId);
-      if (!comment) {
+      if (!comment || comment.deleted) {
         throw createError('Comment not found', 404);
       }
 
       // Verify ownership
-      if (comment.userId.toString() !== userId) {
+      if (comment.userId?.toString() !== userId) {
         throw createError('You can only edit your own comments', 403);
       }
 
-      // Update comment
+      // Update comment; the new content is no longer what a moderator approved
       comment.content = content.trim();
       comment.edited = true;
+      comment.approvedAt = null;
       await comment.save();
 
+      if ((comment.reportCount || 0) > 0) {
+        await CommentReport.updateCommentReports(commentId, environment.get('commentReportHideThreshold'));
+      }
+
       // Populate user data
       await comment.populate('userId', 'firstName lastName avatar');
 
@@ -224,7 +396,8 @@ class CommentController {
 
   /**
    * @method deleteComment
-   * @description Delete a comment (only by the comment author)
+   * @description Delete a comment (only by the comment author). A comment with replies is kept
+   * as a "comment removed" tombstone so the replies stay in their thread.
    * @route DELETE /api/comments/:commentId
    * @access Protected
    * @param {IAuthenticatedRequest} req - Express request with authenticated user
@@ -247,28 +420,218 @@ class CommentController {
 
       // Find comment
       const comment = await Comment.findById(commentId);
-      if (!comment) {
+      if (!comment || comment.deleted) {
         throw createError('Comment not found', 404);
       }
 
       // Verify ownership
-      if (comment.userId.toString() !== userId) {
+      if (comment.userId?.toString() !== userId) {
         throw createError('You can only delete your own comments', 403);
       }
 
-      // Delete comment
-      await Comment.findByIdAndDelete(commentId);
+      // Delete comment, or leave a tombstone when it has replies
+      const removal = await Comment.removeComment(comment);
 
       res.status(200).json({
         success: true,
         message: 'Comment deleted successfully',
-        data: null,
+        data: { tombstoned: removal === 'tombstoned' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * @method reportComment
+   * @description Report a comment to the moderators. Once COMMENT_REPORT_HIDE_THRESHOLD distinct
+   * users have reported it, the comment is hidden until a moderator reviews it.
+   * @route POST /api/comments/:commentId/report
+   * @access Protected
+   * @param {IAuthenticatedRequest} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public reportComment = async (
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { commentId } = req.params;
+      const { reason, details } = req.body || {};
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw createError('Authentication required', 401);
+      }
+
+      if (!COMMENT_REPORT_REASONS.includes(reason as CommentReportReason)) {
+        throw createError(`Reason must be one of: ${COMMENT_REPORT_REASONS.join(', ')}`, 400);
+      }
+
+      if (details !== undefined && details !== null && typeof details !== 'string') {
+        throw createError('Report details must be a string', 400);
+      }
+
+      if (reason === 'other' && !details?.trim()) {
+        throw createError('Please describe the problem when the reason is "other"', 400);
+      }
+
+      // Find comment
+      const comment = await Comment.findById(commentId);
+      if (!comment || comment.deleted) {
+        throw createError('Comment not found', 404);
+      }
+
+      if (comment.userId?.toString() === userId) {
+        throw createError('You cannot report your own comment', 400);
+      }
+
+      const existing = await CommentReport.exists({ commentId, reporterId: userId });
+      if (existing) {
+        throw createError('You have already reported this comment', 409);
+      }
+
+      await CommentReport.create({
+        commentId,
+        reporterId: userId,
+        reason,
+        details: details?.trim() || null,
+      });
+
+      await CommentReport.updateCommentReports(commentId, environment.get('commentReportHideThreshold'));
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment reported; thank you for helping keep the community safe',
+        data: { commentId, reason },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * @method addReaction
+   * @description React to a comment (each reaction type at most once per user)
+   * @route PUT /api/comments/:commentId/reactions/:type
+   * @access Protected
+   * @param {IAuthenticatedRequest} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public addReaction = async (
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { commentId, type } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw createError('Authentication required', 401);
+      }
+
+      if (!COMMENT_REACTIONS.includes(type as CommentReactionType)) {
+        throw createError(`Invalid reaction: ${type}. Valid values are: ${COMMENT_REACTIONS.join(', ')}`, 400);
+      }
+
+      // Find comment
+      const comment = await Comment.findById(commentId);
+      if (!comment || comment.deleted) {
+        throw createError('Comment not found', 404);
+      }
+
+      // Upsert so reacting twice with the same type is a no-op
+      const result = await CommentReaction.updateOne(
+        { commentId, userId, type },
+        { $setOnInsert: { commentId, userId, type } },
+        { upsert: true, runValidators: true }
+      );
+
+      if (result.upsertedCount > 0) {
+        await CommentReaction.updateCommentCounts(commentId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Reaction added successfully',
+        data: await this.buildReactionState(commentId, userId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * @method removeReaction
+   * @description Remove one of the user's reactions from a comment
+   * @route DELETE /api/comments/:commentId/reactions/:type
+   * @access Protected
+   * @param {IAuthenticatedRequest} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public removeReaction = async (
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { commentId, type } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw createError('Authentication required', 401);
+      }
+
+      if (!COMMENT_REACTIONS.includes(type as CommentReactionType)) {
+        throw createError(`Invalid reaction: ${type}. Valid values are: ${COMMENT_REACTIONS.join(', ')}`, 400);
+      }
+
+      const reaction = await CommentReaction.findOneAndDelete({ commentId, userId, type });
+      if (!reaction) {
+        throw createError('Reaction not found', 404);
+      }
+
+      await CommentReaction.updateCommentCounts(commentId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Reaction removed successfully',
+        data: await this.buildReactionState(commentId, userId),
       });
     } catch (error) {
       next(error);
     }
   };
 
+  /**
+   * @method buildReactionState
+   * @description Reads a comment's reaction counts and the user's own reactions after a change
+   * @param {string} commentId - Comment ID
+   * @param {string} userId - User ID
+   * @returns {Promise<Record<string, unknown>>} Reaction state
+   * @private
+   */
+  private async buildReactionState(commentId: string, userId: string): Promise<Record<string, unknown>> {
+    const [comment, reactions] = await Promise.all([
+      Comment.findById(commentId).select('reactionCounts').lean(),
+      CommentReaction.getUserReactions(userId, [commentId]),
+    ]);
+
+    return {
+      commentId,
+      reactionCounts: comment?.reactionCounts,
+      myReactions: reactions.get(commentId) || [],
+    };
+  }
+
   /**
    * @method getCommentById
    * @description Get a single comment by ID
@@ -296,10 +659,15 @@ class CommentController {
         throw createError('Comment not found', 404);
       }
 
+      const userId = req.user?.userId;
+      const myReactions = userId
+        ? (await CommentReaction.getUserReactions(userId, [commentId])).get(commentId) || []
+        : undefined;
+
       res.status(200).json({
         success: true,
         message: 'Comment retrieved successfully',
-        data: comment,
+        data: myReactions ? { ...comment.toJSON(), myReactions } : comment,
       });
     } catch (error) {
       next(error);
@@ -330,8 +698,8 @@ class CommentController {
         throw createError('Movie not found', 404);
       }
 
-      // Count comments
-      const count = await Comment.countDocuments({ movieId });
+      // Count comments, replies included, but not removed ones
+      const count = await Comment.countDocuments({ movieId, deleted: { $ne: true } });
 
       res.status(200).json({
         success: true,
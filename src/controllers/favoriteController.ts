@@ -11,6 +11,8 @@ import { Favorite, IFavoriteDocument } from '../models/Favorite';
 import { Movie } from '../models/Movie';
 import { IAuthenticatedRequest, IApiResponse } from '../types';
 import { createError } from '../middleware/errorHandler';
+import { trendingService } from '../services/trendingService';
+import { formatPagination, paginate, parsePagination } from '../utils/pagination';
 
 /**
  * @class FavoriteController
@@ -66,6 +68,7 @@ export class FavoriteController {
       });
 
       await favorite.save();
+      await trendingService.record(movieId, 'favorite');
 
       const response: IApiResponse = {
         success: true,
@@ -97,31 +100,23 @@ export class FavoriteController {
   ): Promise<void> {
     try {
       const userId = req.user?.userId;
-      const { page = 1, limit = 12 } = req.query as any;
 
       // Validate userId from token
       if (!userId) {
         throw createError('User not authenticated', 401);
       }
 
-      // Parse pagination
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
+      // Parse pagination (page number or cursor)
+      const pagination = parsePagination(req.query);
 
-      // Validate pagination
-      if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
-        throw createError('Invalid pagination parameters', 400);
-      }
-
-      // Get favorites with movie data populated
-      const [favorites, total] = await Promise.all([
-        Favorite.find({ userId })
-          .sort({ createdAt: -1 })
-          .limit(limitNum)
-          .skip((pageNum - 1) * limitNum)
-          .lean(),
-        Favorite.countDocuments({ userId }),
-      ]);
+      // Get favorites
+      const result = await paginate<IFavoriteDocument>(
+        Favorite,
+        { userId },
+        { field: 'createdAt', order: -1 },
+        pagination
+      );
+      const favorites = result.items;
 
       // Get movie details for each favorite
       const movieIds = favorites.map((fav) => fav.movieId);
@@ -160,21 +155,12 @@ export class FavoriteController {
         })
         .filter((item) => item !== null);
 
-      const totalPages = Math.ceil(total / limitNum);
-
       const response: IApiResponse = {
         success: true,
         message: `Retrieved ${favoritesWithMovies.length} favorite(s)`,
         data: {
           favorites: favoritesWithMovies,
-          pagination: {
-            currentPage: pageNum,
-            totalPages,
-            totalFavorites: total,
-            favoritesPerPage: limitNum,
-            hasNextPage: pageNum < totalPages,
-            hasPrevPage: pageNum > 1,
-          },
+          pagination: formatPagination(result, 'favorites'),
         },
       };
 
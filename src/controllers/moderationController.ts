@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Moderation controller
+ * @description Handles the moderation queue of reported comments: listing them and approving,
+ * removing or banning their authors. Every decision is recorded in the audit log with its reason
+ * before it is applied.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Response, NextFunction } from 'express';
+import Comment, { ICommentDocument } from '../models/Comment';
+import { CommentReport } from '../models/CommentReport';
+import { User } from '../models/User';
+import { Session } from '../models/Session';
+import { Movie } from '../models/Movie';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { auditService } from '../services/auditService';
+import { emailService } from '../services/emailService';
+import { createError } from '../middleware/errorHandler';
+import { DEFAULT_LANGUAGE } from '../config/i18n';
+import { formatPagination, ISortSpec, paginate, parsePagination } from '../utils/pagination';
+
+/**
+ * @const QUEUE_SORTS
+ * @description Sort field and order of each moderation queue sort
+ */
+const QUEUE_SORTS: Record<string, ISortSpec> = {
+  reports: { field: 'reportCount', order: -1 },
+  recent: { field: 'lastReportedAt', order: -1 },
+};
+
+/**
+ * @const QUEUE_STATUSES
+ * @description Visibility filters of the moderation queue
+ */
+const QUEUE_STATUSES: Record<string, Record<string, any>> = {
+  all: {},
+  hidden: { hidden: true },
+  visible: { hidden: { $ne: true } },
+};
+
+/**
+ * @class ModerationController
+ * @description Handles comment moderation operations
+ */
+class ModerationController {
+  /**
+   * @method listReportedComments
+   * @description Lists the comments with open reports, with their content, author, movie and a
+   * summary of the reports
+   * @route GET /api/moderation/comments
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async listReportedComments(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { status = 'all', sort = 'reports' } = req.query as Record<string, string>;
+      const pagination = parsePagination(req.query, { defaultLimit: 20 });
+
+      if (!QUEUE_STATUSES[status]) {
+        throw createError(`Status must be one of: ${Object.keys(QUEUE_STATUSES).join(', ')}`, 400);
+      }
+
+      if (!QUEUE_SORTS[sort]) {
+        throw createError(`Sort must be one of: ${Object.keys(QUEUE_SORTS).join(', ')}`, 400);
+      }
+
+      const result = await paginate<ICommentDocument>(
+        Comment,
+        { reportCount: { $gt: 0 }, deleted: { $ne: true }, ...QUEUE_STATUSES[status] },
+        QUEUE_SORTS[sort],
+        pagination,
+        (query) =>
+          query.populate('userId', 'firstName lastName email role isActive').populate('movieId', 'title')
+      );
+
+      const summaries = await CommentReport.summarizeOpenReports(
+        result.items.map((comment) => comment._id.toString())
+      );
+
+      const comments = result.items.map((comment) => ({
+        ...comment,
+        reports: summaries.get(comment._id.toString()) || { reasons: {}, recent: [] },
+      }));
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${comments.length} reported comment(s)`,
+        data: {
+          comments,
+          pagination: formatPagination(result, 'comments'),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method approveComment
+   * @description Keeps a reported comment: closes its open reports, makes it visible again and
+   * stops further reports from hiding it until it is edited
+   * @route POST /api/moderation/comments/:commentId/approve
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async approveComment(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const reason = this.parseReason(req.body?.reason, false);
+      const comment = await this.findReportedComment(req.params.commentId);
+
+      await auditService.record(req, 'comment.approve', 'comment', comment._id.toString(), {
+        reason,
+        authorId: comment.userId,
+        openReports: comment.reportCount || 0,
+        wasHidden: comment.hidden || false,
+      });
+
+      const resolvedReports = await CommentReport.resolveOpenReports(
+        comment._id.toString(),
+        'approved',
+        req.user!.userId
+      );
+
+      await Comment.updateOne(
+        { _id: comment._id },
+        { $set: { reportCount: 0, lastReportedAt: null, hidden: false, approvedAt: new Date() } },
+        { timestamps: false }
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Comment approved',
+        data: {
+          commentId: comment._id,
+          resolvedReports,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method removeComment
+   * @description Removes a reported comment, closes its reports and notifies the author by email
+   * @route POST /api/moderation/comments/:commentId/remove
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async removeComment(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const reason = this.parseReason(req.body?.reason, true)!;
+      const comment = await this.findReportedComment(req.params.commentId);
+
+      const result = await this.removeReportedComment(req, comment, reason);
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Comment removed',
+        data: {
+          commentId: comment._id,
+          ...result,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method banUser
+   * @description Removes a reported comment like removeComment, then deactivates its author and
+   * signs them out of every session
+   * @route POST /api/moderation/comments/:commentId/ban-user
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async banUser(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const reason = this.parseReason(req.body?.reason, true)!;
+      const comment = await this.findReportedComment(req.params.commentId);
+
+      const author = await User.findById(comment.userId);
+      if (!author) {
+        throw createError('Comment author not found', 404);
+      }
+
+      if (author._id.toString() === req.user!.userId) {
+        throw createError('You cannot ban yourself', 400);
+      }
+
+      if (author.role !== 'user') {
+        throw createError('Only regular users can be banned; ask an admin to change their role first', 403);
+      }
+
+      if (!author.isActive) {
+        throw createError('User account is already inactive', 400);
+      }
+
+      await auditService.record(req, 'user.ban', 'user', author._id.toString(), {
+        reason,
+        commentId: comment._id.toString(),
+      });
+
+      const result = await this.removeReportedComment(req, comment, reason);
+
+      author.isActive = false;
+      await author.save({ validateBeforeSave: false });
+
+      const revokedSessions = await Session.revokeUserSessions(
+        author._id.toString(),
+        'account_deactivated'
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Comment removed and user banned',
+        data: {
+          commentId: comment._id,
+          userId: author._id,
+          revokedSessions,
+          ...result,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method removeReportedComment
+   * @description Records the decision, closes the open reports of a comment, removes it (leaving a
+   * tombstone when it has replies) and emails the author
+   * @param {IAuthenticatedRequest} req - Request of the moderator
+   * @param {ICommentDocument} comment - Comment to remove
+   * @param {string} reason - Moderator's reason
+   * @returns {Promise<{resolvedReports: number, tombstoned: boolean, authorNotified: boolean}>}
+   * @private
+   */
+  private async removeReportedComment(
+    req: IAuthenticatedRequest,
+    comment: ICommentDocument,
+    reason: string
+  ): Promise<{ resolvedReports: number; tombstoned: boolean; authorNotified: boolean }> {
+    const commentId = comment._id.toString();
+
+    // Keep what was removed for the record; the comment itself may be deleted
+    const { content, userId: authorId, movieId } = comment;
+
+    await auditService.record(req, 'comment.remove', 'comment', commentId, {
+      reason,
+      authorId,
+      movieId,
+      content,
+      openReports: comment.reportCount || 0,
+    });
+
+    const resolvedReports = await CommentReport.resolveOpenReports(commentId, 'removed', req.user!.userId);
+    const removal = await Comment.removeComment(comment);
+
+    const [author, movie] = await Promise.all([
+      User.findById(authorId).select('email firstName'),
+      Movie.findById(movieId).select('title'),
+    ]);
+
+    const authorNotified = author
+      ? await emailService.sendCommentRemovedEmail(
+          author.email,
+          author.firstName,
+          movie?.title || '',
+          reason,
+          DEFAULT_LANGUAGE
+        )
+      : false;
+
+    return { resolvedReports, tombstoned: removal === 'tombstoned', authorNotified };
+  }
+
+  /**
+   * @method findReportedComment
+   * @description Loads a comment that can be moderated
+   * @param {string} commentId - Comment ID
+   * @returns {Promise<ICommentDocument>} Comment
+   * @throws {Error} 404 when the comment does not exist or was removed
+   * @private
+   */
+  private async findReportedComment(commentId: string): Promise<ICommentDocument> {
+    const comment = await Comment.findById(commentId);
+
+    if (!comment || comment.deleted) {
+      throw createError('Comment not found', 404);
+    }
+
+    return comment;
+  }
+
+  /**
+   * @method parseReason
+   * @description Validates the reason given for a moderation decision
+   * @param {unknown} value - Reason from the request body
+   * @param {boolean} required - Whether the decision needs a reason
+   * @returns {string | null} Trimmed reason, or null when optional and not given
+   * @throws {Error} 400 when the reason is missing, not a string or too long
+   * @private
+   */
+  private parseReason(value: unknown, required: boolean): string | null {
+    if (value === undefined || value === null || value === '') {
+      if (required) {
+        throw createError('A reason is required for this decision', 400);
+      }
+      return null;
+    }
+
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw createError('Reason must be a non-empty string', 400);
+    }
+
+    if (value.trim().length > 500) {
+      throw createError('Reason cannot exceed 500 characters', 400);
+    }
+
+    return value.trim();
+  }
+}
+
+export const moderationController = new ModerationController();
+export default moderationController;
@@ -7,9 +7,29 @@
  */
 
 import { Response, NextFunction } from 'express';
-import { Movie, IMovieDocument } from '../models/Movie';
-import { IAuthenticatedRequest, IApiResponse, IMovieQuery, MovieGenre } from '../types';
+import {
+  Movie,
+  IMovieDocument,
+  sanitizeTextSearch,
+  VALID_GENRES,
+  VALID_VIDEO_PROVIDERS,
+} from '../models/Movie';
+import { IAuthenticatedRequest, IApiResponse, IMovie, MovieGenre } from '../types';
 import { createError } from '../middleware/errorHandler';
+import { getLanguage } from '../middleware/language';
+import { formatPagination, paginate, parsePagination } from '../utils/pagination';
+import { suggestionService } from '../services/suggestionService';
+import { trendingService, TrendingWindow, TRENDING_MAX_LIMIT, TRENDING_WINDOWS } from '../services/trendingService';
+import { viewService } from '../services/viewService';
+import { similarMoviesService, MAX_SIMILAR } from '../services/similarMoviesService';
+import {
+  catalogService,
+  IBrowseFilters,
+  INumberRange,
+  SubtitleLanguage,
+  SUBTITLE_LANGUAGES,
+  BROWSE_SORT_FIELDS,
+} from '../services/catalogService';
 
 /**
  * @class MovieController
@@ -28,23 +48,10 @@ export class MovieController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const {
-        page = 1,
-        limit = 12,
-        genre,
-        minRating,
-        sortBy = 'createdAt',
-        sortOrder = 'desc',
-      } = req.query as any;
-
-      // Parse pagination parameters
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
+      const { genre, minRating, sortBy = 'createdAt', sortOrder = 'desc' } = req.query as any;
 
-      // Validate pagination
-      if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
-        throw createError('Invalid pagination parameters', 400);
-      }
+      // Parse pagination parameters (page number or cursor)
+      const pagination = parsePagination(req.query);
 
       // Build query
       const query: any = { isActive: true };
@@ -63,25 +70,82 @@ export class MovieController {
         }
       }
 
-      // Build sort object
-      const sortOptions: any = {};
-      const validSortFields = ['title', 'createdAt', 'averageRating', 'views', 'releaseYear'];
+      // Build sort
+      const validSortFields = ['title', 'createdAt', 'averageRating', 'weightedRating', 'views', 'releaseYear'];
+      const sort = validSortFields.includes(sortBy as string)
+        ? { field: sortBy as string, order: (sortOrder === 'asc' ? 1 : -1) as 1 | -1 }
+        : { field: 'createdAt', order: -1 as const }; // Default sort
+
+      // Execute query with pagination
+      const result = await paginate<IMovieDocument>(Movie, query, sort, pagination);
+      const movies = result.items;
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${movies.length} movie(s)`,
+        data: {
+          movies,
+          pagination: formatPagination(result, 'movies'),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      if (validSortFields.includes(sortBy as string)) {
-        sortOptions[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
-      } else {
-        sortOptions.createdAt = -1; // Default sort
+  /**
+   * @method browseMovies
+   * @description Faceted catalog browsing: filters movies by genre (any/all), release year,
+   * duration, rating, director, cast member, video provider and subtitle language, and returns
+   * the page of movies together with facet counts for every filter dimension
+   * @route GET /api/movies/browse
+   * @access Public
+   */
+  public async browseMovies(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as any;
+      const { page = 1, limit = 12, sortBy = 'createdAt', sortOrder = 'desc', genreMode = 'any' } = query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate pagination
+      if (isNaN(pageNum) || isNaN(limitNum) || pageNum < 1 || limitNum < 1 || limitNum > 100) {
+        throw createError('Invalid pagination parameters', 400);
       }
 
-      // Execute query with pagination
-      const [movies, total] = await Promise.all([
-        Movie.find(query)
-          .sort(sortOptions)
-          .limit(limitNum)
-          .skip((pageNum - 1) * limitNum)
-          .lean(),
-        Movie.countDocuments(query),
-      ]);
+      if (!BROWSE_SORT_FIELDS.includes(sortBy)) {
+        throw createError(`Invalid sort field. Valid fields are: ${BROWSE_SORT_FIELDS.join(', ')}`, 400);
+      }
+
+      if (genreMode !== 'any' && genreMode !== 'all') {
+        throw createError('genreMode must be "any" or "all"', 400);
+      }
+
+      const filters: IBrowseFilters = {
+        genres: this.parseListParam(query.genre, 'genre', VALID_GENRES) as MovieGenre[],
+        genreMode,
+        releaseYear: this.parseRangeParam(query.yearMin, query.yearMax, 'year', 1888, new Date().getFullYear() + 2),
+        duration: this.parseRangeParam(query.durationMin, query.durationMax, 'duration', 1, 600),
+        rating: this.parseRangeParam(query.ratingMin, query.ratingMax, 'rating', 0, 5),
+        directors: this.parseListParam(query.director),
+        cast: this.parseListParam(query.cast),
+        videoProviders: this.parseListParam(query.videoProvider, 'videoProvider', VALID_VIDEO_PROVIDERS),
+        subtitles: this.parseListParam(query.subtitle, 'subtitle', SUBTITLE_LANGUAGES) as SubtitleLanguage[],
+      };
+
+      const { movies, total, facets } = await catalogService.browse(filters, {
+        page: pageNum,
+        limit: limitNum,
+        sortBy,
+        sortOrder: sortOrder === 'asc' ? 1 : -1,
+      });
 
       const totalPages = Math.ceil(total / limitNum);
 
@@ -90,6 +154,8 @@ export class MovieController {
         message: `Retrieved ${movies.length} movie(s)`,
         data: {
           movies,
+          facets,
+          filters,
           pagination: {
             currentPage: pageNum,
             totalPages,
@@ -144,9 +210,61 @@ export class MovieController {
     }
   }
 
+  /**
+   * @method getSimilarMovies
+   * @description Get the movies most similar to a movie ("more like this")
+   * @route GET /api/movies/:id/similar
+   * @access Public
+   */
+  public async getSimilarMovies(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { limit = 10 } = req.query as any;
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid movie ID format', 400);
+      }
+
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate limit
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > MAX_SIMILAR) {
+        throw createError(`Limit must be between 1 and ${MAX_SIMILAR}`, 400);
+      }
+
+      const movie = await Movie.findOne({ _id: id, isActive: true }).lean<IMovie & { _id: string }>();
+
+      if (!movie) {
+        throw createError('Movie not found', 404);
+      }
+
+      const movies = await similarMoviesService.getSimilar(movie, limitNum);
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${movies.length} similar movie(s)`,
+        data: {
+          movieId: id,
+          movies,
+          count: movies.length,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method searchMovies
-   * @description Search movies by title or description
+   * @description Search movies by title, director, cast or description, ranked by relevance.
+   * Search terms are stemmed in the request language (Accept-Language).
    * @route GET /api/movies/search
    * @access Public
    */
@@ -162,6 +280,10 @@ export class MovieController {
         throw createError('Search query must be at least 2 characters', 400);
       }
 
+      if (!sanitizeTextSearch(q)) {
+        throw createError('Search query must contain letters or numbers', 400);
+      }
+
       const pageNum = parseInt(page as string, 10);
       const limitNum = parseInt(limit as string, 10);
 
@@ -170,26 +292,7 @@ export class MovieController {
         throw createError('Invalid pagination parameters', 400);
       }
 
-      // Search using text index or regex
-      const searchRegex = new RegExp(q.trim(), 'i');
-      const query = {
-        isActive: true,
-        $or: [
-          { title: searchRegex },
-          { description: searchRegex },
-          { director: searchRegex },
-          { cast: searchRegex },
-        ],
-      };
-
-      const [movies, total] = await Promise.all([
-        Movie.find(query)
-          .sort({ averageRating: -1, views: -1 })
-          .limit(limitNum)
-          .skip((pageNum - 1) * limitNum)
-          .lean(),
-        Movie.countDocuments(query),
-      ]);
+      const { movies, total } = await Movie.textSearch(q, getLanguage(req), pageNum, limitNum);
 
       const totalPages = Math.ceil(total / limitNum);
 
@@ -214,6 +317,52 @@ export class MovieController {
     }
   }
 
+  /**
+   * @method suggestMovies
+   * @description Autocomplete for the search box: titles, directors and cast members with a word
+   * starting with the query, grouped by type and with the matched part highlighted. Accents and
+   * case are ignored.
+   * @route GET /api/movies/suggest
+   * @access Public
+   */
+  public async suggestMovies(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { q, limit = 5 } = req.query as any;
+
+      if (!q || typeof q !== 'string' || q.trim().length < 2) {
+        throw createError('Search query must be at least 2 characters', 400);
+      }
+
+      const limitNum = parseInt(limit as string, 10);
+
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 10) {
+        throw createError('Limit must be between 1 and 10', 400);
+      }
+
+      const suggestions = await suggestionService.suggest(q.slice(0, 100), limitNum);
+
+      // Identical prefixes are typed by many users; let browsers and CDNs reuse the answer briefly
+      res.set('Cache-Control', 'public, max-age=60');
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Suggestions retrieved successfully',
+        data: {
+          query: q,
+          suggestions,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method getMoviesByGenre
    * @description Get movies filtered by genre(s)
@@ -321,7 +470,7 @@ export class MovieController {
 
   /**
    * @method getTopRatedMovies
-   * @description Get top-rated movies
+   * @description Get top-rated movies, ranked by weighted rating
    * @route GET /api/movies/top-rated
    * @access Public
    */
@@ -331,16 +480,21 @@ export class MovieController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { limit = 10 } = req.query as any;
+      const { limit = 10, genre } = req.query as any;
 
       const limitNum = parseInt(limit as string, 10);
 
       // Validate limit
-      if (limitNum < 1 || limitNum > 50) {
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 50) {
         throw createError('Limit must be between 1 and 50', 400);
       }
 
-      const movies = await Movie.getTopRated(limitNum);
+      // Validate genre
+      if (genre !== undefined && !VALID_GENRES.includes(genre as MovieGenre)) {
+        throw createError(`Invalid genre: ${genre}. Valid values are: ${VALID_GENRES.join(', ')}`, 400);
+      }
+
+      const movies = await Movie.getTopRated(limitNum, genre as MovieGenre | undefined);
 
       const response: IApiResponse = {
         success: true,
@@ -357,6 +511,99 @@ export class MovieController {
     }
   }
 
+  /**
+   * @method getTrendingMovies
+   * @description Get movies with the most recent activity, weighted by how recent it is
+   * @route GET /api/movies/trending
+   * @access Public
+   */
+  public async getTrendingMovies(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { window = '7d', limit = 10, genre } = req.query as any;
+
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate limit
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > TRENDING_MAX_LIMIT) {
+        throw createError(`Limit must be between 1 and ${TRENDING_MAX_LIMIT}`, 400);
+      }
+
+      // Validate window
+      const windows = Object.keys(TRENDING_WINDOWS);
+      if (!windows.includes(window as string)) {
+        throw createError(`Invalid window: ${window}. Valid values are: ${windows.join(', ')}`, 400);
+      }
+
+      // Validate genre
+      if (genre !== undefined && !VALID_GENRES.includes(genre as MovieGenre)) {
+        throw createError(`Invalid genre: ${genre}. Valid values are: ${VALID_GENRES.join(', ')}`, 400);
+      }
+
+      const movies = await trendingService.getTrending(
+        window as TrendingWindow,
+        limitNum,
+        genre as MovieGenre | undefined
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${movies.length} trending movie(s)`,
+        data: {
+          window,
+          genre: genre || null,
+          movies,
+          count: movies.length,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getTopRatedByGenre
+   * @description Get the top-rated movies of every genre
+   * @route GET /api/movies/top-rated/genres
+   * @access Public
+   */
+  public async getTopRatedByGenre(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { limit = 5 } = req.query as any;
+
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate limit
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 20) {
+        throw createError('Limit must be between 1 and 20', 400);
+      }
+
+      const genres = await Movie.getTopRatedByGenre(limitNum);
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved top-rated movies for ${genres.length} genre(s)`,
+        data: {
+          genres,
+          count: genres.length,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method getRecentMovies
    * @description Get recently added movies
@@ -397,9 +644,11 @@ export class MovieController {
 
   /**
    * @method incrementMovieViews
-   * @description Increment view counter for a movie
+   * @description Player heartbeat for a movie. Credits the playback time since the viewer's
+   * previous heartbeat and increments the view counter once the viewer has watched long enough and
+   * has not been counted within the dedup window.
    * @route POST /api/movies/:id/view
-   * @access Public (but could be protected if needed)
+   * @access Public (signed-in viewers are identified by user ID)
    */
   public async incrementMovieViews(
     req: IAuthenticatedRequest,
@@ -408,27 +657,45 @@ export class MovieController {
   ): Promise<void> {
     try {
       const { id } = req.params;
+      const { position } = req.body || {};
 
       // Validate ObjectId format
       if (!id.match(/^[0-9a-fA-F]{24}$/)) {
         throw createError('Invalid movie ID format', 400);
       }
 
+      // Validate playback position
+      if (typeof position !== 'number' || !Number.isFinite(position) || position < 0) {
+        throw createError('Position must be a non-negative number of seconds', 400);
+      }
+
       const movie = await Movie.findOne({ _id: id, isActive: true });
 
       if (!movie) {
         throw createError('Movie not found', 404);
       }
 
-      // Increment views
-      await movie.incrementViews();
+      const result = await viewService.recordHeartbeat(
+        movie,
+        {
+          userId: req.user?.userId,
+          ip: req.ip || 'unknown',
+          userAgent: req.get('user-agent') || '',
+        },
+        position
+      );
 
       const response: IApiResponse = {
         success: true,
-        message: 'Movie view recorded successfully',
+        message: result.counted ? 'Movie view recorded successfully' : 'Movie view not counted',
         data: {
           movieId: movie._id,
-          views: movie.views,
+          views: result.views,
+          counted: result.counted,
+          reason: result.reason,
+          ...(result.reason === 'too_short' && {
+            minWatchSeconds: viewService.getMinWatchSeconds(movie),
+          }),
         },
       };
 
@@ -534,7 +801,7 @@ export class MovieController {
 
   /**
    * @method createMovie
-   * @description Create a new movie (ADMIN only - future implementation)
+   * @description Create a new movie (ADMIN only)
    * @route POST /api/movies
    * @access Private/Admin
    */
@@ -575,7 +842,7 @@ export class MovieController {
 
   /**
    * @method updateMovie
-   * @description Update an existing movie (ADMIN only - future implementation)
+   * @description Update an existing movie (ADMIN only)
    * @route PUT /api/movies/:id
    * @access Private/Admin
    */
@@ -596,7 +863,10 @@ export class MovieController {
       // Don't allow updating certain fields
       delete updateData.averageRating;
       delete updateData.totalRatings;
+      delete updateData.weightedRating;
       delete updateData.views;
+      delete updateData.searchTokens;
+      delete updateData.searchDocuments;
       delete updateData.createdAt;
       delete updateData.updatedAt;
 
@@ -610,6 +880,10 @@ export class MovieController {
         throw createError('Movie not found', 404);
       }
 
+      // Genres, director, cast or year may have changed, and the movie may appear in the cached
+      // similar movies of any other movie
+      await similarMoviesService.invalidateAll();
+
       const response: IApiResponse = {
         success: true,
         message: 'Movie updated successfully',
@@ -624,7 +898,7 @@ export class MovieController {
 
   /**
    * @method deleteMovie
-   * @description Soft delete a movie (ADMIN only - future implementation)
+   * @description Soft delete a movie (ADMIN only)
    * @route DELETE /api/movies/:id
    * @access Private/Admin
    */
@@ -652,6 +926,9 @@ export class MovieController {
         throw createError('Movie not found', 404);
       }
 
+      // The movie may appear in the cached similar movies of any other movie
+      await similarMoviesService.invalidateAll();
+
       const response: IApiResponse = {
         success: true,
         message: 'Movie deleted successfully',
@@ -666,6 +943,80 @@ export class MovieController {
       next(error);
     }
   }
+
+  /**
+   * @method parseListParam
+   * @description Parses a filter given as comma-separated values and/or a repeated parameter
+   * @param {unknown} value - Query parameter value
+   * @param {string} name - Parameter name, used in error messages
+   * @param {readonly string[]} allowed - Valid values (optional)
+   * @returns {string[]} Unique values
+   * @throws {Error} 400 when a value is not allowed
+   * @private
+   */
+  private parseListParam(value: unknown, name?: string, allowed?: readonly string[]): string[] {
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+
+    const values = (Array.isArray(value) ? value : [value])
+      .flatMap((item) => String(item).split(','))
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+    if (allowed) {
+      const invalid = values.filter((item) => !allowed.includes(item));
+      if (invalid.length > 0) {
+        throw createError(
+          `Invalid ${name}: ${invalid.join(', ')}. Valid values are: ${allowed.join(', ')}`,
+          400
+        );
+      }
+    }
+
+    return [...new Set(values)];
+  }
+
+  /**
+   * @method parseRangeParam
+   * @description Parses an optional numeric range filter
+   * @param {unknown} minValue - Lower bound parameter
+   * @param {unknown} maxValue - Upper bound parameter
+   * @param {string} name - Range name, used in error messages
+   * @param {number} lowest - Lowest valid value
+   * @param {number} highest - Highest valid value
+   * @returns {INumberRange} Parsed range
+   * @throws {Error} 400 when a bound is not a number, out of bounds, or min exceeds max
+   * @private
+   */
+  private parseRangeParam(
+    minValue: unknown,
+    maxValue: unknown,
+    name: string,
+    lowest: number,
+    highest: number
+  ): INumberRange {
+    const parseBound = (value: unknown): number | undefined => {
+      if (value === undefined || value === '') {
+        return undefined;
+      }
+
+      const number = parseFloat(String(value));
+      if (isNaN(number) || number < lowest || number > highest) {
+        throw createError(`Invalid ${name} range. Values must be between ${lowest} and ${highest}`, 400);
+      }
+
+      return number;
+    };
+
+    const range: INumberRange = { min: parseBound(minValue), max: parseBound(maxValue) };
+
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      throw createError(`Invalid ${name} range. Minimum cannot exceed maximum`, 400);
+    }
+
+    return range;
+  }
 }
 
 // Export singleton instance
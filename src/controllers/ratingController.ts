@@ -8,9 +8,22 @@
 
 import { Response, NextFunction } from 'express';
 import { Rating, IRatingDocument } from '../models/Rating';
+import { ReviewVote } from '../models/ReviewVote';
 import { Movie } from '../models/Movie';
-import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { IAuthenticatedRequest, IApiResponse, IReview } from '../types';
 import { createError } from '../middleware/errorHandler';
+import { getLanguage } from '../middleware/language';
+import { trendingService } from '../services/trendingService';
+import { formatPagination, paginate, parsePagination } from '../utils/pagination';
+
+/**
+ * @const REVIEW_SORTS
+ * @description Sort orders for a movie's reviews and the field each one sorts on
+ */
+const REVIEW_SORTS: Record<string, string> = {
+  helpful: 'helpfulness',
+  recent: 'reviewedAt',
+};
 
 /**
  * @class RatingController
@@ -19,7 +32,7 @@ import { createError } from '../middleware/errorHandler';
 export class RatingController {
   /**
    * @method createRating
-   * @description Create or update a rating for a movie
+   * @description Create or update a rating for a movie, optionally with a written review
    * @route POST /api/ratings
    * @access Private (requires authentication)
    */
@@ -31,6 +44,7 @@ export class RatingController {
     try {
       const userId = req.user?.userId;
       const { movieId, rating } = req.body;
+      const review = this.parseReview(req.body.review, req);
 
       // Validate userId from token
       if (!userId) {
@@ -64,8 +78,15 @@ export class RatingController {
       if (existingRating) {
         // Update existing rating
         existingRating.rating = rating;
+        if (review !== undefined) {
+          existingRating.review = review;
+        }
         await existingRating.save();
 
+        if (review === null) {
+          await ReviewVote.deleteMany({ ratingId: existingRating._id });
+        }
+
         const response: IApiResponse = {
           success: true,
           message: 'Rating updated successfully',
@@ -74,6 +95,7 @@ export class RatingController {
             movieId: existingRating.movieId,
             movieTitle: movie.title,
             rating: existingRating.rating,
+            review: existingRating.review || null,
             updatedAt: existingRating.updatedAt,
           },
         };
@@ -85,9 +107,11 @@ export class RatingController {
           userId,
           movieId,
           rating,
+          review: review || null,
         });
 
         await newRating.save();
+        await trendingService.record(movieId, 'rating');
 
         const response: IApiResponse = {
           success: true,
@@ -97,6 +121,7 @@ export class RatingController {
             movieId: newRating.movieId,
             movieTitle: movie.title,
             rating: newRating.rating,
+            review: newRating.review || null,
             createdAt: newRating.createdAt,
           },
         };
@@ -121,31 +146,23 @@ export class RatingController {
   ): Promise<void> {
     try {
       const userId = req.user?.userId;
-      const { page = 1, limit = 12 } = req.query as any;
 
       // Validate userId from token
       if (!userId) {
         throw createError('User not authenticated', 401);
       }
 
-      // Parse pagination
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
-
-      // Validate pagination
-      if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
-        throw createError('Invalid pagination parameters', 400);
-      }
+      // Parse pagination (page number or cursor)
+      const pagination = parsePagination(req.query);
 
       // Get ratings with movie data
-      const [ratings, total] = await Promise.all([
-        Rating.find({ userId })
-          .sort({ createdAt: -1 })
-          .limit(limitNum)
-          .skip((pageNum - 1) * limitNum)
-          .lean(),
-        Rating.countDocuments({ userId }),
-      ]);
+      const result = await paginate<IRatingDocument>(
+        Rating,
+        { userId },
+        { field: 'createdAt', order: -1 },
+        pagination
+      );
+      const ratings = result.items;
 
       // Get movie details
       const movieIds = ratings.map((r) => r.movieId);
@@ -161,6 +178,7 @@ export class RatingController {
           return {
             ratingId: rating._id,
             rating: rating.rating,
+            review: rating.review || null,
             createdAt: rating.createdAt,
             updatedAt: rating.updatedAt,
             movie: {
@@ -175,19 +193,12 @@ export class RatingController {
         })
         .filter((item) => item !== null);
 
-      const totalPages = Math.ceil(total / limitNum);
-
       const response: IApiResponse = {
         success: true,
         message: `Retrieved ${ratingsWithMovies.length} rating(s)`,
         data: {
           ratings: ratingsWithMovies,
-          pagination: {
-            currentPage: pageNum,
-            totalPages,
-            totalRatings: total,
-            ratingsPerPage: limitNum,
-          },
+          pagination: formatPagination(result, 'ratings'),
         },
       };
 
@@ -199,7 +210,7 @@ export class RatingController {
 
   /**
    * @method getMovieRatings
-   * @description Get all ratings for a specific movie
+   * @description Get all ratings for a specific movie, optionally only those with a star value
    * @route GET /api/ratings/movie/:movieId
    * @access Public
    */
@@ -210,52 +221,35 @@ export class RatingController {
   ): Promise<void> {
     try {
       const { movieId } = req.params;
-      const { page = 1, limit = 12 } = req.query as any;
 
       // Validate ObjectId format
       if (!movieId.match(/^[0-9a-fA-F]{24}$/)) {
         throw createError('Invalid movie ID format', 400);
       }
 
+      const stars = this.parseStars(req.query.stars);
+
       // Check if movie exists
       const movie = await Movie.findOne({ _id: movieId, isActive: true });
       if (!movie) {
         throw createError('Movie not found', 404);
       }
 
-      // Parse pagination
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
-
-      // Validate pagination
-      if (pageNum < 1 || limitNum < 1 || limitNum > 100) {
-        throw createError('Invalid pagination parameters', 400);
-      }
-
-      // Get ratings
-      const [ratings, total, stats] = await Promise.all([
-        Rating.find({ movieId })
-          .sort({ createdAt: -1 })
-          .limit(limitNum)
-          .skip((pageNum - 1) * limitNum)
-          .lean(),
-        Rating.countDocuments({ movieId }),
+      // Parse pagination (page number or cursor)
+      const pagination = parsePagination(req.query);
+
+      // Get ratings and the rating distribution
+      const [result, stats, distribution] = await Promise.all([
+        paginate<IRatingDocument>(
+          Rating,
+          { movieId, ...(stars !== null && { rating: stars }) },
+          { field: 'createdAt', order: -1 },
+          pagination
+        ),
         Rating.getMovieAverageRating(movieId),
+        Rating.getRatingDistribution(movieId),
       ]);
-
-      // Calculate rating distribution
-      const distribution = await Rating.aggregate([
-        { $match: { movieId } },
-        {
-          $group: {
-            _id: '$rating',
-            count: { $sum: 1 },
-          },
-        },
-        { $sort: { _id: -1 } },
-      ]);
-
-      const totalPages = Math.ceil(total / limitNum);
+      const ratings = result.items;
 
       const response: IApiResponse = {
         success: true,
@@ -269,23 +263,19 @@ export class RatingController {
             averageRating: stats.average,
             totalRatings: stats.total,
             distribution: distribution.map((d) => ({
-              stars: d._id,
-              count: d.count,
+              ...d,
               percentage: Math.round((d.count / stats.total) * 100),
             })),
           },
+          stars,
           ratings: ratings.map((r) => ({
             ratingId: r._id,
             rating: r.rating,
             userId: r.userId,
+            hasReview: !!r.review,
             createdAt: r.createdAt,
           })),
-          pagination: {
-            currentPage: pageNum,
-            totalPages,
-            totalRatings: total,
-            ratingsPerPage: limitNum,
-          },
+          pagination: formatPagination(result, 'ratings'),
         },
       };
 
@@ -343,6 +333,7 @@ export class RatingController {
           hasRating: true,
           ratingId: rating._id,
           rating: rating.rating,
+          review: rating.review || null,
           createdAt: rating.createdAt,
           updatedAt: rating.updatedAt,
         },
@@ -356,7 +347,7 @@ export class RatingController {
 
   /**
    * @method updateRating
-   * @description Update user's rating for a movie
+   * @description Update user's rating and/or review for a movie (`review: null` removes the review)
    * @route PUT /api/ratings/:movieId
    * @access Private (requires authentication)
    */
@@ -369,6 +360,7 @@ export class RatingController {
       const userId = req.user?.userId;
       const { movieId } = req.params;
       const { rating } = req.body;
+      const review = this.parseReview(req.body.review, req);
 
       // Validate userId from token
       if (!userId) {
@@ -380,8 +372,12 @@ export class RatingController {
         throw createError('Invalid movie ID format', 400);
       }
 
+      if (rating === undefined && review === undefined) {
+        throw createError('Rating or review is required', 400);
+      }
+
       // Validate rating value
-      if (rating === undefined || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
         throw createError('Rating must be an integer between 1 and 5', 400);
       }
 
@@ -392,9 +388,18 @@ export class RatingController {
         throw createError('Rating not found', 404);
       }
 
-      existingRating.rating = rating;
+      if (rating !== undefined) {
+        existingRating.rating = rating;
+      }
+      if (review !== undefined) {
+        existingRating.review = review;
+      }
       await existingRating.save();
 
+      if (review === null) {
+        await ReviewVote.deleteMany({ ratingId: existingRating._id });
+      }
+
       const response: IApiResponse = {
         success: true,
         message: 'Rating updated successfully',
@@ -402,6 +407,7 @@ export class RatingController {
           ratingId: existingRating._id,
           movieId: existingRating.movieId,
           rating: existingRating.rating,
+          review: existingRating.review || null,
           updatedAt: existingRating.updatedAt,
         },
       };
@@ -444,6 +450,8 @@ export class RatingController {
         throw createError('Rating not found', 404);
       }
 
+      await ReviewVote.deleteMany({ ratingId: rating._id });
+
       const response: IApiResponse = {
         success: true,
         message: 'Rating deleted successfully',
@@ -484,18 +492,9 @@ export class RatingController {
         throw createError('Movie not found', 404);
       }
 
-      const stats = await Rating.getMovieAverageRating(movieId);
-
-      // Get rating distribution
-      const distribution = await Rating.aggregate([
-        { $match: { movieId } },
-        {
-          $group: {
-            _id: '$rating',
-            count: { $sum: 1 },
-          },
-        },
-        { $sort: { _id: -1 } },
+      const [stats, distribution] = await Promise.all([
+        Rating.getMovieAverageRating(movieId),
+        Rating.getRatingDistribution(movieId),
       ]);
 
       const response: IApiResponse = {
@@ -508,8 +507,7 @@ export class RatingController {
             averageRating: stats.average,
             totalRatings: stats.total,
             distribution: distribution.map((d) => ({
-              stars: d._id,
-              count: d.count,
+              ...d,
               percentage: stats.total > 0 ? Math.round((d.count / stats.total) * 100) : 0,
             })),
           },
@@ -521,6 +519,291 @@ export class RatingController {
       next(error);
     }
   }
+
+  /**
+   * @method getMovieReviews
+   * @description Get the written reviews of a movie, most helpful or most recent first
+   * @route GET /api/ratings/movie/:movieId/reviews
+   * @access Public (optional authentication adds the user's own vote on each review)
+   */
+  public async getMovieReviews(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { movieId } = req.params;
+      const { sort = 'helpful' } = req.query as any;
+
+      // Validate ObjectId format
+      if (!movieId.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid movie ID format', 400);
+      }
+
+      if (!REVIEW_SORTS[sort]) {
+        throw createError(`Invalid sort: ${sort}. Valid values are: ${Object.keys(REVIEW_SORTS).join(', ')}`, 400);
+      }
+
+      const stars = this.parseStars(req.query.stars);
+
+      // Check if movie exists
+      const movie = await Movie.findOne({ _id: movieId, isActive: true });
+      if (!movie) {
+        throw createError('Movie not found', 404);
+      }
+
+      // Parse pagination (page number or cursor)
+      const pagination = parsePagination(req.query, { defaultLimit: 10, maxLimit: 50 });
+
+      const result = await paginate<IRatingDocument>(
+        Rating,
+        { movieId, reviewedAt: { $ne: null }, ...(stars !== null && { rating: stars }) },
+        { field: REVIEW_SORTS[sort], order: -1 },
+        pagination,
+        (query) => query.populate('userId', 'firstName lastName avatar')
+      );
+      const reviews = result.items;
+
+      // The signed-in user's votes on this page of reviews
+      const votes = req.user
+        ? await ReviewVote.find({
+            userId: req.user.userId,
+            ratingId: { $in: reviews.map((r) => r._id.toString()) },
+          }).lean()
+        : [];
+      const voteMap = new Map(votes.map((vote) => [vote.ratingId, vote.helpful]));
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${reviews.length} review(s) for movie`,
+        data: {
+          movie: {
+            id: movie._id,
+            title: movie.title,
+          },
+          sort,
+          stars,
+          reviews: reviews.map((r) => {
+            const author = r.userId as any;
+            const myVote = voteMap.get(r._id.toString());
+
+            return {
+              reviewId: r._id,
+              rating: r.rating,
+              title: r.review?.title || null,
+              body: r.review?.body,
+              containsSpoilers: !!r.review?.containsSpoilers,
+              language: r.review?.language,
+              author: author
+                ? {
+                    id: author._id,
+                    firstName: author.firstName,
+                    lastName: author.lastName,
+                    avatar: author.avatar,
+                  }
+                : null,
+              helpfulVotes: r.helpfulVotes || 0,
+              unhelpfulVotes: r.unhelpfulVotes || 0,
+              helpfulness: r.helpfulness || 0,
+              myVote: myVote === undefined ? null : myVote ? 'helpful' : 'unhelpful',
+              reviewedAt: r.reviewedAt,
+              updatedAt: r.updatedAt,
+            };
+          }),
+          pagination: formatPagination(result, 'reviews'),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method voteReview
+   * @description Mark a review as helpful or unhelpful, replacing the user's previous vote
+   * @route PUT /api/ratings/reviews/:ratingId/vote
+   * @access Private (requires authentication)
+   */
+  public async voteReview(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { ratingId } = req.params;
+      const { helpful } = req.body;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // Validate ObjectId format
+      if (!ratingId.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid review ID format', 400);
+      }
+
+      if (typeof helpful !== 'boolean') {
+        throw createError('helpful must be a boolean', 400);
+      }
+
+      const rating = await Rating.findById(ratingId);
+      if (!rating || !rating.review) {
+        throw createError('Review not found', 404);
+      }
+
+      if (rating.isOwnedBy(userId)) {
+        throw createError('You cannot vote on your own review', 403);
+      }
+
+      await ReviewVote.findOneAndUpdate(
+        { ratingId, userId },
+        { $set: { helpful } },
+        { upsert: true, runValidators: true }
+      );
+      await ReviewVote.updateReviewCounts(ratingId);
+
+      res.status(200).json(await this.buildVoteResponse(ratingId, helpful, 'Vote recorded successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method removeReviewVote
+   * @description Withdraw the user's vote on a review
+   * @route DELETE /api/ratings/reviews/:ratingId/vote
+   * @access Private (requires authentication)
+   */
+  public async removeReviewVote(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { ratingId } = req.params;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // Validate ObjectId format
+      if (!ratingId.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid review ID format', 400);
+      }
+
+      const vote = await ReviewVote.findOneAndDelete({ ratingId, userId });
+      if (!vote) {
+        throw createError('Vote not found', 404);
+      }
+
+      await ReviewVote.updateReviewCounts(ratingId);
+
+      res.status(200).json(await this.buildVoteResponse(ratingId, null, 'Vote removed successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method buildVoteResponse
+   * @description Builds the response of a vote change with the review's updated counters
+   * @param {string} ratingId - Rating ID of the review
+   * @param {boolean | null} helpful - The user's vote, or null when withdrawn
+   * @param {string} message - Response message
+   * @returns {Promise<IApiResponse>} Response
+   * @private
+   */
+  private async buildVoteResponse(
+    ratingId: string,
+    helpful: boolean | null,
+    message: string
+  ): Promise<IApiResponse> {
+    const rating = await Rating.findById(ratingId).select('helpfulVotes unhelpfulVotes helpfulness').lean();
+
+    return {
+      success: true,
+      message,
+      data: {
+        reviewId: ratingId,
+        myVote: helpful === null ? null : helpful ? 'helpful' : 'unhelpful',
+        helpfulVotes: rating?.helpfulVotes || 0,
+        unhelpfulVotes: rating?.unhelpfulVotes || 0,
+        helpfulness: rating?.helpfulness || 0,
+      },
+    };
+  }
+
+  /**
+   * @method parseReview
+   * @description Validates the `review` field of a rating request
+   * @param {unknown} value - Request value
+   * @param {IAuthenticatedRequest} req - Request, whose language is the default review language
+   * @returns {IReview | null | undefined} Review, null to remove it, or undefined when not given
+   * @throws {Error} 400 when the review is invalid
+   * @private
+   */
+  private parseReview(value: unknown, req: IAuthenticatedRequest): IReview | null | undefined {
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw createError('Review must be an object', 400);
+    }
+
+    const { title, body, containsSpoilers = false, language = getLanguage(req) } = value as Record<string, any>;
+
+    if (typeof body !== 'string' || body.trim().length === 0 || body.trim().length > 5000) {
+      throw createError('Review body must be between 1 and 5000 characters', 400);
+    }
+
+    if (title !== undefined && title !== null && (typeof title !== 'string' || title.trim().length > 120)) {
+      throw createError('Review title cannot exceed 120 characters', 400);
+    }
+
+    if (typeof containsSpoilers !== 'boolean') {
+      throw createError('containsSpoilers must be a boolean', 400);
+    }
+
+    if (typeof language !== 'string' || !/^[a-z]{2}$/i.test(language)) {
+      throw createError('Review language must be a two-letter ISO 639-1 code', 400);
+    }
+
+    return {
+      title: title ? title.trim() : null,
+      body: body.trim(),
+      containsSpoilers,
+      language: language.toLowerCase(),
+    };
+  }
+
+  /**
+   * @method parseStars
+   * @description Parses the optional `stars` filter
+   * @param {unknown} value - Query parameter value
+   * @returns {number | null} Star value, or null when not given
+   * @throws {Error} 400 when the value is not an integer between 1 and 5
+   * @private
+   */
+  private parseStars(value: unknown): number | null {
+    if (value === undefined || value === '') {
+      return null;
+    }
+
+    const stars = Number(value);
+
+    if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+      throw createError('Stars must be an integer between 1 and 5', 400);
+    }
+
+    return stars;
+  }
 }
 
 // Export singleton instance
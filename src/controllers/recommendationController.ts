@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Recommendation controller for handling recommendation requests
+ * @description Serves personalized movie recommendations for the authenticated user
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Response, NextFunction } from 'express';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { recommendationService } from '../services/recommendationService';
+
+/**
+ * @class RecommendationController
+ * @description Controller class for recommendation operations
+ */
+export class RecommendationController {
+  /**
+   * @method getRecommendations
+   * @description Get movies recommended for the authenticated user
+   * @route GET /api/me/recommendations
+   * @access Private (requires authentication)
+   */
+  public async getRecommendations(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { limit = 20 } = req.query as any;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate limit
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 50) {
+        throw createError('Limit must be between 1 and 50', 400);
+      }
+
+      const { strategy, movies } = await recommendationService.getRecommendations(userId, limitNum);
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${movies.length} recommended movie(s)`,
+        data: {
+          strategy,
+          movies,
+          count: movies.length,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const recommendationController = new RecommendationController();
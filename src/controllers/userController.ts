@@ -0,0 +1,454 @@
+/**
+ * @fileoverview User administration controller
+ * @description Handles admin operations on user accounts: listing, viewing, deactivating,
+ * forcing password resets and changing roles. Every change is recorded in the audit log.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import { Response, NextFunction } from 'express';
+import { User, IUserDocument, USER_ROLES } from '../models/User';
+import { Session } from '../models/Session';
+import { Rating } from '../models/Rating';
+import Comment from '../models/Comment';
+import { Favorite } from '../models/Favorite';
+import { AuditLog } from '../models/AuditLog';
+import { IAuthenticatedRequest, IApiResponse, UserRole } from '../types';
+import { auditService } from '../services/auditService';
+import { emailService } from '../services/emailService';
+import { createError, notFoundError } from '../middleware/errorHandler';
+import { environment } from '../config/environment';
+import { translate } from '../config/i18n';
+import { getLanguage } from '../middleware/language';
+
+/**
+ * @class UserController
+ * @description Handles user administration operations
+ */
+class UserController {
+  /**
+   * @method listUsers
+   * @description Lists users with optional name search, role and status filters
+   * @route GET /api/users
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async listUsers(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { search, role, status = 'all', page = 1, limit = 20 } = req.query as any;
+      const lang = getLanguage(req);
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate pagination
+      if (isNaN(pageNum) || isNaN(limitNum) || pageNum < 1 || limitNum < 1 || limitNum > 100) {
+        throw createError(translate('errors.invalidPagination', lang), 400);
+      }
+
+      if (!['active', 'inactive', 'all'].includes(status)) {
+        throw createError(translate('users.invalidStatus', lang), 400);
+      }
+
+      if (role && !USER_ROLES.includes(role as UserRole)) {
+        throw createError(translate('users.invalidRole', lang, { roles: USER_ROLES.join(', ') }), 400);
+      }
+
+      // Start from the model's search helpers, then narrow down
+      const query = search
+        ? User.searchByName(String(search).trim(), status !== 'active')
+        : status === 'active'
+          ? User.findActive()
+          : User.find();
+
+      if (status === 'inactive') {
+        query.where({ isActive: false });
+      }
+      if (role) {
+        query.where({ role });
+      }
+
+      const [users, total] = await Promise.all([
+        query
+          .clone()
+          .sort({ createdAt: -1 })
+          .skip((pageNum - 1) * limitNum)
+          .limit(limitNum),
+        query.clone().countDocuments(),
+      ]);
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.listRetrieved', lang),
+        data: {
+          users: users.map((user) => user.toSafeObject()),
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalUsers: total,
+            usersPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getUser
+   * @description Gets a user with their rating, comment, favorite and session counts
+   * @route GET /api/users/:id
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async getUser(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const user = await this.findTargetUser(req.params.id, lang);
+      const userId = user._id.toString();
+
+      const [ratings, comments, favorites, activeSessions] = await Promise.all([
+        Rating.countDocuments({ userId }),
+        Comment.countDocuments({ userId }),
+        Favorite.countDocuments({ userId }),
+        Session.countDocuments({ userId, revokedAt: null, expiresAt: { $gt: new Date() } }),
+      ]);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.retrieved', lang),
+        data: {
+          user: user.toSafeObject(),
+          stats: {
+            ratings,
+            comments,
+            favorites,
+            activeSessions,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method deactivateUser
+   * @description Deactivates a user account and signs it out of every session
+   * @route POST /api/users/:id/deactivate
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async deactivateUser(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const { reason } = req.body || {};
+      const user = await this.findTargetUser(req.params.id, lang);
+      this.assertNotSelf(req, user, lang);
+
+      if (!user.isActive) {
+        throw createError(translate('users.alreadyInactive', lang), 400);
+      }
+
+      await auditService.record(req, 'user.deactivate', 'user', user._id.toString(), {
+        reason: reason || null,
+      });
+
+      user.isActive = false;
+      await user.save({ validateBeforeSave: false });
+
+      await Session.revokeUserSessions(user._id.toString(), 'account_deactivated');
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.deactivated', lang),
+        data: {
+          user: user.toSafeObject(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method reactivateUser
+   * @description Reactivates a deactivated user account
+   * @route POST /api/users/:id/reactivate
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async reactivateUser(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const user = await this.findTargetUser(req.params.id, lang);
+
+      if (user.isActive) {
+        throw createError(translate('users.alreadyActive', lang), 400);
+      }
+
+      await auditService.record(req, 'user.reactivate', 'user', user._id.toString());
+
+      user.isActive = true;
+      await user.save({ validateBeforeSave: false });
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.reactivated', lang),
+        data: {
+          user: user.toSafeObject(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method forcePasswordReset
+   * @description Blocks login until the user resets their password, signs them out of every
+   * session and emails them a reset link
+   * @route POST /api/users/:id/force-password-reset
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async forcePasswordReset(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const { reason } = req.body || {};
+      const user = await this.findTargetUser(req.params.id, lang);
+
+      if (!user.isActive) {
+        throw createError(translate('users.alreadyInactive', lang), 400);
+      }
+
+      await auditService.record(req, 'user.force_password_reset', 'user', user._id.toString(), {
+        reason: reason || null,
+      });
+
+      const resetToken = user.generatePasswordResetToken();
+      user.mustResetPassword = true;
+      await user.save({ validateBeforeSave: false });
+
+      const revokedSessions = await Session.revokeUserSessions(
+        user._id.toString(),
+        'password_reset'
+      );
+
+      const resetUrl = `${environment.get('frontendUrl')}/reset-password?token=${resetToken}`;
+      const emailSent = await emailService.sendPasswordResetEmail(
+        user.email,
+        user.getFullName(),
+        resetUrl
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.passwordResetForced', lang),
+        data: {
+          emailSent,
+          revokedSessions,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method changeRole
+   * @description Changes a user's role. Takes effect on the user's next request.
+   * @route PUT /api/users/:id/role
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async changeRole(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const { role } = req.body;
+
+      if (!role || !USER_ROLES.includes(role)) {
+        throw createError(translate('users.invalidRole', lang, { roles: USER_ROLES.join(', ') }), 400);
+      }
+
+      const user = await this.findTargetUser(req.params.id, lang);
+      this.assertNotSelf(req, user, lang);
+
+      const previousRole = user.role || 'user';
+      if (previousRole === role) {
+        throw createError(translate('users.roleUnchanged', lang, { role }), 400);
+      }
+
+      await auditService.record(req, 'user.role_change', 'user', user._id.toString(), {
+        previousRole,
+        newRole: role,
+      });
+
+      user.role = role;
+      await user.save({ validateBeforeSave: false });
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.roleChanged', lang, { role }),
+        data: {
+          user: user.toSafeObject(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getUserAuditLog
+   * @description Gets the administrative actions performed on a user, newest first
+   * @route GET /api/users/:id/audit-log
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  public async getUserAuditLog(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const lang = getLanguage(req);
+      const { page = 1, limit = 20 } = req.query as any;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate pagination
+      if (isNaN(pageNum) || isNaN(limitNum) || pageNum < 1 || limitNum < 1 || limitNum > 100) {
+        throw createError(translate('errors.invalidPagination', lang), 400);
+      }
+
+      const user = await this.findTargetUser(req.params.id, lang);
+      const { entries, total } = await AuditLog.findByTarget(
+        'user',
+        user._id.toString(),
+        pageNum,
+        limitNum
+      );
+
+      const totalPages = Math.ceil(total / limitNum);
+
+      const response: IApiResponse = {
+        success: true,
+        message: translate('users.auditLogRetrieved', lang),
+        data: {
+          entries,
+          pagination: {
+            currentPage: pageNum,
+            totalPages,
+            totalEntries: total,
+            entriesPerPage: limitNum,
+            hasNextPage: pageNum < totalPages,
+            hasPrevPage: pageNum > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method findTargetUser
+   * @description Loads the user an admin action applies to
+   * @param {string} id - User ID from the route
+   * @param {string} lang - Response language
+   * @returns {Promise<IUserDocument>} User document
+   * @throws {Error} 400 for a malformed ID, 404 when the user does not exist
+   * @private
+   */
+  private async findTargetUser(id: string, lang: string): Promise<IUserDocument> {
+    if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+      throw createError(translate('users.invalidId', lang), 400);
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      throw notFoundError('User');
+    }
+
+    return user;
+  }
+
+  /**
+   * @method assertNotSelf
+   * @description Prevents admins from deactivating or demoting themselves and getting locked out
+   * @param {IAuthenticatedRequest} req - Express request object
+   * @param {IUserDocument} user - Target user
+   * @param {string} lang - Response language
+   * @throws {Error} 400 when the target is the acting admin
+   * @private
+   */
+  private assertNotSelf(req: IAuthenticatedRequest, user: IUserDocument, lang: string): void {
+    if (user._id.toString() === req.user?.userId) {
+      throw createError(translate('users.cannotModifySelf', lang), 400);
+    }
+  }
+}
+
+// Export singleton instance
+export const userController = new UserController();
+export default userController;
@@ -0,0 +1,421 @@
+/**
+ * @fileoverview Watch controller for handling playback-related requests
+ * @description Stores playback progress reported by the player, lists the movies a user can
+ * continue watching and manages the user's watch history (listing, deleting and pausing it).
+ * Progress heartbeats also credit watch time for view counting, so watching a movie through
+ * counts as a view.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Response, NextFunction } from 'express';
+import { WatchProgress, IWatchProgressDocument, WATCH_COMPLETION_RATIO } from '../models/WatchProgress';
+import { Movie } from '../models/Movie';
+import { User } from '../models/User';
+import { IAuthenticatedRequest, IApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { viewService } from '../services/viewService';
+import { formatPagination, paginate, parsePagination } from '../utils/pagination';
+
+/**
+ * @class WatchController
+ * @description Controller class for playback progress operations
+ */
+export class WatchController {
+  /**
+   * @method updateProgress
+   * @description Save the playback position of a movie (player heartbeat)
+   * @route PUT /api/movies/:id/progress
+   * @access Private (requires authentication)
+   */
+  public async updateProgress(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+      const { position, duration } = req.body || {};
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // Validate ObjectId format
+      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid movie ID format', 400);
+      }
+
+      // Validate position and optional duration
+      if (typeof position !== 'number' || !Number.isFinite(position) || position < 0) {
+        throw createError('Position must be a non-negative number of seconds', 400);
+      }
+
+      if (duration !== undefined && (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 1)) {
+        throw createError('Duration must be a positive number of seconds', 400);
+      }
+
+      const [movie, user] = await Promise.all([
+        Movie.findOne({ _id: id, isActive: true }),
+        User.findById(userId).select('historyPaused').lean(),
+      ]);
+
+      if (!movie) {
+        throw createError('Movie not found', 404);
+      }
+
+      // The player knows the exact video length; fall back to the catalog duration
+      const totalSeconds = duration ?? movie.duration * 60;
+      const clampedPosition = Math.min(position, totalSeconds);
+
+      // Credit the playback time towards a view, deduplicated like any other view. View credit is
+      // kept apart from the history, so it also accrues while the history is paused.
+      const view = await viewService.recordHeartbeat(
+        movie,
+        { userId, ip: req.ip || 'unknown', userAgent: req.get('user-agent') || '' },
+        clampedPosition
+      );
+
+      // No progress is stored while the user has paused their history
+      if (user?.historyPaused) {
+        const response: IApiResponse = {
+          success: true,
+          message: 'Watch history is paused; progress was not saved',
+          data: {
+            movieId: id,
+            recorded: false,
+            viewCounted: view.counted,
+          },
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      const completed = clampedPosition >= totalSeconds * WATCH_COMPLETION_RATIO;
+      const lastWatchedAt = new Date();
+
+      const filter = { userId, movieId: id };
+      const update = { $set: { position: clampedPosition, duration: totalSeconds, completed, lastWatchedAt } };
+
+      try {
+        await WatchProgress.updateOne(filter, update, { upsert: true, runValidators: true, setDefaultsOnInsert: true });
+      } catch (error: any) {
+        // A concurrent first heartbeat inserted the entry; update the one it created instead
+        if (error.code !== 11000) {
+          throw error;
+        }
+        await WatchProgress.updateOne(filter, update, { runValidators: true });
+      }
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Watch progress saved successfully',
+        data: {
+          movieId: id,
+          recorded: true,
+          position: clampedPosition,
+          duration: totalSeconds,
+          percentage: Math.round((clampedPosition / totalSeconds) * 100),
+          completed,
+          lastWatchedAt,
+          viewCounted: view.counted,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getContinueWatching
+   * @description Get the user's partially watched active movies, most recently watched first
+   * @route GET /api/me/continue-watching
+   * @access Private (requires authentication)
+   */
+  public async getContinueWatching(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { limit = 20 } = req.query as any;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      const limitNum = parseInt(limit as string, 10);
+
+      // Validate limit
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 50) {
+        throw createError('Limit must be between 1 and 50', 400);
+      }
+
+      const progressEntries = await WatchProgress.findInProgress(userId, limitNum);
+
+      // Get movie details, skipping movies that are no longer active
+      const movieIds = progressEntries.map((entry) => entry.movieId);
+      const movies = await Movie.find({ _id: { $in: movieIds }, isActive: true }).lean();
+
+      const movieMap = new Map(movies.map((movie) => [movie._id.toString(), movie]));
+
+      const items = progressEntries
+        .map((entry) => {
+          const movie = movieMap.get(entry.movieId.toString());
+          if (!movie) return null;
+
+          return {
+            movie: {
+              id: movie._id,
+              title: movie.title,
+              poster: movie.poster,
+              duration: movie.duration,
+              releaseYear: movie.releaseYear,
+              genre: movie.genre,
+              videoUrl: movie.videoUrl,
+              videoProvider: movie.videoProvider,
+            },
+            progress: {
+              position: entry.position,
+              duration: entry.duration,
+              percentage: Math.round((entry.position / entry.duration) * 100),
+              lastWatchedAt: entry.lastWatchedAt,
+            },
+          };
+        })
+        .filter((item) => item !== null);
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${items.length} movie(s) to continue watching`,
+        data: {
+          items,
+          count: items.length,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getHistory
+   * @description Get every movie the user has watched, most recently watched first
+   * @route GET /api/me/history
+   * @access Private (requires authentication)
+   */
+  public async getHistory(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // Parse pagination (page number or cursor)
+      const pagination = parsePagination(req.query);
+
+      const [result, user] = await Promise.all([
+        paginate<IWatchProgressDocument>(
+          WatchProgress,
+          { userId },
+          { field: 'lastWatchedAt', order: -1 },
+          pagination
+        ),
+        User.findById(userId).select('historyPaused').lean(),
+      ]);
+
+      // Get movie details; movies removed from the catalog are listed without details
+      const movieIds = result.items.map((entry) => entry.movieId);
+      const movies = await Movie.find({ _id: { $in: movieIds } }).lean();
+
+      const movieMap = new Map(movies.map((movie) => [movie._id.toString(), movie]));
+
+      const history = result.items.map((entry) => {
+        const movie = movieMap.get(entry.movieId.toString());
+
+        return {
+          movieId: entry.movieId,
+          movie: movie
+            ? {
+                id: movie._id,
+                title: movie.title,
+                poster: movie.poster,
+                duration: movie.duration,
+                releaseYear: movie.releaseYear,
+                genre: movie.genre,
+                isActive: movie.isActive,
+              }
+            : null,
+          firstWatchedAt: entry.createdAt,
+          lastWatchedAt: entry.lastWatchedAt,
+          position: entry.position,
+          duration: entry.duration,
+          percentage: Math.round((entry.position / entry.duration) * 100),
+          completed: entry.completed,
+        };
+      });
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Retrieved ${history.length} history entr${history.length === 1 ? 'y' : 'ies'}`,
+        data: {
+          history,
+          paused: !!user?.historyPaused,
+          pagination: formatPagination(result, 'entries'),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method deleteHistoryEntry
+   * @description Remove one movie from the user's watch history
+   * @route DELETE /api/me/history/:movieId
+   * @access Private (requires authentication)
+   */
+  public async deleteHistoryEntry(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { movieId } = req.params;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // Validate ObjectId format
+      if (!movieId.match(/^[0-9a-fA-F]{24}$/)) {
+        throw createError('Invalid movie ID format', 400);
+      }
+
+      const entry = await WatchProgress.findOneAndDelete({ userId, movieId });
+
+      if (!entry) {
+        throw createError('History entry not found', 404);
+      }
+
+      // View dedup records are kept until they expire, so rewatching cannot count a view again
+
+      const response: IApiResponse = {
+        success: true,
+        message: 'Movie removed from watch history successfully',
+        data: {
+          movieId,
+          removedAt: new Date(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method clearHistory
+   * @description Remove every entry from the user's watch history
+   * @route DELETE /api/me/history
+   * @access Private (requires authentication)
+   */
+  public async clearHistory(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      // View dedup records are kept until they expire, as for a single entry
+      const result = await WatchProgress.deleteMany({ userId });
+
+      const response: IApiResponse = {
+        success: true,
+        message: `Removed ${result.deletedCount} history entr${result.deletedCount === 1 ? 'y' : 'ies'}`,
+        data: {
+          deletedCount: result.deletedCount,
+          clearedAt: new Date(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method updateHistorySettings
+   * @description Pause or resume watch history recording
+   * @route PUT /api/me/history/settings
+   * @access Private (requires authentication)
+   */
+  public async updateHistorySettings(
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { paused } = req.body || {};
+
+      // Validate userId from token
+      if (!userId) {
+        throw createError('User not authenticated', 401);
+      }
+
+      if (typeof paused !== 'boolean') {
+        throw createError('paused must be true or false', 400);
+      }
+
+      const user = await User.findByIdAndUpdate(userId, { $set: { historyPaused: paused } });
+
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const response: IApiResponse = {
+        success: true,
+        message: paused ? 'Watch history paused' : 'Watch history resumed',
+        data: {
+          paused,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const watchController = new WatchController();
@@ -15,6 +15,7 @@ import { emailService } from './services/emailService';
 import { initializeI18n } from './config/i18n';
 import { configureCloudinary } from './config/cloudinary';
 import { languageDetector } from './middleware/language';
+import { globalRateLimiter } from './middleware/rateLimiter';
 import { errorHandler, notFound } from './middleware/errorHandler';
 import { IApiResponse } from './types';
 import authRoutes from './routes/authRoutes';
@@ -23,6 +24,9 @@ import favoriteRoutes from './routes/favoriteRoutes';
 import ratingRoutes from './routes/ratingRoutes';
 import uploadRoutes from './routes/uploadRoutes';
 import commentRoutes from './routes/commentRoutes';
+import userRoutes from './routes/userRoutes';
+import moderationRoutes from './routes/moderationRoutes';
+import meRoutes from './routes/meRoutes';
 
 /**
  * @class Server
@@ -51,6 +55,9 @@ class Server {
    * @private
    */
   private initializeMiddleware(): void {
+    // Trust the first proxy (Render) so req.ip is the client address, not the load balancer
+    this.app.set('trust proxy', 1);
+
     // Security middleware
     this.app.use(helmet({
       crossOriginEmbedderPolicy: false,
@@ -74,6 +81,7 @@ class Server {
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'Content-Disposition'],
     }));
 
     // Body parsing middleware
@@ -83,6 +91,9 @@ class Server {
     // Language detection middleware
     this.app.use(languageDetector);
 
+    // Rate limiting for every API route (the health check is not limited)
+    this.app.use('/api', globalRateLimiter);
+
     // Request logging in development
     if (environment.isDevelopment()) {
       this.app.use((req: Request, res: Response, next) => {
@@ -125,10 +136,12 @@ class Server {
           endpoints: {
             auth: '/api/auth/*',
             users: '/api/users/*',
+            me: '/api/me/*',
             movies: '/api/movies/*',
             favorites: '/api/favorites/*',
             ratings: '/api/ratings/*',
             comments: '/api/comments/*',
+            moderation: '/api/moderation/*',
           },
           documentation: '/docs',
           health: '/health',
@@ -144,7 +157,9 @@ class Server {
     this.app.use('/api/ratings', ratingRoutes);
     this.app.use('/api/upload', uploadRoutes);
     this.app.use('/api/comments', commentRoutes);
-    // this.app.use('/api/users', userRoutes);      // Will be implemented in future sprints
+    this.app.use('/api/users', userRoutes);
+    this.app.use('/api/moderation', moderationRoutes);
+    this.app.use('/api/me', meRoutes);
 
     // Serve API documentation (will be generated by JSDoc)
     this.app.use('/docs', express.static('docs'));
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Scheduled job that purges accounts whose deletion grace period has ended
+ * @description Runs accountDeletionService.purgeDueAccounts in the worker (src/worker.ts) at a
+ * fixed interval (ACCOUNT_PURGE_INTERVAL_MS). Purging is idempotent, so an overlapping run of a
+ * second worker is harmless.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-23
+ */
+
+import { accountDeletionService } from '../services/accountDeletionService';
+import { environment } from '../config/environment';
+
+/**
+ * @class AccountPurgeJob
+ * @description Periodically purges accounts pending deletion
+ */
+class AccountPurgeJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * @method start
+   * @description Schedules the job and runs it once right away. Calling it again has no effect.
+   * @returns {void}
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), environment.get('accountPurgeIntervalMs'));
+    // Do not keep the process alive just for the job
+    this.timer.unref();
+
+    this.run();
+  }
+
+  /**
+   * @method stop
+   * @description Cancels the schedule; a run in progress finishes on its own
+   * @returns {void}
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @method run
+   * @description Purges due accounts, skipping the run if the previous one is still going
+   * @returns {Promise<void>}
+   */
+  public async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const results = await accountDeletionService.purgeDueAccounts();
+
+      if (results.length > 0) {
+        console.log(`Account purge: removed ${results.length} account(s) pending deletion`);
+      }
+    } catch (error) {
+      console.error('Account purge job failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const accountPurgeJob = new AccountPurgeJob();
+export default accountPurgeJob;
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Scheduled job that cleans up personal data exports
+ * @description Runs in the worker (src/worker.ts) at a fixed interval (DATA_EXPORT_JOB_INTERVAL_MS)
+ * and when the worker starts: retries exports left pending or processing by a restart or crash, and
+ * deletes the GridFS archives of expired exports, which the TTL index on the export documents cannot
+ * reach. Exports are claimed atomically, so an overlapping run of a second worker is harmless.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { dataExportService } from '../services/dataExportService';
+
+/**
+ * @const DATA_EXPORT_JOB_INTERVAL_MS
+ * @description How often the job runs (15 minutes)
+ */
+const DATA_EXPORT_JOB_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * @class DataExportJob
+ * @description Periodically recovers and cleans up data exports
+ */
+class DataExportJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * @method start
+   * @description Schedules the job and runs it once right away. Calling it again has no effect.
+   * @returns {void}
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), DATA_EXPORT_JOB_INTERVAL_MS);
+    // Do not keep the process alive just for the job
+    this.timer.unref();
+
+    this.run();
+  }
+
+  /**
+   * @method stop
+   * @description Cancels the schedule; a run in progress finishes on its own
+   * @returns {void}
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @method run
+   * @description Recovers interrupted exports and deletes expired archives, skipping the run if
+   * the previous one is still going
+   * @returns {Promise<void>}
+   */
+  public async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const { requeued, failed } = await dataExportService.recoverStaleExports();
+      const deleted = await dataExportService.deleteExpiredArchives();
+
+      if (requeued > 0 || failed > 0) {
+        console.log(`Data export recovery: retried ${requeued}, failed ${failed} interrupted export(s)`);
+      }
+
+      if (deleted > 0) {
+        console.log(`Data export cleanup: deleted ${deleted} expired archive(s)`);
+      }
+    } catch (error) {
+      console.error('Data export job failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const dataExportJob = new DataExportJob();
+export default dataExportJob;
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Scheduled job that rebuilds the movie similarity model
+ * @description Runs similarityService.recomputeAll at a fixed interval
+ * (SIMILARITY_RECOMPUTE_INTERVAL_MS) so recommendations never compute similarities per request.
+ * Started by the worker process (src/worker.ts), not by the API server; each run replaces the
+ * whole model, so a second worker would only cost time.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { similarityService } from '../services/similarityService';
+import { environment } from '../config/environment';
+
+/**
+ * @class SimilarityJob
+ * @description Periodically recomputes item-item similarities from ratings
+ */
+class SimilarityJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * @method start
+   * @description Schedules the job and runs it once right away. Calling it again has no effect.
+   * @returns {void}
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), environment.get('similarityRecomputeIntervalMs'));
+    // Do not keep the process alive just for the job
+    this.timer.unref();
+
+    this.run();
+  }
+
+  /**
+   * @method stop
+   * @description Cancels the schedule; a run in progress finishes on its own
+   * @returns {void}
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @method run
+   * @description Rebuilds the similarity model, skipping the run if the previous one is still going
+   * @returns {Promise<void>}
+   */
+  public async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const result = await similarityService.recomputeAll();
+      console.log(
+        `Similarity model: ${result.movies} movie(s) from ${result.users} rater(s) in ${result.durationMs}ms`
+      );
+    } catch (error) {
+      console.error('Similarity job failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const similarityJob = new SimilarityJob();
+export default similarityJob;
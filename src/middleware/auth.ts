@@ -9,7 +9,14 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
-import { IAuthenticatedRequest, IJwtPayload, IApiResponse } from '../types';
+import { Session } from '../models/Session';
+import {
+  IAuthenticatedRequest,
+  IJwtPayload,
+  IApiResponse,
+  ITwoFactorChallengePayload,
+  UserRole,
+} from '../types';
 import { environment } from '../config/environment';
 
 /**
@@ -56,12 +63,21 @@ class AuthenticationManager {
    * @description Generates JWT token for user
    * @param {string} userId - User ID
    * @param {string} email - User email
+   * @param {UserRole} role - User role
+   * @param {string} sessionId - ID of the session the token belongs to
    * @returns {string} JWT token
    */
-  public generateToken(userId: string, email: string): string {
+  public generateToken(
+    userId: string,
+    email: string,
+    role: UserRole,
+    sessionId: string
+  ): string {
     const payload: IJwtPayload = {
       userId,
       email,
+      role,
+      sessionId,
     };
 
     const options: any = {
@@ -108,6 +124,45 @@ class AuthenticationManager {
     }
   }
 
+  /**
+   * @method generateTwoFactorChallengeToken
+   * @description Generates the short-lived token that proves the password step of a login
+   * succeeded. It uses its own audience, so it is never accepted as an access token.
+   * @param {string} userId - User ID
+   * @returns {string} Challenge token (valid for 5 minutes)
+   */
+  public generateTwoFactorChallengeToken(userId: string): string {
+    const payload: ITwoFactorChallengePayload = {
+      userId,
+      purpose: 'two_factor_challenge',
+    };
+
+    return jwt.sign(payload, this.jwtSecret, {
+      expiresIn: '5m',
+      issuer: 'movies-platform-api',
+      audience: 'movies-platform-2fa',
+    });
+  }
+
+  /**
+   * @method validateTwoFactorChallengeToken
+   * @description Validates a two-factor challenge token
+   * @param {string} token - Challenge token
+   * @returns {string | null} User ID, or null if the token is invalid or expired
+   */
+  public validateTwoFactorChallengeToken(token: string): string | null {
+    try {
+      const payload = jwt.verify(token, this.jwtSecret, {
+        issuer: 'movies-platform-api',
+        audience: 'movies-platform-2fa',
+      }) as ITwoFactorChallengePayload;
+
+      return payload.purpose === 'two_factor_challenge' ? payload.userId : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * @method extractTokenFromHeader
    * @description Extracts JWT token from Authorization header
@@ -128,34 +183,6 @@ class AuthenticationManager {
 
     return parts[1];
   }
-
-  /**
-   * @method refreshToken
-   * @description Refreshes JWT token if it's close to expiration
-   * @param {string} token - Current JWT token
-   * @returns {string | null} New token or null if refresh not needed
-   */
-  public refreshToken(token: string): string | null {
-    try {
-      const decoded = jwt.decode(token) as IJwtPayload;
-
-      if (!decoded || !decoded.exp) {
-        return null;
-      }
-
-      // Refresh if token expires in less than 1 hour
-      const oneHourInSeconds = 60 * 60;
-      const currentTime = Math.floor(Date.now() / 1000);
-
-      if (decoded.exp - currentTime < oneHourInSeconds) {
-        return this.generateToken(decoded.userId, decoded.email);
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
 }
 
 // Export singleton instance
@@ -199,10 +226,13 @@ export const authenticate = async (
       return;
     }
 
-    // Verify user still exists and is active
-    const user = await User.findById(validationResult.payload.userId)
-      .select('_id email isActive')
-      .lean();
+    // Verify user still exists and is active, and that the session was not revoked
+    const [user, sessionActive] = await Promise.all([
+      User.findById(validationResult.payload.userId)
+        .select('_id email role isActive emailVerified twoFactorEnabled')
+        .lean(),
+      Session.isSessionActive(validationResult.payload.sessionId || ''),
+    ]);
 
     if (!user || !user.isActive) {
       const response: IApiResponse = {
@@ -214,17 +244,31 @@ export const authenticate = async (
       return;
     }
 
-    // Attach user info to request object
+    if (!sessionActive) {
+      const response: IApiResponse = {
+        success: false,
+        message: 'Access denied. Session has been revoked or has expired.',
+        error: 'Session revoked',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Attach user info to request object. The role is read from the database
+    // so that role changes take effect without waiting for the token to expire.
     req.user = {
       userId: validationResult.payload.userId,
       email: validationResult.payload.email,
+      role: user.role || 'user',
+      sessionId: validationResult.payload.sessionId,
+      emailVerified: user.emailVerified !== false,
+      twoFactorEnabled: !!user.twoFactorEnabled,
     };
 
-    // Check if token needs refresh and add to response headers
-    const refreshedToken = authManager.refreshToken(token);
-    if (refreshedToken) {
-      res.setHeader('X-Refresh-Token', refreshedToken);
-    }
+    // Record session activity in the background; a failure here must not block the request
+    Session.touchSession(validationResult.payload.sessionId).catch((error) => {
+      console.error('Failed to update session activity:', error);
+    });
 
     next();
   } catch (error) {
@@ -260,22 +304,23 @@ export const optionalAuthenticate = async (
       const validationResult = authManager.validateToken(token);
 
       if (validationResult.valid && validationResult.payload) {
-        // Verify user still exists and is active
-        const user = await User.findById(validationResult.payload.userId)
-          .select('_id email isActive')
-          .lean();
-
-        if (user && user.isActive) {
+        // Verify user still exists and is active, and that the session was not revoked
+        const [user, sessionActive] = await Promise.all([
+          User.findById(validationResult.payload.userId)
+            .select('_id email role isActive emailVerified twoFactorEnabled')
+            .lean(),
+          Session.isSessionActive(validationResult.payload.sessionId || ''),
+        ]);
+
+        if (user && user.isActive && sessionActive) {
           req.user = {
             userId: validationResult.payload.userId,
             email: validationResult.payload.email,
+            role: user.role || 'user',
+            sessionId: validationResult.payload.sessionId,
+            emailVerified: user.emailVerified !== false,
+            twoFactorEnabled: !!user.twoFactorEnabled,
           };
-
-          // Check if token needs refresh
-          const refreshedToken = authManager.refreshToken(token);
-          if (refreshedToken) {
-            res.setHeader('X-Refresh-Token', refreshedToken);
-          }
         }
       }
     }
@@ -289,19 +334,81 @@ export const optionalAuthenticate = async (
   }
 };
 
+/**
+ * @function requireRole
+ * @description Middleware factory to restrict a route to users with one of the given roles.
+ * Users whose role is listed in TWO_FACTOR_REQUIRED_ROLES are also required to have 2FA enabled.
+ * Must be placed after the authenticate middleware.
+ * @param {...UserRole} roles - Roles allowed to access the route
+ * @returns {Function} Middleware function
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (
+    req: IAuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    // First ensure user is authenticated
+    if (!req.user) {
+      const response: IApiResponse = {
+        success: false,
+        message: 'Access denied. Authentication required.',
+        error: 'Authentication required',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      const response: IApiResponse = {
+        success: false,
+        message: 'Access denied. You do not have permission to perform this action.',
+        error: 'Forbidden',
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    // Roles configured in TWO_FACTOR_REQUIRED_ROLES may only act once 2FA is enabled
+    if (
+      environment.get('twoFactorRequiredRoles').includes(req.user.role) &&
+      !req.user.twoFactorEnabled
+    ) {
+      const response: IApiResponse = {
+        success: false,
+        message: 'Access denied. Two-factor authentication must be enabled for your role.',
+        error: 'Two-factor authentication required',
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    next();
+  };
+};
+
 /**
  * @function requireAdmin
- * @description Middleware to require admin role (future implementation)
+ * @description Middleware to require admin role
+ * @param {IAuthenticatedRequest} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const requireAdmin = requireRole('admin');
+
+/**
+ * @function requireVerifiedEmail
+ * @description Middleware to restrict a route to users who verified their email address.
+ * Must be placed after the authenticate middleware.
  * @param {IAuthenticatedRequest} req - Express request object
  * @param {Response} res - Express response object
  * @param {NextFunction} next - Express next function
  */
-export const requireAdmin = async (
+export const requireVerifiedEmail = (
   req: IAuthenticatedRequest,
   res: Response,
   next: NextFunction
-): Promise<void> => {
-  // First ensure user is authenticated
+): void => {
   if (!req.user) {
     const response: IApiResponse = {
       success: false,
@@ -312,8 +419,16 @@ export const requireAdmin = async (
     return;
   }
 
-  // TODO: Implement admin role checking when user roles are added
-  // For now, all authenticated users have access
+  if (!req.user.emailVerified) {
+    const response: IApiResponse = {
+      success: false,
+      message: 'Access denied. Please verify your email address to perform this action.',
+      error: 'Email not verified',
+    };
+    res.status(403).json(response);
+    return;
+  }
+
   next();
 };
 
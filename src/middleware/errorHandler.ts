@@ -249,7 +249,7 @@ export const errorHandler = (
  * @param {Function} fn - Async function to wrap
  * @returns {Function} Wrapped function
  */
-export const asyncHandler = (fn: Function) => {
+export const asyncHandler = (fn: (req: any, res: Response, next: NextFunction) => unknown) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Rate limiting middleware
+ * @description Factory for fixed-window rate limiters backed by a pluggable store, plus the
+ * global API limiter and stricter per-route limiters. Every limiter reports its quota through
+ * the standard RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset headers; when several
+ * limiters apply to a route, the last (most specific) one sets the headers.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-21
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { rateLimitStore, IRateLimitStore } from '../services/rateLimitStore';
+import { rateLimitError } from './errorHandler';
+import { environment } from '../config/environment';
+import { translate } from '../config/i18n';
+import { getLanguage } from './language';
+import { authManager } from './auth';
+import { IAuthenticatedRequest } from '../types';
+
+/**
+ * @interface IRateLimiterOptions
+ * @description Options for creating a rate limiter
+ */
+export interface IRateLimiterOptions {
+  /** Prefix that keeps counters of different limiters apart */
+  name: string;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Maximum requests per key within a window */
+  max: number;
+  /** Builds the counter key for a request; returning null skips the limiter */
+  keyGenerator: (req: Request) => string | null;
+  /** Counter storage (default: shared in-memory store) */
+  store?: IRateLimitStore;
+}
+
+/**
+ * @function createRateLimiter
+ * @description Creates a middleware that counts requests per key, reports the quota in
+ * RateLimit-* headers and rejects requests with 429 once the key exceeds it
+ * @param {IRateLimiterOptions} options - Limiter options
+ * @returns {Function} Middleware function
+ */
+export const createRateLimiter = (options: IRateLimiterOptions) => {
+  const store = options.store || rateLimitStore;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const key = options.keyGenerator(req);
+      if (!key) {
+        return next();
+      }
+
+      const hit = await store.increment(`${options.name}:${key}`, options.windowMs);
+      const resetSeconds = Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+
+      res.set({
+        'RateLimit-Limit': options.max.toString(),
+        'RateLimit-Remaining': Math.max(0, options.max - hit.count).toString(),
+        'RateLimit-Reset': resetSeconds.toString(),
+      });
+
+      if (hit.count > options.max) {
+        res.set('Retry-After', resetSeconds.toString());
+        return next(rateLimitError(translate('errors.rateLimitExceeded', getLanguage(req))));
+      }
+
+      next();
+    } catch (error) {
+      // A failing store must not take the API down; let the request through
+      console.error('Rate limiter error:', error);
+      next();
+    }
+  };
+};
+
+/**
+ * @function ipKey
+ * @description Key generator that limits by client IP address
+ * @param {Request} req - Express request object
+ * @returns {string} Client IP
+ */
+export const ipKey = (req: Request): string => req.ip || 'unknown';
+
+/**
+ * @function emailKey
+ * @description Key generator that limits by the email address in the request body
+ * @param {Request} req - Express request object
+ * @returns {string | null} Normalized email, or null when the body has none
+ */
+export const emailKey = (req: Request): string | null => {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+};
+
+/**
+ * @function userOrIpKey
+ * @description Key generator that limits authenticated users by user ID and everyone else by IP.
+ * Before the authenticate middleware has run, the user ID is read from a validly signed token.
+ * @param {Request} req - Express request object
+ * @returns {string} Counter key
+ */
+export const userOrIpKey = (req: Request): string => {
+  const authenticatedUser = (req as IAuthenticatedRequest).user;
+  if (authenticatedUser) {
+    return `user:${authenticatedUser.userId}`;
+  }
+
+  const token = authManager.extractTokenFromHeader(req.headers.authorization);
+  if (token) {
+    const validationResult = authManager.validateToken(token);
+    if (validationResult.valid && validationResult.payload) {
+      return `user:${validationResult.payload.userId}`;
+    }
+  }
+
+  return `ip:${ipKey(req)}`;
+};
+
+/**
+ * @const globalRateLimiter
+ * @description Limits every API request using RATE_LIMIT_WINDOW_MS and RATE_LIMIT_MAX_REQUESTS
+ */
+export const globalRateLimiter = createRateLimiter({
+  name: 'global',
+  windowMs: environment.get('rateLimitWindowMs'),
+  max: environment.get('rateLimitMaxRequests'),
+  keyGenerator: userOrIpKey,
+});
+
+/**
+ * @const commentRateLimiter
+ * @description Stricter limit for posting comments (10 per minute)
+ */
+export const commentRateLimiter = createRateLimiter({
+  name: 'comment-create',
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: userOrIpKey,
+});
+
+/**
+ * @const movieViewRateLimiter
+ * @description Stricter limit for registering movie views (30 per minute), so view counts
+ * cannot be inflated by replaying the request
+ */
+export const movieViewRateLimiter = createRateLimiter({
+  name: 'movie-view',
+  windowMs: 60 * 1000,
+  max: 30,
+  keyGenerator: userOrIpKey,
+});
+
+/**
+ * @function createAuthRateLimiters
+ * @description Creates the per-IP and per-email limiters for a credential endpoint. Limiting by
+ * email as well stops a single account from being attacked from many IPs.
+ * @param {string} name - Endpoint name used to keep counters apart
+ * @returns {Function[]} Middleware functions
+ */
+export const createAuthRateLimiters = (name: string) => [
+  createRateLimiter({
+    name: `${name}-ip`,
+    windowMs: environment.get('rateLimitWindowMs'),
+    max: environment.get('authRateLimitMaxRequests'),
+    keyGenerator: ipKey,
+  }),
+  createRateLimiter({
+    name: `${name}-email`,
+    windowMs: environment.get('rateLimitWindowMs'),
+    max: environment.get('authRateLimitMaxRequests'),
+    keyGenerator: emailKey,
+  }),
+];
@@ -8,7 +8,6 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { IApiResponse, ValidationError, IUserRegistration, IUserLogin, IUserProfile } from '../types';
-import { validationError } from './errorHandler';
 import { translate } from '../config/i18n';
 import { getLanguage } from './language';
 
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview ActivityEvent model for MongoDB using Mongoose
+ * @description Defines the ActivityEvent schema: one document per view, new rating, favorite or
+ * comment on a movie, used to compute trending movies over recent time windows. Events do not
+ * reference the user and are removed automatically once they are older than the longest window.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IActivityEvent, ActivityEventType } from '../types';
+
+/**
+ * @interface IActivityEventDocument
+ * @description ActivityEvent document interface extending Mongoose Document
+ */
+export interface IActivityEventDocument extends IActivityEvent, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @type IActivityEventModel
+ * @description ActivityEvent model type (no custom statics)
+ */
+export type IActivityEventModel = Model<IActivityEventDocument>;
+
+/**
+ * @const ACTIVITY_EVENT_TYPES
+ * @description List of valid activity event types
+ */
+export const ACTIVITY_EVENT_TYPES: ActivityEventType[] = ['view', 'rating', 'favorite', 'comment'];
+
+/**
+ * @const ACTIVITY_EVENT_RETENTION_SECONDS
+ * @description How long events are kept (31 days, one more than the longest trending window)
+ */
+export const ACTIVITY_EVENT_RETENTION_SECONDS = 31 * 24 * 60 * 60;
+
+/**
+ * @const ActivityEventSchema
+ * @description Mongoose schema for ActivityEvent collection
+ */
+const ActivityEventSchema = new Schema<IActivityEventDocument, IActivityEventModel>(
+  {
+    movieId: {
+      type: String,
+      required: [true, 'Movie ID is required'],
+      ref: 'Movie',
+      validate: {
+        validator: function (movieId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(movieId);
+        },
+        message: 'Movie ID must be a valid MongoDB ObjectId',
+      },
+    },
+    type: {
+      type: String,
+      required: [true, 'Event type is required'],
+      enum: {
+        values: ACTIVITY_EVENT_TYPES,
+        message: 'Event type must be one of: ' + ACTIVITY_EVENT_TYPES.join(', '),
+      },
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description TTL index so events older than the longest trending window are removed
+ * automatically; it also serves the time-window match of the trending aggregation
+ */
+ActivityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: ACTIVITY_EVENT_RETENTION_SECONDS });
+
+/**
+ * @const ActivityEvent
+ * @description ActivityEvent model
+ */
+export const ActivityEvent = mongoose.model<IActivityEventDocument, IActivityEventModel>(
+  'ActivityEvent',
+  ActivityEventSchema
+);
+
+export default ActivityEvent;
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview AuditLog model for MongoDB using Mongoose
+ * @description Append-only record of administrative actions, kept for accountability
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IAuditLog, AuditAction } from '../types';
+
+/**
+ * @interface IAuditLogDocument
+ * @description AuditLog document interface extending Mongoose Document
+ */
+export interface IAuditLogDocument extends IAuditLog, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface IAuditLogModel
+ * @description AuditLog model interface with static methods
+ */
+export interface IAuditLogModel extends Model<IAuditLogDocument> {
+  findByTarget(
+    targetType: IAuditLog['targetType'],
+    targetId: string,
+    page: number,
+    limit: number
+  ): Promise<{ entries: IAuditLogDocument[]; total: number }>;
+}
+
+/**
+ * @const AUDIT_ACTIONS
+ * @description List of valid audit actions
+ */
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'user.deactivate',
+  'user.reactivate',
+  'user.force_password_reset',
+  'user.role_change',
+  'user.ban',
+  'comment.approve',
+  'comment.remove',
+];
+
+/**
+ * @const AuditLogSchema
+ * @description Mongoose schema for AuditLog collection
+ */
+const AuditLogSchema = new Schema<IAuditLogDocument, IAuditLogModel>(
+  {
+    actorId: {
+      type: String,
+      required: [true, 'Actor ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (actorId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(actorId);
+        },
+        message: 'Actor ID must be a valid MongoDB ObjectId',
+      },
+    },
+    action: {
+      type: String,
+      required: [true, 'Action is required'],
+      enum: {
+        values: AUDIT_ACTIONS,
+        message: 'Action must be one of: ' + AUDIT_ACTIONS.join(', '),
+      },
+    },
+    targetType: {
+      type: String,
+      required: [true, 'Target type is required'],
+      enum: ['user', 'comment'],
+    },
+    targetId: {
+      type: String,
+      required: [true, 'Target ID is required'],
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    ipAddress: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    // Entries are never updated, so only the creation time is kept
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Index for listing the history of a target
+ */
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+/**
+ * @description Index for listing the actions of an admin
+ */
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+
+/**
+ * @static findByTarget
+ * @description Finds the audit entries of a target, newest first
+ * @param {string} targetType - Target type
+ * @param {string} targetId - Target ID
+ * @param {number} page - Page number
+ * @param {number} limit - Entries per page
+ * @returns {Promise<{entries: IAuditLogDocument[], total: number}>} Page of entries and total count
+ */
+AuditLogSchema.statics.findByTarget = async function (
+  targetType: IAuditLog['targetType'],
+  targetId: string,
+  page: number,
+  limit: number
+): Promise<{ entries: IAuditLogDocument[]; total: number }> {
+  const filter = { targetType, targetId };
+
+  const [entries, total] = await Promise.all([
+    this.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('actorId', 'firstName lastName email'),
+    this.countDocuments(filter),
+  ]);
+
+  return { entries, total };
+};
+
+/**
+ * @const AuditLog
+ * @description AuditLog model
+ */
+export const AuditLog = mongoose.model<IAuditLogDocument, IAuditLogModel>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
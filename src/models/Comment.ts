@@ -8,6 +8,39 @@
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { IComment } from '../types';
+import { IPaginationParams, ISortSpec, paginate } from '../utils/pagination';
+import { CommentReaction, COMMENT_REACTIONS, emptyReactionCounts } from './CommentReaction';
+import { CommentReport } from './CommentReport';
+
+/**
+ * @type CommentSort
+ * @description Orders in which comment lists can be sorted
+ */
+export type CommentSort = 'newest' | 'oldest' | 'top' | 'controversial';
+
+/**
+ * @const COMMENT_SORTS
+ * @description Sort field and order of each comment sort
+ */
+export const COMMENT_SORTS: Record<CommentSort, ISortSpec> = {
+  newest: { field: 'createdAt', order: -1 },
+  oldest: { field: 'createdAt', order: 1 },
+  top: { field: 'topScore', order: -1 },
+  controversial: { field: 'controversyScore', order: -1 },
+};
+
+/**
+ * @const REPLY_PREVIEW
+ * @description Replies nested under each comment of a list response; the rest are loaded with
+ * the replies endpoint
+ */
+export const REPLY_PREVIEW = 3;
+
+/**
+ * @const AUTHOR_FIELDS
+ * @description User fields shown with a comment
+ */
+const AUTHOR_FIELDS = 'firstName lastName avatar';
 
 /**
  * @interface ICommentDocument
@@ -21,6 +54,61 @@ export interface ICommentDocument extends IComment, Document {
   updatedAt: Date;
 }
 
+/**
+ * @type ICommentThread
+ * @description Comment with a preview of its replies, nested up to the requested depth.
+ * `threadReplyCount` (all replies in the thread) is only set on top-level comments.
+ */
+export type ICommentThread = ICommentDocument & {
+  replies?: ICommentThread[];
+  threadReplyCount?: number;
+};
+
+/**
+ * @interface ICommentPage
+ * @description A page of comments. `total`, `page` and `pages` are only set in page mode;
+ * cursors are set in both modes.
+ */
+export interface ICommentPage {
+  comments: ICommentThread[];
+  total?: number;
+  page?: number;
+  pages?: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * @function hideRemoved
+ * @description Blanks the content and author of a removed comment, or of one hidden after
+ * reports, leaving the placeholder that keeps its replies in place
+ * @param {T} comment - Comment (document object or lean)
+ * @returns {T} Comment as shown to clients
+ */
+const hideRemoved = <T extends Partial<IComment>>(comment: T): T =>
+  comment.deleted || comment.hidden ? { ...comment, content: null, userId: null } : comment;
+
+/**
+ * @function toCommentPage
+ * @description Shapes a paginated result as the comment list response
+ * @param {Awaited<ReturnType<typeof paginate>>} result - Paginated result
+ * @returns {ICommentPage} Comment page
+ */
+const toCommentPage = (result: Awaited<ReturnType<typeof paginate<ICommentDocument>>>): ICommentPage => ({
+  comments: result.items.map(hideRemoved),
+  ...(result.page !== undefined && {
+    total: result.total,
+    page: result.page,
+    pages: result.totalPages,
+  }),
+  hasNextPage: result.hasNextPage,
+  hasPrevPage: result.hasPrevPage,
+  nextCursor: result.nextCursor,
+  prevCursor: result.prevCursor,
+});
+
 /**
  * @const commentSchema
  * @description Mongoose schema for Comment model
@@ -28,14 +116,20 @@ export interface ICommentDocument extends IComment, Document {
  */
 const commentSchema: Schema<ICommentDocument> = new Schema(
   {
+    // Cleared on tombstones, so a removed comment no longer identifies its author
     userId: {
       type: String,
       ref: 'User',
-      required: [true, 'User ID is required'],
+      required: [
+        function (this: ICommentDocument): boolean {
+          return !this.deleted;
+        },
+        'User ID is required',
+      ],
       index: true,
       validate: {
-        validator: function (userId: string): boolean {
-          return /^[0-9a-fA-F]{24}$/.test(userId);
+        validator: function (userId: string | null): boolean {
+          return userId === null || /^[0-9a-fA-F]{24}$/.test(userId);
         },
         message: 'User ID must be a valid MongoDB ObjectId',
       },
@@ -54,7 +148,12 @@ const commentSchema: Schema<ICommentDocument> = new Schema(
     },
     content: {
       type: String,
-      required: [true, 'Comment content is required'],
+      required: [
+        function (this: ICommentDocument): boolean {
+          return !this.deleted;
+        },
+        'Comment content is required',
+      ],
       minlength: [1, 'Comment must be at least 1 character long'],
       maxlength: [1000, 'Comment cannot exceed 1000 characters'],
       trim: true,
@@ -63,6 +162,75 @@ const commentSchema: Schema<ICommentDocument> = new Schema(
       type: Boolean,
       default: false,
     },
+    parentId: {
+      type: String,
+      ref: 'Comment',
+      default: null,
+      validate: {
+        validator: function (parentId: string | null): boolean {
+          return parentId === null || /^[0-9a-fA-F]{24}$/.test(parentId);
+        },
+        message: 'Parent comment ID must be a valid MongoDB ObjectId',
+      },
+    },
+    rootId: {
+      type: String,
+      ref: 'Comment',
+      default: null,
+      validate: {
+        validator: function (rootId: string | null): boolean {
+          return rootId === null || /^[0-9a-fA-F]{24}$/.test(rootId);
+        },
+        message: 'Root comment ID must be a valid MongoDB ObjectId',
+      },
+    },
+    depth: {
+      type: Number,
+      default: 0,
+      min: [0, 'Depth cannot be negative'],
+    },
+    replyCount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Reply count cannot be negative'],
+    },
+    deleted: {
+      type: Boolean,
+      default: false,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    reactionCounts: COMMENT_REACTIONS.reduce(
+      (fields, type) => ({ ...fields, [type]: { type: Number, default: 0, min: 0 } }),
+      {}
+    ),
+    topScore: {
+      type: Number,
+      default: 0,
+    },
+    controversyScore: {
+      type: Number,
+      default: 0,
+    },
+    reportCount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Report count cannot be negative'],
+    },
+    lastReportedAt: {
+      type: Date,
+      default: null,
+    },
+    hidden: {
+      type: Boolean,
+      default: false,
+    },
+    approvedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -82,89 +250,261 @@ commentSchema.index({ movieId: 1, createdAt: -1 });
  */
 commentSchema.index({ userId: 1, createdAt: -1 });
 
+/**
+ * @index
+ * @description Index for top-level comments of a movie
+ */
+commentSchema.index({ movieId: 1, parentId: 1, createdAt: -1 });
+
+/**
+ * @index
+ * @description Indexes for top-level comments of a movie sorted by reactions
+ */
+commentSchema.index({ movieId: 1, parentId: 1, topScore: -1 });
+commentSchema.index({ movieId: 1, parentId: 1, controversyScore: -1 });
+
+/**
+ * @index
+ * @description Index for the replies to a comment, oldest first
+ */
+commentSchema.index({ parentId: 1, createdAt: 1 });
+
+/**
+ * @index
+ * @description Index for counting the replies in a thread
+ */
+commentSchema.index({ rootId: 1 });
+
+/**
+ * @index
+ * @description Indexes for the moderation queue (comments with open reports)
+ */
+commentSchema.index({ reportCount: -1 }, { partialFilterExpression: { reportCount: { $gt: 0 } } });
+commentSchema.index({ lastReportedAt: -1 }, { partialFilterExpression: { reportCount: { $gt: 0 } } });
+
 /**
  * @method toJSON
- * @description Custom JSON serialization to exclude sensitive data
+ * @description Custom JSON serialization to exclude sensitive data and the content and author
+ * of removed and hidden comments
  */
 commentSchema.methods.toJSON = function (): Partial<ICommentDocument> {
   const comment = this.toObject();
-  return comment;
+  return hideRemoved(comment);
+};
+
+/**
+ * @function attachReplies
+ * @description Nests the first replies of each comment, level by level, down to a depth
+ * @param {Model<ICommentDocument>} model - Comment model
+ * @param {ICommentThread[]} comments - Comments to nest replies under (modified in place)
+ * @param {number} depth - Levels of replies to nest (0 for none)
+ * @returns {Promise<void>}
+ */
+const attachReplies = async (
+  model: Model<ICommentDocument>,
+  comments: ICommentThread[],
+  depth: number
+): Promise<void> => {
+  let level = comments;
+
+  for (let current = 0; current < depth; current++) {
+    const parents = level.filter((comment) => (comment.replyCount || 0) > 0);
+    if (parents.length === 0) {
+      return;
+    }
+
+    const groups = await model.aggregate<{ _id: string; replies: ICommentThread[] }>([
+      { $match: { parentId: { $in: parents.map((comment) => comment._id.toString()) } } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      { $group: { _id: '$parentId', replies: { $push: '$$ROOT' } } },
+      { $project: { replies: { $slice: ['$replies', REPLY_PREVIEW] } } },
+    ]);
+
+    const repliesByParent = new Map(groups.map((group) => [group._id, group.replies]));
+    level = [];
+
+    for (const parent of parents) {
+      const replies = repliesByParent.get(parent._id.toString()) || [];
+      await model.populate(replies, { path: 'userId', select: AUTHOR_FIELDS });
+      parent.replies = replies.map(hideRemoved);
+      level.push(...parent.replies);
+    }
+  }
 };
 
 /**
  * @static getMovieComments
- * @description Get all comments for a specific movie with pagination
+ * @description Get the top-level comments of a movie by page number or cursor, each with its
+ * thread reply count and replies nested down to a depth
  * @param {string} movieId - Movie ID
- * @param {number} page - Page number (default: 1)
- * @param {number} limit - Comments per page (default: 20)
- * @returns {Promise<{comments: ICommentDocument[], total: number, pages: number}>}
+ * @param {IPaginationParams} pagination - Parsed pagination parameters
+ * @param {number} depth - Levels of replies to nest (default: 0)
+ * @param {CommentSort} sort - Order of the top-level comments (default: newest)
+ * @returns {Promise<ICommentPage>}
  */
 commentSchema.statics.getMovieComments = async function (
   movieId: string,
-  page: number = 1,
-  limit: number = 20
-): Promise<{
-  comments: ICommentDocument[];
-  total: number;
-  page: number;
-  pages: number;
-}> {
-  const skip = (page - 1) * limit;
-
-  const [comments, total] = await Promise.all([
-    this.find({ movieId })
-      .populate('userId', 'firstName lastName avatar')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
-      .lean(),
-    this.countDocuments({ movieId }),
+  pagination: IPaginationParams,
+  depth: number = 0,
+  sort: CommentSort = 'newest'
+): Promise<ICommentPage> {
+  const result = await paginate<ICommentDocument>(
+    this,
+    { movieId, parentId: null },
+    COMMENT_SORTS[sort],
+    pagination,
+    (query) => query.populate('userId', AUTHOR_FIELDS)
+  );
+
+  const page = toCommentPage(result);
+
+  const threadCounts = await this.aggregate([
+    {
+      $match: {
+        rootId: { $in: page.comments.map((comment) => comment._id.toString()) },
+        deleted: { $ne: true },
+      },
+    },
+    { $group: { _id: '$rootId', count: { $sum: 1 } } },
   ]);
+  const countByRoot = new Map(threadCounts.map((entry: { _id: string; count: number }) => [entry._id, entry.count]));
 
-  return {
-    comments,
-    total,
-    page,
-    pages: Math.ceil(total / limit),
-  };
+  page.comments.forEach((comment) => {
+    comment.threadReplyCount = countByRoot.get(comment._id.toString()) || 0;
+  });
+
+  await attachReplies(this, page.comments, depth);
+
+  return page;
+};
+
+/**
+ * @static getReplies
+ * @description Get the direct replies to a comment by page number or cursor, each with its own
+ * replies nested down to a depth
+ * @param {string} commentId - Parent comment ID
+ * @param {IPaginationParams} pagination - Parsed pagination parameters
+ * @param {number} depth - Levels of replies to nest (default: 0)
+ * @param {CommentSort} sort - Order of the replies (default: oldest)
+ * @returns {Promise<ICommentPage>}
+ */
+commentSchema.statics.getReplies = async function (
+  commentId: string,
+  pagination: IPaginationParams,
+  depth: number = 0,
+  sort: CommentSort = 'oldest'
+): Promise<ICommentPage> {
+  const result = await paginate<ICommentDocument>(
+    this,
+    { parentId: commentId },
+    COMMENT_SORTS[sort],
+    pagination,
+    (query) => query.populate('userId', AUTHOR_FIELDS)
+  );
+
+  const page = toCommentPage(result);
+  await attachReplies(this, page.comments, depth);
+
+  return page;
 };
 
 /**
  * @static getUserComments
- * @description Get all comments by a specific user
+ * @description Get the comments of a user, newest first, by page number or cursor
  * @param {string} userId - User ID
- * @param {number} page - Page number (default: 1)
- * @param {number} limit - Comments per page (default: 20)
- * @returns {Promise<{comments: ICommentDocument[], total: number, pages: number}>}
+ * @param {IPaginationParams} pagination - Parsed pagination parameters
+ * @returns {Promise<ICommentPage>}
  */
 commentSchema.statics.getUserComments = async function (
   userId: string,
-  page: number = 1,
-  limit: number = 20
-): Promise<{
-  comments: ICommentDocument[];
-  total: number;
-  page: number;
-  pages: number;
-}> {
-  const skip = (page - 1) * limit;
-
-  const [comments, total] = await Promise.all([
-    this.find({ userId })
-      .populate('movieId', 'title poster')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
-      .lean(),
-    this.countDocuments({ userId }),
-  ]);
+  pagination: IPaginationParams
+): Promise<ICommentPage> {
+  const result = await paginate<ICommentDocument>(
+    this,
+    { userId, deleted: { $ne: true } },
+    { field: 'createdAt', order: -1 },
+    pagination,
+    (query) => query.populate('movieId', 'title poster')
+  );
 
-  return {
-    comments,
-    total,
-    page,
-    pages: Math.ceil(total / limit),
-  };
+  return toCommentPage(result);
+};
+
+/**
+ * @static removeComment
+ * @description Removes a comment. A comment with replies becomes a tombstone so the thread
+ * stays intact; one without replies is deleted, and so are tombstones left without replies by
+ * the deletion.
+ * @param {ICommentDocument} comment - Comment to remove
+ * @returns {Promise<'deleted' | 'tombstoned'>} How the comment was removed
+ */
+commentSchema.statics.removeComment = async function (
+  comment: ICommentDocument
+): Promise<'deleted' | 'tombstoned'> {
+  // Reactions were to the content, which is gone either way
+  await CommentReaction.deleteMany({ commentId: comment._id.toString() });
+
+  if ((comment.replyCount || 0) > 0) {
+    await this.updateOne(
+      { _id: comment._id },
+      {
+        $set: {
+          deleted: true,
+          deletedAt: new Date(),
+          content: null,
+          userId: null,
+          reactionCounts: emptyReactionCounts(),
+          topScore: 0,
+          controversyScore: 0,
+        },
+      }
+    );
+    return 'tombstoned';
+  }
+
+  await this.deleteOne({ _id: comment._id });
+
+  let parentId = comment.parentId;
+  while (parentId) {
+    const parent: ICommentDocument | null = await this.findOneAndUpdate(
+      { _id: parentId },
+      { $inc: { replyCount: -1 } },
+      { new: true }
+    );
+
+    if (!parent || !parent.deleted || parent.replyCount! > 0) {
+      break;
+    }
+
+    await this.deleteOne({ _id: parent._id });
+    parentId = parent.parentId;
+  }
+
+  return 'deleted';
+};
+
+/**
+ * @static removeUserComments
+ * @description Removes every comment of a user with removeComment, deepest first so replies to
+ * their own comments do not keep tombstones alive. Tombstones left by earlier removals are
+ * detached from the user as well.
+ * @param {string} userId - User ID
+ * @returns {Promise<number>} Number of comments removed
+ */
+commentSchema.statics.removeUserComments = async function (userId: string): Promise<number> {
+  const comments: ICommentDocument[] = await this.find({ userId, deleted: { $ne: true } }).sort({ depth: -1 });
+
+  for (const comment of comments) {
+    // Re-read the reply count, which earlier removals in this loop may have lowered
+    const current: ICommentDocument | null = await this.findById(comment._id);
+    if (current) {
+      await (this as ICommentModel).removeComment(current);
+    }
+  }
+
+  await this.updateMany({ userId, deleted: true }, { $set: { userId: null } });
+
+  return comments.length;
 };
 
 /**
@@ -176,6 +516,10 @@ commentSchema.statics.getUserComments = async function (
 commentSchema.statics.deleteMovieComments = async function (
   movieId: string
 ): Promise<{ deletedCount: number }> {
+  const commentIds = (await this.distinct('_id', { movieId })).map((id: unknown) => String(id));
+  await CommentReaction.deleteMany({ commentId: { $in: commentIds } });
+  await CommentReport.deleteMany({ commentId: { $in: commentIds } });
+
   const result = await this.deleteMany({ movieId });
   return { deletedCount: result.deletedCount || 0 };
 };
@@ -188,24 +532,19 @@ commentSchema.statics.deleteMovieComments = async function (
 interface ICommentModel extends Model<ICommentDocument> {
   getMovieComments(
     movieId: string,
-    page?: number,
-    limit?: number
-  ): Promise<{
-    comments: ICommentDocument[];
-    total: number;
-    page: number;
-    pages: number;
-  }>;
-  getUserComments(
-    userId: string,
-    page?: number,
-    limit?: number
-  ): Promise<{
-    comments: ICommentDocument[];
-    total: number;
-    page: number;
-    pages: number;
-  }>;
+    pagination: IPaginationParams,
+    depth?: number,
+    sort?: CommentSort
+  ): Promise<ICommentPage>;
+  getReplies(
+    commentId: string,
+    pagination: IPaginationParams,
+    depth?: number,
+    sort?: CommentSort
+  ): Promise<ICommentPage>;
+  getUserComments(userId: string, pagination: IPaginationParams): Promise<ICommentPage>;
+  removeComment(comment: ICommentDocument): Promise<'deleted' | 'tombstoned'>;
+  removeUserComments(userId: string): Promise<number>;
   deleteMovieComments(movieId: string): Promise<{ deletedCount: number }>;
 }
 
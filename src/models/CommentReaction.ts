@@ -0,0 +1,213 @@
+/**
+ * @fileoverview CommentReaction model for MongoDB using Mongoose
+ * @description Defines the CommentReaction schema: likes and emoji reactions on comments, at most
+ * one of each type per user per comment. Counts and ranking scores are denormalized on the comment.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { CommentReactionType, ICommentReaction } from '../types';
+import { wilsonLowerBound } from '../utils/wilsonScore';
+
+/**
+ * @const COMMENT_REACTIONS
+ * @description Reactions users can leave on a comment
+ */
+export const COMMENT_REACTIONS: CommentReactionType[] = ['like', 'love', 'laugh', 'wow', 'sad', 'angry'];
+
+/**
+ * @const POSITIVE_REACTIONS
+ * @description Reactions that count in favour of a comment when ranking
+ */
+const POSITIVE_REACTIONS: CommentReactionType[] = ['like', 'love', 'laugh', 'wow'];
+
+/**
+ * @const NEGATIVE_REACTIONS
+ * @description Reactions that count against a comment when ranking ("sad" counts neither way)
+ */
+const NEGATIVE_REACTIONS: CommentReactionType[] = ['angry'];
+
+/**
+ * @function emptyReactionCounts
+ * @description Reaction counts of a comment nobody reacted to
+ * @returns {Record<CommentReactionType, number>} Zero for every reaction type
+ */
+export const emptyReactionCounts = (): Record<CommentReactionType, number> =>
+  COMMENT_REACTIONS.reduce(
+    (counts, type) => ({ ...counts, [type]: 0 }),
+    {} as Record<CommentReactionType, number>
+  );
+
+/**
+ * @function controversyScore
+ * @description Scores how divisive a comment is: high when it has many positive and negative
+ * reactors in similar numbers, 0 when either side is missing
+ * @param {number} positive - Users with a positive reaction
+ * @param {number} negative - Users with a negative reaction
+ * @returns {number} Score, rounded to 4 decimals
+ */
+const controversyScore = (positive: number, negative: number): number => {
+  if (positive <= 0 || negative <= 0) {
+    return 0;
+  }
+
+  const balance = Math.min(positive, negative) / Math.max(positive, negative);
+  return Math.round(Math.pow(positive + negative, balance) * 10000) / 10000;
+};
+
+/**
+ * @interface ICommentReactionDocument
+ * @description CommentReaction document interface extending Mongoose Document
+ */
+export interface ICommentReactionDocument extends ICommentReaction, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface ICommentReactionModel
+ * @description CommentReaction model interface with static methods
+ */
+export interface ICommentReactionModel extends Model<ICommentReactionDocument> {
+  updateCommentCounts(commentId: string): Promise<void>;
+  getUserReactions(userId: string, commentIds: string[]): Promise<Map<string, CommentReactionType[]>>;
+}
+
+/**
+ * @const CommentReactionSchema
+ * @description Mongoose schema for CommentReaction collection
+ */
+const CommentReactionSchema = new Schema<ICommentReactionDocument, ICommentReactionModel>(
+  {
+    commentId: {
+      type: String,
+      required: [true, 'Comment ID is required'],
+      ref: 'Comment',
+      validate: {
+        validator: function (commentId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(commentId);
+        },
+        message: 'Comment ID must be a valid MongoDB ObjectId',
+      },
+    },
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (userId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(userId);
+        },
+        message: 'User ID must be a valid MongoDB ObjectId',
+      },
+    },
+    type: {
+      type: String,
+      required: [true, 'Reaction type is required'],
+      enum: {
+        values: COMMENT_REACTIONS,
+        message: `Reaction must be one of: ${COMMENT_REACTIONS.join(', ')}`,
+      },
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+/**
+ * @description Compound unique index allowing each reaction type once per user per comment
+ */
+CommentReactionSchema.index({ commentId: 1, userId: 1, type: 1 }, { unique: true });
+
+/**
+ * @description Index for a user's reactions (own reactions on a page of comments, account purge)
+ */
+CommentReactionSchema.index({ userId: 1, commentId: 1 });
+
+/**
+ * @static updateCommentCounts
+ * @description Recounts the reactions of a comment and stores the counts and ranking scores on it.
+ * The scores count reactors rather than reactions, so a user leaving several positive reactions
+ * still weighs as one vote.
+ * @param {string} commentId - Comment ID
+ * @returns {Promise<void>}
+ */
+CommentReactionSchema.statics.updateCommentCounts = async function (commentId: string): Promise<void> {
+  const [result]: Array<{
+    types: Array<{ _id: CommentReactionType; count: number }>;
+    reactors: Array<{ positive: number; negative: number }>;
+  }> = await this.aggregate([
+    { $match: { commentId } },
+    {
+      $facet: {
+        types: [{ $group: { _id: '$type', count: { $sum: 1 } } }],
+        reactors: [
+          {
+            $group: {
+              _id: '$userId',
+              positive: { $max: { $cond: [{ $in: ['$type', POSITIVE_REACTIONS] }, 1, 0] } },
+              negative: { $max: { $cond: [{ $in: ['$type', NEGATIVE_REACTIONS] }, 1, 0] } },
+            },
+          },
+          { $group: { _id: null, positive: { $sum: '$positive' }, negative: { $sum: '$negative' } } },
+        ],
+      },
+    },
+  ]);
+
+  const reactionCounts = emptyReactionCounts();
+  (result?.types || []).forEach((group) => {
+    reactionCounts[group._id] = group.count;
+  });
+
+  const { positive, negative } = result?.reactors[0] || { positive: 0, negative: 0 };
+
+  await mongoose.model('Comment').updateOne(
+    { _id: commentId },
+    {
+      $set: {
+        reactionCounts,
+        topScore: wilsonLowerBound(positive, positive + negative),
+        controversyScore: controversyScore(positive, negative),
+      },
+    },
+    { timestamps: false }
+  );
+};
+
+/**
+ * @static getUserReactions
+ * @description Gets a user's reactions on a set of comments
+ * @param {string} userId - User ID
+ * @param {string[]} commentIds - Comment IDs
+ * @returns {Promise<Map<string, CommentReactionType[]>>} Reaction types by comment ID
+ */
+CommentReactionSchema.statics.getUserReactions = async function (
+  userId: string,
+  commentIds: string[]
+): Promise<Map<string, CommentReactionType[]>> {
+  const reactions: ICommentReaction[] = await this.find({ userId, commentId: { $in: commentIds } })
+    .select('commentId type')
+    .lean();
+
+  const byComment = new Map<string, CommentReactionType[]>();
+  for (const reaction of reactions) {
+    byComment.set(reaction.commentId, [...(byComment.get(reaction.commentId) || []), reaction.type]);
+  }
+
+  return byComment;
+};
+
+/**
+ * @const CommentReaction
+ * @description CommentReaction model
+ */
+export const CommentReaction = mongoose.model<ICommentReactionDocument, ICommentReactionModel>(
+  'CommentReaction',
+  CommentReactionSchema
+);
+
+export default CommentReaction;
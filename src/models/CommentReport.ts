@@ -0,0 +1,242 @@
+/**
+ * @fileoverview CommentReport model for MongoDB using Mongoose
+ * @description Defines the CommentReport schema: reports of abusive comments, at most one per user
+ * per comment. Open reports are counted on the comment, which is hidden once enough users report it
+ * and stays in the moderation queue until a moderator approves or removes it.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { CommentReportReason, ICommentReport } from '../types';
+
+/**
+ * @const COMMENT_REPORT_REASONS
+ * @description Reasons users can give when reporting a comment
+ */
+export const COMMENT_REPORT_REASONS: CommentReportReason[] = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'spoilers',
+  'misinformation',
+  'other',
+];
+
+/**
+ * @const RECENT_REPORTS
+ * @description Open reports shown with each comment of the moderation queue, newest first
+ */
+const RECENT_REPORTS = 5;
+
+/**
+ * @interface IReportSummary
+ * @description Open reports of a comment as shown in the moderation queue
+ */
+export interface IReportSummary {
+  reasons: Partial<Record<CommentReportReason, number>>;
+  recent: Array<Pick<ICommentReport, 'reporterId' | 'reason' | 'details' | 'createdAt'>>;
+}
+
+/**
+ * @interface ICommentReportDocument
+ * @description CommentReport document interface extending Mongoose Document
+ */
+export interface ICommentReportDocument extends ICommentReport, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface ICommentReportModel
+ * @description CommentReport model interface with static methods
+ */
+export interface ICommentReportModel extends Model<ICommentReportDocument> {
+  updateCommentReports(commentId: string, hideThreshold: number): Promise<{ reportCount: number; hidden: boolean }>;
+  resolveOpenReports(
+    commentId: string,
+    resolution: 'approved' | 'removed',
+    moderatorId: string
+  ): Promise<number>;
+  summarizeOpenReports(commentIds: string[]): Promise<Map<string, IReportSummary>>;
+}
+
+/**
+ * @const CommentReportSchema
+ * @description Mongoose schema for CommentReport collection
+ */
+const CommentReportSchema = new Schema<ICommentReportDocument, ICommentReportModel>(
+  {
+    commentId: {
+      type: String,
+      required: [true, 'Comment ID is required'],
+      ref: 'Comment',
+      validate: {
+        validator: function (commentId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(commentId);
+        },
+        message: 'Comment ID must be a valid MongoDB ObjectId',
+      },
+    },
+    reporterId: {
+      type: String,
+      required: [true, 'Reporter ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (reporterId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(reporterId);
+        },
+        message: 'Reporter ID must be a valid MongoDB ObjectId',
+      },
+    },
+    reason: {
+      type: String,
+      required: [true, 'Report reason is required'],
+      enum: {
+        values: COMMENT_REPORT_REASONS,
+        message: `Reason must be one of: ${COMMENT_REPORT_REASONS.join(', ')}`,
+      },
+    },
+    details: {
+      type: String,
+      default: null,
+      trim: true,
+      maxlength: [500, 'Report details cannot exceed 500 characters'],
+    },
+    status: {
+      type: String,
+      enum: ['open', 'resolved'],
+      default: 'open',
+    },
+    resolution: {
+      type: String,
+      enum: ['approved', 'removed', null],
+      default: null,
+    },
+    resolvedBy: {
+      type: String,
+      ref: 'User',
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * @description Compound unique index allowing one report per user per comment
+ */
+CommentReportSchema.index({ commentId: 1, reporterId: 1 }, { unique: true });
+
+/**
+ * @description Index for the open reports of a comment, newest first
+ */
+CommentReportSchema.index({ commentId: 1, status: 1, createdAt: -1 });
+
+/**
+ * @description Index for a user's reports (data export, account purge)
+ */
+CommentReportSchema.index({ reporterId: 1 });
+
+/**
+ * @static updateCommentReports
+ * @description Recounts the open reports of a comment and stores the count on it. The comment is
+ * hidden while the count is at or above the threshold, unless a moderator approved it.
+ * @param {string} commentId - Comment ID
+ * @param {number} hideThreshold - Distinct reporters that hide a comment
+ * @returns {Promise<{reportCount: number, hidden: boolean}>} New report count and visibility
+ */
+CommentReportSchema.statics.updateCommentReports = async function (
+  commentId: string,
+  hideThreshold: number
+): Promise<{ reportCount: number; hidden: boolean }> {
+  const counts = await this.aggregate([
+    { $match: { commentId, status: 'open' } },
+    { $group: { _id: null, count: { $sum: 1 }, lastReportedAt: { $max: '$createdAt' } } },
+  ]);
+
+  const reportCount: number = counts[0]?.count || 0;
+  const Comment = mongoose.model('Comment');
+  const comment = await Comment.findById(commentId).select('approvedAt').lean<{ approvedAt?: Date | null }>();
+  const hidden = reportCount >= hideThreshold && !comment?.approvedAt;
+
+  await Comment.updateOne(
+    { _id: commentId },
+    { $set: { reportCount, lastReportedAt: counts[0]?.lastReportedAt || null, hidden } },
+    { timestamps: false }
+  );
+
+  return { reportCount, hidden };
+};
+
+/**
+ * @static resolveOpenReports
+ * @description Closes the open reports of a comment with a moderator's decision
+ * @param {string} commentId - Comment ID
+ * @param {'approved' | 'removed'} resolution - Moderator's decision
+ * @param {string} moderatorId - Moderator's user ID
+ * @returns {Promise<number>} Number of reports closed
+ */
+CommentReportSchema.statics.resolveOpenReports = async function (
+  commentId: string,
+  resolution: 'approved' | 'removed',
+  moderatorId: string
+): Promise<number> {
+  const result = await this.updateMany(
+    { commentId, status: 'open' },
+    { $set: { status: 'resolved', resolution, resolvedBy: moderatorId, resolvedAt: new Date() } }
+  );
+
+  return result.modifiedCount;
+};
+
+/**
+ * @static summarizeOpenReports
+ * @description Counts the open reports of a set of comments by reason, with the latest ones
+ * @param {string[]} commentIds - Comment IDs
+ * @returns {Promise<Map<string, IReportSummary>>} Summary by comment ID
+ */
+CommentReportSchema.statics.summarizeOpenReports = async function (
+  commentIds: string[]
+): Promise<Map<string, IReportSummary>> {
+  const groups: Array<{ _id: string; reports: IReportSummary['recent'] }> = await this.aggregate([
+    { $match: { commentId: { $in: commentIds }, status: 'open' } },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: '$commentId',
+        reports: { $push: { reporterId: '$reporterId', reason: '$reason', details: '$details', createdAt: '$createdAt' } },
+      },
+    },
+  ]);
+
+  return new Map(
+    groups.map((group) => [
+      group._id,
+      {
+        reasons: group.reports.reduce<IReportSummary['reasons']>(
+          (reasons, report) => ({ ...reasons, [report.reason]: (reasons[report.reason] || 0) + 1 }),
+          {}
+        ),
+        recent: group.reports.slice(0, RECENT_REPORTS),
+      },
+    ])
+  );
+};
+
+/**
+ * @const CommentReport
+ * @description CommentReport model
+ */
+export const CommentReport = mongoose.model<ICommentReportDocument, ICommentReportModel>(
+  'CommentReport',
+  CommentReportSchema
+);
+
+export default CommentReport;
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview DataExport model for MongoDB using Mongoose
+ * @description Defines the DataExport schema for personal data exports that are produced in the
+ * background. The finished archive is stored in GridFS (a MongoDB document cannot exceed 16 MB)
+ * and referenced by `fileId`; exports and their archives are removed after 7 days.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IDataExport, DataExportFormat, DataExportStatus } from '../types';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '../config/i18n';
+
+/**
+ * @interface IDataExportDocument
+ * @description DataExport document interface extending Mongoose Document
+ */
+export interface IDataExportDocument extends IDataExport, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface IDataExportModel
+ * @description DataExport model interface with static methods
+ */
+export interface IDataExportModel extends Model<IDataExportDocument> {
+  findInProgressForUser(userId: string): Promise<IDataExportDocument | null>;
+  findStale(): Promise<IDataExportDocument[]>;
+}
+
+/**
+ * @const DATA_EXPORT_FORMATS
+ * @description List of valid export formats
+ */
+export const DATA_EXPORT_FORMATS: DataExportFormat[] = ['json', 'zip'];
+
+/**
+ * @const DATA_EXPORT_STATUSES
+ * @description List of valid export statuses
+ */
+const DATA_EXPORT_STATUSES: DataExportStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+/**
+ * @const DATA_EXPORT_RETENTION_MS
+ * @description How long a finished export can be downloaded (7 days)
+ */
+export const DATA_EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * @const DATA_EXPORT_STALE_MS
+ * @description An export still pending or processing this long after its last update was
+ * interrupted (e.g. by a restart) and is retried or failed by the data export job (30 minutes)
+ */
+export const DATA_EXPORT_STALE_MS = 30 * 60 * 1000;
+
+/**
+ * @const DATA_EXPORT_MAX_ATTEMPTS
+ * @description Times an interrupted export is started before it is marked as failed
+ */
+export const DATA_EXPORT_MAX_ATTEMPTS = 3;
+
+/**
+ * @const DataExportSchema
+ * @description Mongoose schema for DataExport collection
+ */
+const DataExportSchema = new Schema<IDataExportDocument, IDataExportModel>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (userId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(userId);
+        },
+        message: 'User ID must be a valid MongoDB ObjectId',
+      },
+    },
+    format: {
+      type: String,
+      required: [true, 'Format is required'],
+      enum: {
+        values: DATA_EXPORT_FORMATS,
+        message: 'Format must be one of: ' + DATA_EXPORT_FORMATS.join(', '),
+      },
+    },
+    status: {
+      type: String,
+      enum: DATA_EXPORT_STATUSES,
+      default: 'pending',
+    },
+    fileName: {
+      type: String,
+      default: null,
+    },
+    contentType: {
+      type: String,
+      default: null,
+    },
+    // GridFS file holding the archive
+    fileId: {
+      type: String,
+      default: null,
+    },
+    size: {
+      type: Number,
+      default: 0,
+    },
+    language: {
+      type: String,
+      enum: SUPPORTED_LANGUAGES,
+      default: DEFAULT_LANGUAGE,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        delete (ret as any).fileId;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Index for looking up a user's exports
+ */
+DataExportSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * @description Index for finding interrupted exports
+ */
+DataExportSchema.index({ status: 1, updatedAt: 1 });
+
+/**
+ * @description TTL index so expired exports are removed automatically (their archives are deleted
+ * by the data export job)
+ */
+DataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * @static findInProgressForUser
+ * @description Finds an export of the user that is still being produced. Stale exports are
+ * ignored so an interrupted export does not block new requests.
+ * @param {string} userId - User ID
+ * @returns {Promise<IDataExportDocument | null>} Export in progress, if any
+ */
+DataExportSchema.statics.findInProgressForUser = function (
+  userId: string
+): Promise<IDataExportDocument | null> {
+  return this.findOne({
+    userId,
+    status: { $in: ['pending', 'processing'] },
+    updatedAt: { $gt: new Date(Date.now() - DATA_EXPORT_STALE_MS) },
+  });
+};
+
+/**
+ * @static findStale
+ * @description Finds exports left pending or processing for longer than DATA_EXPORT_STALE_MS
+ * @returns {Promise<IDataExportDocument[]>} Interrupted exports
+ */
+DataExportSchema.statics.findStale = function (): Promise<IDataExportDocument[]> {
+  return this.find({
+    status: { $in: ['pending', 'processing'] },
+    updatedAt: { $lte: new Date(Date.now() - DATA_EXPORT_STALE_MS) },
+  });
+};
+
+/**
+ * @const DataExport
+ * @description DataExport model
+ */
+export const DataExport = mongoose.model<IDataExportDocument, IDataExportModel>(
+  'DataExport',
+  DataExportSchema
+);
+
+export default DataExport;
@@ -7,7 +7,9 @@
  */
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { IMovie, MovieGenre } from '../types';
+import { IMovie, IMovieSearchDocument, MovieGenre } from '../types';
+import { SupportedLanguage } from '../config/i18n';
+import { calculateWeightedRating } from '../utils/weightedRating';
 
 /**
  * @interface IMovieDocument
@@ -29,10 +31,17 @@ export interface IMovieDocument extends IMovie, Document {
  */
 export interface IMovieModel extends Model<IMovieDocument> {
   searchByTitle(searchTerm: string): Promise<IMovieDocument[]>;
+  textSearch(
+    searchTerm: string,
+    language: SupportedLanguage,
+    page: number,
+    limit: number
+  ): Promise<{ movies: Array<IMovie & { score: number }>; total: number }>;
   filterByGenre(genre: MovieGenre | MovieGenre[]): Promise<IMovieDocument[]>;
   getMostPopular(limit?: number): Promise<IMovieDocument[]>;
   getRecentlyAdded(limit?: number): Promise<IMovieDocument[]>;
-  getTopRated(limit?: number): Promise<IMovieDocument[]>;
+  getTopRated(limit?: number, genre?: MovieGenre): Promise<IMovieDocument[]>;
+  getTopRatedByGenre(limit?: number): Promise<Array<{ genre: MovieGenre; movies: IMovie[] }>>;
   findActive(): Promise<IMovieDocument[]>;
 }
 
@@ -40,7 +49,7 @@ export interface IMovieModel extends Model<IMovieDocument> {
  * @const VALID_GENRES
  * @description List of valid movie genres
  */
-const VALID_GENRES: MovieGenre[] = [
+export const VALID_GENRES: MovieGenre[] = [
   'Action',
   'Adventure',
   'Comedy',
@@ -61,7 +70,106 @@ const VALID_GENRES: MovieGenre[] = [
  * @const VALID_VIDEO_PROVIDERS
  * @description List of valid video providers
  */
-const VALID_VIDEO_PROVIDERS = ['cloudinary', 'pexels', 'youtube', 'external'];
+export const VALID_VIDEO_PROVIDERS = ['cloudinary', 'pexels', 'youtube', 'external'];
+
+/**
+ * @const TEXT_SEARCH_LANGUAGES
+ * @description MongoDB text search language (stemming and stop words) for each supported language
+ */
+const TEXT_SEARCH_LANGUAGES: Record<SupportedLanguage, string> = {
+  en: 'english',
+  es: 'spanish',
+};
+
+/**
+ * @const SEARCHABLE_FIELDS
+ * @description Movie fields copied into the search documents
+ */
+const SEARCHABLE_FIELDS = ['title', 'director', 'cast', 'description'] as const;
+
+/**
+ * @const TEXT_SEARCH_MAX_LENGTH
+ * @description Longer search terms are truncated
+ */
+const TEXT_SEARCH_MAX_LENGTH = 100;
+
+/**
+ * @function sanitizeTextSearch
+ * @description Turns user input into a plain $text search string. Quotes (phrase search) and
+ * leading dashes (term negation) have special meaning in $text, so they are removed and every
+ * remaining word is searched for.
+ * @param {string} searchTerm - Raw search input
+ * @returns {string} Safe search string, empty if nothing searchable remains
+ */
+export const sanitizeTextSearch = (searchTerm: string): string => {
+  return searchTerm
+    .slice(0, TEXT_SEARCH_MAX_LENGTH)
+    .replace(/["\\]/g, ' ')
+    .split(/\s+/)
+    .map((word) => word.replace(/^-+/, ''))
+    .filter((word) => /[\p{L}\p{N}]/u.test(word))
+    .join(' ');
+};
+
+/**
+ * @function normalizeSearchText
+ * @description Normalizes text for accent- and case-insensitive matching: diacritics are removed
+ * ("Acción" becomes "accion"), letters lowercased and whitespace collapsed
+ * @param {string} text - Text to normalize
+ * @returns {string} Normalized text
+ */
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * @function buildSearchTokens
+ * @description Builds the autocomplete tokens of a movie: for the title, the director and each
+ * cast member, the normalized value starting at every word, so that "Star Wars" can be found
+ * by typing "star" or "wars"
+ * @param {Pick<IMovie, 'title' | 'director' | 'cast'>} movie - Movie fields to index
+ * @returns {string[]} Unique tokens
+ */
+export const buildSearchTokens = (movie: Pick<IMovie, 'title' | 'director' | 'cast'>): string[] => {
+  const values = [movie.title, movie.director, ...(movie.cast || [])].filter(Boolean) as string[];
+  const tokens = new Set<string>();
+
+  for (const value of values) {
+    const normalized = normalizeSearchText(value);
+    const wordStart = /(?:^|[^\p{L}\p{N}])([\p{L}\p{N}])/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = wordStart.exec(normalized)) !== null) {
+      tokens.add(normalized.slice(match.index + match[0].length - match[1].length));
+    }
+  }
+
+  return [...tokens];
+};
+
+/**
+ * @function buildSearchDocuments
+ * @description Builds one copy of the movie's searchable text per supported language. The text
+ * index stems each copy in the language it names (its `language` field overrides the index
+ * language), so a query stemmed in the request language matches keys stemmed the same way.
+ * @param {Pick<IMovie, 'title' | 'director' | 'cast' | 'description'>} movie - Movie fields to index
+ * @returns {IMovieSearchDocument[]} Search documents
+ */
+export const buildSearchDocuments = (
+  movie: Pick<IMovie, 'title' | 'director' | 'cast' | 'description'>
+): IMovieSearchDocument[] =>
+  Object.values(TEXT_SEARCH_LANGUAGES).map((language) => ({
+    language,
+    title: movie.title,
+    director: movie.director,
+    cast: movie.cast || [],
+    description: movie.description,
+  }));
 
 /**
  * @const MovieSchema
@@ -230,6 +338,12 @@ const MovieSchema = new Schema<IMovieDocument, IMovieModel>(
         message: 'Total ratings must be a whole number',
       },
     },
+    weightedRating: {
+      type: Number,
+      default: () => calculateWeightedRating(0, 0),
+      min: [0, 'Weighted rating cannot be less than 0'],
+      max: [5, 'Weighted rating cannot exceed 5'],
+    },
     views: {
       type: Number,
       default: 0,
@@ -239,6 +353,29 @@ const MovieSchema = new Schema<IMovieDocument, IMovieModel>(
         message: 'Views must be a whole number',
       },
     },
+    // Derived from title, director and cast on every change; see buildSearchTokens
+    searchTokens: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Derived from title, director, cast and description on every change; see buildSearchDocuments
+    searchDocuments: {
+      type: [
+        new Schema(
+          {
+            language: { type: String, required: true },
+            title: String,
+            director: String,
+            cast: [String],
+            description: String,
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+      select: false,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -267,13 +404,44 @@ const MovieSchema = new Schema<IMovieDocument, IMovieModel>(
 );
 
 /**
- * @description Compound index for search and filter performance
+ * @description Weighted text index for relevance-ranked search over the per-language search
+ * documents, each stemmed in the language named by its `language` field. A collection can only
+ * have one text index, so after changing it run `npm run sync-indexes` to replace the old one.
+ */
+MovieSchema.index(
+  {
+    'searchDocuments.title': 'text',
+    'searchDocuments.director': 'text',
+    'searchDocuments.cast': 'text',
+    'searchDocuments.description': 'text',
+  },
+  {
+    name: 'movie_text_search',
+    weights: {
+      'searchDocuments.title': 10,
+      'searchDocuments.director': 5,
+      'searchDocuments.cast': 5,
+      'searchDocuments.description': 1,
+    },
+    default_language: 'none',
+    language_override: 'language',
+  }
+);
+
+/**
+ * @description Compound indexes for filter and sort performance
  */
-MovieSchema.index({ title: 'text', description: 'text' });
 MovieSchema.index({ genre: 1, averageRating: -1 });
 MovieSchema.index({ createdAt: -1 });
 MovieSchema.index({ averageRating: -1, totalRatings: -1 });
 MovieSchema.index({ views: -1 });
+MovieSchema.index({ weightedRating: -1, totalRatings: -1 });
+MovieSchema.index({ genre: 1, weightedRating: -1 });
+
+/**
+ * @description Index for autocomplete prefix matching (anchored regex on searchTokens)
+ */
+MovieSchema.index({ searchTokens: 1 });
 
 /**
  * @method updateRating
@@ -288,17 +456,23 @@ MovieSchema.methods.updateRating = async function (
 ): Promise<void> {
   this.averageRating = Math.round(newAverage * 10) / 10; // Round to 1 decimal
   this.totalRatings = newTotal;
+  this.weightedRating = calculateWeightedRating(this.averageRating, newTotal);
   await this.save();
 };
 
 /**
  * @method incrementViews
- * @description Increments the view counter by 1
+ * @description Increments the view counter by 1 with an atomic $inc, so concurrent views are not
+ * lost, and reflects the new count on this document
  * @returns {Promise<void>}
  */
 MovieSchema.methods.incrementViews = async function (): Promise<void> {
-  this.views = (this.views || 0) + 1;
-  await this.save();
+  const updated = await (this.constructor as IMovieModel)
+    .findByIdAndUpdate(this._id, { $inc: { views: 1 } }, { new: true })
+    .select('views')
+    .lean<{ views: number }>();
+
+  this.views = updated ? updated.views : (this.views || 0) + 1;
 };
 
 /**
@@ -344,13 +518,54 @@ MovieSchema.methods.toSafeObject = function (): Partial<IMovieDocument> {
  * @returns {Promise<IMovieDocument[]>} Array of matching movies
  */
 MovieSchema.statics.searchByTitle = function (searchTerm: string): Promise<IMovieDocument[]> {
-  const regex = new RegExp(searchTerm, 'i');
+  const escapedTerm = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(escapedTerm, 'i');
   return this.find({
     title: regex,
     isActive: true,
   }).sort({ averageRating: -1, title: 1 });
 };
 
+/**
+ * @static textSearch
+ * @description Full-text search over title, director, cast and description of active movies,
+ * ranked by relevance (title matches weigh most) and then by rating and views. Search terms are
+ * stemmed for the given language and matched against the search documents stemmed the same way.
+ * @param {string} searchTerm - Search input, sanitized with sanitizeTextSearch
+ * @param {SupportedLanguage} language - Language of the search terms
+ * @param {number} page - Page number
+ * @param {number} limit - Movies per page
+ * @returns {Promise<{movies: Array, total: number}>} Page of movies with their relevance score
+ * and total count
+ */
+MovieSchema.statics.textSearch = async function (
+  searchTerm: string,
+  language: SupportedLanguage,
+  page: number,
+  limit: number
+): Promise<{ movies: Array<IMovie & { score: number }>; total: number }> {
+  const query = {
+    isActive: true,
+    $text: {
+      $search: sanitizeTextSearch(searchTerm),
+      $language: TEXT_SEARCH_LANGUAGES[language],
+      $caseSensitive: false,
+      $diacriticSensitive: false,
+    },
+  };
+
+  const [movies, total] = await Promise.all([
+    this.find(query, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' }, averageRating: -1, views: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<Array<IMovie & { score: number }>>(),
+    this.countDocuments(query),
+  ]);
+
+  return { movies, total };
+};
+
 /**
  * @static filterByGenre
  * @description Filters movies by genre(s)
@@ -393,19 +608,53 @@ MovieSchema.statics.getRecentlyAdded = function (limit: number = 10): Promise<IM
 
 /**
  * @static getTopRated
- * @description Gets top-rated movies
+ * @description Gets top-rated movies by weighted rating, so a high average over a handful of
+ * votes does not outrank a slightly lower one over thousands
  * @param {number} limit - Maximum number of results (default: 10)
+ * @param {MovieGenre} genre - Only movies of this genre (optional)
  * @returns {Promise<IMovieDocument[]>} Array of top-rated movies
  */
-MovieSchema.statics.getTopRated = function (limit: number = 10): Promise<IMovieDocument[]> {
+MovieSchema.statics.getTopRated = function (
+  limit: number = 10,
+  genre?: MovieGenre
+): Promise<IMovieDocument[]> {
   return this.find({
     isActive: true,
-    totalRatings: { $gte: 5 }, // At least 5 ratings to be considered
+    totalRatings: { $gte: 1 }, // Unrated movies only have the prior
+    ...(genre && { genre }),
   })
-    .sort({ averageRating: -1, totalRatings: -1 })
+    .sort({ weightedRating: -1, totalRatings: -1 })
     .limit(limit);
 };
 
+/**
+ * @static getTopRatedByGenre
+ * @description Gets the top-rated movies of every genre that has rated movies
+ * @param {number} limit - Maximum number of movies per genre (default: 5)
+ * @returns {Promise<Array<{genre: MovieGenre, movies: IMovie[]}>>} Top lists in genre order
+ */
+MovieSchema.statics.getTopRatedByGenre = async function (
+  limit: number = 5
+): Promise<Array<{ genre: MovieGenre; movies: IMovie[] }>> {
+  const groups = await this.aggregate([
+    { $match: { isActive: true, totalRatings: { $gte: 1 } } },
+    { $sort: { weightedRating: -1, totalRatings: -1 } },
+    { $project: { searchTokens: 0, searchDocuments: 0 } },
+    // Unwind a copy so every movie keeps its full genre list
+    { $addFields: { listGenre: '$genre' } },
+    { $unwind: '$listGenre' },
+    { $group: { _id: '$listGenre', movies: { $push: '$$ROOT' } } },
+    { $project: { movies: { $slice: ['$movies', limit] } } },
+    { $project: { 'movies.listGenre': 0 } },
+  ]);
+
+  return groups
+    .map((group: { _id: MovieGenre; movies: IMovie[] }) => ({ genre: group._id, movies: group.movies }))
+    .sort((a: { genre: MovieGenre }, b: { genre: MovieGenre }) =>
+      VALID_GENRES.indexOf(a.genre) - VALID_GENRES.indexOf(b.genre)
+    );
+};
+
 /**
  * @static findActive
  * @description Finds all active movies
@@ -436,6 +685,57 @@ MovieSchema.pre<IMovieDocument>('save', function (next) {
   next();
 });
 
+/**
+ * @description Keeps autocomplete tokens and search documents in sync when title, director, cast
+ * or description change
+ */
+MovieSchema.pre<IMovieDocument>('save', function (next) {
+  if (this.isNew || this.isModified('title') || this.isModified('director') || this.isModified('cast')) {
+    this.searchTokens = buildSearchTokens(this);
+  }
+  if (this.isNew || SEARCHABLE_FIELDS.some((field) => this.isModified(field))) {
+    this.searchDocuments = buildSearchDocuments(this);
+  }
+  next();
+});
+
+/**
+ * @description Keeps autocomplete tokens and search documents in sync when title, director, cast
+ * or description are changed through findOneAndUpdate
+ */
+MovieSchema.pre('findOneAndUpdate', async function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  const changes = { ...(update?.$set || {}), ...(update || {}) };
+
+  if (!SEARCHABLE_FIELDS.some((field) => field in changes)) {
+    return;
+  }
+
+  const current = await this.model
+    .findOne(this.getQuery())
+    .select(SEARCHABLE_FIELDS.join(' '))
+    .lean<IMovie>();
+  if (!current) {
+    return;
+  }
+
+  const values = {
+    title: changes.title ?? current.title,
+    director: 'director' in changes ? changes.director : current.director,
+    cast: 'cast' in changes ? changes.cast : current.cast,
+    description: 'description' in changes ? changes.description : current.description,
+  };
+
+  this.setUpdate({
+    ...update,
+    $set: {
+      ...(update?.$set || {}),
+      searchTokens: buildSearchTokens(values),
+      searchDocuments: buildSearchDocuments(values),
+    },
+  });
+});
+
 /**
  * @const Movie
  * @description Movie model
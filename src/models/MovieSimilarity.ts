@@ -0,0 +1,85 @@
+/**
+ * @fileoverview MovieSimilarity model for MongoDB using Mongoose
+ * @description Defines the MovieSimilarity schema: for each movie, the movies rated most similarly
+ * by the same users (item-item collaborative filtering). Documents are rebuilt by the similarity
+ * job and only read at request time.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IMovieSimilarity } from '../types';
+
+/**
+ * @interface IMovieSimilarityDocument
+ * @description MovieSimilarity document interface extending Mongoose Document
+ */
+export interface IMovieSimilarityDocument extends IMovieSimilarity, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @type IMovieSimilarityModel
+ * @description MovieSimilarity model type (no custom statics)
+ */
+export type IMovieSimilarityModel = Model<IMovieSimilarityDocument>;
+
+/**
+ * @const MovieSimilaritySchema
+ * @description Mongoose schema for MovieSimilarity collection
+ */
+const MovieSimilaritySchema = new Schema<IMovieSimilarityDocument, IMovieSimilarityModel>(
+  {
+    movieId: {
+      type: String,
+      required: [true, 'Movie ID is required'],
+      ref: 'Movie',
+    },
+    // Most similar movies first
+    neighbors: [
+      {
+        _id: false,
+        movieId: { type: String, required: true },
+        score: { type: Number, required: true },
+        commonRaters: { type: Number, required: true },
+      },
+    ],
+    computedAt: {
+      type: Date,
+      required: [true, 'Computation date is required'],
+    },
+  },
+  {
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Unique index: one neighbour list per movie
+ */
+MovieSimilaritySchema.index({ movieId: 1 }, { unique: true });
+
+/**
+ * @description Index for removing lists left over from previous runs
+ */
+MovieSimilaritySchema.index({ computedAt: 1 });
+
+/**
+ * @const MovieSimilarity
+ * @description MovieSimilarity model
+ */
+export const MovieSimilarity = mongoose.model<IMovieSimilarityDocument, IMovieSimilarityModel>(
+  'MovieSimilarity',
+  MovieSimilaritySchema
+);
+
+export default MovieSimilarity;
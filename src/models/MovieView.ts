@@ -0,0 +1,109 @@
+/**
+ * @fileoverview MovieView model for MongoDB using Mongoose
+ * @description Defines the MovieView schema: one document per viewer and movie holding the watch
+ * time credited from their heartbeats and the time of their last counted view. The unique index
+ * keeps concurrent first heartbeats from creating two records. Documents expire once the viewer
+ * has sent no heartbeat for a whole dedup window.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IMovieView } from '../types';
+
+/**
+ * @interface IMovieViewDocument
+ * @description MovieView document interface extending Mongoose Document
+ */
+export interface IMovieViewDocument extends IMovieView, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @type IMovieViewModel
+ * @description MovieView model type (no custom statics)
+ */
+export type IMovieViewModel = Model<IMovieViewDocument>;
+
+/**
+ * @const MovieViewSchema
+ * @description Mongoose schema for MovieView collection
+ */
+const MovieViewSchema = new Schema<IMovieViewDocument, IMovieViewModel>(
+  {
+    movieId: {
+      type: String,
+      required: [true, 'Movie ID is required'],
+      ref: 'Movie',
+      validate: {
+        validator: function (movieId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(movieId);
+        },
+        message: 'Movie ID must be a valid MongoDB ObjectId',
+      },
+    },
+    // "user:<id>" for signed-in viewers, "anon:<hash>" otherwise
+    viewerKey: {
+      type: String,
+      required: [true, 'Viewer key is required'],
+    },
+    position: {
+      type: Number,
+      required: [true, 'Position is required'],
+      min: [0, 'Position cannot be negative'],
+    },
+    lastHeartbeatAt: {
+      type: Date,
+      required: [true, 'Last heartbeat date is required'],
+    },
+    watchedSeconds: {
+      type: Number,
+      required: [true, 'Watched seconds are required'],
+      min: [0, 'Watched seconds cannot be negative'],
+    },
+    lastCountedAt: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Unique index: one record per viewer and movie
+ */
+MovieViewSchema.index({ movieId: 1, viewerKey: 1 }, { unique: true });
+
+/**
+ * @description Index for removing a user's views when the account is purged
+ */
+MovieViewSchema.index({ viewerKey: 1 });
+
+/**
+ * @description TTL index so records are removed a window after the viewer's last heartbeat
+ */
+MovieViewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * @const MovieView
+ * @description MovieView model
+ */
+export const MovieView = mongoose.model<IMovieViewDocument, IMovieViewModel>('MovieView', MovieViewSchema);
+
+export default MovieView;
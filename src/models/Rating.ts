@@ -8,6 +8,7 @@
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { IRating } from '../types';
+import { calculateWeightedRating } from '../utils/weightedRating';
 
 /**
  * @interface IRatingDocument
@@ -19,6 +20,49 @@ export interface IRatingDocument extends IRating, Document {
   isOwnedBy(userId: string): boolean;
 }
 
+/**
+ * @interface IRatingDistributionEntry
+ * @description Number of ratings, and of written reviews, with a given star value
+ */
+export interface IRatingDistributionEntry {
+  stars: number;
+  count: number;
+  reviews: number;
+}
+
+/**
+ * @const ReviewSchema
+ * @description Mongoose sub-schema for the written review attached to a rating
+ */
+const ReviewSchema = new Schema(
+  {
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [120, 'Review title cannot exceed 120 characters'],
+      default: null,
+    },
+    body: {
+      type: String,
+      required: [true, 'Review body is required'],
+      trim: true,
+      minlength: [1, 'Review body must be at least 1 character long'],
+      maxlength: [5000, 'Review body cannot exceed 5000 characters'],
+    },
+    containsSpoilers: {
+      type: Boolean,
+      default: false,
+    },
+    language: {
+      type: String,
+      required: [true, 'Review language is required'],
+      lowercase: true,
+      match: [/^[a-z]{2}$/, 'Review language must be a two-letter ISO 639-1 code'],
+    },
+  },
+  { _id: false }
+);
+
 /**
  * @interface IRatingModel
  * @description Rating model interface with static methods
@@ -28,6 +72,7 @@ export interface IRatingModel extends Model<IRatingDocument> {
   findByMovie(movieId: string): Promise<IRatingDocument[]>;
   getUserRatingForMovie(userId: string, movieId: string): Promise<IRatingDocument | null>;
   getMovieAverageRating(movieId: string): Promise<{ average: number; total: number }>;
+  getRatingDistribution(movieId: string): Promise<IRatingDistributionEntry[]>;
   updateMovieRating(movieId: string): Promise<void>;
 }
 
@@ -69,6 +114,30 @@ const RatingSchema = new Schema<IRatingDocument, IRatingModel>(
         message: 'Rating must be a whole number (1-5)',
       },
     },
+    review: {
+      type: ReviewSchema,
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    helpfulVotes: {
+      type: Number,
+      default: 0,
+      min: [0, 'Helpful votes cannot be negative'],
+    },
+    unhelpfulVotes: {
+      type: Number,
+      default: 0,
+      min: [0, 'Unhelpful votes cannot be negative'],
+    },
+    helpfulness: {
+      type: Number,
+      default: 0,
+      min: [0, 'Helpfulness cannot be negative'],
+      max: [1, 'Helpfulness cannot exceed 1'],
+    },
   },
   {
     timestamps: true,
@@ -106,6 +175,17 @@ RatingSchema.index({ userId: 1, createdAt: -1 });
  */
 RatingSchema.index({ movieId: 1, rating: 1 });
 
+/**
+ * @description Index for paginated movie ratings lookup
+ */
+RatingSchema.index({ movieId: 1, createdAt: -1 });
+
+/**
+ * @description Indexes for listing a movie's reviews by helpfulness or recency
+ */
+RatingSchema.index({ movieId: 1, helpfulness: -1 });
+RatingSchema.index({ movieId: 1, reviewedAt: -1 });
+
 /**
  * @method isOwnedBy
  * @description Checks if the rating belongs to a specific user
@@ -180,9 +260,37 @@ RatingSchema.statics.getMovieAverageRating = async function (
   };
 };
 
+/**
+ * @static getRatingDistribution
+ * @description Counts a movie's ratings and written reviews per star value
+ * @param {string} movieId - Movie ID
+ * @returns {Promise<IRatingDistributionEntry[]>} Entries from 5 stars down
+ */
+RatingSchema.statics.getRatingDistribution = async function (
+  movieId: string
+): Promise<IRatingDistributionEntry[]> {
+  const distribution = await this.aggregate([
+    { $match: { movieId } },
+    {
+      $group: {
+        _id: '$rating',
+        count: { $sum: 1 },
+        reviews: { $sum: { $cond: [{ $ne: [{ $ifNull: ['$review', null] }, null] }, 1, 0] } },
+      },
+    },
+    { $sort: { _id: -1 } },
+  ]);
+
+  return distribution.map((entry: { _id: number; count: number; reviews: number }) => ({
+    stars: entry._id,
+    count: entry.count,
+    reviews: entry.reviews,
+  }));
+};
+
 /**
  * @static updateMovieRating
- * @description Updates the movie's average rating and total count
+ * @description Updates the movie's average rating, total count and weighted rating
  * @param {string} movieId - Movie ID
  * @returns {Promise<void>}
  */
@@ -195,6 +303,7 @@ RatingSchema.statics.updateMovieRating = async function (movieId: string): Promi
       $set: {
         averageRating: average,
         totalRatings: total,
+        weightedRating: calculateWeightedRating(average, total),
       },
     });
   } catch (error) {
@@ -203,6 +312,28 @@ RatingSchema.statics.updateMovieRating = async function (movieId: string): Promi
   }
 };
 
+/**
+ * @description Pre-save hook keeping the review timestamp and vote counters in step with the review
+ */
+RatingSchema.pre<IRatingDocument>('save', function (next) {
+  if (this.isModified('review')) {
+    if (this.review) {
+      this.reviewedAt = this.reviewedAt || new Date();
+      // Ratings from before reviews existed have no counters stored yet
+      this.markModified('helpfulVotes');
+      this.markModified('unhelpfulVotes');
+      this.markModified('helpfulness');
+    } else {
+      this.reviewedAt = null;
+      this.helpfulVotes = 0;
+      this.unhelpfulVotes = 0;
+      this.helpfulness = 0;
+    }
+  }
+
+  next();
+});
+
 /**
  * @description Pre-save validation to ensure movie exists
  */
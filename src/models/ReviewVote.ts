@@ -0,0 +1,123 @@
+/**
+ * @fileoverview ReviewVote model for MongoDB using Mongoose
+ * @description Defines the ReviewVote schema: one helpful/unhelpful vote per user per review.
+ * Reviews live on Rating documents, so votes reference the rating.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IReviewVote } from '../types';
+import { wilsonLowerBound } from '../utils/wilsonScore';
+
+/**
+ * @interface IReviewVoteDocument
+ * @description ReviewVote document interface extending Mongoose Document
+ */
+export interface IReviewVoteDocument extends IReviewVote, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface IReviewVoteModel
+ * @description ReviewVote model interface with static methods
+ */
+export interface IReviewVoteModel extends Model<IReviewVoteDocument> {
+  updateReviewCounts(ratingId: string): Promise<void>;
+}
+
+/**
+ * @const ReviewVoteSchema
+ * @description Mongoose schema for ReviewVote collection
+ */
+const ReviewVoteSchema = new Schema<IReviewVoteDocument, IReviewVoteModel>(
+  {
+    ratingId: {
+      type: String,
+      required: [true, 'Rating ID is required'],
+      ref: 'Rating',
+      validate: {
+        validator: function (ratingId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(ratingId);
+        },
+        message: 'Rating ID must be a valid MongoDB ObjectId',
+      },
+    },
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (userId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(userId);
+        },
+        message: 'User ID must be a valid MongoDB ObjectId',
+      },
+    },
+    helpful: {
+      type: Boolean,
+      required: [true, 'Vote value is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * @description Compound unique index to allow one vote per user per review
+ */
+ReviewVoteSchema.index({ ratingId: 1, userId: 1 }, { unique: true });
+
+/**
+ * @description Index for a user's votes (account purge, vote state of a page of reviews)
+ */
+ReviewVoteSchema.index({ userId: 1 });
+
+/**
+ * @static updateReviewCounts
+ * @description Recounts the votes of a review and stores the counts and helpfulness score on
+ * the rating
+ * @param {string} ratingId - Rating ID
+ * @returns {Promise<void>}
+ */
+ReviewVoteSchema.statics.updateReviewCounts = async function (ratingId: string): Promise<void> {
+  const counts = await this.aggregate([
+    { $match: { ratingId } },
+    {
+      $group: {
+        _id: null,
+        helpful: { $sum: { $cond: ['$helpful', 1, 0] } },
+        total: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const helpful = counts[0]?.helpful || 0;
+  const total = counts[0]?.total || 0;
+
+  // updateOne rather than findOneAndUpdate: votes do not change the movie's average rating
+  await mongoose.model('Rating').updateOne(
+    { _id: ratingId },
+    {
+      $set: {
+        helpfulVotes: helpful,
+        unhelpfulVotes: total - helpful,
+        helpfulness: wilsonLowerBound(helpful, total),
+      },
+    }
+  );
+};
+
+/**
+ * @const ReviewVote
+ * @description ReviewVote model
+ */
+export const ReviewVote = mongoose.model<IReviewVoteDocument, IReviewVoteModel>(
+  'ReviewVote',
+  ReviewVoteSchema
+);
+
+export default ReviewVote;
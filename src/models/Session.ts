@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Session model for MongoDB using Mongoose
+ * @description Defines the Session schema that backs refresh tokens. Each login creates one
+ * session; the refresh token is rotated on every use and only its SHA-256 hash is stored.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-20
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ISession, SessionRevocationReason } from '../types';
+
+/**
+ * @interface ISessionDocument
+ * @description Session document interface extending Mongoose Document
+ */
+export interface ISessionDocument extends ISession, Document {
+  _id: string;
+  __v?: number;
+  isValid(): boolean;
+  getDeviceName(): string;
+}
+
+/**
+ * @interface ISessionModel
+ * @description Session model interface with static methods
+ */
+export interface ISessionModel extends Model<ISessionDocument> {
+  isSessionActive(sessionId: string): Promise<boolean>;
+  touchSession(sessionId: string): Promise<void>;
+  findActiveByUser(userId: string): Promise<ISessionDocument[]>;
+  revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<boolean>;
+  revokeUserSessions(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptSessionId?: string
+  ): Promise<number>;
+}
+
+/**
+ * @const REVOCATION_REASONS
+ * @description List of valid session revocation reasons
+ */
+const REVOCATION_REASONS: SessionRevocationReason[] = [
+  'logout',
+  'revoked_by_user',
+  'token_reuse',
+  'password_change',
+  'password_reset',
+  'account_deactivated',
+  'account_deletion',
+];
+
+/**
+ * @const LAST_USED_UPDATE_INTERVAL_MS
+ * @description Minimum time between lastUsedAt updates, to avoid a write on every request
+ */
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * @const SessionSchema
+ * @description Mongoose schema for Session collection
+ */
+const SessionSchema = new Schema<ISessionDocument, ISessionModel>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (userId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(userId);
+        },
+        message: 'User ID must be a valid MongoDB ObjectId',
+      },
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, 'Refresh token hash is required'],
+      select: false,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+      default: null,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: {
+        values: REVOCATION_REASONS,
+        message: 'Revocation reason must be one of: ' + REVOCATION_REASONS.join(', '),
+      },
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        if (ret.refreshTokenHash) delete ret.refreshTokenHash;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Index for looking up a user's active sessions
+ */
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+
+/**
+ * @description TTL index so expired sessions are removed automatically
+ */
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * @method isValid
+ * @description Checks if the session is neither revoked nor expired
+ * @returns {boolean} True if the session can still be used
+ */
+SessionSchema.methods.isValid = function (): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+/**
+ * @method getDeviceName
+ * @description Returns a short, human readable description of the client (e.g. "Chrome on Windows")
+ * @returns {string} Device description
+ */
+SessionSchema.methods.getDeviceName = function (): string {
+  const userAgent: string = this.userAgent || '';
+
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl'],
+  ];
+  const systems: Array<[RegExp, string]> = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  return browser || system || 'Unknown device';
+};
+
+/**
+ * @static isSessionActive
+ * @description Checks if a session exists and is neither revoked nor expired
+ * @param {string} sessionId - Session ID
+ * @returns {Promise<boolean>} True if the session is active
+ */
+SessionSchema.statics.isSessionActive = async function (sessionId: string): Promise<boolean> {
+  if (!/^[0-9a-fA-F]{24}$/.test(sessionId)) {
+    return false;
+  }
+
+  const session = await this.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+
+  return session !== null;
+};
+
+/**
+ * @static touchSession
+ * @description Updates the session's last used time, at most once every few minutes
+ * @param {string} sessionId - Session ID
+ * @returns {Promise<void>}
+ */
+SessionSchema.statics.touchSession = async function (sessionId: string): Promise<void> {
+  const now = new Date();
+
+  await this.updateOne(
+    {
+      _id: sessionId,
+      lastUsedAt: { $lt: new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS) },
+    },
+    { $set: { lastUsedAt: now } }
+  );
+};
+
+/**
+ * @static findActiveByUser
+ * @description Finds a user's active sessions, most recently used first
+ * @param {string} userId - User ID
+ * @returns {Promise<ISessionDocument[]>} Array of active sessions
+ */
+SessionSchema.statics.findActiveByUser = function (userId: string): Promise<ISessionDocument[]> {
+  return this.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+};
+
+/**
+ * @static revokeSession
+ * @description Revokes a single session
+ * @param {string} sessionId - Session ID
+ * @param {SessionRevocationReason} reason - Why the session is being revoked
+ * @returns {Promise<boolean>} True if an active session was revoked
+ */
+SessionSchema.statics.revokeSession = async function (
+  sessionId: string,
+  reason: SessionRevocationReason
+): Promise<boolean> {
+  const result = await this.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+  return result.modifiedCount > 0;
+};
+
+/**
+ * @static revokeUserSessions
+ * @description Revokes all active sessions of a user, optionally keeping one
+ * @param {string} userId - User ID
+ * @param {SessionRevocationReason} reason - Why the sessions are being revoked
+ * @param {string} exceptSessionId - Session to keep active (optional)
+ * @returns {Promise<number>} Number of revoked sessions
+ */
+SessionSchema.statics.revokeUserSessions = async function (
+  userId: string,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const filter: any = { userId, revokedAt: null };
+
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await this.updateMany(filter, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.modifiedCount;
+};
+
+/**
+ * @const Session
+ * @description Session model
+ */
+export const Session = mongoose.model<ISessionDocument, ISessionModel>('Session', SessionSchema);
+
+export default Session;
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview SimilarMoviesCache model for MongoDB using Mongoose
+ * @description Defines the SimilarMoviesCache schema: the computed "more like this" list of a
+ * movie. The cache lives in the database rather than in each process, so every API instance
+ * serves the same lists and clearing it after a catalog change takes effect everywhere at once.
+ * Only movie IDs and scores are stored; movie details are read fresh on every request.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ISimilarMoviesCache } from '../types';
+
+/**
+ * @interface ISimilarMoviesCacheDocument
+ * @description SimilarMoviesCache document interface extending Mongoose Document
+ */
+export interface ISimilarMoviesCacheDocument extends ISimilarMoviesCache, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @type ISimilarMoviesCacheModel
+ * @description SimilarMoviesCache model type (no custom statics)
+ */
+export type ISimilarMoviesCacheModel = Model<ISimilarMoviesCacheDocument>;
+
+/**
+ * @const SimilarMoviesCacheSchema
+ * @description Mongoose schema for SimilarMoviesCache collection
+ */
+const SimilarMoviesCacheSchema = new Schema<ISimilarMoviesCacheDocument, ISimilarMoviesCacheModel>(
+  {
+    movieId: {
+      type: String,
+      required: [true, 'Movie ID is required'],
+      ref: 'Movie',
+    },
+    // Most similar movies first
+    movies: [
+      {
+        _id: false,
+        movieId: { type: String, required: true },
+        score: { type: Number, required: true },
+        reasons: { type: [String], default: [] },
+      },
+    ],
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Unique index: one cached list per movie
+ */
+SimilarMoviesCacheSchema.index({ movieId: 1 }, { unique: true });
+
+/**
+ * @description TTL index so expired lists are removed automatically
+ */
+SimilarMoviesCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * @const SimilarMoviesCache
+ * @description SimilarMoviesCache model
+ */
+export const SimilarMoviesCache = mongoose.model<ISimilarMoviesCacheDocument, ISimilarMoviesCacheModel>(
+  'SimilarMoviesCache',
+  SimilarMoviesCacheSchema
+);
+
+export default SimilarMoviesCache;
@@ -6,9 +6,35 @@
  * @since 2025-09-28
  */
 
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model, Query } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { IUser } from '../types';
+import { IUser, UserRole } from '../types';
+
+/**
+ * @const USER_ROLES
+ * @description List of valid user roles
+ */
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * @interface IUserModel
+ * @description User model interface with static methods
+ */
+export interface IUserModel extends Model<IUserDocument> {
+  findActive(): Query<IUserDocument[], IUserDocument>;
+  findByEmail(email: string): Query<IUserDocument | null, IUserDocument>;
+  searchByName(
+    searchTerm: string,
+    includeInactive?: boolean
+  ): Query<IUserDocument[], IUserDocument>;
+  findDueForDeletion(now?: Date): Query<IUserDocument[], IUserDocument>;
+}
+
+/**
+ * @const MAX_LOCKOUT_MS
+ * @description Upper bound for a progressive login lockout (24 hours)
+ */
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
 
 /**
  * @interface IUserDocument
@@ -20,6 +46,12 @@ export interface IUserDocument extends IUser, Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
   generatePasswordResetToken(): string;
   isPasswordResetTokenValid(token: string): boolean;
+  generateEmailVerificationToken(): string;
+  isLocked(): boolean;
+  registerFailedLogin(maxAttempts: number, lockoutMs: number): Promise<boolean>;
+  resetLoginAttempts(): Promise<void>;
+  scheduleDeletion(gracePeriodMs: number): Promise<void>;
+  cancelDeletion(): Promise<boolean>;
   getFullName(): string;
   toSafeObject(): Partial<IUserDocument>;
 }
@@ -28,7 +60,7 @@ export interface IUserDocument extends IUser, Document {
  * @const UserSchema
  * @description Mongoose schema for User collection
  */
-const UserSchema = new Schema<IUserDocument>(
+const UserSchema = new Schema<IUserDocument, IUserModel>(
   {
     firstName: {
       type: String,
@@ -97,10 +129,92 @@ const UserSchema = new Schema<IUserDocument>(
         message: 'Avatar must be a valid URL',
       },
     },
+    role: {
+      type: String,
+      enum: {
+        values: USER_ROLES,
+        message: 'Role must be one of: ' + USER_ROLES.join(', '),
+      },
+      default: 'user',
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    // Defaults to true so accounts created before email verification existed keep working;
+    // registration explicitly sets it to false
+    emailVerified: {
+      type: Boolean,
+      default: true,
+    },
+    emailVerificationToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    lockUntil: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    // Number of lockouts since the last successful login; each one doubles the next lockout
+    lockCount: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    // Base32 TOTP secret; set during setup and only trusted once twoFactorEnabled is true
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    // SHA-256 hashes of the unused one-time recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Time step of the last accepted code, so a code cannot be replayed
+    twoFactorLastUsedStep: {
+      type: Number,
+      default: null,
+      select: false,
+    },
+    // Set by an admin to block login until the password is reset by email
+    mustResetPassword: {
+      type: Boolean,
+      default: false,
+    },
+    // Pending deletion: the account is purged once deletionScheduledFor has passed,
+    // unless the user logs in again before then
+    deletionRequestedAt: {
+      type: Date,
+      default: null,
+    },
+    deletionScheduledFor: {
+      type: Date,
+      default: null,
+    },
+    // When true, watch progress and history are not recorded
+    historyPaused: {
+      type: Boolean,
+      default: false,
+    },
     passwordResetToken: {
       type: String,
       default: null,
@@ -122,6 +236,14 @@ const UserSchema = new Schema<IUserDocument>(
         if (ret.password) delete ret.password;
         if (ret.passwordResetToken) delete ret.passwordResetToken;
         if (ret.passwordResetExpires) delete ret.passwordResetExpires;
+        if (ret.emailVerificationToken) delete ret.emailVerificationToken;
+        if (ret.emailVerificationExpires) delete ret.emailVerificationExpires;
+        delete ret.failedLoginAttempts;
+        delete ret.lockUntil;
+        delete ret.lockCount;
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorRecoveryCodes;
+        delete ret.twoFactorLastUsedStep;
         return ret;
       },
     },
@@ -236,6 +358,139 @@ UserSchema.methods.isPasswordResetTokenValid = function (token: string): boolean
   );
 };
 
+/**
+ * @method generateEmailVerificationToken
+ * @description Generates an email verification token
+ * @returns {string} Email verification token
+ */
+UserSchema.methods.generateEmailVerificationToken = function (): string {
+  const crypto = require('crypto');
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+
+  // Hash token and set to emailVerificationToken field
+  this.emailVerificationToken = crypto
+    .createHash('sha256')
+    .update(verificationToken)
+    .digest('hex');
+
+  // Set expire time (24 hours)
+  this.emailVerificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  return verificationToken;
+};
+
+/**
+ * @method isLocked
+ * @description Checks if the account is temporarily locked after too many failed logins
+ * @returns {boolean} True if login is currently blocked
+ */
+UserSchema.methods.isLocked = function (): boolean {
+  return !!this.lockUntil && this.lockUntil > new Date();
+};
+
+/**
+ * @method registerFailedLogin
+ * @description Records a wrong password and locks the account once the limit is reached.
+ * Every lockout since the last successful login doubles the lockout duration.
+ * Both steps are atomic updates, so parallel wrong passwords cannot slip past the limit
+ * and only one of them locks the account.
+ * @param {number} maxAttempts - Failed attempts allowed before locking
+ * @param {number} lockoutMs - Duration of the first lockout in milliseconds
+ * @returns {Promise<boolean>} True if this attempt locked the account
+ */
+UserSchema.methods.registerFailedLogin = async function (
+  maxAttempts: number,
+  lockoutMs: number
+): Promise<boolean> {
+  const projection = { failedLoginAttempts: 1, lockUntil: 1, lockCount: 1 };
+
+  const counted = await User.findOneAndUpdate(
+    { _id: this._id },
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true, projection }
+  );
+
+  if (!counted) {
+    return false;
+  }
+
+  this.failedLoginAttempts = counted.failedLoginAttempts;
+
+  if ((counted.failedLoginAttempts || 0) < maxAttempts) {
+    return false;
+  }
+
+  // Only the attempt that still sees the counter at the limit locks; it resets the counter for the others
+  const duration = Math.min(lockoutMs * Math.pow(2, counted.lockCount || 0), MAX_LOCKOUT_MS);
+  const locked = await User.findOneAndUpdate(
+    { _id: this._id, failedLoginAttempts: { $gte: maxAttempts } },
+    {
+      $set: { failedLoginAttempts: 0, lockUntil: new Date(Date.now() + duration) },
+      $inc: { lockCount: 1 },
+    },
+    { new: true, projection }
+  );
+
+  if (!locked) {
+    return false;
+  }
+
+  this.failedLoginAttempts = locked.failedLoginAttempts;
+  this.lockUntil = locked.lockUntil;
+  this.lockCount = locked.lockCount;
+
+  return true;
+};
+
+/**
+ * @method resetLoginAttempts
+ * @description Clears failed login tracking after a successful login
+ * @returns {Promise<void>}
+ */
+UserSchema.methods.resetLoginAttempts = async function (): Promise<void> {
+  if (!this.failedLoginAttempts && !this.lockUntil && !this.lockCount) {
+    return;
+  }
+
+  await User.updateOne(
+    { _id: this._id },
+    { $set: { failedLoginAttempts: 0, lockUntil: null, lockCount: 0 } }
+  );
+
+  this.failedLoginAttempts = 0;
+  this.lockUntil = null;
+  this.lockCount = 0;
+};
+
+/**
+ * @method scheduleDeletion
+ * @description Puts the account in the pending-deletion state
+ * @param {number} gracePeriodMs - Time until the account is purged
+ * @returns {Promise<void>}
+ */
+UserSchema.methods.scheduleDeletion = async function (gracePeriodMs: number): Promise<void> {
+  this.deletionRequestedAt = new Date();
+  this.deletionScheduledFor = new Date(Date.now() + gracePeriodMs);
+  await this.save({ validateBeforeSave: false });
+};
+
+/**
+ * @method cancelDeletion
+ * @description Takes the account out of the pending-deletion state
+ * @returns {Promise<boolean>} True if a deletion was pending
+ */
+UserSchema.methods.cancelDeletion = async function (): Promise<boolean> {
+  if (!this.deletionScheduledFor) {
+    return false;
+  }
+
+  this.deletionRequestedAt = null;
+  this.deletionScheduledFor = null;
+  await this.save({ validateBeforeSave: false });
+
+  return true;
+};
+
 /**
  * @method getFullName
  * @description Returns user's full name
@@ -255,6 +510,14 @@ UserSchema.methods.toSafeObject = function (): Partial<IUserDocument> {
   delete userObject.password;
   delete userObject.passwordResetToken;
   delete userObject.passwordResetExpires;
+  delete userObject.emailVerificationToken;
+  delete userObject.emailVerificationExpires;
+  delete userObject.failedLoginAttempts;
+  delete userObject.lockUntil;
+  delete userObject.lockCount;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorRecoveryCodes;
+  delete userObject.twoFactorLastUsedStep;
   return userObject;
 };
 
@@ -269,6 +532,16 @@ UserSchema.index({ isActive: 1 });
  */
 UserSchema.index({ isActive: 1 });
 
+/**
+ * @description Index for role lookups (e.g. checking whether an admin exists)
+ */
+UserSchema.index({ role: 1 });
+
+/**
+ * @description Index for finding accounts whose deletion is due
+ */
+UserSchema.index({ deletionScheduledFor: 1 });
+
 /**
  * @description Compound index for full name search
  */
@@ -289,17 +562,31 @@ UserSchema.statics.findByEmail = function (email: string) {
 };
 
 /**
- * @description Static method to search users by name
+ * @description Static method to search users by first or last name (case insensitive).
+ * The search term is matched literally, not as a regular expression.
  */
-UserSchema.statics.searchByName = function (searchTerm: string) {
-  const regex = new RegExp(searchTerm, 'i');
-  return this.find({
+UserSchema.statics.searchByName = function (searchTerm: string, includeInactive: boolean = false) {
+  const escapedTerm = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(escapedTerm, 'i');
+  const filter: Record<string, any> = {
     $or: [
       { firstName: regex },
       { lastName: regex },
     ],
-    isActive: true,
-  });
+  };
+
+  if (!includeInactive) {
+    filter.isActive = true;
+  }
+
+  return this.find(filter);
+};
+
+/**
+ * @description Static method to find accounts whose grace period has ended
+ */
+UserSchema.statics.findDueForDeletion = function (now: Date = new Date()) {
+  return this.find({ deletionScheduledFor: { $ne: null, $lte: now } });
 };
 
 /**
@@ -324,6 +611,6 @@ UserSchema.post('save', function (error: any, doc: any, next: any) {
  * @const User
  * @description User model
  */
-export const User = mongoose.model<IUserDocument>('User', UserSchema);
+export const User = mongoose.model<IUserDocument, IUserModel>('User', UserSchema);
 
 export default User;
\ No newline at end of file
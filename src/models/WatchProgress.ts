@@ -0,0 +1,138 @@
+/**
+ * @fileoverview WatchProgress model for MongoDB using Mongoose
+ * @description Defines the WatchProgress schema: the playback position of a user in a movie,
+ * updated by the player's heartbeat. Together the entries of a user form their watch history,
+ * and the unfinished ones their "continue watching" list.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IWatchProgress } from '../types';
+
+/**
+ * @interface IWatchProgressDocument
+ * @description WatchProgress document interface extending Mongoose Document
+ */
+export interface IWatchProgressDocument extends IWatchProgress, Document {
+  _id: string;
+  __v?: number;
+}
+
+/**
+ * @interface IWatchProgressModel
+ * @description WatchProgress model interface with static methods
+ */
+export interface IWatchProgressModel extends Model<IWatchProgressDocument> {
+  findInProgress(userId: string, limit: number): Promise<IWatchProgressDocument[]>;
+}
+
+/**
+ * @const WATCH_COMPLETION_RATIO
+ * @description Share of the video after which a movie counts as watched (end credits are skipped)
+ */
+export const WATCH_COMPLETION_RATIO = 0.9;
+
+/**
+ * @const WatchProgressSchema
+ * @description Mongoose schema for WatchProgress collection
+ */
+const WatchProgressSchema = new Schema<IWatchProgressDocument, IWatchProgressModel>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      ref: 'User',
+      validate: {
+        validator: function (userId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(userId);
+        },
+        message: 'User ID must be a valid MongoDB ObjectId',
+      },
+    },
+    movieId: {
+      type: String,
+      required: [true, 'Movie ID is required'],
+      ref: 'Movie',
+      validate: {
+        validator: function (movieId: string): boolean {
+          return /^[0-9a-fA-F]{24}$/.test(movieId);
+        },
+        message: 'Movie ID must be a valid MongoDB ObjectId',
+      },
+    },
+    position: {
+      type: Number,
+      required: [true, 'Position is required'],
+      min: [0, 'Position cannot be negative'],
+    },
+    duration: {
+      type: Number,
+      required: [true, 'Duration is required'],
+      min: [1, 'Duration must be at least 1 second'],
+    },
+    completed: {
+      type: Boolean,
+      default: false,
+    },
+    lastWatchedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        ret.id = ret._id;
+        delete (ret as any)._id;
+        delete (ret as any).__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * @description Compound unique index: one playback position per user per movie
+ */
+WatchProgressSchema.index({ userId: 1, movieId: 1 }, { unique: true });
+
+/**
+ * @description Index for the watch history, most recent first
+ */
+WatchProgressSchema.index({ userId: 1, lastWatchedAt: -1 });
+
+/**
+ * @description Index for the "continue watching" list
+ */
+WatchProgressSchema.index({ userId: 1, completed: 1, lastWatchedAt: -1 });
+
+/**
+ * @static findInProgress
+ * @description Finds the user's started but unfinished movies, most recently watched first
+ * @param {string} userId - User ID
+ * @param {number} limit - Maximum number of results
+ * @returns {Promise<IWatchProgressDocument[]>} Progress entries
+ */
+WatchProgressSchema.statics.findInProgress = function (
+  userId: string,
+  limit: number
+): Promise<IWatchProgressDocument[]> {
+  return this.find({ userId, completed: false, position: { $gt: 0 } })
+    .sort({ lastWatchedAt: -1 })
+    .limit(limit)
+    .lean();
+};
+
+/**
+ * @const WatchProgress
+ * @description WatchProgress model
+ */
+export const WatchProgress = mongoose.model<IWatchProgressDocument, IWatchProgressModel>(
+  'WatchProgress',
+  WatchProgressSchema
+);
+
+export default WatchProgress;
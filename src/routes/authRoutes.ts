@@ -15,6 +15,7 @@ import {
   validateUserProfile,
 } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
+import { createAuthRateLimiters } from '../middleware/rateLimiter';
 
 /**
  * @const authRouter
@@ -33,7 +34,7 @@ const authRouter = Router();
  * @param {string} req.body.password - User's password
  * @param {string} req.body.confirmPassword - Password confirmation
  * @param {number} req.body.age - User's age
- * @returns {Object} 201 - User created successfully with JWT token
+ * @returns {Object} 201 - User created successfully with access and refresh tokens
  * @returns {Object} 400 - Validation error
  * @returns {Object} 409 - Email already exists
  * @returns {Object} 422 - Validation failed
@@ -63,7 +64,9 @@ const authRouter = Router();
  *       "isActive": true,
  *       "createdAt": "2025-09-28T10:00:00.000Z"
  *     },
- *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *     "refreshToken": "6717a3f2c1d4e5f6a7b8c9d0.4f1c9a...",
+ *     "expiresIn": "15m"
  *   }
  * }
  */
@@ -71,14 +74,18 @@ authRouter.post('/register', validateUserRegistration, asyncHandler(authControll
 
 /**
  * @route POST /api/auth/login
- * @description Authenticate user and return JWT token
+ * @description Authenticate user and return JWT token. Requests are throttled per IP and per
+ * email, and the account is locked for a while after too many wrong passwords.
  * @access Public
  * @param {Object} req.body - User login credentials
  * @param {string} req.body.email - User's email address
  * @param {string} req.body.password - User's password
- * @returns {Object} 200 - Login successful with JWT token
+ * @returns {Object} 200 - Login successful with access and refresh tokens, or a two-factor
+ * challenge (`twoFactorRequired: true` and a `challengeToken`) when the account has 2FA enabled
  * @returns {Object} 401 - Invalid credentials
  * @returns {Object} 422 - Validation failed
+ * @returns {Object} 423 - Account temporarily locked (see Retry-After header)
+ * @returns {Object} 429 - Too many attempts (see Retry-After header)
  * @returns {Object} 500 - Internal server error
  * @example
  * // Request body
@@ -100,15 +107,52 @@ authRouter.post('/register', validateUserRegistration, asyncHandler(authControll
  *       "age": 25,
  *       "isActive": true
  *     },
- *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *     "refreshToken": "6717a3f2c1d4e5f6a7b8c9d0.4f1c9a...",
+ *     "expiresIn": "15m"
  *   }
  * }
  */
-authRouter.post('/login', validateUserLogin, asyncHandler(authController.login));
+authRouter.post(
+  '/login',
+  ...createAuthRateLimiters('login'),
+  validateUserLogin,
+  asyncHandler(authController.login)
+);
+
+/**
+ * @route POST /api/auth/refresh
+ * @description Exchange a refresh token for a new access token and a rotated refresh token.
+ * Each refresh token can be used only once; reusing an old one revokes the whole session.
+ * @access Public
+ * @param {Object} req.body - Refresh request
+ * @param {string} req.body.refreshToken - Refresh token from login, register or a previous refresh
+ * @returns {Object} 200 - New token pair issued
+ * @returns {Object} 400 - Refresh token missing
+ * @returns {Object} 401 - Refresh token invalid, expired, revoked or reused
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Request body
+ * {
+ *   "refreshToken": "6717a3f2c1d4e5f6a7b8c9d0.4f1c9a..."
+ * }
+ *
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Token refreshed successfully",
+ *   "data": {
+ *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *     "refreshToken": "6717a3f2c1d4e5f6a7b8c9d0.9b2e7d...",
+ *     "expiresIn": "15m"
+ *   }
+ * }
+ */
+authRouter.post('/refresh', asyncHandler(authController.refresh));
 
 /**
  * @route POST /api/auth/logout
- * @description Log out user (client-side token invalidation)
+ * @description Log out user by revoking the current session and its refresh token
  * @access Private
  * @security BearerAuth
  * @returns {Object} 200 - Logout successful
@@ -120,7 +164,7 @@ authRouter.post('/login', validateUserLogin, asyncHandler(authController.login))
  *   "success": true,
  *   "message": "Logged out successfully",
  *   "data": {
- *     "message": "Please remove the token from client storage"
+ *     "message": "Your session has been closed. Please log in again to continue."
  *   }
  * }
  */
@@ -205,12 +249,14 @@ authRouter.put('/profile', authenticate, validateUserProfile, asyncHandler(authC
 
 /**
  * @route DELETE /api/auth/account
- * @description Delete user account (soft delete)
+ * @description Schedule the user account for deletion. The account is signed out everywhere and
+ * purged after ACCOUNT_DELETION_GRACE_DAYS (default 30) together with its ratings, comments,
+ * favorites and avatar. Logging in during the grace period cancels the deletion.
  * @access Private
  * @security BearerAuth
  * @param {Object} req.body - Account deletion confirmation
  * @param {string} req.body.password - Current password for confirmation
- * @returns {Object} 200 - Account deleted successfully
+ * @returns {Object} 200 - Account scheduled for deletion
  * @returns {Object} 400 - Password confirmation required
  * @returns {Object} 401 - Unauthorized or invalid password
  * @returns {Object} 404 - User not found
@@ -224,22 +270,95 @@ authRouter.put('/profile', authenticate, validateUserProfile, asyncHandler(authC
  * // Response 200
  * {
  *   "success": true,
- *   "message": "Account deleted successfully",
+ *   "message": "Account scheduled for deletion",
  *   "data": {
- *     "message": "Your account has been deactivated. We're sorry to see you go!"
+ *     "message": "Your account and all its data will be permanently deleted in 30 days. Log in before then if you change your mind. We're sorry to see you go!",
+ *     "deletionScheduledFor": "2025-11-22T10:00:00.000Z"
  *   }
  * }
  */
 authRouter.delete('/account', authenticate, asyncHandler(authController.deleteAccount));
 
+/**
+ * @route POST /api/auth/account/export
+ * @description Export all personal data of the current user (profile, ratings, comments,
+ * favorites and sessions). Small JSON exports are returned directly; large exports and ZIP
+ * archives (JSON plus one CSV per section) are produced in the background and a download link
+ * is emailed when ready.
+ * @access Private
+ * @security BearerAuth
+ * @param {Object} req.body - Export options
+ * @param {string} [req.body.format=json] - Export format: json or zip
+ * @returns {Object} 200 - Export data
+ * @returns {Object} 202 - Export started in the background
+ * @returns {Object} 400 - Invalid format
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 409 - Another export is still being produced
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Request body
+ * {
+ *   "format": "zip"
+ * }
+ *
+ * // Response 202
+ * {
+ *   "success": true,
+ *   "message": "Your export is being prepared. We will email you when it is ready.",
+ *   "data": {
+ *     "export": {
+ *       "id": "60d0fe4f5311236168a109cf",
+ *       "format": "zip",
+ *       "status": "pending",
+ *       "expiresAt": "2025-10-29T10:00:00.000Z"
+ *     }
+ *   }
+ * }
+ */
+authRouter.post('/account/export', authenticate, asyncHandler(authController.requestDataExport));
+
+/**
+ * @route GET /api/auth/account/exports/:exportId
+ * @description Get the status of a background data export
+ * @access Private
+ * @security BearerAuth
+ * @param {string} req.params.exportId - Export ID
+ * @returns {Object} 200 - Export status
+ * @returns {Object} 400 - Invalid export ID
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 404 - Export not found or expired
+ * @returns {Object} 500 - Internal server error
+ */
+authRouter.get('/account/exports/:exportId', authenticate, asyncHandler(authController.getDataExport));
+
+/**
+ * @route GET /api/auth/account/exports/:exportId/download
+ * @description Download the archive of a completed data export
+ * @access Private
+ * @security BearerAuth
+ * @param {string} req.params.exportId - Export ID
+ * @returns {File} 200 - JSON file or ZIP archive (see Content-Disposition header)
+ * @returns {Object} 400 - Invalid export ID
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 404 - Export not found or expired
+ * @returns {Object} 409 - Export not ready yet
+ * @returns {Object} 500 - Internal server error
+ */
+authRouter.get(
+  '/account/exports/:exportId/download',
+  authenticate,
+  asyncHandler(authController.downloadDataExport)
+);
+
 /**
  * @route POST /api/auth/forgot-password
- * @description Request password reset email
+ * @description Request password reset email. Requests are throttled per IP and per email.
  * @access Public
  * @param {Object} req.body - Password reset request
  * @param {string} req.body.email - User's email address
  * @returns {Object} 200 - Password reset email sent (always returns success for security)
  * @returns {Object} 422 - Validation failed
+ * @returns {Object} 429 - Too many requests (see Retry-After header)
  * @returns {Object} 500 - Internal server error
  * @example
  * // Request body
@@ -256,11 +375,15 @@ authRouter.delete('/account', authenticate, asyncHandler(authController.deleteAc
  *   }
  * }
  */
-authRouter.post('/forgot-password', asyncHandler(authController.requestPasswordReset));
+authRouter.post(
+  '/forgot-password',
+  ...createAuthRateLimiters('forgot-password'),
+  asyncHandler(authController.requestPasswordReset)
+);
 
 /**
  * @route POST /api/auth/reset-password
- * @description Reset password using reset token
+ * @description Reset password using reset token. Signs the user out of every session.
  * @access Public
  * @param {Object} req.body - Password reset data
  * @param {string} req.body.token - Password reset token from email
@@ -290,7 +413,7 @@ authRouter.post('/reset-password', asyncHandler(authController.resetPassword));
 
 /**
  * @route POST /api/auth/change-password
- * @description Change password for authenticated user
+ * @description Change password for authenticated user. Signs out every other session.
  * @access Private
  * @security BearerAuth
  * @param {Object} req.body - Password change data
@@ -337,11 +460,246 @@ authRouter.post('/change-password', authenticate, asyncHandler(authController.ch
  *   "data": {
  *     "user": {
  *       "userId": "60d0fe4f5311236168a109ca",
- *       "email": "john.doe@example.com"
+ *       "email": "john.doe@example.com",
+ *       "role": "user"
  *     }
  *   }
  * }
  */
 authRouter.post('/verify-token', authenticate, asyncHandler(authController.verifyToken));
 
+/**
+ * @route POST /api/auth/verify-email
+ * @description Verify the user's email address with the token from the verification email.
+ * Commenting and rating require a verified email.
+ * @access Public
+ * @param {Object} req.body - Verification data
+ * @param {string} req.body.token - Email verification token
+ * @returns {Object} 200 - Email verified successfully
+ * @returns {Object} 400 - Missing, invalid or expired token
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Request body
+ * {
+ *   "token": "a1b2c3d4e5f6..."
+ * }
+ *
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Email verified successfully",
+ *   "data": {
+ *     "user": {
+ *       "id": "60d0fe4f5311236168a109ca",
+ *       "email": "john.doe@example.com",
+ *       "emailVerified": true
+ *     }
+ *   }
+ * }
+ */
+authRouter.post('/verify-email', asyncHandler(authController.verifyEmail));
+
+/**
+ * @route POST /api/auth/resend-verification
+ * @description Send a new email verification link. Previous links stop working.
+ * @access Private
+ * @security BearerAuth
+ * @returns {Object} 200 - Verification email sent
+ * @returns {Object} 400 - Email already verified
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 404 - User not found
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Verification email sent",
+ *   "data": {
+ *     "message": "We sent a new verification link to john.doe@example.com."
+ *   }
+ * }
+ */
+authRouter.post('/resend-verification', authenticate, asyncHandler(authController.resendVerification));
+
+/**
+ * @route POST /api/auth/2fa/verify
+ * @description Complete a login for an account with two-factor authentication, exchanging the
+ * challenge token returned by /login and a TOTP code (or a recovery code) for a session
+ * @access Public
+ * @param {Object} req.body - Second factor data
+ * @param {string} req.body.challengeToken - Challenge token from /login (valid for 5 minutes)
+ * @param {string} req.body.code - 6 digit code from the authenticator app
+ * @param {string} req.body.recoveryCode - One-time recovery code (instead of code)
+ * @returns {Object} 200 - Login successful with access and refresh tokens
+ * @returns {Object} 400 - Missing fields
+ * @returns {Object} 401 - Invalid challenge token or code
+ * @returns {Object} 423 - Account temporarily locked (see Retry-After header)
+ * @returns {Object} 429 - Too many attempts (see Retry-After header)
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Request body
+ * {
+ *   "challengeToken": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   "code": "123456"
+ * }
+ *
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Welcome back, John!",
+ *   "data": {
+ *     "user": { "id": "60d0fe4f5311236168a109ca", "twoFactorEnabled": true },
+ *     "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *     "refreshToken": "6717a3f2c1d4e5f6a7b8c9d0.4f1c9a...",
+ *     "expiresIn": "15m"
+ *   }
+ * }
+ */
+authRouter.post(
+  '/2fa/verify',
+  ...createAuthRateLimiters('two-factor'),
+  asyncHandler(authController.verifyTwoFactor)
+);
+
+/**
+ * @route POST /api/auth/2fa/setup
+ * @description Start two-factor enrollment. Returns a new secret and its otpauth URI to show
+ * as a QR code; 2FA stays off until a code is confirmed at /2fa/enable.
+ * @access Private
+ * @security BearerAuth
+ * @returns {Object} 200 - Secret generated
+ * @returns {Object} 400 - 2FA already enabled
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Scan the QR code with your authenticator app and confirm with a code",
+ *   "data": {
+ *     "secret": "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+ *     "otpauthUri": "otpauth://totp/Movies%20Platform%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Movies+Platform&algorithm=SHA1&digits=6&period=30"
+ *   }
+ * }
+ */
+authRouter.post('/2fa/setup', authenticate, asyncHandler(authController.setupTwoFactor));
+
+/**
+ * @route POST /api/auth/2fa/enable
+ * @description Confirm two-factor enrollment with a code from the authenticator app. Returns
+ * 10 one-time recovery codes, which are only shown once.
+ * @access Private
+ * @security BearerAuth
+ * @param {Object} req.body - Confirmation data
+ * @param {string} req.body.code - 6 digit code from the authenticator app
+ * @returns {Object} 200 - 2FA enabled
+ * @returns {Object} 400 - Missing or invalid code, setup not started or 2FA already enabled
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Two-factor authentication enabled",
+ *   "data": {
+ *     "recoveryCodes": ["3f9a1-c07e2", "8b1d4-52af9", "..."]
+ *   }
+ * }
+ */
+authRouter.post('/2fa/enable', authenticate, asyncHandler(authController.enableTwoFactor));
+
+/**
+ * @route POST /api/auth/2fa/disable
+ * @description Turn two-factor authentication off. Not allowed for roles listed in
+ * TWO_FACTOR_REQUIRED_ROLES.
+ * @access Private
+ * @security BearerAuth
+ * @param {Object} req.body - Confirmation data
+ * @param {string} req.body.password - Current password
+ * @param {string} req.body.code - 6 digit code from the authenticator app
+ * @param {string} req.body.recoveryCode - One-time recovery code (instead of code)
+ * @returns {Object} 200 - 2FA disabled
+ * @returns {Object} 400 - Missing fields or 2FA not enabled
+ * @returns {Object} 401 - Incorrect password or code
+ * @returns {Object} 403 - 2FA is mandatory for the user's role
+ * @returns {Object} 500 - Internal server error
+ */
+authRouter.post('/2fa/disable', authenticate, asyncHandler(authController.disableTwoFactor));
+
+/**
+ * @route GET /api/auth/sessions
+ * @description List the active sessions (devices) of the authenticated user
+ * @access Private
+ * @security BearerAuth
+ * @returns {Object} 200 - Active sessions, most recently used first
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Active sessions retrieved successfully",
+ *   "data": {
+ *     "sessions": [
+ *       {
+ *         "id": "6713a1f25311236168a10a01",
+ *         "device": "Chrome on Windows",
+ *         "userAgent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...",
+ *         "ipAddress": "181.52.10.20",
+ *         "createdAt": "2025-10-20T14:03:11.000Z",
+ *         "lastUsedAt": "2025-10-21T09:12:45.000Z",
+ *         "expiresAt": "2025-11-19T14:03:11.000Z",
+ *         "current": true
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+authRouter.get('/sessions', authenticate, asyncHandler(authController.getSessions));
+
+/**
+ * @route DELETE /api/auth/sessions
+ * @description Sign out everywhere else: revokes every session except the current one
+ * @access Private
+ * @security BearerAuth
+ * @returns {Object} 200 - Other sessions revoked
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Signed out of 2 other session(s)",
+ *   "data": {
+ *     "revokedCount": 2
+ *   }
+ * }
+ */
+authRouter.delete('/sessions', authenticate, asyncHandler(authController.revokeOtherSessions));
+
+/**
+ * @route DELETE /api/auth/sessions/:sessionId
+ * @description Revoke one of the authenticated user's sessions. Its refresh token and any
+ * access token issued for it stop working immediately.
+ * @access Private
+ * @security BearerAuth
+ * @param {string} sessionId - Session ID
+ * @returns {Object} 200 - Session revoked
+ * @returns {Object} 400 - Invalid session ID
+ * @returns {Object} 401 - Unauthorized
+ * @returns {Object} 404 - Session not found or already revoked
+ * @returns {Object} 500 - Internal server error
+ * @example
+ * // Response 200
+ * {
+ *   "success": true,
+ *   "message": "Session revoked successfully",
+ *   "data": {
+ *     "sessionId": "6713a1f25311236168a10a01",
+ *     "current": false
+ *   }
+ * }
+ */
+authRouter.delete('/sessions/:sessionId', authenticate, asyncHandler(authController.revokeSession));
+
 export default authRouter;
\ No newline at end of file
@@ -8,7 +8,8 @@
 
 import { Router } from 'express';
 import commentController from '@/controllers/commentController';
-import { authenticate } from '@/middleware/auth';
+import { authenticate, optionalAuthenticate, requireVerifiedEmail } from '@/middleware/auth';
+import { commentRateLimiter } from '@/middleware/rateLimiter';
 
 /**
  * @const router
@@ -20,23 +21,36 @@ const router = Router();
 /**
  * @route POST /api/comments/:movieId
  * @description Create a new comment on a movie
- * @access Protected
+ * @access Protected (verified email)
  * @param {string} movieId - Movie ID
  * @body {string} content - Comment content (1-1000 characters)
+ * @body {string} parentId - Comment to reply to (optional; must belong to the same movie)
  * @returns {IApiResponse<IComment>} Created comment
+ * @returns {IApiResponse} 429 - More than 10 comments per minute
  */
-router.post('/:movieId', authenticate, commentController.createComment);
+router.post(
+  '/:movieId',
+  authenticate,
+  commentRateLimiter,
+  requireVerifiedEmail,
+  commentController.createComment
+);
 
 /**
  * @route GET /api/comments/movie/:movieId
- * @description Get all comments for a specific movie
- * @access Public
+ * @description Get the top-level comments of a movie, each with `replyCount`, `threadReplyCount`,
+ * `reactionCounts` and its first replies nested in `replies`
+ * @access Public (optional authentication adds the user's own reactions as `myReactions`)
  * @param {string} movieId - Movie ID
+ * @query {string} sort - newest (default), oldest, top or controversial
+ * @query {number} depth - Levels of replies to nest (default and max: COMMENT_MAX_THREAD_DEPTH)
  * @query {number} page - Page number (default: 1)
- * @query {number} limit - Comments per page (default: 20)
+ * @query {number} limit - Comments per page (default: 20, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  * @returns {IApiResponse<{comments: IComment[], total: number, page: number, pages: number}>}
  */
-router.get('/movie/:movieId', commentController.getMovieComments);
+router.get('/movie/:movieId', optionalAuthenticate, commentController.getMovieComments);
 
 /**
  * @route GET /api/comments/movie/:movieId/count
@@ -52,36 +66,97 @@ router.get('/movie/:movieId/count', commentController.getCommentCount);
  * @description Get all comments by the authenticated user
  * @access Protected
  * @query {number} page - Page number (default: 1)
- * @query {number} limit - Comments per page (default: 20)
+ * @query {number} limit - Comments per page (default: 20, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  * @returns {IApiResponse<{comments: IComment[], total: number, page: number, pages: number}>}
  */
 router.get('/user', authenticate, commentController.getUserComments);
 
+/**
+ * @route GET /api/comments/:commentId/replies
+ * @description Get the direct replies to a comment, each with its first replies nested in `replies`
+ * @access Public (optional authentication adds the user's own reactions as `myReactions`)
+ * @param {string} commentId - Comment ID
+ * @query {string} sort - oldest (default), newest, top or controversial
+ * @query {number} depth - Levels of replies to nest (default and max: COMMENT_MAX_THREAD_DEPTH)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Replies per page (default: 20, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
+ * @returns {IApiResponse<{parentId: string, replyCount: number, comments: IComment[]}>}
+ */
+router.get('/:commentId/replies', optionalAuthenticate, commentController.getReplies);
+
+/**
+ * @route POST /api/comments/:commentId/report
+ * @description Report a comment to the moderators; it is hidden once COMMENT_REPORT_HIDE_THRESHOLD
+ * distinct users have reported it
+ * @access Protected (verified email)
+ * @param {string} commentId - Comment ID
+ * @body {string} reason - spam, harassment, hate_speech, spoilers, misinformation or other
+ * @body {string} details - Description of the problem (required for "other", max 500 characters)
+ * @returns {IApiResponse<{commentId: string, reason: string}>}
+ * @returns {IApiResponse} 409 - The comment was already reported by this user
+ */
+router.post(
+  '/:commentId/report',
+  authenticate,
+  requireVerifiedEmail,
+  commentController.reportComment
+);
+
+/**
+ * @route PUT /api/comments/:commentId/reactions/:type
+ * @description React to a comment; each reaction type counts once per user
+ * @access Protected (verified email)
+ * @param {string} commentId - Comment ID
+ * @param {string} type - like, love, laugh, wow, sad or angry
+ * @returns {IApiResponse<{commentId: string, reactionCounts: object, myReactions: string[]}>}
+ */
+router.put(
+  '/:commentId/reactions/:type',
+  authenticate,
+  requireVerifiedEmail,
+  commentController.addReaction
+);
+
+/**
+ * @route DELETE /api/comments/:commentId/reactions/:type
+ * @description Remove one of your reactions from a comment
+ * @access Protected
+ * @param {string} commentId - Comment ID
+ * @param {string} type - Reaction type
+ * @returns {IApiResponse<{commentId: string, reactionCounts: object, myReactions: string[]}>}
+ */
+router.delete('/:commentId/reactions/:type', authenticate, commentController.removeReaction);
+
 /**
  * @route GET /api/comments/:commentId
  * @description Get a single comment by ID
- * @access Public
+ * @access Public (optional authentication adds the user's own reactions as `myReactions`)
  * @param {string} commentId - Comment ID
  * @returns {IApiResponse<IComment>}
  */
-router.get('/:commentId', commentController.getCommentById);
+router.get('/:commentId', optionalAuthenticate, commentController.getCommentById);
 
 /**
  * @route PUT /api/comments/:commentId
  * @description Update a comment (only by the comment author)
- * @access Protected
+ * @access Protected (verified email)
  * @param {string} commentId - Comment ID
  * @body {string} content - Updated comment content (1-1000 characters)
  * @returns {IApiResponse<IComment>} Updated comment
  */
-router.put('/:commentId', authenticate, commentController.updateComment);
+router.put('/:commentId', authenticate, requireVerifiedEmail, commentController.updateComment);
 
 /**
  * @route DELETE /api/comments/:commentId
- * @description Delete a comment (only by the comment author)
+ * @description Delete a comment (only by the comment author); a comment with replies is kept as
+ * a tombstone with `deleted: true` and no content or author
  * @access Protected
  * @param {string} commentId - Comment ID
- * @returns {IApiResponse<null>}
+ * @returns {IApiResponse<{tombstoned: boolean}>}
  */
 router.delete('/:commentId', authenticate, commentController.deleteComment);
 
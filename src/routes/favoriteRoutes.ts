@@ -64,6 +64,8 @@ favoriteRouter.delete('/:movieId', authenticate, favoriteController.removeFavori
  * @access Private (requires authentication)
  * @query {number} page - Page number (default: 1)
  * @query {number} limit - Results per page (default: 12, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  */
 favoriteRouter.get('/', authenticate, favoriteController.getFavorites.bind(favoriteController));
 
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Routes for the authenticated user's personal feeds
+ * @description Defines the /api/me routes: continue watching, watch history, recommendations and
+ * other lists built for the current user
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Router } from 'express';
+import { watchController } from '../controllers/watchController';
+import { recommendationController } from '../controllers/recommendationController';
+import { authenticate } from '../middleware/auth';
+
+/**
+ * @const meRouter
+ * @description Express router for /api/me routes
+ */
+const meRouter = Router();
+
+/**
+ * All /api/me routes require authentication
+ */
+meRouter.use(authenticate);
+
+/**
+ * @route GET /api/me/continue-watching
+ * @description Get partially watched active movies, most recently watched first
+ * @access Private (requires authentication)
+ * @query {number} limit - Number of movies to return (default: 20, max: 50)
+ */
+meRouter.get('/continue-watching', watchController.getContinueWatching.bind(watchController));
+
+/**
+ * @route GET /api/me/recommendations
+ * @description Get movies recommended from the user's ratings and favorites. Movies the user has
+ * rated, favorited or watched are left out; without any liked movie yet, the top-rated movies are
+ * returned (`strategy: "top_rated"`).
+ * @access Private (requires authentication)
+ * @query {number} limit - Number of movies to return (default: 20, max: 50)
+ */
+meRouter.get('/recommendations', recommendationController.getRecommendations.bind(recommendationController));
+
+/**
+ * @route GET /api/me/history
+ * @description Get every movie the user has watched with dates and how much was watched, most
+ * recently watched first
+ * @access Private (requires authentication)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Results per page (default: 12, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
+ */
+meRouter.get('/history', watchController.getHistory.bind(watchController));
+
+/**
+ * @route PUT /api/me/history/settings
+ * @description Pause or resume watch history recording; while paused, playback progress is not saved
+ * @access Private (requires authentication)
+ * @body {boolean} paused - Whether history recording is paused
+ */
+meRouter.put('/history/settings', watchController.updateHistorySettings.bind(watchController));
+
+/**
+ * @route DELETE /api/me/history
+ * @description Clear the whole watch history
+ * @access Private (requires authentication)
+ */
+meRouter.delete('/history', watchController.clearHistory.bind(watchController));
+
+/**
+ * @route DELETE /api/me/history/:movieId
+ * @description Remove one movie from the watch history
+ * @access Private (requires authentication)
+ * @param {string} movieId - Movie ID
+ */
+meRouter.delete('/history/:movieId', watchController.deleteHistoryEntry.bind(watchController));
+
+export default meRouter;
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Moderation routes configuration
+ * @description Defines the moderator routes for reviewing reported comments
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Router } from 'express';
+import { moderationController } from '../controllers/moderationController';
+import { authenticate, requireRole } from '../middleware/auth';
+
+/**
+ * @const moderationRouter
+ * @description Express router for moderation routes
+ */
+const moderationRouter = Router();
+
+/**
+ * All moderation routes require an authenticated moderator or admin
+ */
+moderationRouter.use(authenticate, requireRole('moderator', 'admin'));
+
+/**
+ * @route GET /api/moderation/comments
+ * @description List the comments with open reports, each with its author, movie and a `reports`
+ * summary (`reasons` counts and the `recent` reports with their details)
+ * @access Private (moderator or admin)
+ * @query {string} status - hidden, visible or all (default: all)
+ * @query {string} sort - reports (most reported first, default) or recent (last reported first)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Comments per page (default: 20, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
+ */
+moderationRouter.get('/comments', moderationController.listReportedComments.bind(moderationController));
+
+/**
+ * @route POST /api/moderation/comments/:commentId/approve
+ * @description Keep a reported comment: close its reports and show it again. Later reports still
+ * reach the queue but no longer hide it, unless the author edits it.
+ * @access Private (moderator or admin)
+ * @param {string} commentId - Comment ID
+ * @body {string} reason - Reason recorded in the audit log (optional)
+ */
+moderationRouter.post(
+  '/comments/:commentId/approve',
+  moderationController.approveComment.bind(moderationController)
+);
+
+/**
+ * @route POST /api/moderation/comments/:commentId/remove
+ * @description Remove a reported comment, close its reports and email the author the reason
+ * @access Private (moderator or admin)
+ * @param {string} commentId - Comment ID
+ * @body {string} reason - Reason sent to the author and recorded in the audit log (required)
+ */
+moderationRouter.post(
+  '/comments/:commentId/remove',
+  moderationController.removeComment.bind(moderationController)
+);
+
+/**
+ * @route POST /api/moderation/comments/:commentId/ban-user
+ * @description Remove a reported comment like /remove, then deactivate its author and revoke all
+ * of their sessions. Only accounts with the user role can be banned.
+ * @access Private (moderator or admin)
+ * @param {string} commentId - Comment ID
+ * @body {string} reason - Reason sent to the author and recorded in the audit log (required)
+ */
+moderationRouter.post(
+  '/comments/:commentId/ban-user',
+  moderationController.banUser.bind(moderationController)
+);
+
+export default moderationRouter;
@@ -8,7 +8,9 @@
 
 import { Router } from 'express';
 import { movieController } from '../controllers/movieController';
-import { authenticate } from '../middleware/auth';
+import { watchController } from '../controllers/watchController';
+import { authenticate, optionalAuthenticate, requireAdmin } from '../middleware/auth';
+import { movieViewRateLimiter } from '../middleware/rateLimiter';
 
 /**
  * @const movieRouter
@@ -31,11 +33,31 @@ movieRouter.get('/genres', movieController.getAvailableGenres.bind(movieControll
  */
 movieRouter.get('/popular', movieController.getPopularMovies.bind(movieController));
 
+/**
+ * @route GET /api/movies/trending
+ * @description Get trending movies: views, new ratings, favorites and comments within the window,
+ * each weighted by type and decayed exponentially with age
+ * @access Public
+ * @query {string} window - 24h, 7d (default) or 30d
+ * @query {number} limit - Number of movies to return (default: 10, max: 50)
+ * @query {string} genre - Only movies of this genre (optional)
+ */
+movieRouter.get('/trending', movieController.getTrendingMovies.bind(movieController));
+
+/**
+ * @route GET /api/movies/top-rated/genres
+ * @description Get the top-rated movies of every genre (by weighted rating)
+ * @access Public
+ * @query {number} limit - Number of movies per genre (default: 5, max: 20)
+ */
+movieRouter.get('/top-rated/genres', movieController.getTopRatedByGenre.bind(movieController));
+
 /**
  * @route GET /api/movies/top-rated
- * @description Get top-rated movies
+ * @description Get top-rated movies, ranked by weighted rating
  * @access Public
  * @query {number} limit - Number of movies to return (default: 10, max: 50)
+ * @query {string} genre - Only movies of this genre (optional)
  */
 movieRouter.get('/top-rated', movieController.getTopRatedMovies.bind(movieController));
 
@@ -57,6 +79,87 @@ movieRouter.get('/recent', movieController.getRecentMovies.bind(movieController)
  */
 movieRouter.get('/search', movieController.searchMovies.bind(movieController));
 
+/**
+ * @route GET /api/movies/suggest
+ * @description Search box autocomplete: titles, directors and cast members with a word starting
+ * with the query (accent and case insensitive), grouped by type with highlighted segments
+ * @access Public
+ * @query {string} q - Partial query (minimum 2 characters)
+ * @query {number} limit - Suggestions per group (default: 5, max: 10)
+ * @example
+ * // GET /api/movies/suggest?q=accion
+ * {
+ *   "success": true,
+ *   "message": "Suggestions retrieved successfully",
+ *   "data": {
+ *     "query": "accion",
+ *     "suggestions": {
+ *       "titles": [
+ *         {
+ *           "movieId": "60d0fe4f5311236168a109cb",
+ *           "title": "Acción Mutante",
+ *           "releaseYear": 1993,
+ *           "poster": "https://example.com/poster.jpg",
+ *           "segments": [
+ *             { "text": "Acción", "match": true },
+ *             { "text": " Mutante", "match": false }
+ *           ]
+ *         }
+ *       ],
+ *       "directors": [],
+ *       "cast": []
+ *     }
+ *   }
+ * }
+ */
+movieRouter.get('/suggest', movieController.suggestMovies.bind(movieController));
+
+/**
+ * @route GET /api/movies/browse
+ * @description Faceted catalog browsing. Returns the page of movies matching the filters and, for
+ * every filter dimension, the number of movies each value would match under the current selection.
+ * List filters accept comma-separated values or a repeated parameter.
+ * @access Public
+ * @query {string} genre - Genres (e.g. "Action,Comedy")
+ * @query {string} genreMode - "any" (default) matches movies with any of the genres, "all" with every genre
+ * @query {number} yearMin - Earliest release year
+ * @query {number} yearMax - Latest release year
+ * @query {number} durationMin - Minimum duration in minutes
+ * @query {number} durationMax - Maximum duration in minutes
+ * @query {number} ratingMin - Minimum average rating (0-5)
+ * @query {number} ratingMax - Maximum average rating (0-5)
+ * @query {string} director - Directors
+ * @query {string} cast - Cast members
+ * @query {string} videoProvider - Video providers (cloudinary, pexels, youtube, external)
+ * @query {string} subtitle - Required subtitle languages (spanish, english)
+ * @query {string} sortBy - title, createdAt (default), averageRating, weightedRating, views, releaseYear or duration
+ * @query {string} sortOrder - asc or desc (default)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Results per page (default: 12, max: 100)
+ * @example
+ * // GET /api/movies/browse?genre=Action,Sci-Fi&yearMin=2000&subtitle=spanish
+ * {
+ *   "success": true,
+ *   "message": "Retrieved 12 movie(s)",
+ *   "data": {
+ *     "movies": [...],
+ *     "facets": {
+ *       "genres": [{ "value": "Action", "count": 42 }, { "value": "Sci-Fi", "count": 17 }],
+ *       "releaseYear": { "min": 2000, "max": 2024, "buckets": [{ "from": 2000, "to": 2010, "count": 20 }] },
+ *       "duration": { "min": 85, "max": 169, "buckets": [{ "from": 0, "to": 90, "count": 4 }] },
+ *       "rating": { "min": 0, "max": 4.8, "buckets": [{ "from": 4, "to": 5, "count": 9 }] },
+ *       "directors": [{ "value": "Christopher Nolan", "count": 3 }],
+ *       "cast": [{ "value": "Keanu Reeves", "count": 4 }],
+ *       "videoProviders": [{ "value": "youtube", "count": 30 }],
+ *       "subtitles": [{ "value": "spanish", "count": 25 }, { "value": "english", "count": 19 }]
+ *     },
+ *     "filters": { "genres": ["Action", "Sci-Fi"], "genreMode": "any", ... },
+ *     "pagination": { "currentPage": 1, "totalPages": 3, "totalMovies": 25, ... }
+ *   }
+ * }
+ */
+movieRouter.get('/browse', movieController.browseMovies.bind(movieController));
+
 /**
  * @route GET /api/movies/genre/:genre
  * @description Get movies by genre (supports comma-separated genres)
@@ -76,12 +179,43 @@ movieRouter.get('/genre/:genre', movieController.getMoviesByGenre.bind(movieCont
 movieRouter.get('/:id/stats', movieController.getMovieStatistics.bind(movieController));
 
 /**
- * @route POST /api/movies/:id/view
- * @description Increment view counter for a movie
+ * @route GET /api/movies/:id/similar
+ * @description Get the movies most similar to a movie by genres, director, cast, release year,
+ * co-favorites and co-ratings
  * @access Public
  * @param {string} id - Movie ID
+ * @query {number} limit - Number of movies (default: 10, max: 50)
+ */
+movieRouter.get('/:id/similar', movieController.getSimilarMovies.bind(movieController));
+
+/**
+ * @route POST /api/movies/:id/view
+ * @description Player heartbeat for view counting (limited to 30 requests per minute per client).
+ * The playback time since the viewer's previous heartbeat is credited as watch time; the view
+ * counter goes up once it adds up to VIEW_MIN_WATCH_SECONDS, at most once per viewer per
+ * VIEW_DEDUP_WINDOW_MS. The response says whether this heartbeat counted a view.
+ * @access Public (optional authentication identifies the viewer by account)
+ * @param {string} id - Movie ID
+ * @body {number} position - Playback position in seconds
+ */
+movieRouter.post(
+  '/:id/view',
+  movieViewRateLimiter,
+  optionalAuthenticate,
+  movieController.incrementMovieViews.bind(movieController)
+);
+
+/**
+ * @route PUT /api/movies/:id/progress
+ * @description Save the playback position (player heartbeat). Reaching 90% of the video marks
+ * the movie as completed. The playback time since the previous heartbeat is also credited towards
+ * a view, as with POST /api/movies/:id/view.
+ * @access Private (requires authentication)
+ * @param {string} id - Movie ID
+ * @body {number} position - Playback position in seconds
+ * @body {number} duration - Video length in seconds (optional, defaults to the catalog duration)
  */
-movieRouter.post('/:id/view', movieController.incrementMovieViews.bind(movieController));
+movieRouter.put('/:id/progress', authenticate, watchController.updateProgress.bind(watchController));
 
 /**
  * @route GET /api/movies/:id
@@ -99,34 +233,36 @@ movieRouter.get('/:id', movieController.getMovieById.bind(movieController));
  * @query {number} limit - Results per page (default: 12, max: 100)
  * @query {string} genre - Filter by genre
  * @query {number} minRating - Minimum average rating (0-5)
- * @query {string} sortBy - Sort field (title, createdAt, averageRating, views, releaseYear)
+ * @query {string} sortBy - Sort field (title, createdAt, averageRating, weightedRating, views, releaseYear)
  * @query {string} sortOrder - Sort order (asc, desc)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  */
 movieRouter.get('/', movieController.getAllMovies.bind(movieController));
 
 /**
  * @route POST /api/movies
- * @description Create a new movie (ADMIN only - future implementation)
+ * @description Create a new movie
  * @access Private/Admin
  * @body {object} movieData - Movie information
  */
-movieRouter.post('/', movieController.createMovie.bind(movieController));
+movieRouter.post('/', authenticate, requireAdmin, movieController.createMovie.bind(movieController));
 
 /**
  * @route PUT /api/movies/:id
- * @description Update an existing movie (ADMIN only - future implementation)
+ * @description Update an existing movie
  * @access Private/Admin
  * @param {string} id - Movie ID
  * @body {object} updateData - Updated movie information
  */
-movieRouter.put('/:id', movieController.updateMovie.bind(movieController));
+movieRouter.put('/:id', authenticate, requireAdmin, movieController.updateMovie.bind(movieController));
 
 /**
  * @route DELETE /api/movies/:id
- * @description Soft delete a movie (ADMIN only - future implementation)
+ * @description Soft delete a movie
  * @access Private/Admin
  * @param {string} id - Movie ID
  */
-movieRouter.delete('/:id', movieController.deleteMovie.bind(movieController));
+movieRouter.delete('/:id', authenticate, requireAdmin, movieController.deleteMovie.bind(movieController));
 
 export default movieRouter;
@@ -8,7 +8,7 @@
 
 import { Router } from 'express';
 import { ratingController } from '../controllers/ratingController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate, requireVerifiedEmail } from '../middleware/auth';
 
 /**
  * @const ratingRouter
@@ -22,6 +22,8 @@ const ratingRouter = Router();
  * @access Private (requires authentication)
  * @query {number} page - Page number (default: 1)
  * @query {number} limit - Results per page (default: 12, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  */
 ratingRouter.get('/user', authenticate, ratingController.getUserRatings.bind(ratingController));
 
@@ -41,24 +43,68 @@ ratingRouter.get('/movie/:movieId/stats', ratingController.getMovieStatistics.bi
  */
 ratingRouter.get('/movie/:movieId/user', authenticate, ratingController.getUserRatingForMovie.bind(ratingController));
 
+/**
+ * @route GET /api/ratings/movie/:movieId/reviews
+ * @description Get the written reviews of a movie
+ * @access Public (optional authentication adds the user's own vote as `myVote`)
+ * @param {string} movieId - Movie ID
+ * @query {string} sort - "helpful" (default) or "recent"
+ * @query {number} stars - Only reviews with this star value (1-5)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Results per page (default: 10, max: 50)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
+ */
+ratingRouter.get(
+  '/movie/:movieId/reviews',
+  optionalAuthenticate,
+  ratingController.getMovieReviews.bind(ratingController)
+);
+
 /**
  * @route GET /api/ratings/movie/:movieId
  * @description Get all ratings for a specific movie with pagination
  * @access Public
  * @param {string} movieId - Movie ID
+ * @query {number} stars - Only ratings with this star value (1-5)
  * @query {number} page - Page number (default: 1)
  * @query {number} limit - Results per page (default: 12, max: 100)
+ * @query {string} after - Cursor from `nextCursor`; returns the items after it (replaces page)
+ * @query {string} before - Cursor from `prevCursor`; returns the items before it (replaces page)
  */
 ratingRouter.get('/movie/:movieId', ratingController.getMovieRatings.bind(ratingController));
 
 /**
- * @route PUT /api/ratings/:movieId
- * @description Update user's rating for a movie
+ * @route PUT /api/ratings/reviews/:ratingId/vote
+ * @description Mark a review as helpful or unhelpful (not allowed on your own review)
+ * @access Private (requires authentication and a verified email)
+ * @param {string} ratingId - Rating ID of the review
+ * @body {boolean} helpful - true for helpful, false for unhelpful
+ */
+ratingRouter.put(
+  '/reviews/:ratingId/vote',
+  authenticate,
+  requireVerifiedEmail,
+  ratingController.voteReview.bind(ratingController)
+);
+
+/**
+ * @route DELETE /api/ratings/reviews/:ratingId/vote
+ * @description Withdraw your vote on a review
  * @access Private (requires authentication)
+ * @param {string} ratingId - Rating ID of the review
+ */
+ratingRouter.delete('/reviews/:ratingId/vote', authenticate, ratingController.removeReviewVote.bind(ratingController));
+
+/**
+ * @route PUT /api/ratings/:movieId
+ * @description Update user's rating and/or review for a movie
+ * @access Private (requires authentication and a verified email)
  * @param {string} movieId - Movie ID
- * @body {number} rating - New rating value (1-5)
+ * @body {number} rating - New rating value (1-5, optional when a review is given)
+ * @body {object|null} review - { title?, body, containsSpoilers?, language? }, or null to remove it
  */
-ratingRouter.put('/:movieId', authenticate, ratingController.updateRating.bind(ratingController));
+ratingRouter.put('/:movieId', authenticate, requireVerifiedEmail, ratingController.updateRating.bind(ratingController));
 
 /**
  * @route DELETE /api/ratings/:movieId
@@ -71,10 +117,12 @@ ratingRouter.delete('/:movieId', authenticate, ratingController.deleteRating.bin
 /**
  * @route POST /api/ratings
  * @description Create or update a rating for a movie
- * @access Private (requires authentication)
+ * @access Private (requires authentication and a verified email)
  * @body {string} movieId - Movie ID to rate
  * @body {number} rating - Rating value (1-5 stars)
+ * @body {object} review - Optional written review: { title?, body, containsSpoilers?, language? }
+ * (language defaults to the request language)
  */
-ratingRouter.post('/', authenticate, ratingController.createRating.bind(ratingController));
+ratingRouter.post('/', authenticate, requireVerifiedEmail, ratingController.createRating.bind(ratingController));
 
 export default ratingRouter;
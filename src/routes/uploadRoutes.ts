@@ -8,7 +8,7 @@
 
 import { Router } from 'express';
 import uploadController from '@/controllers/uploadController';
-import { authenticate } from '@/middleware/auth';
+import { authenticate, requireAdmin } from '@/middleware/auth';
 import {
   uploadAvatar,
   uploadPoster,
@@ -34,13 +34,14 @@ router.post(
 /**
  * @route POST /api/upload/poster/:movieId
  * @description Upload movie poster image
- * @access Private (Admin only - TODO: add admin middleware)
+ * @access Private (Admin only)
  * @param {string} movieId - Movie ID
  * @body {File} poster - Poster image file (max 10MB, jpeg/jpg/png/gif/webp)
  */
 router.post(
   '/poster/:movieId',
-  authenticate, // TODO: Add admin middleware
+  authenticate,
+  requireAdmin,
   uploadPoster.single('poster'),
   uploadController.uploadMoviePoster
 );
@@ -48,13 +49,14 @@ router.post(
 /**
  * @route POST /api/upload/video/:movieId
  * @description Upload movie video file
- * @access Private (Admin only - TODO: add admin middleware)
+ * @access Private (Admin only)
  * @param {string} movieId - Movie ID
  * @body {File} video - Video file (max 500MB, mp4/mpeg/mov/avi/webm)
  */
 router.post(
   '/video/:movieId',
-  authenticate, // TODO: Add admin middleware
+  authenticate,
+  requireAdmin,
   uploadVideo.single('video'),
   uploadController.uploadMovieVideo
 );
@@ -62,14 +64,15 @@ router.post(
 /**
  * @route POST /api/upload/subtitle/:movieId
  * @description Upload movie subtitle file
- * @access Private (Admin only - TODO: add admin middleware)
+ * @access Private (Admin only)
  * @param {string} movieId - Movie ID
  * @body {File} subtitle - Subtitle file (max 1MB, .srt or .vtt)
  * @body {string} language - Language: "spanish" or "english"
  */
 router.post(
   '/subtitle/:movieId',
-  authenticate, // TODO: Add admin middleware
+  authenticate,
+  requireAdmin,
   uploadSubtitle.single('subtitle'),
   uploadController.uploadSubtitle
 );
@@ -77,13 +80,14 @@ router.post(
 /**
  * @route DELETE /api/upload/:publicId
  * @description Delete file from Cloudinary
- * @access Private (Admin only - TODO: add admin middleware)
+ * @access Private (Admin only)
  * @param {string} publicId - Cloudinary public ID
  * @query {string} resourceType - Resource type: "image", "video", or "raw"
  */
 router.delete(
   '/:publicId',
-  authenticate, // TODO: Add admin middleware
+  authenticate,
+  requireAdmin,
   uploadController.deleteFile
 );
 
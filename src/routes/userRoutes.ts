@@ -0,0 +1,90 @@
+/**
+ * @fileoverview User administration routes configuration
+ * @description Defines the admin-only routes for managing user accounts
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import { Router } from 'express';
+import { userController } from '../controllers/userController';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+/**
+ * @const userRouter
+ * @description Express router for user administration routes
+ */
+const userRouter = Router();
+
+/**
+ * All user administration routes require an authenticated admin
+ */
+userRouter.use(authenticate, requireAdmin);
+
+/**
+ * @route GET /api/users
+ * @description List users, newest first
+ * @access Private (admin only)
+ * @query {string} search - Search by first or last name (optional)
+ * @query {string} role - Filter by role: user, moderator or admin (optional)
+ * @query {string} status - active, inactive or all (default: all)
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Users per page (default: 20, max: 100)
+ */
+userRouter.get('/', userController.listUsers.bind(userController));
+
+/**
+ * @route GET /api/users/:id
+ * @description Get a user with their rating, comment, favorite and active session counts
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ */
+userRouter.get('/:id', userController.getUser.bind(userController));
+
+/**
+ * @route GET /api/users/:id/audit-log
+ * @description Get the administrative actions performed on a user, newest first
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ * @query {number} page - Page number (default: 1)
+ * @query {number} limit - Entries per page (default: 20, max: 100)
+ */
+userRouter.get('/:id/audit-log', userController.getUserAuditLog.bind(userController));
+
+/**
+ * @route POST /api/users/:id/deactivate
+ * @description Deactivate a user account and revoke all of its sessions
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ * @body {string} reason - Reason recorded in the audit log (optional)
+ */
+userRouter.post('/:id/deactivate', userController.deactivateUser.bind(userController));
+
+/**
+ * @route POST /api/users/:id/reactivate
+ * @description Reactivate a deactivated user account
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ */
+userRouter.post('/:id/reactivate', userController.reactivateUser.bind(userController));
+
+/**
+ * @route POST /api/users/:id/force-password-reset
+ * @description Block login until the user resets their password, revoke all sessions and
+ * email a reset link
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ * @body {string} reason - Reason recorded in the audit log (optional)
+ */
+userRouter.post('/:id/force-password-reset', userController.forcePasswordReset.bind(userController));
+
+/**
+ * @route PUT /api/users/:id/role
+ * @description Change a user's role
+ * @access Private (admin only)
+ * @param {string} id - User ID
+ * @body {string} role - New role: user, moderator or admin
+ */
+userRouter.put('/:id/role', userController.changeRole.bind(userController));
+
+export default userRouter;
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Maintenance script to fill in reaction counts and ranking scores of old comments
+ * @description Comments created before reactions existed have no reactionCounts, topScore or
+ * controversyScore, so they cannot be paged through with `sort=top` or `sort=controversial`.
+ * New comments get these fields automatically and reactions keep them up to date; this script
+ * recounts the rest from their reactions. It is safe to run more than once.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ *
+ * @example
+ * // Development
+ * npm run backfill-comment-scores
+ *
+ * // Production (after npm run build)
+ * node dist/scripts/backfillCommentScores.js
+ */
+
+import { environment } from '../config/environment';
+import { connectToDatabase, disconnectFromDatabase } from '../config/database';
+import Comment from '../models/Comment';
+import { CommentReaction } from '../models/CommentReaction';
+
+/**
+ * @function backfillCommentScores
+ * @description Recounts the reactions of every comment without a topScore
+ * @returns {Promise<void>}
+ */
+async function backfillCommentScores(): Promise<void> {
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  try {
+    const cursor = Comment.find({ topScore: { $exists: false } }).select('_id').lean().cursor();
+    let updated = 0;
+
+    for await (const comment of cursor) {
+      await CommentReaction.updateCommentCounts(comment._id.toString());
+      updated += 1;
+    }
+
+    console.log(`Reaction counts and scores filled in for ${updated} comment(s)`);
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+backfillCommentScores()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Failed to backfill comment scores:', (error as Error).message);
+    process.exit(1);
+  });
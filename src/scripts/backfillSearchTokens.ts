@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Maintenance script to compute autocomplete tokens for existing movies
+ * @description Movies created before search suggestions existed have no searchTokens and do not
+ * show up in GET /api/movies/suggest. New and updated movies get their tokens automatically;
+ * this script fills in the rest. It is safe to run more than once.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-23
+ *
+ * @example
+ * // Development
+ * npm run backfill-search-tokens
+ *
+ * // Production (after npm run build)
+ * node dist/scripts/backfillSearchTokens.js
+ */
+
+import { environment } from '../config/environment';
+import { connectToDatabase, disconnectFromDatabase } from '../config/database';
+import { Movie, buildSearchTokens } from '../models/Movie';
+import { IMovie } from '../types';
+
+/**
+ * @const BATCH_SIZE
+ * @description Number of movies updated per bulk write
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * @function backfillSearchTokens
+ * @description Recomputes the searchTokens of every movie, including inactive ones
+ * @returns {Promise<void>}
+ */
+async function backfillSearchTokens(): Promise<void> {
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  try {
+    const cursor = Movie.find()
+      .select('title director cast')
+      .lean<Array<IMovie & { _id: string }>>()
+      .cursor();
+
+    let batch: Parameters<typeof Movie.bulkWrite>[0] = [];
+    let updated = 0;
+
+    for await (const movie of cursor) {
+      batch.push({
+        updateOne: {
+          filter: { _id: movie._id },
+          update: { $set: { searchTokens: buildSearchTokens(movie) } },
+        },
+      });
+
+      if (batch.length === BATCH_SIZE) {
+        await Movie.bulkWrite(batch);
+        updated += batch.length;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await Movie.bulkWrite(batch);
+      updated += batch.length;
+    }
+
+    console.log(`Search tokens computed for ${updated} movie(s)`);
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+backfillSearchTokens()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Failed to backfill search tokens:', (error as Error).message);
+    process.exit(1);
+  });
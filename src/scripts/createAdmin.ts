@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Bootstrap script to grant a role to an existing user
+ * @description Promotes a registered user to admin (or another role). This is the only way
+ * to create the first admin account, since role changes through the API require an admin.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-20
+ *
+ * @example
+ * // Development
+ * npm run create-admin -- john.doe@example.com
+ *
+ * // Production (after npm run build)
+ * node dist/scripts/createAdmin.js john.doe@example.com
+ *
+ * // Grant a different role
+ * npm run create-admin -- jane.doe@example.com moderator
+ */
+
+import { environment } from '../config/environment';
+import { connectToDatabase, disconnectFromDatabase } from '../config/database';
+import { User, USER_ROLES } from '../models/User';
+import { UserRole } from '../types';
+
+/**
+ * @function createAdmin
+ * @description Assigns the requested role to the user with the given email
+ * @param {string} email - Email of an already registered user
+ * @param {UserRole} role - Role to assign (default: admin)
+ * @returns {Promise<void>}
+ * @throws {Error} When the role is invalid or the user does not exist
+ */
+async function createAdmin(email: string, role: UserRole = 'admin'): Promise<void> {
+  if (!USER_ROLES.includes(role)) {
+    throw new Error(`Invalid role: ${role}. Valid roles are: ${USER_ROLES.join(', ')}`);
+  }
+
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  try {
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+
+    if (!user) {
+      throw new Error(`No user found with email ${email}. Register the account first.`);
+    }
+
+    if (user.role === role) {
+      console.log(`${user.email} already has the ${role} role`);
+      return;
+    }
+
+    user.role = role;
+    await user.save({ validateBeforeSave: false });
+
+    console.log(`${user.email} is now ${role}`);
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+const [email, role] = process.argv.slice(2);
+
+if (!email) {
+  console.error('Usage: create-admin <email> [role]');
+  process.exit(1);
+}
+
+createAdmin(email, role as UserRole | undefined)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Failed to assign role:', (error as Error).message);
+    process.exit(1);
+  });
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Maintenance script to recompute the weighted rating of every movie
+ * @description Weighted ratings are updated whenever a movie is rated, using the current
+ * RATING_PRIOR_MEAN and RATING_MIN_VOTES. Run this script once to fill them in for existing movies
+ * and again after changing either setting. It is safe to run more than once.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ *
+ * @example
+ * // Development
+ * npm run recompute-weighted-ratings
+ *
+ * // Production (after npm run build)
+ * node dist/scripts/recomputeWeightedRatings.js
+ */
+
+import { environment } from '../config/environment';
+import { connectToDatabase, disconnectFromDatabase } from '../config/database';
+import { Movie } from '../models/Movie';
+import { IMovie } from '../types';
+import { calculateWeightedRating } from '../utils/weightedRating';
+
+/**
+ * @const BATCH_SIZE
+ * @description Number of movies updated per bulk write
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * @function recomputeWeightedRatings
+ * @description Recomputes the weightedRating of every movie, including inactive ones
+ * @returns {Promise<void>}
+ */
+async function recomputeWeightedRatings(): Promise<void> {
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  try {
+    const cursor = Movie.find()
+      .select('averageRating totalRatings')
+      .lean<Array<IMovie & { _id: string }>>()
+      .cursor();
+
+    let batch: Parameters<typeof Movie.bulkWrite>[0] = [];
+    let updated = 0;
+
+    for await (const movie of cursor) {
+      batch.push({
+        updateOne: {
+          filter: { _id: movie._id },
+          update: {
+            $set: {
+              weightedRating: calculateWeightedRating(movie.averageRating || 0, movie.totalRatings || 0),
+            },
+          },
+        },
+      });
+
+      if (batch.length === BATCH_SIZE) {
+        await Movie.bulkWrite(batch);
+        updated += batch.length;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await Movie.bulkWrite(batch);
+      updated += batch.length;
+    }
+
+    console.log(
+      `Weighted ratings recomputed for ${updated} movie(s) ` +
+        `(prior mean ${environment.get('ratingPriorMean')}, minimum votes ${environment.get('ratingMinVotes')})`
+    );
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+recomputeWeightedRatings()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Failed to recompute weighted ratings:', (error as Error).message);
+    process.exit(1);
+  });
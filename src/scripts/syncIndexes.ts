@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Maintenance script to bring database indexes in line with the schemas
+ * @description Creates missing indexes and drops the ones no longer declared in a schema. Needed
+ * after changing an index definition that MongoDB cannot update in place, such as the movie text
+ * index (a collection can only have one text index).
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-23
+ *
+ * @example
+ * // Development
+ * npm run sync-indexes
+ *
+ * // Production (after npm run build)
+ * node dist/scripts/syncIndexes.js
+ */
+
+import mongoose from 'mongoose';
+import { environment } from '../config/environment';
+import { connectToDatabase, disconnectFromDatabase } from '../config/database';
+import '../models/User';
+import '../models/Movie';
+import '../models/Rating';
+import '../models/Comment';
+import '../models/Favorite';
+import '../models/Session';
+import '../models/AuditLog';
+import '../models/DataExport';
+
+/**
+ * @function syncIndexes
+ * @description Synchronizes the indexes of every registered model
+ * @returns {Promise<void>}
+ */
+async function syncIndexes(): Promise<void> {
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  try {
+    for (const modelName of mongoose.modelNames()) {
+      const dropped = await mongoose.model(modelName).syncIndexes();
+      const droppedInfo = dropped.length > 0 ? ` (dropped: ${dropped.join(', ')})` : '';
+      console.log(`${modelName}: indexes in sync${droppedInfo}`);
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+syncIndexes()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Failed to sync indexes:', (error as Error).message);
+    process.exit(1);
+  });
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Account deletion service
+ * @description Handles the two-step account deletion flow: a deletion request puts the account
+ * in a pending state for a grace period (during which logging in cancels it), after which all
+ * personal data of the user is purged.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-23
+ */
+
+import { User, IUserDocument } from '../models/User';
+import { Rating } from '../models/Rating';
+import Comment from '../models/Comment';
+import { Favorite } from '../models/Favorite';
+import { Session } from '../models/Session';
+import { WatchProgress } from '../models/WatchProgress';
+import { ReviewVote } from '../models/ReviewVote';
+import { CommentReaction } from '../models/CommentReaction';
+import { CommentReport } from '../models/CommentReport';
+import { UploadService } from './uploadService';
+import { dataExportService } from './dataExportService';
+import { viewService } from './viewService';
+import { emailService } from './emailService';
+import { environment } from '../config/environment';
+import { SupportedLanguage } from '../config/i18n';
+
+/**
+ * @interface IAccountPurgeResult
+ * @description Summary of the data removed for a purged account
+ */
+export interface IAccountPurgeResult {
+  userId: string;
+  ratingsDeleted: number;
+  commentsDeleted: number;
+  favoritesDeleted: number;
+  sessionsDeleted: number;
+  moviesRecomputed: number;
+  avatarDeleted: boolean;
+}
+
+/**
+ * @class AccountDeletionService
+ * @description Schedules, cancels and carries out account deletions
+ */
+class AccountDeletionService {
+  /**
+   * @method scheduleDeletion
+   * @description Puts an account in the pending-deletion state, signs it out everywhere and
+   * emails the user the date the account will be purged
+   * @param {IUserDocument} user - User requesting deletion
+   * @param {SupportedLanguage} lang - Language of the notification email
+   * @returns {Promise<Date>} Date after which the account is purged
+   */
+  public async scheduleDeletion(user: IUserDocument, lang: SupportedLanguage): Promise<Date> {
+    const gracePeriodMs = environment.get('accountDeletionGraceDays') * 24 * 60 * 60 * 1000;
+
+    await user.scheduleDeletion(gracePeriodMs);
+    await Session.revokeUserSessions(user._id.toString(), 'account_deletion');
+
+    await emailService.sendAccountDeletionScheduledEmail(
+      user.email,
+      user.firstName,
+      user.deletionScheduledFor!,
+      lang
+    );
+
+    return user.deletionScheduledFor!;
+  }
+
+  /**
+   * @method purgeDueAccounts
+   * @description Purges every account whose grace period has ended. An account that fails is
+   * logged and retried on the next run; it does not stop the others.
+   * @returns {Promise<IAccountPurgeResult[]>} Summaries of the purged accounts
+   */
+  public async purgeDueAccounts(): Promise<IAccountPurgeResult[]> {
+    const users = await User.findDueForDeletion().select('_id');
+    const results: IAccountPurgeResult[] = [];
+
+    for (const user of users) {
+      try {
+        const result = await this.purgeUser(user._id.toString());
+        if (result) {
+          results.push(result);
+        }
+      } catch (error) {
+        console.error(`Failed to purge account ${user._id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * @method purgeUser
+   * @description Permanently removes a user whose deletion is due together with their ratings
+   * (recomputing the affected movie averages), review votes, comment reactions and comment reports
+   * (recounting the affected reviews and comments), comments (tombstones keep neither content nor
+   * author), favorites, sessions, data exports and Cloudinary avatar. Every step is idempotent, so
+   * an interrupted purge is simply run again.
+   * @param {string} userId - User ID
+   * @returns {Promise<IAccountPurgeResult | null>} Summary, or null if the deletion is not due
+   * (e.g. it was cancelled by a login in the meantime)
+   */
+  public async purgeUser(userId: string): Promise<IAccountPurgeResult | null> {
+    const user = await User.findOne({
+      _id: userId,
+      deletionScheduledFor: { $ne: null, $lte: new Date() },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    // Votes on the user's reviews go before the reviews themselves, so an interrupted purge
+    // leaves none behind; the user's votes on other reviews are removed and recounted
+    const ratingIds: string[] = (await Rating.distinct('_id', { userId })).map((id) => id.toString());
+    const votedRatingIds: string[] = await ReviewVote.distinct('ratingId', { userId });
+    await ReviewVote.deleteMany({ $or: [{ userId }, { ratingId: { $in: ratingIds } }] });
+
+    for (const ratingId of votedRatingIds) {
+      await ReviewVote.updateReviewCounts(ratingId);
+    }
+
+    // Ratings are removed next so the movie averages no longer include them
+    const ratedMovieIds: string[] = await Rating.distinct('movieId', { userId });
+    const ratingsResult = await Rating.deleteMany({ userId });
+
+    for (const movieId of ratedMovieIds) {
+      await Rating.updateMovieRating(movieId);
+    }
+
+    const reactedCommentIds: string[] = await CommentReaction.distinct('commentId', { userId });
+    await CommentReaction.deleteMany({ userId });
+
+    for (const commentId of reactedCommentIds) {
+      await CommentReaction.updateCommentCounts(commentId);
+    }
+
+    const reportedCommentIds: string[] = await CommentReport.distinct('commentId', { reporterId: userId });
+    await CommentReport.deleteMany({ reporterId: userId });
+
+    for (const commentId of reportedCommentIds) {
+      await CommentReport.updateCommentReports(commentId, environment.get('commentReportHideThreshold'));
+    }
+
+    // Comments with replies stay as "comment removed" tombstones so threads are not broken
+    const commentsDeleted = await Comment.removeUserComments(userId);
+
+    const [favoritesResult, sessionsResult] = await Promise.all([
+      Favorite.deleteMany({ userId }),
+      Session.deleteMany({ userId }),
+      dataExportService.deleteUserExports(userId),
+      WatchProgress.deleteMany({ userId }),
+      viewService.deleteUserViews(userId),
+    ]);
+
+    const avatarDeleted = await this.deleteAvatar(user);
+
+    await User.deleteOne({ _id: userId });
+
+    return {
+      userId,
+      ratingsDeleted: ratingsResult.deletedCount || 0,
+      commentsDeleted,
+      favoritesDeleted: favoritesResult.deletedCount || 0,
+      sessionsDeleted: sessionsResult.deletedCount || 0,
+      moviesRecomputed: ratedMovieIds.length,
+      avatarDeleted,
+    };
+  }
+
+  /**
+   * @method deleteAvatar
+   * @description Deletes the user's avatar from Cloudinary. External avatar URLs are left alone.
+   * @param {IUserDocument} user - User being purged
+   * @returns {Promise<boolean>} True if a Cloudinary avatar was deleted
+   * @throws {Error} When Cloudinary fails, so the purge is retried instead of leaking the file
+   * @private
+   */
+  private async deleteAvatar(user: IUserDocument): Promise<boolean> {
+    if (!user.avatar || !user.avatar.includes('cloudinary.com')) {
+      return false;
+    }
+
+    await UploadService.deleteFile(UploadService.getAvatarPublicId(user._id.toString()), 'image');
+    return true;
+  }
+}
+
+// Export singleton instance
+export const accountDeletionService = new AccountDeletionService();
+export default accountDeletionService;
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Audit service for recording administrative actions
+ * @description Writes audit log entries for actions performed by admins and moderators
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import { AuditLog, IAuditLogDocument } from '../models/AuditLog';
+import { AuditAction, IAuditLog, IAuthenticatedRequest } from '../types';
+
+/**
+ * @class AuditService
+ * @description Records who did what to which resource
+ */
+class AuditService {
+  /**
+   * @method record
+   * @description Records an action performed by the authenticated user of a request. Call it
+   * before applying the action and let errors propagate, so an action that cannot be audited is
+   * never performed.
+   * @param {IAuthenticatedRequest} req - Request of the acting user
+   * @param {AuditAction} action - Action performed
+   * @param {IAuditLog['targetType']} targetType - Type of the affected resource
+   * @param {string} targetId - ID of the affected resource
+   * @param {Record<string, any>} details - Extra context, e.g. previous and new values (optional)
+   * @returns {Promise<IAuditLogDocument>} Created entry
+   */
+  public async record(
+    req: IAuthenticatedRequest,
+    action: AuditAction,
+    targetType: IAuditLog['targetType'],
+    targetId: string,
+    details: Record<string, any> = {}
+  ): Promise<IAuditLogDocument> {
+    return AuditLog.create({
+      actorId: req.user!.userId,
+      action,
+      targetType,
+      targetId,
+      details,
+      ipAddress: req.ip || null,
+    });
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
+export default auditService;
@@ -0,0 +1,406 @@
+/**
+ * @fileoverview Catalog browsing service
+ * @description Faceted movie browsing: filters the catalog on several dimensions and, in the same
+ * aggregation, counts how many movies each filter value would match under the current selection.
+ * Dimensions combined with OR (e.g. "any of these genres") are counted without their own filter,
+ * so the sidebar keeps showing the alternatives; dimensions combined with AND are counted with it.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-24
+ */
+
+import { PipelineStage } from 'mongoose';
+import { Movie } from '../models/Movie';
+import { IMovie, MovieGenre } from '../types';
+
+/**
+ * @type SubtitleLanguage
+ * @description Subtitle languages a movie can have
+ */
+export type SubtitleLanguage = 'spanish' | 'english';
+
+/**
+ * @interface INumberRange
+ * @description Inclusive range; either bound can be omitted
+ */
+export interface INumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * @interface IBrowseFilters
+ * @description Filters of a catalog browse request
+ */
+export interface IBrowseFilters {
+  genres: MovieGenre[];
+  genreMode: 'any' | 'all';
+  releaseYear: INumberRange;
+  duration: INumberRange;
+  rating: INumberRange;
+  directors: string[];
+  cast: string[];
+  videoProviders: string[];
+  subtitles: SubtitleLanguage[];
+}
+
+/**
+ * @interface IBrowseOptions
+ * @description Pagination and sorting of a catalog browse request
+ */
+export interface IBrowseOptions {
+  page: number;
+  limit: number;
+  sortBy: string;
+  sortOrder: 1 | -1;
+}
+
+/**
+ * @interface IFacetValue
+ * @description Count for one value of a dimension
+ */
+export interface IFacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * @interface IFacetBucket
+ * @description Count for a range of values; `to` is exclusive except for the last bucket
+ */
+export interface IFacetBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * @interface IRangeFacet
+ * @description Buckets of a numeric dimension and the lowest and highest values present
+ */
+export interface IRangeFacet {
+  min: number | null;
+  max: number | null;
+  buckets: IFacetBucket[];
+}
+
+/**
+ * @interface ICatalogFacets
+ * @description Facet counts for every filter dimension
+ */
+export interface ICatalogFacets {
+  genres: IFacetValue[];
+  releaseYear: IRangeFacet;
+  duration: IRangeFacet;
+  rating: IRangeFacet;
+  directors: IFacetValue[];
+  cast: IFacetValue[];
+  videoProviders: IFacetValue[];
+  subtitles: IFacetValue[];
+}
+
+/**
+ * @interface IBrowseResult
+ * @description Page of movies, total count and facets
+ */
+export interface IBrowseResult {
+  movies: IMovie[];
+  total: number;
+  facets: ICatalogFacets;
+}
+
+/**
+ * @type Dimension
+ * @description Filter dimensions
+ */
+type Dimension = keyof Omit<IBrowseFilters, 'genreMode'>;
+
+/**
+ * @const SUBTITLE_LANGUAGES
+ * @description Valid subtitle languages
+ */
+export const SUBTITLE_LANGUAGES: SubtitleLanguage[] = ['spanish', 'english'];
+
+/**
+ * @const BROWSE_SORT_FIELDS
+ * @description Fields the results can be sorted by
+ */
+export const BROWSE_SORT_FIELDS = [
+  'title',
+  'createdAt',
+  'averageRating',
+  'weightedRating',
+  'views',
+  'releaseYear',
+  'duration',
+];
+
+/**
+ * @const DURATION_BOUNDARIES
+ * @description Duration buckets in minutes: under 90, 90-120, 120-150 and 150 or more
+ */
+const DURATION_BOUNDARIES = [0, 90, 120, 150, 601];
+
+/**
+ * @const RATING_BOUNDARIES
+ * @description Average rating buckets, one per star (the last includes 5)
+ */
+const RATING_BOUNDARIES = [0, 1, 2, 3, 4, 5.01];
+
+/**
+ * @const PEOPLE_FACET_LIMIT
+ * @description Number of directors and cast members listed in their facets
+ */
+const PEOPLE_FACET_LIMIT = 20;
+
+/**
+ * @class CatalogService
+ * @description Runs faceted catalog queries
+ */
+class CatalogService {
+  /**
+   * @method browse
+   * @description Returns a page of movies matching the filters together with facet counts,
+   * computed in a single aggregation
+   * @param {IBrowseFilters} filters - Selected filters
+   * @param {IBrowseOptions} options - Pagination and sorting
+   * @returns {Promise<IBrowseResult>} Movies, total and facets
+   */
+  public async browse(filters: IBrowseFilters, options: IBrowseOptions): Promise<IBrowseResult> {
+    const conditions = this.buildConditions(filters);
+
+    // AND-combined dimensions narrow their own counts; OR-combined ones do not
+    const selfFiltered: Dimension[] = ['subtitles'];
+    if (filters.genreMode === 'all') {
+      selfFiltered.push('genres');
+    }
+
+    const matchFor = (dimension?: Dimension): Record<string, any> => {
+      const applied = (Object.keys(conditions) as Dimension[])
+        .filter((key) => key !== dimension || selfFiltered.includes(key))
+        .map((key) => conditions[key]);
+
+      return applied.length > 0 ? { $and: applied } : {};
+    };
+
+    const countBy = (field: string, limit?: number): PipelineStage.FacetPipelineStage[] => [
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $match: { _id: { $ne: null } } },
+      { $sort: { count: -1, _id: 1 } },
+      ...(limit ? [{ $limit: limit }] : []),
+    ];
+
+    const rangeBuckets = (field: string, boundaries: number[]): PipelineStage.FacetPipelineStage[] => [
+      {
+        $bucket: {
+          groupBy: field,
+          boundaries,
+          default: 'other',
+          output: { count: { $sum: 1 }, min: { $min: field }, max: { $max: field } },
+        },
+      },
+    ];
+
+    const [result] = await Movie.aggregate([
+      { $match: { isActive: true } },
+      {
+        $facet: {
+          movies: [
+            { $match: matchFor() },
+            { $sort: { [options.sortBy]: options.sortOrder, _id: 1 } },
+            { $skip: (options.page - 1) * options.limit },
+            { $limit: options.limit },
+            { $project: { searchTokens: 0, searchDocuments: 0 } },
+          ],
+          total: [{ $match: matchFor() }, { $count: 'count' }],
+          genres: [{ $match: matchFor('genres') }, { $unwind: '$genre' }, ...countBy('$genre')],
+          releaseYear: [
+            { $match: matchFor('releaseYear') },
+            {
+              $group: {
+                _id: { $subtract: ['$releaseYear', { $mod: ['$releaseYear', 10] }] },
+                count: { $sum: 1 },
+                min: { $min: '$releaseYear' },
+                max: { $max: '$releaseYear' },
+              },
+            },
+            { $sort: { _id: 1 } },
+          ],
+          duration: [
+            { $match: matchFor('duration') },
+            ...rangeBuckets('$duration', DURATION_BOUNDARIES),
+          ],
+          rating: [
+            { $match: matchFor('rating') },
+            ...rangeBuckets('$averageRating', RATING_BOUNDARIES),
+          ],
+          directors: [
+            { $match: matchFor('directors') },
+            ...countBy('$director', PEOPLE_FACET_LIMIT),
+          ],
+          cast: [
+            { $match: matchFor('cast') },
+            { $unwind: '$cast' },
+            ...countBy('$cast', PEOPLE_FACET_LIMIT),
+          ],
+          videoProviders: [
+            { $match: matchFor('videoProviders') },
+            ...countBy('$videoProvider'),
+          ],
+          subtitles: [
+            { $match: matchFor('subtitles') },
+            {
+              $group: {
+                _id: null,
+                ...Object.fromEntries(
+                  SUBTITLE_LANGUAGES.map((language) => [
+                    language,
+                    {
+                      $sum: {
+                        $cond: [
+                          { $gt: [{ $strLenCP: { $ifNull: [`$subtitles.${language}`, ''] } }, 0] },
+                          1,
+                          0,
+                        ],
+                      },
+                    },
+                  ])
+                ),
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const decadeBuckets: IFacetBucket[] = result.releaseYear.map((bucket: any) => ({
+      from: bucket._id,
+      to: bucket._id + 10,
+      count: bucket.count,
+    }));
+
+    const subtitleCounts = result.subtitles[0] || {};
+
+    return {
+      movies: result.movies,
+      total: result.total[0]?.count || 0,
+      facets: {
+        genres: this.toValues(result.genres),
+        releaseYear: {
+          min: result.releaseYear.length > 0 ? Math.min(...result.releaseYear.map((b: any) => b.min)) : null,
+          max: result.releaseYear.length > 0 ? Math.max(...result.releaseYear.map((b: any) => b.max)) : null,
+          buckets: decadeBuckets,
+        },
+        duration: this.toRangeFacet(result.duration, DURATION_BOUNDARIES, 600),
+        rating: this.toRangeFacet(result.rating, RATING_BOUNDARIES, 5),
+        directors: this.toValues(result.directors),
+        cast: this.toValues(result.cast),
+        videoProviders: this.toValues(result.videoProviders),
+        subtitles: SUBTITLE_LANGUAGES.map((language) => ({
+          value: language,
+          count: subtitleCounts[language] || 0,
+        })),
+      },
+    };
+  }
+
+  /**
+   * @method buildConditions
+   * @description Builds the match condition of every selected dimension
+   * @param {IBrowseFilters} filters - Selected filters
+   * @returns {Partial<Record<Dimension, Record<string, any>>>} Conditions keyed by dimension
+   * @private
+   */
+  private buildConditions(filters: IBrowseFilters): Partial<Record<Dimension, Record<string, any>>> {
+    const conditions: Partial<Record<Dimension, Record<string, any>>> = {};
+
+    if (filters.genres.length > 0) {
+      conditions.genres = {
+        genre: filters.genreMode === 'all' ? { $all: filters.genres } : { $in: filters.genres },
+      };
+    }
+
+    const ranges: Array<[Dimension, string, INumberRange]> = [
+      ['releaseYear', 'releaseYear', filters.releaseYear],
+      ['duration', 'duration', filters.duration],
+      ['rating', 'averageRating', filters.rating],
+    ];
+
+    for (const [dimension, field, range] of ranges) {
+      const condition: Record<string, number> = {};
+      if (range.min !== undefined) condition.$gte = range.min;
+      if (range.max !== undefined) condition.$lte = range.max;
+
+      if (Object.keys(condition).length > 0) {
+        conditions[dimension] = { [field]: condition };
+      }
+    }
+
+    if (filters.directors.length > 0) {
+      conditions.directors = { director: { $in: filters.directors } };
+    }
+
+    if (filters.cast.length > 0) {
+      conditions.cast = { cast: { $in: filters.cast } };
+    }
+
+    if (filters.videoProviders.length > 0) {
+      conditions.videoProviders = { videoProvider: { $in: filters.videoProviders } };
+    }
+
+    if (filters.subtitles.length > 0) {
+      conditions.subtitles = {
+        $and: filters.subtitles.map((language) => ({
+          [`subtitles.${language}`]: { $nin: [null, ''] },
+        })),
+      };
+    }
+
+    return conditions;
+  }
+
+  /**
+   * @method toValues
+   * @description Converts grouped counts to facet values
+   * @param {Array<{_id: string, count: number}>} groups - Aggregation output
+   * @returns {IFacetValue[]} Facet values
+   * @private
+   */
+  private toValues(groups: Array<{ _id: string; count: number }>): IFacetValue[] {
+    return groups.map((group) => ({ value: group._id, count: group.count }));
+  }
+
+  /**
+   * @method toRangeFacet
+   * @description Converts $bucket output to a range facet, including empty buckets
+   * @param {Array} buckets - Aggregation output
+   * @param {number[]} boundaries - Bucket boundaries used in the aggregation
+   * @param {number} lastUpperBound - Upper bound reported for the last bucket (default: its boundary)
+   * @returns {IRangeFacet} Range facet
+   * @private
+   */
+  private toRangeFacet(
+    buckets: Array<{ _id: number | string; count: number; min: number; max: number }>,
+    boundaries: number[],
+    lastUpperBound?: number
+  ): IRangeFacet {
+    const inRange = buckets.filter((bucket) => typeof bucket._id === 'number');
+
+    return {
+      min: inRange.length > 0 ? Math.min(...inRange.map((bucket) => bucket.min)) : null,
+      max: inRange.length > 0 ? Math.max(...inRange.map((bucket) => bucket.max)) : null,
+      buckets: boundaries.slice(0, -1).map((from, index) => {
+        const isLast = index === boundaries.length - 2;
+        return {
+          from,
+          to: isLast && lastUpperBound !== undefined ? lastUpperBound : boundaries[index + 1],
+          count: inRange.find((bucket) => bucket._id === from)?.count || 0,
+        };
+      }),
+    };
+  }
+}
+
+// Export singleton instance
+export const catalogService = new CatalogService();
+export default catalogService;
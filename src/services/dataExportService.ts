@@ -0,0 +1,545 @@
+/**
+ * @fileoverview Personal data export service
+ * @description Gathers everything stored about a user (profile, ratings and reviews, review votes,
+ * comments, comment reactions, comment reports, favorites, watch history and sessions) and packages
+ * it as a JSON document or a ZIP archive with JSON and CSV files. Small JSON exports are returned
+ * right away; large ones and ZIP archives are produced in the background, stored in GridFS and the
+ * user is emailed when they are ready.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-22
+ */
+
+import JSZip from 'jszip';
+import mongoose, { mongo } from 'mongoose';
+import { User } from '../models/User';
+import { Rating } from '../models/Rating';
+import Comment from '../models/Comment';
+import { Favorite } from '../models/Favorite';
+import { Movie } from '../models/Movie';
+import { Session } from '../models/Session';
+import { WatchProgress } from '../models/WatchProgress';
+import { ReviewVote } from '../models/ReviewVote';
+import { CommentReaction } from '../models/CommentReaction';
+import { CommentReport } from '../models/CommentReport';
+import {
+  DataExport,
+  IDataExportDocument,
+  DATA_EXPORT_MAX_ATTEMPTS,
+  DATA_EXPORT_RETENTION_MS,
+  DATA_EXPORT_STALE_MS,
+} from '../models/DataExport';
+import { emailService } from './emailService';
+import { environment } from '../config/environment';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from '../config/i18n';
+import { DataExportFormat } from '../types';
+
+/**
+ * @const SYNC_EXPORT_MAX_RECORDS
+ * @description JSON exports with more ratings, comments, favorites and history entries than this
+ * are produced in the background instead of within the request
+ */
+const SYNC_EXPORT_MAX_RECORDS = 500;
+
+/**
+ * @const ARCHIVE_BUCKET
+ * @description GridFS bucket holding the archives of background exports
+ */
+const ARCHIVE_BUCKET = 'dataExports';
+
+/**
+ * @interface IUserDataExport
+ * @description Shape of the exported personal data
+ */
+export interface IUserDataExport {
+  exportedAt: string;
+  profile: Record<string, any>;
+  ratings: Array<Record<string, any>>;
+  reviewVotes: Array<Record<string, any>>;
+  comments: Array<Record<string, any>>;
+  commentReactions: Array<Record<string, any>>;
+  commentReports: Array<Record<string, any>>;
+  favorites: Array<Record<string, any>>;
+  watchHistory: Array<Record<string, any>>;
+  sessions: Array<Record<string, any>>;
+}
+
+/**
+ * @interface IExportArchive
+ * @description A packaged export ready to be downloaded
+ */
+export interface IExportArchive {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * @type ExportRequestResult
+ * @description Result of requesting an export: either the data itself or a background job
+ */
+export type ExportRequestResult =
+  | { mode: 'sync'; data: IUserDataExport }
+  | { mode: 'async'; dataExport: IDataExportDocument };
+
+/**
+ * @class DataExportService
+ * @description Builds personal data exports
+ */
+class DataExportService {
+  /**
+   * @method requestExport
+   * @description Starts an export, inline for small JSON exports and in the background otherwise
+   * @param {string} userId - User ID
+   * @param {DataExportFormat} format - Requested format
+   * @param {SupportedLanguage} lang - Language of the notification email
+   * @returns {Promise<ExportRequestResult>} Export data or the background export document
+   */
+  public async requestExport(
+    userId: string,
+    format: DataExportFormat,
+    lang: SupportedLanguage
+  ): Promise<ExportRequestResult> {
+    if (format === 'json') {
+      const recordCount = await this.countUserRecords(userId);
+
+      if (recordCount <= SYNC_EXPORT_MAX_RECORDS) {
+        return { mode: 'sync', data: await this.collectUserData(userId) };
+      }
+    }
+
+    const dataExport = await DataExport.create({
+      userId,
+      format,
+      status: 'pending',
+      language: lang,
+      expiresAt: new Date(Date.now() + DATA_EXPORT_RETENTION_MS),
+    });
+
+    // Produce the archive after the response has been sent; if the process stops before it is
+    // done, the data export job picks the export up again
+    setImmediate(() => {
+      this.processExport(dataExport._id.toString()).catch((error) => {
+        console.error('Data export processing failed:', error);
+      });
+    });
+
+    return { mode: 'async', dataExport };
+  }
+
+  /**
+   * @method processExport
+   * @description Builds the archive of a pending export, stores it and emails the user
+   * @param {string} exportId - DataExport ID
+   * @returns {Promise<void>}
+   */
+  public async processExport(exportId: string): Promise<void> {
+    // Claim the export atomically so it is never processed twice
+    const dataExport = await DataExport.findOneAndUpdate(
+      { _id: exportId, status: 'pending' },
+      { $set: { status: 'processing' }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+
+    if (!dataExport) {
+      return;
+    }
+
+    try {
+      const data = await this.collectUserData(dataExport.userId);
+      const archive = await this.buildArchive(data, dataExport.format);
+
+      dataExport.status = 'completed';
+      dataExport.fileName = archive.fileName;
+      dataExport.contentType = archive.contentType;
+      dataExport.fileId = await this.storeArchive(dataExport, archive);
+      dataExport.size = archive.data.length;
+      dataExport.completedAt = new Date();
+      await dataExport.save();
+
+      const user = await User.findById(dataExport.userId).select('email firstName').lean();
+      if (user) {
+        const downloadUrl = `${environment.get('frontendUrl')}/account/exports/${exportId}`;
+        await emailService.sendDataExportReadyEmail(
+          user.email,
+          user.firstName,
+          downloadUrl,
+          dataExport.expiresAt,
+          (dataExport.language || DEFAULT_LANGUAGE) as SupportedLanguage
+        );
+      }
+    } catch (error) {
+      dataExport.status = 'failed';
+      dataExport.error = (error as Error).message;
+      await dataExport.save();
+      throw error;
+    }
+  }
+
+  /**
+   * @method recoverStaleExports
+   * @description Retries exports interrupted by a restart or crash, and fails those that were
+   * already started DATA_EXPORT_MAX_ATTEMPTS times
+   * @returns {Promise<{requeued: number, failed: number}>} Exports retried and failed
+   */
+  public async recoverStaleExports(): Promise<{ requeued: number; failed: number }> {
+    const stale = await DataExport.findStale();
+    let requeued = 0;
+    let failed = 0;
+
+    for (const dataExport of stale) {
+      const exhausted = (dataExport.attempts || 0) >= DATA_EXPORT_MAX_ATTEMPTS;
+
+      // Only one instance wins the update; the export is left alone if it moved on meanwhile
+      const claimed = await DataExport.findOneAndUpdate(
+        {
+          _id: dataExport._id,
+          status: { $in: ['pending', 'processing'] },
+          updatedAt: { $lte: new Date(Date.now() - DATA_EXPORT_STALE_MS) },
+        },
+        exhausted
+          ? { $set: { status: 'failed', error: 'Export was interrupted too many times' } }
+          : { $set: { status: 'pending' } },
+        { new: true }
+      );
+
+      if (!claimed) {
+        continue;
+      }
+
+      if (exhausted) {
+        failed += 1;
+        continue;
+      }
+
+      requeued += 1;
+      await this.processExport(claimed._id.toString()).catch((error) => {
+        console.error('Data export processing failed:', error);
+      });
+    }
+
+    return { requeued, failed };
+  }
+
+  /**
+   * @method openArchive
+   * @description Opens the stored archive of a completed export for download
+   * @param {IDataExportDocument} dataExport - Completed export
+   * @returns {Promise<{stream: NodeJS.ReadableStream, length: number} | null>} Archive stream and
+   * size, or null when the archive is missing
+   */
+  public async openArchive(
+    dataExport: IDataExportDocument
+  ): Promise<{ stream: NodeJS.ReadableStream; length: number } | null> {
+    if (!dataExport.fileId) {
+      return null;
+    }
+
+    const bucket = this.getBucket();
+    const fileId = new mongoose.Types.ObjectId(dataExport.fileId);
+    const file = await bucket.find({ _id: fileId }).next();
+
+    if (!file) {
+      return null;
+    }
+
+    return { stream: bucket.openDownloadStream(fileId), length: file.length };
+  }
+
+  /**
+   * @method deleteUserExports
+   * @description Deletes every export of a user together with the stored archives
+   * @param {string} userId - User ID
+   * @returns {Promise<number>} Number of archives deleted
+   */
+  public async deleteUserExports(userId: string): Promise<number> {
+    const deleted = await this.deleteArchives({ 'metadata.userId': userId });
+    await DataExport.deleteMany({ userId });
+    return deleted;
+  }
+
+  /**
+   * @method deleteExpiredArchives
+   * @description Deletes the stored archives of expired exports. The export documents themselves
+   * are removed by their TTL index, which cannot reach GridFS.
+   * @returns {Promise<number>} Number of archives deleted
+   */
+  public async deleteExpiredArchives(): Promise<number> {
+    return this.deleteArchives({ 'metadata.expiresAt': { $lte: new Date() } });
+  }
+
+  /**
+   * @method collectUserData
+   * @description Gathers all personal data of a user, resolving movie titles
+   * @param {string} userId - User ID
+   * @returns {Promise<IUserDataExport>} Personal data
+   * @throws {Error} When the user does not exist
+   */
+  public async collectUserData(userId: string): Promise<IUserDataExport> {
+    const [
+      user,
+      ratings,
+      reviewVotes,
+      comments,
+      commentReactions,
+      commentReports,
+      favorites,
+      watchHistory,
+      sessions,
+    ] = await Promise.all([
+      User.findById(userId).lean(),
+      Rating.find({ userId }).sort({ createdAt: -1 }).lean(),
+      ReviewVote.find({ userId }).sort({ createdAt: -1 }).lean(),
+      Comment.find({ userId, deleted: { $ne: true } }).sort({ createdAt: -1 }).lean(),
+      CommentReaction.find({ userId }).sort({ createdAt: -1 }).lean(),
+      CommentReport.find({ reporterId: userId }).sort({ createdAt: -1 }).lean(),
+      Favorite.find({ userId }).sort({ createdAt: -1 }).lean(),
+      WatchProgress.find({ userId }).sort({ lastWatchedAt: -1 }).lean(),
+      Session.find({ userId }).sort({ createdAt: -1 }).lean(),
+    ]);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const movieIds = [
+      ...new Set([...ratings, ...comments, ...favorites, ...watchHistory].map((item) => item.movieId)),
+    ];
+    const movies = await Movie.find({ _id: { $in: movieIds } }).select('title').lean();
+    const movieTitles = new Map(movies.map((movie) => [movie._id.toString(), movie.title]));
+    const titleOf = (movieId: string): string | null => movieTitles.get(movieId) || null;
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: {
+        id: user._id.toString(),
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        age: user.age,
+        avatarUrl: user.avatar || null,
+        role: user.role || 'user',
+        emailVerified: user.emailVerified !== false,
+        twoFactorEnabled: !!user.twoFactorEnabled,
+        historyPaused: !!user.historyPaused,
+        isActive: user.isActive,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      ratings: ratings.map((rating) => ({
+        movieId: rating.movieId,
+        movieTitle: titleOf(rating.movieId),
+        rating: rating.rating,
+        reviewTitle: rating.review?.title || null,
+        reviewBody: rating.review?.body || null,
+        reviewContainsSpoilers: rating.review ? rating.review.containsSpoilers : null,
+        reviewLanguage: rating.review?.language || null,
+        reviewedAt: rating.reviewedAt || null,
+        createdAt: rating.createdAt,
+        updatedAt: rating.updatedAt,
+      })),
+      reviewVotes: reviewVotes.map((vote) => ({
+        reviewId: vote.ratingId,
+        helpful: vote.helpful,
+        createdAt: vote.createdAt,
+        updatedAt: vote.updatedAt,
+      })),
+      comments: comments.map((comment) => ({
+        id: comment._id.toString(),
+        movieId: comment.movieId,
+        movieTitle: titleOf(comment.movieId),
+        inReplyTo: comment.parentId || null,
+        content: comment.content,
+        edited: comment.edited,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+      })),
+      commentReactions: commentReactions.map((reaction) => ({
+        commentId: reaction.commentId,
+        type: reaction.type,
+        createdAt: reaction.createdAt,
+      })),
+      commentReports: commentReports.map((report) => ({
+        commentId: report.commentId,
+        reason: report.reason,
+        details: report.details || null,
+        status: report.status,
+        resolution: report.resolution || null,
+        createdAt: report.createdAt,
+      })),
+      favorites: favorites.map((favorite) => ({
+        movieId: favorite.movieId,
+        movieTitle: titleOf(favorite.movieId),
+        createdAt: favorite.createdAt,
+      })),
+      watchHistory: watchHistory.map((entry) => ({
+        movieId: entry.movieId,
+        movieTitle: titleOf(entry.movieId),
+        position: entry.position,
+        duration: entry.duration,
+        completed: entry.completed,
+        firstWatchedAt: entry.createdAt,
+        lastWatchedAt: entry.lastWatchedAt,
+      })),
+      sessions: sessions.map((session) => ({
+        userAgent: session.userAgent || null,
+        ipAddress: session.ipAddress || null,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        revokedAt: session.revokedAt || null,
+      })),
+    };
+  }
+
+  /**
+   * @method buildArchive
+   * @description Packages exported data as a JSON file or a ZIP with JSON and one CSV per section
+   * @param {IUserDataExport} data - Personal data
+   * @param {DataExportFormat} format - Archive format
+   * @returns {Promise<IExportArchive>} Packaged export
+   */
+  public async buildArchive(
+    data: IUserDataExport,
+    format: DataExportFormat
+  ): Promise<IExportArchive> {
+    const baseName = `movies-platform-data-${data.profile.id}-${data.exportedAt.slice(0, 10)}`;
+    const json = JSON.stringify(data, null, 2);
+
+    if (format === 'json') {
+      return {
+        fileName: `${baseName}.json`,
+        contentType: 'application/json',
+        data: Buffer.from(json, 'utf-8'),
+      };
+    }
+
+    const zip = new JSZip();
+    zip.file('data.json', json);
+    zip.file('profile.csv', this.toCsv([data.profile]));
+    zip.file('ratings.csv', this.toCsv(data.ratings));
+    zip.file('review-votes.csv', this.toCsv(data.reviewVotes));
+    zip.file('comments.csv', this.toCsv(data.comments));
+    zip.file('comment-reactions.csv', this.toCsv(data.commentReactions));
+    zip.file('comment-reports.csv', this.toCsv(data.commentReports));
+    zip.file('favorites.csv', this.toCsv(data.favorites));
+    zip.file('watch-history.csv', this.toCsv(data.watchHistory));
+    zip.file('sessions.csv', this.toCsv(data.sessions));
+
+    return {
+      fileName: `${baseName}.zip`,
+      contentType: 'application/zip',
+      data: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    };
+  }
+
+  /**
+   * @method storeArchive
+   * @description Uploads the archive of an export to GridFS. The file carries the export's owner
+   * and expiry so it can be cleaned up even if the export document is gone.
+   * @param {IDataExportDocument} dataExport - Export being completed
+   * @param {IExportArchive} archive - Packaged export
+   * @returns {Promise<string>} GridFS file ID
+   * @private
+   */
+  private async storeArchive(dataExport: IDataExportDocument, archive: IExportArchive): Promise<string> {
+    const upload = this.getBucket().openUploadStream(archive.fileName, {
+      metadata: {
+        exportId: dataExport._id.toString(),
+        userId: dataExport.userId,
+        contentType: archive.contentType,
+        expiresAt: dataExport.expiresAt,
+      },
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      upload.once('finish', () => resolve());
+      upload.once('error', reject);
+      upload.end(archive.data);
+    });
+
+    return upload.id.toString();
+  }
+
+  /**
+   * @method deleteArchives
+   * @description Deletes the stored archives matching a filter on the GridFS files
+   * @param {mongo.Filter<mongo.GridFSFile>} filter - Files filter
+   * @returns {Promise<number>} Number of archives deleted
+   * @private
+   */
+  private async deleteArchives(filter: mongo.Filter<mongo.GridFSFile>): Promise<number> {
+    const bucket = this.getBucket();
+    const files = await bucket.find(filter).project({ _id: 1 }).toArray();
+
+    for (const file of files) {
+      await bucket.delete(file._id);
+    }
+
+    return files.length;
+  }
+
+  /**
+   * @method getBucket
+   * @description GridFS bucket of export archives on the current connection
+   * @returns {mongo.GridFSBucket} Bucket
+   * @private
+   */
+  private getBucket(): mongo.GridFSBucket {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: ARCHIVE_BUCKET });
+  }
+
+  /**
+   * @method countUserRecords
+   * @description Counts the ratings, review votes, comments, comment reactions, comment reports,
+   * favorites and history entries of a user
+   * @param {string} userId - User ID
+   * @returns {Promise<number>} Number of records
+   * @private
+   */
+  private async countUserRecords(userId: string): Promise<number> {
+    const counts = await Promise.all([
+      Rating.countDocuments({ userId }),
+      ReviewVote.countDocuments({ userId }),
+      Comment.countDocuments({ userId, deleted: { $ne: true } }),
+      CommentReaction.countDocuments({ userId }),
+      CommentReport.countDocuments({ reporterId: userId }),
+      Favorite.countDocuments({ userId }),
+      WatchProgress.countDocuments({ userId }),
+    ]);
+
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * @method toCsv
+   * @description Converts rows to CSV (RFC 4180), using the keys of the first row as header
+   * @param {Array<Record<string, any>>} rows - Rows to convert
+   * @returns {string} CSV content
+   * @private
+   */
+  private toCsv(rows: Array<Record<string, any>>): string {
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const headers = Object.keys(rows[0]);
+    const escape = (value: any): string => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      headers.join(','),
+      ...rows.map((row) => headers.map((header) => escape(row[header])).join(',')),
+    ].join('\r\n');
+  }
+}
+
+// Export singleton instance
+export const dataExportService = new DataExportService();
+export default dataExportService;
@@ -9,6 +9,7 @@
 import nodemailer, { Transporter } from 'nodemailer';
 import { IEmailData } from '../types';
 import { environment } from '../config/environment';
+import { translate, SupportedLanguage } from '../config/i18n';
 
 /**
  * @interface IEmailServiceConfig
@@ -216,6 +217,154 @@ class EmailService {
     return this.sendEmail(emailData);
   }
 
+  /**
+   * @method sendEmailVerificationEmail
+   * @description Sends the email address verification link, in the user's language
+   * @param {string} email - User's email address
+   * @param {string} firstName - User's first name
+   * @param {string} verificationUrl - Email verification URL
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {Promise<boolean>} True if email sent successfully
+   */
+  public async sendEmailVerificationEmail(
+    email: string,
+    firstName: string,
+    verificationUrl: string,
+    lang: SupportedLanguage
+  ): Promise<boolean> {
+    const emailData: IEmailData = {
+      to: email,
+      subject: translate('emails.verification.subject', lang),
+      text: translate('emails.verification.text', lang, { name: firstName, url: verificationUrl }),
+      html: this.generateEmailVerificationEmailHTML(firstName, verificationUrl, lang),
+    };
+
+    return this.sendEmail(emailData);
+  }
+
+  /**
+   * @method sendAccountLockedEmail
+   * @description Notifies the user that their account was locked after repeated failed logins
+   * @param {string} email - User's email address
+   * @param {string} firstName - User's first name
+   * @param {Date} lockedUntil - When login is allowed again
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {Promise<boolean>} True if email sent successfully
+   */
+  public async sendAccountLockedEmail(
+    email: string,
+    firstName: string,
+    lockedUntil: Date,
+    lang: SupportedLanguage
+  ): Promise<boolean> {
+    const unlockTime = lockedUntil.toLocaleString(lang, { timeZone: 'UTC', timeZoneName: 'short' });
+
+    const emailData: IEmailData = {
+      to: email,
+      subject: translate('emails.accountLocked.subject', lang),
+      text: translate('emails.accountLocked.text', lang, { name: firstName, time: unlockTime }),
+      html: this.generateAccountLockedEmailHTML(firstName, unlockTime, lang),
+    };
+
+    return this.sendEmail(emailData);
+  }
+
+  /**
+   * @method sendDataExportReadyEmail
+   * @description Notifies the user that their personal data export can be downloaded
+   * @param {string} email - User's email address
+   * @param {string} firstName - User's first name
+   * @param {string} downloadUrl - Page where the export can be downloaded
+   * @param {Date} expiresAt - When the export is deleted
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {Promise<boolean>} True if email sent successfully
+   */
+  public async sendDataExportReadyEmail(
+    email: string,
+    firstName: string,
+    downloadUrl: string,
+    expiresAt: Date,
+    lang: SupportedLanguage
+  ): Promise<boolean> {
+    const expiryDate = expiresAt.toLocaleDateString(lang, { timeZone: 'UTC', dateStyle: 'long' });
+
+    const emailData: IEmailData = {
+      to: email,
+      subject: translate('emails.dataExport.subject', lang),
+      text: translate('emails.dataExport.text', lang, {
+        name: firstName,
+        url: downloadUrl,
+        date: expiryDate,
+      }),
+      html: this.generateDataExportReadyEmailHTML(firstName, downloadUrl, expiryDate, lang),
+    };
+
+    return this.sendEmail(emailData);
+  }
+
+  /**
+   * @method sendAccountDeletionScheduledEmail
+   * @description Tells the user when their account will be deleted and how to cancel it
+   * @param {string} email - User's email address
+   * @param {string} firstName - User's first name
+   * @param {Date} scheduledFor - When the account is purged
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {Promise<boolean>} True if email sent successfully
+   */
+  public async sendAccountDeletionScheduledEmail(
+    email: string,
+    firstName: string,
+    scheduledFor: Date,
+    lang: SupportedLanguage
+  ): Promise<boolean> {
+    const deletionDate = scheduledFor.toLocaleDateString(lang, { timeZone: 'UTC', dateStyle: 'long' });
+    const loginUrl = `${environment.get('frontendUrl')}/login`;
+
+    const emailData: IEmailData = {
+      to: email,
+      subject: translate('emails.accountDeletion.subject', lang),
+      text: translate('emails.accountDeletion.text', lang, {
+        name: firstName,
+        date: deletionDate,
+        url: loginUrl,
+      }),
+      html: this.generateAccountDeletionScheduledEmailHTML(firstName, deletionDate, loginUrl, lang),
+    };
+
+    return this.sendEmail(emailData);
+  }
+
+  /**
+   * @method sendCommentRemovedEmail
+   * @description Tells the author that a moderator removed their comment, and why
+   * @param {string} email - User's email address
+   * @param {string} firstName - User's first name
+   * @param {string} movieTitle - Title of the movie the comment was on
+   * @param {string} reason - Moderator's reason for the removal
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {Promise<boolean>} True if email sent successfully
+   */
+  public async sendCommentRemovedEmail(
+    email: string,
+    firstName: string,
+    movieTitle: string,
+    reason: string,
+    lang: SupportedLanguage
+  ): Promise<boolean> {
+    const emailData: IEmailData = {
+      to: email,
+      subject: translate('emails.commentRemoved.subject', lang),
+      text: translate('emails.commentRemoved.text', lang, {
+        name: firstName,
+        movie: movieTitle,
+        reason,
+      }),
+      html: this.generateCommentRemovedEmailHTML(firstName, movieTitle, reason, lang),
+    };
+
+    return this.sendEmail(emailData);
+  }
+
   /**
    * @method generateWelcomeEmailHTML
    * @description Generates HTML content for welcome email
@@ -426,6 +575,302 @@ class EmailService {
       </html>
     `;
   }
+
+  /**
+   * @method generateEmailVerificationEmailHTML
+   * @description Generates HTML content for email verification email
+   * @param {string} firstName - User's first name
+   * @param {string} verificationUrl - Email verification URL
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {string} HTML email content
+   * @private
+   */
+  private generateEmailVerificationEmailHTML(
+    firstName: string,
+    verificationUrl: string,
+    lang: SupportedLanguage
+  ): string {
+    const t = (key: string, options?: Record<string, any>): string =>
+      translate(`emails.verification.${key}`, lang, options);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t('subject')}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+          .btn { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${t('title')}</h1>
+          </div>
+          <div class="content">
+            <h2>${t('greeting', { name: firstName })}</h2>
+            <p>${t('intro')}</p>
+            <a href="${verificationUrl}" class="btn">${t('button')}</a>
+            <div class="warning">
+              <strong>${t('important')}</strong>
+              <ul>
+                <li>${t('expires')}</li>
+                <li>${t('ignore')}</li>
+              </ul>
+            </div>
+            <p>${t('linkFallback')}</p>
+            <p style="word-break: break-all; color: #667eea;">${verificationUrl}</p>
+          </div>
+          <div class="footer">
+            <p>${t('footer')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * @method generateAccountLockedEmailHTML
+   * @description Generates HTML content for account locked email
+   * @param {string} firstName - User's first name
+   * @param {string} unlockTime - Formatted time when login is allowed again
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {string} HTML email content
+   * @private
+   */
+  private generateAccountLockedEmailHTML(
+    firstName: string,
+    unlockTime: string,
+    lang: SupportedLanguage
+  ): string {
+    const t = (key: string, options?: Record<string, any>): string =>
+      translate(`emails.accountLocked.${key}`, lang, options);
+    const resetUrl = `${environment.get('frontendUrl')}/forgot-password`;
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t('subject')}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #f093fb 0%, #f5576c 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+          .btn { display: inline-block; background: #f5576c; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${t('title')}</h1>
+          </div>
+          <div class="content">
+            <h2>${t('greeting', { name: firstName })}</h2>
+            <p>${t('intro')}</p>
+            <div class="warning">
+              <strong>${t('unlockAt', { time: unlockTime })}</strong>
+            </div>
+            <p>${t('notYou')}</p>
+            <a href="${resetUrl}" class="btn">${t('button')}</a>
+          </div>
+          <div class="footer">
+            <p>${t('footer')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * @method generateDataExportReadyEmailHTML
+   * @description Generates HTML content for data export ready email
+   * @param {string} firstName - User's first name
+   * @param {string} downloadUrl - Page where the export can be downloaded
+   * @param {string} expiryDate - Formatted date when the export is deleted
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {string} HTML email content
+   * @private
+   */
+  private generateDataExportReadyEmailHTML(
+    firstName: string,
+    downloadUrl: string,
+    expiryDate: string,
+    lang: SupportedLanguage
+  ): string {
+    const t = (key: string, options?: Record<string, any>): string =>
+      translate(`emails.dataExport.${key}`, lang, options);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t('subject')}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+          .btn { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${t('title')}</h1>
+          </div>
+          <div class="content">
+            <h2>${t('greeting', { name: firstName })}</h2>
+            <p>${t('intro')}</p>
+            <a href="${downloadUrl}" class="btn">${t('button')}</a>
+            <div class="warning">
+              <strong>${t('expires', { date: expiryDate })}</strong>
+            </div>
+            <p>${t('notYou')}</p>
+          </div>
+          <div class="footer">
+            <p>${t('footer')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * @method generateAccountDeletionScheduledEmailHTML
+   * @description Generates HTML content for account deletion scheduled email
+   * @param {string} firstName - User's first name
+   * @param {string} deletionDate - Formatted date when the account is purged
+   * @param {string} loginUrl - Login page, where the deletion can be cancelled
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {string} HTML email content
+   * @private
+   */
+  private generateAccountDeletionScheduledEmailHTML(
+    firstName: string,
+    deletionDate: string,
+    loginUrl: string,
+    lang: SupportedLanguage
+  ): string {
+    const t = (key: string, options?: Record<string, any>): string =>
+      translate(`emails.accountDeletion.${key}`, lang, options);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t('subject')}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+          .btn { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+          .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${t('title')}</h1>
+          </div>
+          <div class="content">
+            <h2>${t('greeting', { name: firstName })}</h2>
+            <p>${t('intro')}</p>
+            <div class="warning">
+              <strong>${t('scheduled', { date: deletionDate })}</strong>
+            </div>
+            <p>${t('cancel')}</p>
+            <a href="${loginUrl}" class="btn">${t('button')}</a>
+            <p>${t('notYou')}</p>
+          </div>
+          <div class="footer">
+            <p>${t('footer')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * @method generateCommentRemovedEmailHTML
+   * @description Generates HTML content for comment removed email
+   * @param {string} firstName - User's first name
+   * @param {string} movieTitle - Title of the movie the comment was on
+   * @param {string} reason - Moderator's reason for the removal
+   * @param {SupportedLanguage} lang - Language of the email
+   * @returns {string} HTML email content
+   * @private
+   */
+  private generateCommentRemovedEmailHTML(
+    firstName: string,
+    movieTitle: string,
+    reason: string,
+    lang: SupportedLanguage
+  ): string {
+    const t = (key: string, options?: Record<string, any>): string =>
+      translate(`emails.commentRemoved.${key}`, lang, options);
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${lang}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${t('subject')}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 14px; }
+          .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 15px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${t('title')}</h1>
+          </div>
+          <div class="content">
+            <h2>${t('greeting', { name: firstName })}</h2>
+            <p>${t('intro', { movie: movieTitle })}</p>
+            <div class="warning">
+              <strong>${t('reason', { reason })}</strong>
+            </div>
+            <p>${t('guidelines')}</p>
+          </div>
+          <div class="footer">
+            <p>${t('footer')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
 }
 
 // Export singleton instance
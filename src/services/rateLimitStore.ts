@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Storage backends for rate limiting counters
+ * @description Defines the rate limit store contract and an in-memory implementation. The
+ * in-memory store is per process; deployments running several instances can plug in a
+ * shared store (e.g. Redis) implementing the same interface.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-21
+ */
+
+/**
+ * @interface IRateLimitHit
+ * @description Result of counting a request against a key
+ */
+export interface IRateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * @interface IRateLimitStore
+ * @description Contract for rate limit counter storage
+ */
+export interface IRateLimitStore {
+  increment(key: string, windowMs: number): Promise<IRateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * @class MemoryRateLimitStore
+ * @description Fixed-window counters kept in process memory
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private hits: Map<string, IRateLimitHit> = new Map();
+  private cleanupTimer: NodeJS.Timeout;
+
+  /**
+   * @constructor
+   * @param {number} cleanupIntervalMs - How often expired counters are removed (default: 1 minute)
+   */
+  constructor(cleanupIntervalMs: number = 60 * 1000) {
+    this.cleanupTimer = setInterval(() => this.removeExpired(), cleanupIntervalMs);
+    // Do not keep the process alive just for the cleanup
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * @method increment
+   * @description Counts a request for a key, starting a new window if the previous one ended
+   * @param {string} key - Counter key
+   * @param {number} windowMs - Window length in milliseconds
+   * @returns {Promise<IRateLimitHit>} Current count and window reset time
+   */
+  public async increment(key: string, windowMs: number): Promise<IRateLimitHit> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+
+    if (!current || current.resetAt.getTime() <= now) {
+      const hit: IRateLimitHit = { count: 1, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+      return { ...hit };
+    }
+
+    current.count += 1;
+    return { ...current };
+  }
+
+  /**
+   * @method reset
+   * @description Clears the counter for a key
+   * @param {string} key - Counter key
+   * @returns {Promise<void>}
+   */
+  public async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  /**
+   * @method clear
+   * @description Removes every counter (useful in tests)
+   */
+  public clear(): void {
+    this.hits.clear();
+  }
+
+  /**
+   * @method removeExpired
+   * @description Removes counters whose window has ended
+   * @private
+   */
+  private removeExpired(): void {
+    const now = Date.now();
+
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// Export default store instance shared by all limiters
+export const rateLimitStore: IRateLimitStore = new MemoryRateLimitStore();
+export default rateLimitStore;
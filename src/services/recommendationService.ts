@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Personalized movie recommendations
+ * @description Recommends movies from what a user liked: movies they rated 4 or 5 stars and
+ * their favorites. Two signals are combined:
+ * - Content: overlap of genres, director and cast with the liked movies
+ * - Collaborative: neighbours of the liked movies in the precomputed MovieSimilarity model
+ * Movies the user has rated, favorited or has in their watch history are never recommended, and
+ * users with nothing liked yet get the top-rated movies instead.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Movie } from '../models/Movie';
+import { Rating } from '../models/Rating';
+import { Favorite } from '../models/Favorite';
+import { WatchProgress } from '../models/WatchProgress';
+import { MovieSimilarity } from '../models/MovieSimilarity';
+import { IMovie } from '../types';
+
+/**
+ * @type RecommendationReason
+ * @description Why a movie was recommended
+ */
+export type RecommendationReason = 'genre' | 'director' | 'cast' | 'similar_ratings' | 'top_rated';
+
+/**
+ * @type IRecommendedMovie
+ * @description Recommended movie with its score and reasons
+ */
+export type IRecommendedMovie = IMovie & {
+  recommendation: { score: number; reasons: RecommendationReason[] };
+};
+
+/**
+ * @interface IRecommendations
+ * @description Recommendations and how they were produced
+ */
+export interface IRecommendations {
+  strategy: 'personalized' | 'top_rated';
+  movies: IRecommendedMovie[];
+}
+
+/**
+ * @const CONTENT_WEIGHT
+ * @description Share of the content signal in the final score
+ */
+const CONTENT_WEIGHT = 0.45;
+
+/**
+ * @const COLLABORATIVE_WEIGHT
+ * @description Share of the collaborative signal in the final score
+ */
+const COLLABORATIVE_WEIGHT = 0.45;
+
+/**
+ * @const QUALITY_WEIGHT
+ * @description Share of the movie's weighted rating, which breaks ties between similar candidates
+ */
+const QUALITY_WEIGHT = 0.1;
+
+/**
+ * @const CONTENT_CANDIDATES
+ * @description Best-rated catalog movies considered for the content signal
+ */
+const CONTENT_CANDIDATES = 500;
+
+/**
+ * @const PROFILE_GENRES
+ * @description Genres of the user's taste profile used to select content candidates
+ */
+const PROFILE_GENRES = 5;
+
+/**
+ * @class RecommendationService
+ * @description Builds personalized recommendations
+ */
+class RecommendationService {
+  /**
+   * @method getRecommendations
+   * @description Recommends movies to a user
+   * @param {string} userId - User ID
+   * @param {number} limit - Maximum number of movies
+   * @returns {Promise<IRecommendations>} Recommendations, best first
+   */
+  public async getRecommendations(userId: string, limit: number): Promise<IRecommendations> {
+    const [ratings, favorites, history] = await Promise.all([
+      Rating.find({ userId }).select('movieId rating').lean(),
+      Favorite.find({ userId }).select('movieId').lean(),
+      WatchProgress.find({ userId }).select('movieId').lean(),
+    ]);
+
+    const excluded = new Set([...ratings, ...favorites, ...history].map((item) => item.movieId));
+
+    // Liked movies and how much: 5 stars or a favorite weigh 2, 4 stars weigh 1
+    const seeds = new Map<string, number>();
+    for (const rating of ratings) {
+      if (rating.rating >= 4) {
+        seeds.set(rating.movieId, rating.rating - 3);
+      }
+    }
+    for (const favorite of favorites) {
+      seeds.set(favorite.movieId, 2);
+    }
+
+    if (seeds.size === 0) {
+      return { strategy: 'top_rated', movies: await this.getTopRated(excluded, limit) };
+    }
+
+    const [content, collaborative] = await Promise.all([
+      this.scoreByContent(seeds, excluded),
+      this.scoreByRatings(seeds, excluded),
+    ]);
+
+    const candidateIds = [...new Set([...content.keys(), ...collaborative.keys()])];
+    const candidates = await Movie.find({ _id: { $in: candidateIds }, isActive: true })
+      .select('-searchTokens -searchDocuments')
+      .lean<Array<IMovie & { _id: string }>>();
+
+    const maxContent = Math.max(0, ...[...content.values()].map((entry) => entry.score));
+    const maxCollaborative = Math.max(0, ...collaborative.values());
+
+    const scored = candidates.map((movie) => {
+      const id = movie._id.toString();
+      const contentEntry = content.get(id);
+      const collaborativeScore = collaborative.get(id) || 0;
+
+      const score =
+        CONTENT_WEIGHT * (contentEntry && maxContent > 0 ? contentEntry.score / maxContent : 0) +
+        COLLABORATIVE_WEIGHT * (maxCollaborative > 0 ? collaborativeScore / maxCollaborative : 0) +
+        QUALITY_WEIGHT * ((movie.weightedRating || 0) / 5);
+
+      const reasons: RecommendationReason[] = [...(contentEntry?.reasons || [])];
+      if (collaborativeScore > 0) {
+        reasons.push('similar_ratings');
+      }
+
+      return {
+        ...movie,
+        recommendation: { score: Math.round(score * 1000) / 1000, reasons },
+      };
+    });
+
+    const movies: IRecommendedMovie[] = scored
+      .sort((a, b) => b.recommendation.score - a.recommendation.score)
+      .slice(0, limit);
+
+    // Fill up with top-rated movies when the signals do not yield enough candidates
+    if (movies.length < limit) {
+      const shown = new Set([...excluded, ...movies.map((movie) => movie._id!.toString())]);
+      movies.push(...(await this.getTopRated(shown, limit - movies.length)));
+    }
+
+    return { strategy: 'personalized', movies };
+  }
+
+  /**
+   * @method scoreByContent
+   * @description Scores catalog movies by genre, director and cast overlap with the liked movies
+   * @param {Map<string, number>} seeds - Liked movie IDs and their weights
+   * @param {Set<string>} excluded - Movie IDs that must not be recommended
+   * @returns {Promise<Map<string, {score: number, reasons: RecommendationReason[]}>>} Scores by movie ID
+   * @private
+   */
+  private async scoreByContent(
+    seeds: Map<string, number>,
+    excluded: Set<string>
+  ): Promise<Map<string, { score: number; reasons: RecommendationReason[] }>> {
+    const seedMovies = await Movie.find({ _id: { $in: [...seeds.keys()] } })
+      .select('genre director cast')
+      .lean<Array<IMovie & { _id: string }>>();
+
+    const genres = new Map<string, number>();
+    const directors = new Map<string, number>();
+    const cast = new Map<string, number>();
+    const add = (profile: Map<string, number>, key: string, weight: number): void => {
+      profile.set(key, (profile.get(key) || 0) + weight);
+    };
+
+    for (const movie of seedMovies) {
+      const weight = seeds.get(movie._id.toString()) || 0;
+      (movie.genre || []).forEach((genre) => add(genres, genre, weight));
+      if (movie.director) add(directors, movie.director, weight);
+      (movie.cast || []).forEach((name) => add(cast, name, weight));
+    }
+
+    const topGenres = [...genres.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, PROFILE_GENRES)
+      .map(([genre]) => genre);
+
+    const candidates = await Movie.find({
+      isActive: true,
+      _id: { $nin: [...excluded] },
+      $or: [
+        { genre: { $in: topGenres } },
+        { director: { $in: [...directors.keys()] } },
+        { cast: { $in: [...cast.keys()] } },
+      ],
+    })
+      .select('genre director cast')
+      .sort({ weightedRating: -1 })
+      .limit(CONTENT_CANDIDATES)
+      .lean<Array<IMovie & { _id: string }>>();
+
+    const scores = new Map<string, { score: number; reasons: RecommendationReason[] }>();
+
+    for (const movie of candidates) {
+      const genreScore = (movie.genre || []).reduce((sum, genre) => sum + (genres.get(genre) || 0), 0);
+      // A shared director says more about taste than a shared genre
+      const directorScore = movie.director ? 2 * (directors.get(movie.director) || 0) : 0;
+      const castScore = (movie.cast || []).reduce((sum, name) => sum + (cast.get(name) || 0), 0);
+
+      const reasons: RecommendationReason[] = [];
+      if (genreScore > 0) reasons.push('genre');
+      if (directorScore > 0) reasons.push('director');
+      if (castScore > 0) reasons.push('cast');
+
+      scores.set(movie._id.toString(), { score: genreScore + directorScore + castScore, reasons });
+    }
+
+    return scores;
+  }
+
+  /**
+   * @method scoreByRatings
+   * @description Scores movies by their similarity to the liked movies in the similarity model
+   * @param {Map<string, number>} seeds - Liked movie IDs and their weights
+   * @param {Set<string>} excluded - Movie IDs that must not be recommended
+   * @returns {Promise<Map<string, number>>} Scores by movie ID
+   * @private
+   */
+  private async scoreByRatings(
+    seeds: Map<string, number>,
+    excluded: Set<string>
+  ): Promise<Map<string, number>> {
+    const similarities = await MovieSimilarity.find({ movieId: { $in: [...seeds.keys()] } }).lean();
+    const scores = new Map<string, number>();
+
+    for (const similarity of similarities) {
+      const weight = seeds.get(similarity.movieId) || 0;
+
+      for (const neighbor of similarity.neighbors) {
+        if (!excluded.has(neighbor.movieId)) {
+          scores.set(neighbor.movieId, (scores.get(neighbor.movieId) || 0) + weight * neighbor.score);
+        }
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * @method getTopRated
+   * @description Cold-start fallback: best movies by weighted rating
+   * @param {Set<string>} excluded - Movie IDs that must not be recommended
+   * @param {number} limit - Maximum number of movies
+   * @returns {Promise<IRecommendedMovie[]>} Movies
+   * @private
+   */
+  private async getTopRated(excluded: Set<string>, limit: number): Promise<IRecommendedMovie[]> {
+    const movies = await Movie.find({
+      isActive: true,
+      totalRatings: { $gte: 1 },
+      _id: { $nin: [...excluded] },
+    })
+      .select('-searchTokens -searchDocuments')
+      .sort({ weightedRating: -1, totalRatings: -1 })
+      .limit(limit)
+      .lean<IMovie[]>();
+
+    return movies.map((movie) => ({
+      ...movie,
+      recommendation: {
+        score: Math.round(QUALITY_WEIGHT * ((movie.weightedRating || 0) / 5) * 1000) / 1000,
+        reasons: ['top_rated'],
+      },
+    }));
+  }
+}
+
+// Export singleton instance
+export const recommendationService = new RecommendationService();
+export default recommendationService;
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Session service for issuing and rotating refresh tokens
+ * @description Creates login sessions, rotates refresh tokens with reuse detection and revokes sessions
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-20
+ */
+
+import crypto from 'crypto';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import { authManager } from '../middleware/auth';
+import { environment } from '../config/environment';
+import { ISessionClientInfo, ISessionTokens, UserRole } from '../types';
+
+/**
+ * @interface ISessionUser
+ * @description Minimal user data needed to open a session
+ */
+interface ISessionUser {
+  _id: any;
+  email: string;
+  role?: UserRole;
+}
+
+/**
+ * @class SessionService
+ * @description Manages refresh-token backed sessions
+ */
+class SessionService {
+  /**
+   * @method createSession
+   * @description Opens a new session for a user and issues an access/refresh token pair
+   * @param {ISessionUser} user - Authenticated user
+   * @param {ISessionClientInfo} client - Client details of the login request (optional)
+   * @returns {Promise<ISessionTokens>} Issued tokens
+   */
+  public async createSession(
+    user: ISessionUser,
+    client: ISessionClientInfo = {}
+  ): Promise<ISessionTokens> {
+    const secret = this.generateSecret();
+    const expiresAt = new Date(
+      Date.now() + environment.get('refreshTokenTtlDays') * 24 * 60 * 60 * 1000
+    );
+
+    const session = await Session.create({
+      userId: user._id.toString(),
+      refreshTokenHash: this.hashSecret(secret),
+      ...this.getClientFields(client),
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+
+    return this.buildTokens(user, session._id.toString(), secret, expiresAt);
+  }
+
+  /**
+   * @method refreshSession
+   * @description Exchanges a refresh token for a new token pair, rotating the refresh token.
+   * Presenting a refresh token that was already rotated means it leaked, so the whole
+   * session is revoked; so is the session of a deleted or deactivated account.
+   * @param {string} refreshToken - Refresh token presented by the client
+   * @param {ISessionClientInfo} client - Client details of the refresh request (optional)
+   * @returns {Promise<ISessionTokens | null>} New tokens, or null if the token is not valid
+   */
+  public async refreshSession(
+    refreshToken: string,
+    client: ISessionClientInfo = {}
+  ): Promise<ISessionTokens | null> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return null;
+    }
+
+    const session = await Session.findById(parsed.sessionId).select('+refreshTokenHash');
+    if (!session || !session.isValid()) {
+      return null;
+    }
+
+    const presentedHash = this.hashSecret(parsed.secret);
+    if (presentedHash !== session.refreshTokenHash) {
+      await Session.revokeSession(parsed.sessionId, 'token_reuse');
+      return null;
+    }
+
+    const user = await User.findById(session.userId).select('_id email role isActive').lean();
+    if (!user || !user.isActive) {
+      await Session.revokeSession(parsed.sessionId, 'account_deactivated');
+      return null;
+    }
+
+    // Rotate atomically so two concurrent requests with the same token cannot both succeed
+    const newSecret = this.generateSecret();
+    const rotated = await Session.findOneAndUpdate(
+      { _id: parsed.sessionId, refreshTokenHash: presentedHash, revokedAt: null },
+      {
+        $set: {
+          refreshTokenHash: this.hashSecret(newSecret),
+          ...this.getClientFields(client),
+          lastUsedAt: new Date(),
+        },
+      }
+    );
+
+    if (!rotated) {
+      await Session.revokeSession(parsed.sessionId, 'token_reuse');
+      return null;
+    }
+
+    return this.buildTokens(user, parsed.sessionId, newSecret, session.expiresAt);
+  }
+
+  /**
+   * @method buildTokens
+   * @description Signs the access token and assembles the refresh token for a session
+   * @param {ISessionUser} user - Session owner
+   * @param {string} sessionId - Session ID
+   * @param {string} secret - Plain refresh token secret
+   * @param {Date} expiresAt - Session expiration date
+   * @returns {ISessionTokens} Token pair
+   * @private
+   */
+  private buildTokens(
+    user: ISessionUser,
+    sessionId: string,
+    secret: string,
+    expiresAt: Date
+  ): ISessionTokens {
+    return {
+      accessToken: authManager.generateToken(
+        user._id.toString(),
+        user.email,
+        user.role || 'user',
+        sessionId
+      ),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn: environment.get('jwtExpiresIn'),
+      refreshTokenExpiresAt: expiresAt,
+    };
+  }
+
+  /**
+   * @method getClientFields
+   * @description Maps client details to session fields, skipping the ones that are unknown
+   * @param {ISessionClientInfo} client - Client details
+   * @returns {ISessionClientInfo} Session fields to store
+   * @private
+   */
+  private getClientFields(client: ISessionClientInfo): ISessionClientInfo {
+    const fields: ISessionClientInfo = {};
+
+    if (client.userAgent) {
+      fields.userAgent = client.userAgent.slice(0, 500);
+    }
+    if (client.ipAddress) {
+      fields.ipAddress = client.ipAddress;
+    }
+
+    return fields;
+  }
+
+  /**
+   * @method parseRefreshToken
+   * @description Splits a refresh token into its session ID and secret
+   * @param {string} refreshToken - Refresh token in the form "<sessionId>.<secret>"
+   * @returns {{sessionId: string, secret: string} | null} Parsed token or null if malformed
+   * @private
+   */
+  private parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+    if (typeof refreshToken !== 'string') {
+      return null;
+    }
+
+    const [sessionId, secret] = refreshToken.split('.');
+
+    if (!sessionId || !secret || !/^[0-9a-fA-F]{24}$/.test(sessionId)) {
+      return null;
+    }
+
+    return { sessionId, secret };
+  }
+
+  /**
+   * @method generateSecret
+   * @description Generates a random refresh token secret
+   * @returns {string} Hex encoded secret
+   * @private
+   */
+  private generateSecret(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  /**
+   * @method hashSecret
+   * @description Hashes a refresh token secret for storage
+   * @param {string} secret - Plain secret
+   * @returns {string} SHA-256 hash
+   * @private
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
+export default sessionService;
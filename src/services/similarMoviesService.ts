@@ -0,0 +1,324 @@
+/**
+ * @fileoverview "More like this" similar movies
+ * @description Ranks the movies most similar to a given one by combining:
+ * - Genres: shared genres, each weighted by how rare it is in the catalog
+ * - Director and cast: same director, share of overlapping cast members
+ * - Release year: closeness of the release years
+ * - Co-favorites: how many of the movie's fans also favorited the candidate
+ * - Co-ratings: the candidate's similarity in the precomputed MovieSimilarity model, built from
+ *   the ratings of users who rated both movies
+ * Results are cached per movie in the database (SimilarMoviesCache), so all API instances share
+ * them; the whole cache is dropped when a movie is updated or deleted.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Movie } from '../models/Movie';
+import { Favorite } from '../models/Favorite';
+import { MovieSimilarity } from '../models/MovieSimilarity';
+import { SimilarMoviesCache } from '../models/SimilarMoviesCache';
+import { ICachedSimilarMovie, IMovie, ISimilarMoviesCache } from '../types';
+
+/**
+ * @type SimilarityReason
+ * @description Why a movie is considered similar
+ */
+export type SimilarityReason = 'genre' | 'director' | 'cast' | 'release_year' | 'co_favorite' | 'co_rating';
+
+/**
+ * @type ISimilarMovieResult
+ * @description Similar movie with its score and reasons
+ */
+export type ISimilarMovieResult = IMovie & {
+  similarity: { score: number; reasons: SimilarityReason[] };
+};
+
+/**
+ * @const MAX_SIMILAR
+ * @description Similar movies computed and cached per movie; requests take a prefix of the list
+ */
+export const MAX_SIMILAR = 50;
+
+/**
+ * @const SIGNAL_WEIGHTS
+ * @description Share of each signal in the final score (they add up to 1)
+ */
+const SIGNAL_WEIGHTS = {
+  genre: 0.3,
+  director: 0.15,
+  cast: 0.15,
+  releaseYear: 0.1,
+  coFavorite: 0.15,
+  coRating: 0.15,
+};
+
+/**
+ * @const YEAR_DECAY
+ * @description Years apart at which the release-year signal drops to about a third
+ */
+const YEAR_DECAY = 10;
+
+/**
+ * @const CLOSE_RELEASE_YEARS
+ * @description Years apart up to which release_year is reported as a reason
+ */
+const CLOSE_RELEASE_YEARS = 3;
+
+/**
+ * @const CONTENT_CANDIDATES
+ * @description Best-rated movies sharing a genre, director or cast member that are considered
+ */
+const CONTENT_CANDIDATES = 300;
+
+/**
+ * @const MAX_FANS
+ * @description Most recent fans of the movie whose other favorites are counted
+ */
+const MAX_FANS = 1000;
+
+/**
+ * @const MIN_CO_FAVORITES
+ * @description Fans in common needed before co-favorites count, so a single user is not a signal
+ */
+const MIN_CO_FAVORITES = 2;
+
+/**
+ * @const CACHE_TTL_MS
+ * @description How long computed similar movies are served from the cache
+ */
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+type LeanMovie = IMovie & { _id: string };
+
+/**
+ * @class SimilarMoviesService
+ * @description Computes and caches the movies similar to a movie
+ */
+class SimilarMoviesService {
+  /**
+   * @method getSimilar
+   * @description Returns the movies most similar to a movie
+   * @param {LeanMovie} movie - Active movie to find similar movies for
+   * @param {number} limit - Maximum number of movies (up to MAX_SIMILAR)
+   * @returns {Promise<ISimilarMovieResult[]>} Similar movies, most similar first
+   */
+  public async getSimilar(movie: LeanMovie, limit: number): Promise<ISimilarMovieResult[]> {
+    const movieId = movie._id.toString();
+
+    // The TTL monitor only runs once a minute, so expired lists are skipped explicitly
+    const cached = await SimilarMoviesCache.findOne({ movieId, expiresAt: { $gt: new Date() } })
+      .select('movies')
+      .lean<Pick<ISimilarMoviesCache, 'movies'>>();
+
+    let ranking = cached?.movies;
+
+    if (!ranking) {
+      ranking = await this.compute(movie);
+
+      try {
+        await SimilarMoviesCache.updateOne(
+          { movieId },
+          { $set: { movies: ranking, expiresAt: new Date(Date.now() + CACHE_TTL_MS) } },
+          { upsert: true }
+        );
+      } catch (error: any) {
+        // A concurrent request cached the list first
+        if (error.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    const top = ranking.slice(0, limit);
+    const movies = await Movie.find({ _id: { $in: top.map((entry) => entry.movieId) }, isActive: true })
+      .select('-searchTokens -searchDocuments')
+      .lean<LeanMovie[]>();
+
+    const movieMap = new Map(movies.map((similar) => [similar._id.toString(), similar]));
+
+    return top
+      .filter((entry) => movieMap.has(entry.movieId))
+      .map((entry) => ({
+        ...movieMap.get(entry.movieId)!,
+        similarity: { score: entry.score, reasons: entry.reasons as SimilarityReason[] },
+      }));
+  }
+
+  /**
+   * @method invalidateAll
+   * @description Drops every cached list on all instances, e.g. when a movie that may appear in
+   * them changes
+   * @returns {Promise<void>}
+   */
+  public async invalidateAll(): Promise<void> {
+    await SimilarMoviesCache.deleteMany({});
+  }
+
+  /**
+   * @method compute
+   * @description Scores the candidate movies against a movie
+   * @param {LeanMovie} movie - Movie to find similar movies for
+   * @returns {Promise<ICachedSimilarMovie[]>} Up to MAX_SIMILAR movie IDs, most similar first
+   * @private
+   */
+  private async compute(movie: LeanMovie): Promise<ICachedSimilarMovie[]> {
+    const movieId = movie._id.toString();
+    const genres = movie.genre || [];
+    const cast = movie.cast || [];
+
+    const contentFilters: Record<string, unknown>[] = [];
+    if (genres.length > 0) contentFilters.push({ genre: { $in: genres } });
+    if (movie.director) contentFilters.push({ director: movie.director });
+    if (cast.length > 0) contentFilters.push({ cast: { $in: cast } });
+
+    const [genreWeights, coFavorites, coRatings] = await Promise.all([
+      this.getGenreWeights(),
+      this.getCoFavorites(movieId),
+      this.getCoRatings(movieId),
+    ]);
+
+    const contentCandidates =
+      contentFilters.length > 0
+        ? await Movie.find({ isActive: true, _id: { $ne: movieId }, $or: contentFilters })
+            .select('_id')
+            .sort({ weightedRating: -1 })
+            .limit(CONTENT_CANDIDATES)
+            .lean<Array<{ _id: string }>>()
+        : [];
+
+    const candidateIds = [
+      ...new Set([
+        ...contentCandidates.map((candidate) => candidate._id.toString()),
+        ...coFavorites.keys(),
+        ...coRatings.keys(),
+      ]),
+    ].filter((id) => id !== movieId);
+
+    if (candidateIds.length === 0) {
+      return [];
+    }
+
+    const candidates = await Movie.find({ _id: { $in: candidateIds }, isActive: true })
+      .select('genre director cast releaseYear weightedRating')
+      .lean<LeanMovie[]>();
+
+    const genreTotal = genres.reduce((sum, genre) => sum + (genreWeights.get(genre) || 0), 0);
+    const maxCoFavorites = Math.max(0, ...coFavorites.values());
+
+    const scored = candidates.map((candidate) => {
+      const id = candidate._id.toString();
+      const reasons: SimilarityReason[] = [];
+
+      const sharedGenres = (candidate.genre || []).filter((genre) => genres.includes(genre));
+      const genreScore =
+        genreTotal > 0
+          ? sharedGenres.reduce((sum, genre) => sum + (genreWeights.get(genre) || 0), 0) / genreTotal
+          : 0;
+
+      const directorScore = movie.director && candidate.director === movie.director ? 1 : 0;
+
+      const sharedCast = (candidate.cast || []).filter((name) => cast.includes(name)).length;
+      const castScore = cast.length > 0 ? Math.min(1, sharedCast / Math.min(cast.length, 5)) : 0;
+
+      const yearsApart = Math.abs(candidate.releaseYear - movie.releaseYear);
+      const yearScore = Math.exp(-yearsApart / YEAR_DECAY);
+
+      const coFavoriteScore = maxCoFavorites > 0 ? (coFavorites.get(id) || 0) / maxCoFavorites : 0;
+      const coRatingScore = coRatings.get(id) || 0;
+
+      if (genreScore > 0) reasons.push('genre');
+      if (directorScore > 0) reasons.push('director');
+      if (castScore > 0) reasons.push('cast');
+      if (yearsApart <= CLOSE_RELEASE_YEARS) reasons.push('release_year');
+      if (coFavoriteScore > 0) reasons.push('co_favorite');
+      if (coRatingScore > 0) reasons.push('co_rating');
+
+      const score =
+        SIGNAL_WEIGHTS.genre * genreScore +
+        SIGNAL_WEIGHTS.director * directorScore +
+        SIGNAL_WEIGHTS.cast * castScore +
+        SIGNAL_WEIGHTS.releaseYear * yearScore +
+        SIGNAL_WEIGHTS.coFavorite * coFavoriteScore +
+        SIGNAL_WEIGHTS.coRating * coRatingScore;
+
+      return {
+        movieId: id,
+        score: Math.round(score * 1000) / 1000,
+        reasons,
+        weightedRating: candidate.weightedRating || 0,
+      };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.weightedRating - a.weightedRating)
+      .slice(0, MAX_SIMILAR)
+      .map(({ movieId, score, reasons }) => ({ movieId, score, reasons }));
+  }
+
+  /**
+   * @method getGenreWeights
+   * @description Weighs every genre by its rarity (inverse document frequency), so sharing
+   * "Documentary" counts for more than sharing "Drama"
+   * @returns {Promise<Map<string, number>>} Weights by genre
+   * @private
+   */
+  private async getGenreWeights(): Promise<Map<string, number>> {
+    const [total, counts] = await Promise.all([
+      Movie.countDocuments({ isActive: true }),
+      Movie.aggregate<{ _id: string; count: number }>([
+        { $match: { isActive: true } },
+        { $unwind: '$genre' },
+        { $group: { _id: '$genre', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    return new Map(counts.map((genre) => [genre._id, Math.log(1 + total / genre.count)]));
+  }
+
+  /**
+   * @method getCoFavorites
+   * @description Counts, for every other movie, how many of this movie's fans also favorited it
+   * @param {string} movieId - Movie ID
+   * @returns {Promise<Map<string, number>>} Fans in common by movie ID
+   * @private
+   */
+  private async getCoFavorites(movieId: string): Promise<Map<string, number>> {
+    const fans = await Favorite.find({ movieId })
+      .sort({ createdAt: -1 })
+      .limit(MAX_FANS)
+      .select('userId')
+      .lean();
+
+    if (fans.length === 0) {
+      return new Map();
+    }
+
+    const counts = await Favorite.aggregate<{ _id: string; count: number }>([
+      { $match: { userId: { $in: fans.map((fan) => fan.userId) }, movieId: { $ne: movieId } } },
+      { $group: { _id: '$movieId', count: { $sum: 1 } } },
+      { $match: { count: { $gte: MIN_CO_FAVORITES } } },
+      { $sort: { count: -1 } },
+      { $limit: MAX_SIMILAR * 2 },
+    ]);
+
+    return new Map(counts.map((entry) => [entry._id, entry.count]));
+  }
+
+  /**
+   * @method getCoRatings
+   * @description Reads the movie's neighbours in the rating-based similarity model
+   * @param {string} movieId - Movie ID
+   * @returns {Promise<Map<string, number>>} Similarity (0-1) by movie ID
+   * @private
+   */
+  private async getCoRatings(movieId: string): Promise<Map<string, number>> {
+    const similarity = await MovieSimilarity.findOne({ movieId }).lean();
+
+    return new Map((similarity?.neighbors || []).map((neighbor) => [neighbor.movieId, neighbor.score]));
+  }
+}
+
+// Export singleton instance
+export const similarMoviesService = new SimilarMoviesService();
+export default similarMoviesService;
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Item-item collaborative filtering
+ * @description Builds the MovieSimilarity collection from all ratings. Two movies are similar when
+ * the same users rate them both above (or both below) their own average rating: the score is the
+ * adjusted cosine similarity of the movies' mean-centered ratings, shrunk towards zero when only a
+ * few users rated both. Only the strongest neighbours of each movie are kept. Runs in the worker
+ * process (src/worker.ts), never in the API server.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { PipelineStage } from 'mongoose';
+import { Rating } from '../models/Rating';
+import { MovieSimilarity } from '../models/MovieSimilarity';
+import { ISimilarMovie } from '../types';
+
+/**
+ * @const MAX_RATINGS_PER_USER
+ * @description Most recent ratings of a user taken into account; bounds the pairs per user
+ */
+const MAX_RATINGS_PER_USER = 200;
+
+/**
+ * @const NEIGHBORS_PER_MOVIE
+ * @description Number of similar movies stored per movie
+ */
+const NEIGHBORS_PER_MOVIE = 50;
+
+/**
+ * @const MIN_COMMON_RATERS
+ * @description Users who must have rated both movies for a similarity to be stored
+ */
+const MIN_COMMON_RATERS = 2;
+
+/**
+ * @const SHRINKAGE
+ * @description Damping of similarities backed by few common raters: score * n / (n + SHRINKAGE)
+ */
+const SHRINKAGE = 10;
+
+/**
+ * @const WRITE_BATCH_SIZE
+ * @description Number of neighbour lists written per bulk write
+ */
+const WRITE_BATCH_SIZE = 500;
+
+/**
+ * @const CENTERED_RATINGS_STAGES
+ * @description Aggregation stages yielding, for every user with at least two ratings, their most
+ * recent ratings centered on their own average: { ratings: [{ movieId, value }] }
+ */
+const CENTERED_RATINGS_STAGES: PipelineStage[] = [
+  { $sort: { userId: 1, updatedAt: -1 } },
+  {
+    $group: {
+      _id: '$userId',
+      ratings: { $push: { movieId: '$movieId', rating: '$rating' } },
+    },
+  },
+  { $project: { ratings: { $slice: ['$ratings', MAX_RATINGS_PER_USER] } } },
+  { $match: { 'ratings.1': { $exists: true } } },
+  {
+    $project: {
+      ratings: {
+        $let: {
+          vars: { mean: { $avg: '$ratings.rating' } },
+          in: {
+            $map: {
+              input: '$ratings',
+              as: 'item',
+              in: { movieId: '$$item.movieId', value: { $subtract: ['$$item.rating', '$$mean'] } },
+            },
+          },
+        },
+      },
+    },
+  },
+];
+
+/**
+ * @interface IMovieNorm
+ * @description Sum of squared centered ratings of a movie, as streamed from the aggregation
+ */
+interface IMovieNorm {
+  _id: string;
+  norm: number;
+}
+
+/**
+ * @interface IMoviePair
+ * @description Dot product and common raters of two movies, as streamed from the aggregation
+ */
+interface IMoviePair {
+  _id: { a: string; b: string };
+  dot: number;
+  count: number;
+}
+
+/**
+ * @interface ISimilarityRunResult
+ * @description Summary of a similarity model rebuild
+ */
+export interface ISimilarityRunResult {
+  users: number;
+  movies: number;
+  durationMs: number;
+}
+
+/**
+ * @class SimilarityService
+ * @description Computes and stores item-item similarities
+ */
+class SimilarityService {
+  /**
+   * @method recomputeAll
+   * @description Rebuilds the neighbour lists of every rated movie and removes the lists of
+   * movies that no longer have any. Pairs of movies are counted by the database, which spills to
+   * disk when needed; this process only holds one norm and at most NEIGHBORS_PER_MOVIE
+   * neighbours per movie.
+   * @returns {Promise<ISimilarityRunResult>} Summary of the run
+   */
+  public async recomputeAll(): Promise<ISimilarityRunResult> {
+    const startedAt = new Date();
+
+    const [usersResult] = await Rating.aggregate<{ users: number }>([
+      ...CENTERED_RATINGS_STAGES,
+      { $count: 'users' },
+    ]).allowDiskUse(true);
+
+    // Sum of squared centered ratings per movie
+    const norms = new Map<string, number>();
+
+    const normCursor = Rating.aggregate<IMovieNorm>([
+      ...CENTERED_RATINGS_STAGES,
+      { $unwind: '$ratings' },
+      {
+        $group: {
+          _id: '$ratings.movieId',
+          norm: { $sum: { $multiply: ['$ratings.value', '$ratings.value'] } },
+        },
+      },
+    ])
+      .allowDiskUse(true)
+      .cursor();
+
+    for await (const movie of normCursor) {
+      norms.set(movie._id, movie.norm);
+    }
+
+    // Dot product and common raters per pair, each pair once with a < b
+    const pairCursor = Rating.aggregate<IMoviePair>([
+      ...CENTERED_RATINGS_STAGES,
+      { $project: { a: '$ratings', b: '$ratings' } },
+      { $unwind: '$a' },
+      { $unwind: '$b' },
+      { $match: { $expr: { $lt: ['$a.movieId', '$b.movieId'] } } },
+      {
+        $group: {
+          _id: { a: '$a.movieId', b: '$b.movieId' },
+          dot: { $sum: { $multiply: ['$a.value', '$b.value'] } },
+          count: { $sum: 1 },
+        },
+      },
+      { $match: { count: { $gte: MIN_COMMON_RATERS } } },
+    ])
+      .allowDiskUse(true)
+      .cursor();
+
+    const neighbors = new Map<string, ISimilarMovie[]>();
+    const addNeighbor = (movieId: string, neighbor: ISimilarMovie): void => {
+      const list = neighbors.get(movieId) || [];
+      list.push(neighbor);
+
+      // Prune now and then so a list never grows past twice the neighbours kept
+      if (list.length >= NEIGHBORS_PER_MOVIE * 2) {
+        list.sort((x, y) => y.score - x.score).length = NEIGHBORS_PER_MOVIE;
+      }
+
+      neighbors.set(movieId, list);
+    };
+
+    for await (const pair of pairCursor) {
+      const { a, b } = pair._id;
+      const denominator = Math.sqrt((norms.get(a) || 0) * (norms.get(b) || 0));
+      if (denominator === 0) {
+        continue;
+      }
+
+      const score = (pair.dot / denominator) * (pair.count / (pair.count + SHRINKAGE));
+      if (score <= 0) {
+        continue;
+      }
+
+      const rounded = Math.round(score * 10000) / 10000;
+      addNeighbor(a, { movieId: b, score: rounded, commonRaters: pair.count });
+      addNeighbor(b, { movieId: a, score: rounded, commonRaters: pair.count });
+    }
+
+    let batch: Parameters<typeof MovieSimilarity.bulkWrite>[0] = [];
+
+    for (const [movieId, list] of neighbors) {
+      const top = list.sort((x, y) => y.score - x.score).slice(0, NEIGHBORS_PER_MOVIE);
+
+      batch.push({
+        updateOne: {
+          filter: { movieId },
+          update: { $set: { neighbors: top, computedAt: startedAt } },
+          upsert: true,
+        },
+      });
+
+      if (batch.length === WRITE_BATCH_SIZE) {
+        await MovieSimilarity.bulkWrite(batch);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await MovieSimilarity.bulkWrite(batch);
+    }
+
+    // Lists not rewritten in this run belong to movies without similar movies any more
+    await MovieSimilarity.deleteMany({ computedAt: { $lt: startedAt } });
+
+    return {
+      users: usersResult?.users || 0,
+      movies: neighbors.size,
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  }
+}
+
+// Export singleton instance
+export const similarityService = new SimilarityService();
+export default similarityService;
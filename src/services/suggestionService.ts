@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Search suggestion (autocomplete) service
+ * @description Finds movie titles, directors and cast members starting with what the user has
+ * typed so far. Matching is accent- and case-insensitive and uses the precomputed
+ * Movie.searchTokens index instead of the full-text search pipeline, so it stays fast enough to
+ * run on every keystroke.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-23
+ */
+
+import { Movie, normalizeSearchText } from '../models/Movie';
+import { IMovie } from '../types';
+
+/**
+ * @const CANDIDATE_MOVIES
+ * @description Number of matching movies (most viewed first) from which suggestions are picked
+ */
+const CANDIDATE_MOVIES = 50;
+
+/**
+ * @interface IHighlightSegment
+ * @description Part of a suggestion; `match` marks the part that matches the query
+ */
+export interface IHighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * @interface ITitleSuggestion
+ * @description Suggested movie
+ */
+export interface ITitleSuggestion {
+  movieId: string;
+  title: string;
+  releaseYear: number;
+  poster: string | null;
+  segments: IHighlightSegment[];
+}
+
+/**
+ * @interface IPersonSuggestion
+ * @description Suggested director or cast member
+ */
+export interface IPersonSuggestion {
+  name: string;
+  movieCount: number;
+  segments: IHighlightSegment[];
+}
+
+/**
+ * @interface ISuggestions
+ * @description Suggestions grouped by type
+ */
+export interface ISuggestions {
+  titles: ITitleSuggestion[];
+  directors: IPersonSuggestion[];
+  cast: IPersonSuggestion[];
+}
+
+/**
+ * @class SuggestionService
+ * @description Builds grouped, highlighted autocomplete suggestions
+ */
+class SuggestionService {
+  /**
+   * @method suggest
+   * @description Finds suggestions for a partial query
+   * @param {string} query - What the user has typed so far
+   * @param {number} limit - Maximum suggestions per group
+   * @returns {Promise<ISuggestions>} Suggestions grouped by type
+   */
+  public async suggest(query: string, limit: number): Promise<ISuggestions> {
+    const prefix = normalizeSearchText(query);
+    const suggestions: ISuggestions = { titles: [], directors: [], cast: [] };
+
+    if (!prefix) {
+      return suggestions;
+    }
+
+    const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const movies = await Movie.find({
+      isActive: true,
+      searchTokens: { $regex: `^${escapedPrefix}` },
+    })
+      .select('title director cast poster releaseYear')
+      .sort({ views: -1 })
+      .limit(CANDIDATE_MOVIES)
+      .lean<Array<IMovie & { _id: string }>>();
+
+    const directors = new Map<string, IPersonSuggestion>();
+    const cast = new Map<string, IPersonSuggestion>();
+
+    for (const movie of movies) {
+      const titleSegments = this.highlight(movie.title, prefix);
+      if (titleSegments && suggestions.titles.length < limit) {
+        suggestions.titles.push({
+          movieId: movie._id.toString(),
+          title: movie.title,
+          releaseYear: movie.releaseYear,
+          poster: movie.poster || null,
+          segments: titleSegments,
+        });
+      }
+
+      if (movie.director) {
+        this.addPerson(directors, movie.director, prefix);
+      }
+
+      for (const name of movie.cast || []) {
+        this.addPerson(cast, name, prefix);
+      }
+    }
+
+    suggestions.directors = this.topPeople(directors, limit);
+    suggestions.cast = this.topPeople(cast, limit);
+
+    return suggestions;
+  }
+
+  /**
+   * @method highlight
+   * @description Splits a value into segments around the first word that starts with the prefix
+   * @param {string} value - Original value, e.g. "Acción"
+   * @param {string} prefix - Normalized prefix, e.g. "acc"
+   * @returns {IHighlightSegment[] | null} Segments, or null if the value does not match
+   * @private
+   */
+  private highlight(value: string, prefix: string): IHighlightSegment[] | null {
+    // Normalize character by character, remembering where each normalized character came from,
+    // so the match can be mapped back onto the original (accented) text
+    let normalized = '';
+    const origins: number[] = [];
+    let offset = 0;
+
+    for (const char of value) {
+      const normalizedChar = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s/g, ' ');
+
+      // Collapse runs of whitespace like normalizeSearchText does
+      if (!(normalizedChar === ' ' && normalized.endsWith(' '))) {
+        for (const part of normalizedChar) {
+          normalized += part;
+          origins.push(offset);
+        }
+      }
+
+      offset += char.length;
+    }
+
+    const start = this.findWordPrefix(normalized, prefix);
+    if (start === -1) {
+      return null;
+    }
+
+    const originalStart = origins[start];
+    const matchEnd = start + prefix.length;
+    const originalEnd = matchEnd < origins.length ? origins[matchEnd] : value.length;
+
+    return [
+      { text: value.slice(0, originalStart), match: false },
+      { text: value.slice(originalStart, originalEnd), match: true },
+      { text: value.slice(originalEnd), match: false },
+    ].filter((segment) => segment.text.length > 0);
+  }
+
+  /**
+   * @method findWordPrefix
+   * @description Finds the first position where a word of the text starts with the prefix
+   * @param {string} text - Normalized text
+   * @param {string} prefix - Normalized prefix
+   * @returns {number} Position, or -1 when there is none
+   * @private
+   */
+  private findWordPrefix(text: string, prefix: string): number {
+    let position = text.indexOf(prefix);
+
+    while (position !== -1) {
+      if (position === 0 || !/[\p{L}\p{N}]/u.test(text[position - 1])) {
+        return position;
+      }
+      position = text.indexOf(prefix, position + 1);
+    }
+
+    return -1;
+  }
+
+  /**
+   * @method addPerson
+   * @description Counts a director or cast member if their name matches the prefix
+   * @param {Map<string, IPersonSuggestion>} people - Matches so far, keyed by normalized name
+   * @param {string} name - Name to check
+   * @param {string} prefix - Normalized prefix
+   * @returns {void}
+   * @private
+   */
+  private addPerson(people: Map<string, IPersonSuggestion>, name: string, prefix: string): void {
+    const key = normalizeSearchText(name);
+    const existing = people.get(key);
+
+    if (existing) {
+      existing.movieCount++;
+      return;
+    }
+
+    const segments = this.highlight(name, prefix);
+    if (segments) {
+      people.set(key, { name, movieCount: 1, segments });
+    }
+  }
+
+  /**
+   * @method topPeople
+   * @description Returns the people appearing in the most matching movies
+   * @param {Map<string, IPersonSuggestion>} people - Matches keyed by normalized name
+   * @param {number} limit - Maximum number of people
+   * @returns {IPersonSuggestion[]} Top matches
+   * @private
+   */
+  private topPeople(people: Map<string, IPersonSuggestion>, limit: number): IPersonSuggestion[] {
+    return [...people.values()]
+      .sort((a, b) => b.movieCount - a.movieCount || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+}
+
+// Export singleton instance
+export const suggestionService = new SuggestionService();
+export default suggestionService;
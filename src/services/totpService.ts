@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Time-based one-time password (TOTP) service
+ * @description Self-contained RFC 6238 / RFC 4226 implementation (HMAC-SHA1, 6 digits, 30 second
+ * steps) used for two-factor authentication. Works offline and is compatible with common
+ * authenticator apps.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-21
+ */
+
+import crypto from 'crypto';
+
+/**
+ * @const BASE32_ALPHABET
+ * @description RFC 4648 base32 alphabet used to encode secrets
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @class TotpService
+ * @description Generates and verifies TOTP codes and two-factor recovery codes
+ */
+class TotpService {
+  private readonly stepSeconds = 30;
+  private readonly digits = 6;
+  private readonly issuer = 'Movies Platform';
+
+  /**
+   * @method generateSecret
+   * @description Generates a random 160-bit secret
+   * @returns {string} Base32 encoded secret
+   */
+  public generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * @method buildOtpAuthUri
+   * @description Builds the otpauth:// URI that authenticator apps import (usually as a QR code)
+   * @param {string} secret - Base32 encoded secret
+   * @param {string} accountName - Account label, usually the user's email
+   * @returns {string} otpauth URI
+   */
+  public buildOtpAuthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: this.digits.toString(),
+      period: this.stepSeconds.toString(),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * @method generateCode
+   * @description Generates the code for a secret at a given time
+   * @param {string} secret - Base32 encoded secret
+   * @param {number} timestamp - Unix time in milliseconds (default: now)
+   * @returns {string} Zero-padded code
+   */
+  public generateCode(secret: string, timestamp: number = Date.now()): string {
+    return this.generateCodeForStep(secret, this.getTimeStep(timestamp));
+  }
+
+  /**
+   * @method verifyCode
+   * @description Verifies a code, accepting adjacent time steps to tolerate clock drift
+   * @param {string} secret - Base32 encoded secret
+   * @param {string} code - Code entered by the user
+   * @param {number} window - Number of steps accepted before and after the current one (default: 1)
+   * @param {number} timestamp - Unix time in milliseconds (default: now)
+   * @returns {number | null} Matched time step, or null if the code is invalid
+   */
+  public verifyCode(
+    secret: string,
+    code: string,
+    window: number = 1,
+    timestamp: number = Date.now()
+  ): number | null {
+    const normalizedCode = (code || '').replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.digits}}$`).test(normalizedCode)) {
+      return null;
+    }
+
+    const currentStep = this.getTimeStep(timestamp);
+
+    for (let offset = -window; offset <= window; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateCodeForStep(secret, step);
+
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalizedCode))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * @method generateRecoveryCodes
+   * @description Generates one-time recovery codes in the form "xxxxx-xxxxx"
+   * @param {number} count - Number of codes (default: 10)
+   * @returns {string[]} Plain recovery codes
+   */
+  public generateRecoveryCodes(count: number = 10): string[] {
+    return Array.from({ length: count }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * @method hashRecoveryCode
+   * @description Hashes a recovery code for storage, ignoring case, spaces and dashes
+   * @param {string} code - Plain recovery code
+   * @returns {string} SHA-256 hash
+   */
+  public hashRecoveryCode(code: string): string {
+    const normalizedCode = (code || '').toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalizedCode).digest('hex');
+  }
+
+  /**
+   * @method getTimeStep
+   * @description Converts a timestamp to a TOTP time step
+   * @param {number} timestamp - Unix time in milliseconds
+   * @returns {number} Time step
+   * @private
+   */
+  private getTimeStep(timestamp: number): number {
+    return Math.floor(timestamp / 1000 / this.stepSeconds);
+  }
+
+  /**
+   * @method generateCodeForStep
+   * @description HOTP (RFC 4226) code for a counter value
+   * @param {string} secret - Base32 encoded secret
+   * @param {number} step - Counter value
+   * @returns {string} Zero-padded code
+   * @private
+   */
+  private generateCodeForStep(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** this.digits).toString().padStart(this.digits, '0');
+  }
+
+  /**
+   * @method base32Encode
+   * @description Encodes bytes as unpadded base32
+   * @param {Buffer} buffer - Bytes to encode
+   * @returns {string} Base32 string
+   * @private
+   */
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  /**
+   * @method base32Decode
+   * @description Decodes a base32 string, ignoring padding, spaces and case
+   * @param {string} input - Base32 string
+   * @returns {Buffer} Decoded bytes
+   * @throws {Error} When the input contains invalid characters
+   * @private
+   */
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+// Export singleton instance
+export const totpService = new TotpService();
+export default totpService;
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Trending movies service
+ * @description Records movie activity (views, new ratings, favorites and comments) as timestamped
+ * events and ranks movies by recent activity. Each event adds its type's weight to the movie's
+ * score, decayed exponentially with its age, so activity from an hour ago counts more than
+ * activity from several days ago and old catalog titles drop out once people stop watching them.
+ * Rankings are cached per window and genre for a minute, so the aggregation over the event
+ * collection runs at most once a minute per list on each instance instead of on every request.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { ActivityEvent } from '../models/ActivityEvent';
+import { Movie } from '../models/Movie';
+import { ActivityEventType, IMovie, MovieGenre } from '../types';
+import { TtlCache } from '../utils/cache';
+
+/**
+ * @type TrendingWindow
+ * @description Time windows trending can be computed over
+ */
+export type TrendingWindow = '24h' | '7d' | '30d';
+
+/**
+ * @interface ITrendingActivity
+ * @description Score and event counts of a movie within a window
+ */
+export interface ITrendingActivity {
+  score: number;
+  views: number;
+  ratings: number;
+  favorites: number;
+  comments: number;
+}
+
+/**
+ * @type ITrendingMovie
+ * @description Trending movie with its activity
+ */
+export type ITrendingMovie = IMovie & { trending: ITrendingActivity };
+
+/**
+ * @const HOUR_MS
+ * @description One hour in milliseconds
+ */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * @const TRENDING_WINDOWS
+ * @description Length of each window and the half-life of an event's weight within it
+ */
+export const TRENDING_WINDOWS: Record<TrendingWindow, { durationMs: number; halfLifeMs: number }> = {
+  '24h': { durationMs: 24 * HOUR_MS, halfLifeMs: 6 * HOUR_MS },
+  '7d': { durationMs: 7 * 24 * HOUR_MS, halfLifeMs: 2 * 24 * HOUR_MS },
+  '30d': { durationMs: 30 * 24 * HOUR_MS, halfLifeMs: 7 * 24 * HOUR_MS },
+};
+
+/**
+ * @const TRENDING_MAX_LIMIT
+ * @description Largest number of trending movies returned; each cached ranking holds this many
+ */
+export const TRENDING_MAX_LIMIT = 50;
+
+/**
+ * @const TRENDING_CACHE_TTL_MS
+ * @description How long a computed ranking is served from the cache
+ */
+const TRENDING_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * @const EVENT_WEIGHTS
+ * @description Weight of each event type; deliberate actions count more than a view
+ */
+const EVENT_WEIGHTS: Record<ActivityEventType, number> = {
+  view: 1,
+  comment: 3,
+  favorite: 4,
+  rating: 5,
+};
+
+/**
+ * @class TrendingService
+ * @description Records movie activity and computes trending movies
+ */
+class TrendingService {
+  // One entry per window and genre (3 windows x (genres + all))
+  private cache = new TtlCache<ITrendingMovie[]>({ ttlMs: TRENDING_CACHE_TTL_MS, maxEntries: 100 });
+
+  /**
+   * @method record
+   * @description Records an activity event. Failures are logged and never thrown, so tracking
+   * cannot break the request that triggered it.
+   * @param {string} movieId - Movie ID
+   * @param {ActivityEventType} type - Kind of activity
+   * @returns {Promise<void>}
+   */
+  public async record(movieId: string, type: ActivityEventType): Promise<void> {
+    try {
+      await ActivityEvent.create({ movieId, type });
+    } catch (error) {
+      console.error(`Failed to record ${type} activity for movie ${movieId}:`, error);
+    }
+  }
+
+  /**
+   * @method getTrending
+   * @description Ranks active movies by decayed activity within a window. The ranking is cached
+   * for a minute per window and genre and sliced to the requested limit.
+   * @param {TrendingWindow} window - Time window
+   * @param {number} limit - Maximum number of movies (at most TRENDING_MAX_LIMIT)
+   * @param {MovieGenre} genre - Only movies of this genre (optional)
+   * @returns {Promise<ITrendingMovie[]>} Trending movies, highest score first
+   */
+  public async getTrending(
+    window: TrendingWindow,
+    limit: number,
+    genre?: MovieGenre
+  ): Promise<ITrendingMovie[]> {
+    const cacheKey = `${window}:${genre || '*'}`;
+    let ranking = this.cache.get(cacheKey);
+
+    if (!ranking) {
+      ranking = await this.computeTrending(window, genre);
+      this.cache.set(cacheKey, ranking);
+    }
+
+    return ranking.slice(0, limit);
+  }
+
+  /**
+   * @method computeTrending
+   * @description Runs the trending aggregation for a window
+   * @param {TrendingWindow} window - Time window
+   * @param {MovieGenre} genre - Only movies of this genre (optional)
+   * @returns {Promise<ITrendingMovie[]>} Up to TRENDING_MAX_LIMIT movies, highest score first
+   */
+  private async computeTrending(window: TrendingWindow, genre?: MovieGenre): Promise<ITrendingMovie[]> {
+    const { durationMs, halfLifeMs } = TRENDING_WINDOWS[window];
+    const now = new Date();
+    const since = new Date(now.getTime() - durationMs);
+
+    const weight = {
+      $switch: {
+        branches: Object.entries(EVENT_WEIGHTS).map(([type, value]) => ({
+          case: { $eq: ['$type', type] },
+          then: value,
+        })),
+        default: 0,
+      },
+    };
+
+    // weight * 2^(-age / halfLife), written as e^(-ln2 * age / halfLife)
+    const decay = {
+      $exp: { $multiply: [-Math.LN2 / halfLifeMs, { $subtract: [now, '$createdAt'] }] },
+    };
+
+    const countOf = (type: ActivityEventType) => ({
+      $sum: { $cond: [{ $eq: ['$type', type] }, 1, 0] },
+    });
+
+    const results = await ActivityEvent.aggregate<{ movie: IMovie; trending: ITrendingActivity }>([
+      { $match: { createdAt: { $gte: since } } },
+      {
+        $group: {
+          _id: '$movieId',
+          score: { $sum: { $multiply: [weight, decay] } },
+          views: countOf('view'),
+          ratings: countOf('rating'),
+          favorites: countOf('favorite'),
+          comments: countOf('comment'),
+        },
+      },
+      { $sort: { score: -1, _id: 1 } },
+      {
+        $lookup: {
+          from: Movie.collection.name,
+          let: { movieId: { $toObjectId: '$_id' } },
+          pipeline: [
+            {
+              $match: {
+                $expr: { $eq: ['$_id', '$$movieId'] },
+                isActive: true,
+                ...(genre && { genre }),
+              },
+            },
+            { $project: { searchTokens: 0, searchDocuments: 0 } },
+          ],
+          as: 'movie',
+        },
+      },
+      { $unwind: '$movie' },
+      { $limit: TRENDING_MAX_LIMIT },
+      {
+        $project: {
+          _id: 0,
+          movie: 1,
+          trending: {
+            score: { $round: ['$score', 3] },
+            views: '$views',
+            ratings: '$ratings',
+            favorites: '$favorites',
+            comments: '$comments',
+          },
+        },
+      },
+    ]);
+
+    return results.map(({ movie, trending }) => ({ ...movie, trending }));
+  }
+}
+
+// Export singleton instance
+export const trendingService = new TrendingService();
+export default trendingService;
@@ -39,6 +39,11 @@ export interface UploadResult {
   duration?: number; // For videos
 }
 
+/**
+ * Cloudinary folder for user avatars
+ */
+const AVATAR_FOLDER = 'cinema-platform/avatars';
+
 /**
  * Upload Service Class
  * @class UploadService
@@ -133,7 +138,7 @@ export class UploadService {
     userId: string
   ): Promise<UploadResult> {
     return this.uploadBuffer(fileBuffer, {
-      folder: 'cinema-platform/avatars',
+      folder: AVATAR_FOLDER,
       publicId: `avatar-${userId}`,
       resourceType: 'image',
       transformation: [
@@ -145,6 +150,16 @@ export class UploadService {
     });
   }
 
+  /**
+   * Get avatar public ID
+   * @description Returns the Cloudinary public ID under which a user's avatar is stored
+   * @param {string} userId - User ID
+   * @returns {string} Cloudinary public ID
+   */
+  static getAvatarPublicId(userId: string): string {
+    return `${AVATAR_FOLDER}/avatar-${userId}`;
+  }
+
   /**
    * Upload movie poster
    * @description Uploads movie poster with specific transformations
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Movie view counting service
+ * @description Counts a view only once the viewer has watched a minimum time, and at most once
+ * per viewer and movie every VIEW_DEDUP_WINDOW_MS. Watch time is measured on the server from the
+ * player's heartbeats: each one is credited with how far playback advanced, but never more than
+ * the time that passed since the previous heartbeat, so a client cannot claim watch time it did
+ * not spend. Viewers are identified by user ID when signed in and otherwise by a keyed hash of
+ * their IP address and user agent, so the raw address is never stored. Counted views are applied
+ * to Movie.views with an atomic $inc.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import crypto from 'crypto';
+import { MovieView } from '../models/MovieView';
+import { IMovieDocument } from '../models/Movie';
+import { IMovieView } from '../types';
+import { trendingService } from './trendingService';
+import { environment } from '../config/environment';
+
+/**
+ * @const MAX_HEARTBEAT_CREDIT_SECONDS
+ * @description Most watch time a single heartbeat can add; players send one about every 30
+ * seconds, so this allows for one missed heartbeat
+ */
+const MAX_HEARTBEAT_CREDIT_SECONDS = 60;
+
+/**
+ * @interface IViewer
+ * @description Who is watching
+ */
+export interface IViewer {
+  userId?: string;
+  ip: string;
+  userAgent: string;
+}
+
+/**
+ * @interface IViewResult
+ * @description Outcome of a heartbeat
+ */
+export interface IViewResult {
+  counted: boolean;
+  reason: 'too_short' | 'duplicate' | null;
+  views: number;
+}
+
+/**
+ * @class ViewService
+ * @description Credits watch time and records deduplicated movie views
+ */
+class ViewService {
+  /**
+   * @method getViewerKey
+   * @description Builds the key that identifies a viewer across requests
+   * @param {IViewer} viewer - Viewer
+   * @returns {string} "user:<id>" or "anon:<hash>"
+   */
+  public getViewerKey(viewer: IViewer): string {
+    if (viewer.userId) {
+      return `user:${viewer.userId}`;
+    }
+
+    const fingerprint = crypto
+      .createHmac('sha256', environment.get('jwtSecret'))
+      .update(`${viewer.ip}|${viewer.userAgent}`)
+      .digest('hex')
+      .slice(0, 32);
+
+    return `anon:${fingerprint}`;
+  }
+
+  /**
+   * @method getMinWatchSeconds
+   * @description Watch time needed for a view to count: VIEW_MIN_WATCH_SECONDS, or the whole
+   * movie when it is shorter
+   * @param {IMovieDocument} movie - Movie being watched
+   * @returns {number} Seconds
+   */
+  public getMinWatchSeconds(movie: IMovieDocument): number {
+    return Math.min(environment.get('viewMinWatchSeconds'), movie.duration * 60);
+  }
+
+  /**
+   * @method getHeartbeatCredit
+   * @description Watch time earned since the previous heartbeat: how far playback advanced, but
+   * never more than the time that passed on the server clock, so seeking ahead or replaying
+   * heartbeats does not add watch time
+   * @param {IMovieView | null} previous - Viewer's record before this heartbeat
+   * @param {number} position - Reported playback position in seconds
+   * @param {Date} now - Time of this heartbeat
+   * @returns {number} Seconds to add to the viewer's watch time
+   */
+  public getHeartbeatCredit(previous: IMovieView | null, position: number, now: Date): number {
+    if (!previous) {
+      return 0;
+    }
+
+    const elapsedSeconds = (now.getTime() - new Date(previous.lastHeartbeatAt).getTime()) / 1000;
+    const credit = Math.min(position - previous.position, elapsedSeconds, MAX_HEARTBEAT_CREDIT_SECONDS);
+
+    return Math.max(0, Math.round(credit));
+  }
+
+  /**
+   * @method recordHeartbeat
+   * @description Credits the watch time since the viewer's previous heartbeat, then counts a view
+   * if the credited time reaches the minimum and the last counted view is at least
+   * VIEW_DEDUP_WINDOW_MS old. The credit used is reset, so it cannot count towards another view.
+   * @param {IMovieDocument} movie - Movie being watched
+   * @param {IViewer} viewer - Viewer
+   * @param {number} position - Reported playback position in seconds
+   * @returns {Promise<IViewResult>} Whether a view was counted and the movie's view count
+   */
+  public async recordHeartbeat(movie: IMovieDocument, viewer: IViewer, position: number): Promise<IViewResult> {
+    const movieId = movie._id.toString();
+    const viewerKey = this.getViewerKey(viewer);
+    const windowMs = environment.get('viewDedupWindowMs');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+
+    const stored = await MovieView.findOne({ movieId, viewerKey }).lean<IMovieView>();
+
+    if (stored) {
+      // The watch time is only credited if no concurrent heartbeat updated the record in between
+      await MovieView.updateOne(
+        { _id: stored._id, lastHeartbeatAt: stored.lastHeartbeatAt },
+        {
+          $set: { position, lastHeartbeatAt: now, expiresAt },
+          $inc: { watchedSeconds: this.getHeartbeatCredit(stored, position, now) },
+        }
+      );
+    } else {
+      try {
+        await MovieView.create({ movieId, viewerKey, position, lastHeartbeatAt: now, watchedSeconds: 0, expiresAt });
+      } catch (error: any) {
+        // A concurrent first heartbeat created the record; there is nothing to credit yet
+        if (error.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    const minWatchSeconds = this.getMinWatchSeconds(movie);
+
+    // Matches only with enough watch time and no view counted within the window, so concurrent
+    // heartbeats count a view once
+    const { modifiedCount } = await MovieView.updateOne(
+      {
+        movieId,
+        viewerKey,
+        watchedSeconds: { $gte: minWatchSeconds },
+        $or: [{ lastCountedAt: null }, { lastCountedAt: { $lte: new Date(now.getTime() - windowMs) } }],
+      },
+      { $set: { lastCountedAt: now, watchedSeconds: 0 } }
+    );
+
+    if (modifiedCount === 0) {
+      const record = await MovieView.findOne({ movieId, viewerKey })
+        .select('watchedSeconds')
+        .lean<Pick<IMovieView, 'watchedSeconds'>>();
+      const reason = (record?.watchedSeconds || 0) >= minWatchSeconds ? 'duplicate' : 'too_short';
+
+      return { counted: false, reason, views: movie.views || 0 };
+    }
+
+    await movie.incrementViews();
+    await trendingService.record(movieId, 'view');
+
+    return { counted: true, reason: null, views: movie.views || 0 };
+  }
+
+  /**
+   * @method deleteUserViews
+   * @description Removes the view records of a user whose account is purged
+   * @param {string} userId - User ID
+   * @returns {Promise<number>} Number of records removed
+   */
+  public async deleteUserViews(userId: string): Promise<number> {
+    const result = await MovieView.deleteMany({ viewerKey: `user:${userId}` });
+    return result.deletedCount || 0;
+  }
+}
+
+// Export singleton instance
+export const viewService = new ViewService();
+export default viewService;
@@ -21,7 +21,22 @@ export interface IUser {
   password?: string;
   age: number;
   avatar?: string;
+  role?: UserRole;
   isActive?: boolean;
+  emailVerified?: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  failedLoginAttempts?: number;
+  lockUntil?: Date | null;
+  lockCount?: number;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string | null;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number | null;
+  mustResetPassword?: boolean;
+  deletionRequestedAt?: Date | null;
+  deletionScheduledFor?: Date | null;
+  historyPaused?: boolean;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
   createdAt?: Date;
@@ -85,7 +100,10 @@ export interface IMovie {
   };
   averageRating?: number; // Calculated average rating (0-5)
   totalRatings?: number; // Total number of ratings
+  weightedRating?: number; // Bayesian weighted rating used for ranking (0-5)
   views?: number; // View counter
+  searchTokens?: string[]; // Normalized title/director/cast prefixes for autocomplete
+  searchDocuments?: IMovieSearchDocument[]; // Copies of the searchable text, one per search language
   isActive?: boolean; // Soft delete flag
   createdAt?: Date;
   updatedAt?: Date;
@@ -111,24 +129,267 @@ export interface IRating {
   userId: string;
   movieId: string;
   rating: number; // 1-5 stars
+  review?: IReview | null; // Written review, if any
+  reviewedAt?: Date | null; // When the review was first written
+  helpfulVotes?: number;
+  unhelpfulVotes?: number;
+  helpfulness?: number; // Wilson lower bound of the helpful share of votes (0-1)
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * @interface IReview
+ * @description Interface for the written review attached to a rating
+ */
+export interface IReview {
+  title?: string | null;
+  body: string;
+  containsSpoilers: boolean;
+  language: string; // ISO 639-1 code
+}
+
+/**
+ * @interface IReviewVote
+ * @description Interface for a user's helpful/unhelpful vote on a review
+ */
+export interface IReviewVote {
+  _id?: string;
+  ratingId: string;
+  userId: string;
+  helpful: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * @interface IMovieSearchDocument
+ * @description Copy of a movie's searchable text that the text index stems in one language
+ */
+export interface IMovieSearchDocument {
+  language: string; // MongoDB text search language, e.g. "english" or "spanish"
+  title: string;
+  director?: string;
+  cast?: string[];
+  description?: string;
+}
+
 /**
  * @interface IComment
  * @description Interface for Comment data structure
  */
 export interface IComment {
   _id?: string;
-  userId: string;
+  userId: string | null; // null once removed (tombstone)
   movieId: string;
-  content: string;
+  content: string | null; // null once removed (tombstone)
   edited: boolean;
+  parentId?: string | null; // Comment replied to, null for top-level comments
+  rootId?: string | null; // Top-level comment of the thread, null for top-level comments
+  depth?: number; // 0 for top-level comments, parent depth + 1 for replies
+  replyCount?: number; // Direct replies, including removed ones that still have replies
+  deleted?: boolean; // Removed but kept as a "comment removed" placeholder for its replies
+  deletedAt?: Date | null;
+  reactionCounts?: Record<CommentReactionType, number>;
+  topScore?: number; // Wilson lower bound of the positive share of reactions (0-1)
+  controversyScore?: number; // High when positive and negative reactions are many and balanced
+  reportCount?: number; // Distinct users with an open report on the comment
+  lastReportedAt?: Date | null;
+  hidden?: boolean; // Hidden from other users until a moderator reviews it
+  approvedAt?: Date | null; // Kept by a moderator; further reports no longer hide it
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * @interface ICommentReaction
+ * @description Interface for a user's reaction to a comment (one per user, comment and type)
+ */
+export interface ICommentReaction {
+  _id?: string;
+  commentId: string;
+  userId: string;
+  type: CommentReactionType;
+  createdAt?: Date;
+}
+
+/**
+ * @interface ICommentReport
+ * @description Interface for a user's report of a comment (one per user and comment)
+ */
+export interface ICommentReport {
+  _id?: string;
+  commentId: string;
+  reporterId: string;
+  reason: CommentReportReason;
+  details?: string | null;
+  status: CommentReportStatus;
+  resolution?: 'approved' | 'removed' | null;
+  resolvedBy?: string | null;
+  resolvedAt?: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * @interface ISession
+ * @description Interface for a login session backing a refresh token
+ */
+export interface ISession {
+  _id?: string;
+  userId: string;
+  refreshTokenHash?: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  lastUsedAt?: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevocationReason | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * @interface ISessionTokens
+ * @description Interface for the token pair issued when a session is created or refreshed
+ */
+export interface ISessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string | number;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * @interface ISessionClientInfo
+ * @description Interface for the client details recorded on a session
+ */
+export interface ISessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * @interface IAuditLog
+ * @description Interface for an audit log entry
+ */
+export interface IAuditLog {
+  _id?: string;
+  actorId: string;
+  action: AuditAction;
+  targetType: 'user' | 'comment';
+  targetId: string;
+  details?: Record<string, any>;
+  ipAddress?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * @interface IDataExport
+ * @description Interface for a personal data export requested by a user
+ */
+export interface IDataExport {
+  _id?: string;
+  userId: string;
+  format: DataExportFormat;
+  status: DataExportStatus;
+  fileName?: string | null;
+  contentType?: string | null;
+  fileId?: string | null; // GridFS file holding the archive
+  size?: number;
+  language?: string; // Language of the notification email
+  attempts?: number; // Times processing was started; interrupted exports are retried
+  error?: string | null;
+  completedAt?: Date | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * @interface IActivityEvent
+ * @description Interface for a timestamped interaction with a movie, used to compute trends
+ */
+export interface IActivityEvent {
+  _id?: string;
+  movieId: string;
+  type: ActivityEventType;
+  createdAt?: Date;
+}
+
+/**
+ * @interface IMovieView
+ * @description Interface for one viewer's watch time on a movie and their last counted view
+ */
+export interface IMovieView {
+  _id?: string;
+  movieId: string;
+  viewerKey: string;
+  position: number; // Playback position of the last heartbeat, in seconds
+  lastHeartbeatAt: Date;
+  watchedSeconds: number; // Watch time credited since the last counted view
+  lastCountedAt?: Date | null;
+  expiresAt: Date;
+  createdAt?: Date;
+}
+
+/**
+ * @interface IWatchProgress
+ * @description Interface for a user's playback position in a movie
+ */
+export interface IWatchProgress {
+  _id?: string;
+  userId: string;
+  movieId: string;
+  position: number; // Last playback position in seconds
+  duration: number; // Length of the video in seconds
+  completed: boolean;
+  lastWatchedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * @interface ISimilarMovie
+ * @description A neighbour of a movie in the item-item similarity model
+ */
+export interface ISimilarMovie {
+  movieId: string;
+  score: number; // Shrunk adjusted cosine similarity (0-1)
+  commonRaters: number;
+}
+
+/**
+ * @interface IMovieSimilarity
+ * @description Interface for the precomputed most similar movies of a movie
+ */
+export interface IMovieSimilarity {
+  _id?: string;
+  movieId: string;
+  neighbors: ISimilarMovie[];
+  computedAt: Date;
+}
+
+/**
+ * @interface ICachedSimilarMovie
+ * @description A movie in the cached "more like this" list of another movie
+ */
+export interface ICachedSimilarMovie {
+  movieId: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * @interface ISimilarMoviesCache
+ * @description Interface for the cached "more like this" list of a movie, shared by all instances
+ */
+export interface ISimilarMoviesCache {
+  _id?: string;
+  movieId: string;
+  movies: ICachedSimilarMovie[]; // Most similar first
+  expiresAt: Date;
+}
+
 /**
  * @interface IJwtPayload
  * @description Interface for JWT token payload
@@ -136,6 +397,18 @@ export interface IComment {
 export interface IJwtPayload extends JwtPayload {
   userId: string;
   email: string;
+  role: UserRole;
+  sessionId: string;
+}
+
+/**
+ * @interface ITwoFactorChallengePayload
+ * @description Interface for the payload of the short-lived token issued when a login
+ * still needs a second factor
+ */
+export interface ITwoFactorChallengePayload extends JwtPayload {
+  userId: string;
+  purpose: 'two_factor_challenge';
 }
 
 /**
@@ -146,6 +419,10 @@ export interface IAuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    role: UserRole;
+    sessionId: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
   };
 }
 
@@ -242,10 +519,72 @@ export type HttpStatusCode = 200 | 201 | 204 | 400 | 401 | 403 | 404 | 409 | 422
 
 /**
  * @type UserRole
- * @description Type for user roles (future extension)
+ * @description Type for user roles
  */
 export type UserRole = 'user' | 'admin' | 'moderator';
 
+/**
+ * @type SessionRevocationReason
+ * @description Type for the reasons a session can be revoked
+ */
+export type SessionRevocationReason =
+  | 'logout'
+  | 'revoked_by_user'
+  | 'token_reuse'
+  | 'password_change'
+  | 'password_reset'
+  | 'account_deactivated'
+  | 'account_deletion';
+
+/**
+ * @type DataExportFormat
+ * @description Type for personal data export archive formats
+ */
+export type DataExportFormat = 'json' | 'zip';
+
+/**
+ * @type DataExportStatus
+ * @description Type for the processing status of a personal data export
+ */
+export type DataExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * @type ActivityEventType
+ * @description Type for the movie interactions that count towards trending
+ */
+export type ActivityEventType = 'view' | 'rating' | 'favorite' | 'comment';
+
+/**
+ * @type CommentReactionType
+ * @description Type for the reactions users can leave on a comment
+ */
+export type CommentReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry';
+
+/**
+ * @type CommentReportReason
+ * @description Type for the reasons a comment can be reported
+ */
+export type CommentReportReason = 'spam' | 'harassment' | 'hate_speech' | 'spoilers' | 'misinformation' | 'other';
+
+/**
+ * @type CommentReportStatus
+ * @description Type for the review status of a comment report
+ */
+export type CommentReportStatus = 'open' | 'resolved';
+
+/**
+ * @type AuditAction
+ * @description Type for the administrative actions recorded in the audit log
+ */
+export type AuditAction =
+  | 'user.deactivate'
+  | 'user.reactivate'
+  | 'user.force_password_reset'
+  | 'user.role_change'
+  | 'user.ban'
+  | 'comment.approve'
+  | 'comment.remove';
+
 /**
  * @type MovieGenre
  * @description Type for movie genres
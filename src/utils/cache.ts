@@ -0,0 +1,91 @@
+/**
+ * @fileoverview In-memory cache with per-entry expiry
+ * @description Small process-local cache for results that are expensive to compute and may be
+ * slightly stale. Entries expire after a fixed time and the oldest entries are evicted once the
+ * cache is full. Each process keeps its own copy, so only use it where a short expiry is an
+ * acceptable bound on how stale a replica's results can be.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+/**
+ * @interface ICacheOptions
+ * @description Options for a TtlCache
+ */
+export interface ICacheOptions {
+  ttlMs: number; // How long an entry stays valid
+  maxEntries: number; // Entries kept before the oldest ones are evicted
+}
+
+/**
+ * @class TtlCache
+ * @description Key-value cache whose entries expire after a fixed time
+ */
+export class TtlCache<T> {
+  private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+
+  /**
+   * @constructor
+   * @param {ICacheOptions} options - Expiry and size limits
+   */
+  constructor(private readonly options: ICacheOptions) {}
+
+  /**
+   * @method get
+   * @description Returns the cached value for a key
+   * @param {string} key - Cache key
+   * @returns {T | undefined} Value, or undefined when missing or expired
+   */
+  public get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * @method set
+   * @description Stores a value, evicting the oldest entry when the cache is full
+   * @param {string} key - Cache key
+   * @param {T} value - Value to cache
+   */
+  public set(key: string, value: T): void {
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.options.ttlMs });
+  }
+
+  /**
+   * @method delete
+   * @description Removes the entry for a key
+   * @param {string} key - Cache key
+   */
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * @method clear
+   * @description Removes every entry
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Shared pagination helpers for list endpoints
+ * @description Supports two modes:
+ * - Page mode (`?page=&limit=`): skip/limit plus a total count, kept for backwards compatibility
+ * - Cursor mode (`?after=` or `?before=`): keyset pagination on the sort field and `_id`, which
+ *   stays fast on deep pages and does not skip or repeat items when documents are inserted
+ *   between requests. Cursors are opaque strings returned as `nextCursor` / `prevCursor`.
+ * Both modes return cursors, so a client can start with page 1 and continue with `after`.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-24
+ */
+
+import { Model, Query, SortOrder } from 'mongoose';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * @interface ICursor
+ * @description Decoded cursor: position of an item in a sorted list
+ */
+interface ICursor {
+  field: string;
+  order: 1 | -1;
+  value: unknown;
+  id: string;
+}
+
+/**
+ * @interface IPaginationParams
+ * @description Parsed pagination query parameters
+ */
+export interface IPaginationParams {
+  limit: number;
+  page: number;
+  cursor: ICursor | null;
+  direction: 'after' | 'before' | null;
+}
+
+/**
+ * @interface ISortSpec
+ * @description Sort of a paginated list; `_id` is always added as tie-breaker
+ */
+export interface ISortSpec {
+  field: string;
+  order: 1 | -1;
+}
+
+/**
+ * @interface IPaginatedResult
+ * @description A page of items. `total`, `page` and `totalPages` are only set in page mode.
+ */
+export interface IPaginatedResult<T> {
+  items: T[];
+  limit: number;
+  total?: number;
+  page?: number;
+  totalPages?: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * @function parsePagination
+ * @description Parses `page`, `limit`, `after` and `before` from a query string
+ * @param {Record<string, any>} query - Request query
+ * @param {Object} options - Defaults
+ * @param {number} options.defaultLimit - Limit when none is given (default: 12)
+ * @param {number} options.maxLimit - Highest allowed limit (default: 100)
+ * @returns {IPaginationParams} Parsed parameters
+ * @throws {Error} 400 for invalid numbers, an invalid cursor, or both `after` and `before`
+ */
+export const parsePagination = (
+  query: Record<string, any>,
+  { defaultLimit = 12, maxLimit = 100 }: { defaultLimit?: number; maxLimit?: number } = {}
+): IPaginationParams => {
+  const page = query.page !== undefined ? parseInt(query.page as string, 10) : 1;
+  const limit = query.limit !== undefined ? parseInt(query.limit as string, 10) : defaultLimit;
+
+  if (isNaN(page) || isNaN(limit) || page < 1 || limit < 1 || limit > maxLimit) {
+    throw createError('Invalid pagination parameters', 400);
+  }
+
+  const { after, before } = query;
+
+  if (after && before) {
+    throw createError('Use either "after" or "before", not both', 400);
+  }
+
+  const encoded = after || before;
+
+  return {
+    limit,
+    page,
+    cursor: encoded ? decodeCursor(String(encoded)) : null,
+    direction: after ? 'after' : before ? 'before' : null,
+  };
+};
+
+/**
+ * @function paginate
+ * @description Runs a paginated find in page or cursor mode
+ * @param {Model<any>} model - Model to query
+ * @param {Record<string, any>} filter - Query filter
+ * @param {ISortSpec} sort - Sort field and order; the field should be indexed together with the
+ * filter fields. Documents where it is null or missing sort as MongoDB sorts them, before every
+ * other value in ascending order and after them in descending order.
+ * @param {IPaginationParams} params - Parsed pagination parameters
+ * @param {Function} customize - Adds projections or populates to the query (optional)
+ * @returns {Promise<IPaginatedResult<T>>} Page of lean documents
+ * @throws {Error} 400 when the cursor was issued for a different sort
+ */
+export const paginate = async <T = any>(
+  model: Model<T>,
+  filter: Record<string, any>,
+  sort: ISortSpec,
+  params: IPaginationParams,
+  customize: (query: Query<any[], any>) => Query<any[], any> = (query) => query
+): Promise<IPaginatedResult<T>> => {
+  const { field, order } = sort;
+  const { limit } = params;
+  const sortSpec: Record<string, SortOrder> = { [field]: order, _id: order };
+
+  const cursorOf = (item: any): string =>
+    encodeCursor({ field, order, value: item[field] ?? null, id: item._id.toString() });
+
+  if (!params.cursor || !params.direction) {
+    const { page } = params;
+
+    const [items, total] = await Promise.all([
+      customize(model.find(filter).sort(sortSpec).skip((page - 1) * limit).limit(limit)).lean<T[]>(),
+      model.countDocuments(filter),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      items,
+      limit,
+      total,
+      page,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1,
+      nextCursor: page < totalPages && items.length > 0 ? cursorOf(items[items.length - 1]) : null,
+      prevCursor: page > 1 && items.length > 0 ? cursorOf(items[0]) : null,
+    };
+  }
+
+  const { cursor, direction } = params;
+
+  if (cursor.field !== field || cursor.order !== order) {
+    throw createError('Cursor does not match the requested sort order', 400);
+  }
+
+  // Walking backwards means reading in reverse sort order, then restoring the order
+  const backwards = direction === 'before';
+  const operator = (order === -1) !== backwards ? '$lt' : '$gt';
+  const cursorFilter = buildCursorFilter(field, operator, cursor);
+  const querySort: Record<string, SortOrder> = backwards
+    ? { [field]: order === 1 ? -1 : 1, _id: order === 1 ? -1 : 1 }
+    : sortSpec;
+
+  // One extra item tells whether there is more in the walking direction
+  const fetched = await customize(
+    model.find({ $and: [filter, cursorFilter] }).sort(querySort).limit(limit + 1)
+  ).lean<T[]>();
+
+  const hasMore = fetched.length > limit;
+  const items = fetched.slice(0, limit);
+  if (backwards) {
+    items.reverse();
+  }
+
+  // The cursor item itself lies on the side we came from
+  const hasNextPage = backwards || hasMore;
+  const hasPrevPage = !backwards || hasMore;
+
+  return {
+    items,
+    limit,
+    hasNextPage,
+    hasPrevPage,
+    nextCursor: hasNextPage && items.length > 0 ? cursorOf(items[items.length - 1]) : null,
+    prevCursor: hasPrevPage && items.length > 0 ? cursorOf(items[0]) : null,
+  };
+};
+
+/**
+ * @function buildCursorFilter
+ * @description Matches the items beyond a cursor when walking towards higher (`$gt`) or lower
+ * (`$lt`) values. MongoDB sorts null and missing values below every other value, but `$gt`/`$lt`
+ * never match them, so they are matched explicitly with `{ field: null }` (null or missing).
+ * @param {string} field - Sort field
+ * @param {'$gt' | '$lt'} operator - Walking direction
+ * @param {ICursor} cursor - Position to continue from
+ * @returns {Record<string, any>} Query filter
+ */
+const buildCursorFilter = (field: string, operator: '$gt' | '$lt', cursor: ICursor): Record<string, any> => {
+  const sameValue = { [field]: cursor.value, _id: { [operator]: cursor.id } };
+
+  if (cursor.value === null) {
+    // Every non-null value lies above the null ones, none below
+    return operator === '$gt' ? { $or: [sameValue, { [field]: { $ne: null } }] } : sameValue;
+  }
+
+  return {
+    $or: [
+      { [field]: { [operator]: cursor.value } },
+      sameValue,
+      ...(operator === '$lt' ? [{ [field]: null }] : []),
+    ],
+  };
+};
+
+/**
+ * @function formatPagination
+ * @description Builds the `pagination` object of a list response, using the resource name for
+ * the count fields like the existing endpoints (e.g. `totalRatings`, `ratingsPerPage`)
+ * @param {IPaginatedResult<unknown>} result - Paginated result
+ * @param {string} resourceName - Plural resource name in camelCase, e.g. "ratings"
+ * @returns {Record<string, any>} Pagination metadata
+ */
+export const formatPagination = (
+  result: IPaginatedResult<unknown>,
+  resourceName: string
+): Record<string, any> => {
+  const capitalized = resourceName.charAt(0).toUpperCase() + resourceName.slice(1);
+
+  return {
+    ...(result.page !== undefined && {
+      currentPage: result.page,
+      totalPages: result.totalPages,
+      [`total${capitalized}`]: result.total,
+    }),
+    [`${resourceName}PerPage`]: result.limit,
+    hasNextPage: result.hasNextPage,
+    hasPrevPage: result.hasPrevPage,
+    nextCursor: result.nextCursor,
+    prevCursor: result.prevCursor,
+  };
+};
+
+/**
+ * @function encodeCursor
+ * @description Serializes a cursor as an opaque URL-safe string
+ * @param {ICursor} cursor - Cursor
+ * @returns {string} Encoded cursor
+ */
+const encodeCursor = (cursor: ICursor): string => {
+  const value = cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value;
+  return Buffer.from(JSON.stringify([cursor.field, cursor.order, value, cursor.id])).toString('base64url');
+};
+
+/**
+ * @function decodeCursor
+ * @description Parses a cursor produced by encodeCursor. Values are cast by Mongoose according to
+ * the schema, so dates travel as ISO strings; items without a sort value carry null.
+ * @param {string} encoded - Encoded cursor
+ * @returns {ICursor} Cursor
+ * @throws {Error} 400 when the cursor is malformed
+ */
+const decodeCursor = (encoded: string): ICursor => {
+  try {
+    const [field, order, value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+
+    // Only primitive values or null: an object could smuggle query operators into the filter
+    if (
+      typeof field !== 'string' ||
+      (order !== 1 && order !== -1) ||
+      (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) ||
+      typeof id !== 'string' ||
+      !/^[0-9a-fA-F]{24}$/.test(id)
+    ) {
+      throw new Error('Malformed cursor');
+    }
+
+    return { field, order, value, id };
+  } catch {
+    throw createError('Invalid pagination cursor', 400);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Bayesian weighted rating used to rank movies
+ * @description A plain average favours movies with few votes: five 5-star ratings beat 4.8 over
+ * thousands. The weighted rating (the formula IMDb uses for its top lists) blends a movie's
+ * average with a prior mean, giving the movie's own votes more weight the more of them it has:
+ *
+ *   WR = (v / (v + m)) * R + (m / (v + m)) * C
+ *
+ * where R is the movie's average, v its number of ratings, C the prior mean (RATING_PRIOR_MEAN)
+ * and m the number of votes at which both count equally (RATING_MIN_VOTES).
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { environment } from '../config/environment';
+
+/**
+ * @function calculateWeightedRating
+ * @description Computes the weighted rating of a movie
+ * @param {number} average - Average rating of the movie (0 when unrated)
+ * @param {number} total - Number of ratings
+ * @returns {number} Weighted rating, rounded to 3 decimals
+ * @example
+ * // With RATING_PRIOR_MEAN=3 and RATING_MIN_VOTES=10
+ * calculateWeightedRating(5, 5);    // 3.667
+ * calculateWeightedRating(4.8, 2000); // 4.791
+ */
+export const calculateWeightedRating = (average: number, total: number): number => {
+  const priorMean = environment.get('ratingPriorMean');
+  const minVotes = environment.get('ratingMinVotes');
+
+  const weighted = (total / (total + minVotes)) * average + (minVotes / (total + minVotes)) * priorMean;
+
+  return Math.round(weighted * 1000) / 1000;
+};
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Entry point for the Movies Platform background worker
+ * @description Runs the scheduled and heavy jobs in a separate process, so they run once and not
+ * in every API replica: the purge of accounts whose deletion grace period has ended
+ * (accountPurgeJob), the data export recovery and cleanup (dataExportJob) and the similarity model
+ * rebuild (similarityJob), which streams every rating through the database.
+ * Run a single worker instance next to the API instances.
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ *
+ * @example
+ * // Development
+ * npm run dev:worker
+ *
+ * // Production (after npm run build)
+ * npm run start:worker
+ */
+
+import { connectToDatabase, disconnectFromDatabase } from './config/database';
+import { environment } from './config/environment';
+import { initializeI18n } from './config/i18n';
+import { configureCloudinary } from './config/cloudinary';
+import { accountPurgeJob } from './jobs/accountPurgeJob';
+import { dataExportJob } from './jobs/dataExportJob';
+import { similarityJob } from './jobs/similarityJob';
+
+/**
+ * @function shutdown
+ * @description Stops the jobs and closes the database connection
+ * @param {string} signal - Signal that triggered the shutdown
+ * @returns {Promise<void>}
+ */
+async function shutdown(signal: string): Promise<void> {
+  console.log(`\n${signal} received. Shutting down worker...`);
+  accountPurgeJob.stop();
+  dataExportJob.stop();
+  similarityJob.stop();
+  await disconnectFromDatabase();
+  process.exit(0);
+}
+
+/**
+ * @function startWorker
+ * @description Connects to the database and schedules the background jobs
+ * @returns {Promise<void>}
+ */
+async function startWorker(): Promise<void> {
+  console.log('Starting Movies Platform worker...\n');
+
+  // Emails sent by the jobs are translated
+  await initializeI18n();
+
+  // Purged accounts have their avatar removed from Cloudinary
+  configureCloudinary();
+
+  console.log('Connecting to database...');
+  await connectToDatabase(environment.get('nodeEnv'));
+
+  // The open database connection keeps the process running between job runs
+  console.log('\nStarting background jobs...');
+  accountPurgeJob.start();
+  dataExportJob.start();
+  similarityJob.start();
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+startWorker().catch((error) => {
+  console.error('Failed to start worker:', error);
+  process.exit(1);
+});
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Tests for the authentication controller
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { authController } from '../../src/controllers/authController';
+import { Session, ISessionDocument } from '../../src/models/Session';
+import { User, IUserDocument } from '../../src/models/User';
+import { authManager } from '../../src/middleware/auth';
+import { totpService } from '../../src/services/totpService';
+import { sessionService } from '../../src/services/sessionService';
+import { emailService } from '../../src/services/emailService';
+import { IAuthenticatedRequest } from '../../src/types';
+
+const USER_ID = '64a000000000000000000001';
+const CURRENT_SESSION_ID = '64b000000000000000000001';
+const OTHER_SESSION_ID = '64b000000000000000000002';
+
+/**
+ * Builds a request authenticated through the current session
+ */
+const buildAuthenticatedRequest = (
+  params: Record<string, string> = {},
+  body: Record<string, unknown> = {}
+): IAuthenticatedRequest =>
+  ({
+    user: { userId: USER_ID, email: 'jane@example.com', role: 'user', sessionId: CURRENT_SESSION_ID },
+    params,
+    headers: {},
+    body,
+    get: () => undefined,
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Builds a response object recording the status code and headers
+ */
+const buildResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock; set: jest.Mock };
+};
+
+/**
+ * Runs a handler and returns the response and the error passed to next, if any
+ */
+const run = async (
+  handler: (req: IAuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: IAuthenticatedRequest
+) => {
+  const res = buildResponse();
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await handler(req, res, next);
+
+  return { res, error: next.mock.calls[0]?.[0] as any };
+};
+
+describe('authController sessions', () => {
+  it('lists the active sessions and marks the current one', async () => {
+    const sessions = [CURRENT_SESSION_ID, OTHER_SESSION_ID].map(
+      (id) =>
+        new Session({
+          _id: id,
+          userId: USER_ID,
+          refreshTokenHash: 'hash',
+          userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36',
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        })
+    );
+    const findActive = jest
+      .spyOn(Session, 'findActiveByUser')
+      .mockResolvedValue(sessions as ISessionDocument[]);
+
+    const { res } = await run(authController.getSessions, buildAuthenticatedRequest());
+
+    expect(findActive).toHaveBeenCalledWith(USER_ID);
+    const listed = res.json.mock.calls[0][0].data.sessions;
+    expect(listed.map((session: any) => [session.id, session.current])).toEqual([
+      [CURRENT_SESSION_ID, true],
+      [OTHER_SESSION_ID, false],
+    ]);
+    expect(listed[0].device).toBe('Chrome on Windows');
+  });
+
+  it('signs out a session of the current user', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue({ _id: OTHER_SESSION_ID } as any);
+    const revoke = jest.spyOn(Session, 'revokeSession').mockResolvedValue(true);
+
+    const { res, error } = await run(
+      authController.revokeSession,
+      buildAuthenticatedRequest({ sessionId: OTHER_SESSION_ID })
+    );
+
+    expect(error).toBeUndefined();
+    expect(Session.findOne).toHaveBeenCalledWith({ _id: OTHER_SESSION_ID, userId: USER_ID, revokedAt: null });
+    expect(revoke).toHaveBeenCalledWith(OTHER_SESSION_ID, 'revoked_by_user');
+    expect(res.json.mock.calls[0][0].data).toEqual({ sessionId: OTHER_SESSION_ID, current: false });
+  });
+
+  it('answers 404 for sessions of other users', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    const revoke = jest.spyOn(Session, 'revokeSession');
+
+    const { error } = await run(
+      authController.revokeSession,
+      buildAuthenticatedRequest({ sessionId: OTHER_SESSION_ID })
+    );
+
+    expect(error.statusCode).toBe(404);
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it('signs out every other session but keeps the current one', async () => {
+    const revokeAll = jest.spyOn(Session, 'revokeUserSessions').mockResolvedValue(2);
+
+    const { res } = await run(authController.revokeOtherSessions, buildAuthenticatedRequest());
+
+    expect(revokeAll).toHaveBeenCalledWith(USER_ID, 'revoked_by_user', CURRENT_SESSION_ID);
+    expect(res.json.mock.calls[0][0].data).toEqual({ revokedCount: 2 });
+  });
+});
+
+describe('authController.updateProfile', () => {
+  /**
+   * Stubs the lookup of a verified, active user and the save of its changes
+   */
+  const mockFindUser = () => {
+    const user = User.hydrate({
+      _id: USER_ID,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      age: 30,
+      isActive: true,
+      emailVerified: true,
+    });
+    jest.spyOn(user, 'save').mockResolvedValue(user);
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    return user;
+  };
+
+  it('requires the new email address to be verified again', async () => {
+    const user = mockFindUser();
+    const sendVerification = jest.spyOn(emailService, 'sendEmailVerificationEmail').mockResolvedValue(true);
+
+    const { res, error } = await run(
+      authController.updateProfile,
+      buildAuthenticatedRequest({}, { email: 'jane.doe@example.com' })
+    );
+
+    expect(error).toBeUndefined();
+    expect(user.emailVerified).toBe(false);
+    expect(user.emailVerificationToken).toBeDefined();
+    expect(sendVerification).toHaveBeenCalledWith(
+      'jane.doe@example.com',
+      'Jane',
+      expect.stringContaining('/verify-email?token='),
+      'en'
+    );
+    expect(res.json.mock.calls[0][0].data.emailVerificationSent).toBe(true);
+  });
+
+  it('keeps the verification when the email address does not change', async () => {
+    const user = mockFindUser();
+    const sendVerification = jest.spyOn(emailService, 'sendEmailVerificationEmail');
+
+    const { res } = await run(authController.updateProfile, buildAuthenticatedRequest({}, { firstName: 'Janet' }));
+
+    expect(user.emailVerified).toBe(true);
+    expect(sendVerification).not.toHaveBeenCalled();
+    expect(res.json.mock.calls[0][0].data.emailVerificationSent).toBe(false);
+  });
+});
+
+describe('authController.verifyTwoFactor', () => {
+  let secret: string;
+  let user: IUserDocument;
+  let createSession: jest.SpyInstance;
+
+  /**
+   * Builds an unsaved user with two-factor authentication enabled
+   */
+  const buildTwoFactorUser = (): IUserDocument =>
+    new User({
+      _id: USER_ID,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      password: 'hashed-password',
+      isActive: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+    });
+
+  /**
+   * Builds a POST /api/auth/2fa/verify request with a valid challenge token
+   */
+  const buildVerifyRequest = (code: string): IAuthenticatedRequest =>
+    ({
+      body: { challengeToken: authManager.generateTwoFactorChallengeToken(USER_ID), code },
+      headers: {},
+      ip: '127.0.0.1',
+      get: () => undefined,
+    }) as unknown as IAuthenticatedRequest;
+
+  beforeEach(() => {
+    // Keep every code of a test in the same 30 second step
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    secret = totpService.generateSecret();
+    user = buildTwoFactorUser();
+
+    jest.spyOn(User, 'findOne').mockReturnValue({ select: jest.fn().mockResolvedValue(user) } as any);
+    jest.spyOn(User.prototype, 'save').mockImplementation(function (this: IUserDocument) {
+      return Promise.resolve(this);
+    });
+    // Apply the atomic lockout updates to the loaded user as if it were the stored one
+    jest.spyOn(User, 'findOneAndUpdate').mockImplementation(((filter: any, update: any) => {
+      const minAttempts = filter.failedLoginAttempts?.$gte;
+      if (minAttempts !== undefined && (user.failedLoginAttempts || 0) < minAttempts) {
+        return Promise.resolve(null);
+      }
+
+      user.set(update.$set || {});
+      for (const [field, amount] of Object.entries<number>(update.$inc || {})) {
+        user.set(field, (user.get(field) || 0) + amount);
+      }
+
+      return Promise.resolve({
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockUntil: user.lockUntil,
+        lockCount: user.lockCount,
+      });
+    }) as any);
+    jest.spyOn(emailService, 'sendAccountLockedEmail').mockResolvedValue(true);
+    createSession = jest.spyOn(sessionService, 'createSession').mockResolvedValue({
+      accessToken: 'access-token',
+      refreshToken: 'session.secret',
+      expiresIn: '15m',
+      refreshTokenExpiresAt: new Date(),
+    });
+  });
+
+  const verify = (code: string) => run(authController.verifyTwoFactor, buildVerifyRequest(code));
+
+  it('accepts a valid code once and remembers its time step', async () => {
+    const { res, error } = await verify(totpService.generateCode(secret));
+
+    expect(error).toBeUndefined();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(user.twoFactorLastUsedStep).toBe(Math.floor(Date.now() / 1000 / 30));
+    expect(createSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects the same code when it is replayed', async () => {
+    const code = totpService.generateCode(secret);
+
+    await verify(code);
+    const { res, error } = await verify(code);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(error.statusCode).toBe(401);
+    expect(createSession).toHaveBeenCalledTimes(1);
+    expect(user.failedLoginAttempts).toBe(1);
+  });
+
+  it('rejects a code from a step before the last one used', async () => {
+    await verify(totpService.generateCode(secret));
+
+    // Still inside the drift window, but older than the code just used
+    const { error } = await verify(totpService.generateCode(secret, Date.now() - 30 * 1000));
+
+    expect(error.statusCode).toBe(401);
+    expect(createSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('locks the account after too many wrong codes', async () => {
+    let result = await verify('000000');
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      expect(result.error.statusCode).toBe(401);
+      result = await verify('000000');
+    }
+
+    expect(result.error.statusCode).toBe(423);
+    expect(result.res.set).toHaveBeenCalledWith('Retry-After', expect.any(String));
+    expect(emailService.sendAccountLockedEmail).toHaveBeenCalledTimes(1);
+
+    // Even a valid code is refused while the lock lasts
+    const locked = await verify(totpService.generateCode(secret));
+    expect(locked.error.statusCode).toBe(423);
+    expect(createSession).not.toHaveBeenCalled();
+  });
+});
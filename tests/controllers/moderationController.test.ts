@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Tests for the moderation decisions on reported comments
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { moderationController } from '../../src/controllers/moderationController';
+import Comment from '../../src/models/Comment';
+import { CommentReport } from '../../src/models/CommentReport';
+import { User } from '../../src/models/User';
+import { Session } from '../../src/models/Session';
+import { Movie } from '../../src/models/Movie';
+import { auditService } from '../../src/services/auditService';
+import { emailService } from '../../src/services/emailService';
+import { IAuthenticatedRequest } from '../../src/types';
+
+const MODERATOR_ID = '64a000000000000000000001';
+const AUTHOR_ID = '64a000000000000000000002';
+const COMMENT_ID = '64c000000000000000000001';
+const MOVIE_ID = '64e000000000000000000001';
+
+/**
+ * Builds a moderation request on the reported comment
+ */
+const buildRequest = (body: Record<string, unknown> = {}): IAuthenticatedRequest =>
+  ({
+    user: { userId: MODERATOR_ID, email: 'mod@example.com', role: 'moderator' },
+    params: { commentId: COMMENT_ID },
+    body,
+    headers: {},
+    get: () => undefined,
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Runs a handler and returns the response and the error passed to next, if any
+ */
+const run = async (
+  handler: (req: IAuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: IAuthenticatedRequest
+) => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await handler.call(moderationController, req, res, next);
+
+  return { res, error: next.mock.calls[0]?.[0] as any };
+};
+
+/**
+ * Stubs the reported comment, its author and the steps of a decision
+ */
+const mockDecision = () => {
+  const comment = new Comment({
+    _id: COMMENT_ID,
+    userId: AUTHOR_ID,
+    movieId: MOVIE_ID,
+    content: 'Spam, spam, spam',
+    reportCount: 3,
+    hidden: true,
+  });
+  const author = User.hydrate({
+    _id: AUTHOR_ID,
+    firstName: 'Joe',
+    email: 'joe@example.com',
+    role: 'user',
+    isActive: true,
+  });
+  jest.spyOn(author, 'save').mockResolvedValue(author);
+
+  jest.spyOn(Comment, 'findById').mockResolvedValue(comment);
+  jest.spyOn(User, 'findById').mockImplementation((() => {
+    const query: any = Promise.resolve(author);
+    query.select = jest.fn().mockResolvedValue(author);
+    return query;
+  }) as any);
+  jest.spyOn(Movie, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue({ title: 'Heat' }) } as any);
+
+  return {
+    comment,
+    author,
+    audit: jest.spyOn(auditService, 'record').mockResolvedValue({} as any),
+    resolve: jest.spyOn(CommentReport, 'resolveOpenReports').mockResolvedValue(3),
+    remove: jest.spyOn(Comment, 'removeComment').mockResolvedValue('deleted'),
+    approve: jest.spyOn(Comment, 'updateOne').mockResolvedValue({} as any),
+    revoke: jest.spyOn(Session, 'revokeUserSessions').mockResolvedValue(2),
+    notify: jest.spyOn(emailService, 'sendCommentRemovedEmail').mockResolvedValue(true),
+  };
+};
+
+describe('moderationController', () => {
+  it('records an approval, closes the reports and shows the comment again', async () => {
+    const mocks = mockDecision();
+
+    const { res, error } = await run(moderationController.approveComment, buildRequest());
+
+    expect(error).toBeUndefined();
+    expect(mocks.audit).toHaveBeenCalledWith(expect.anything(), 'comment.approve', 'comment', COMMENT_ID, {
+      reason: null,
+      authorId: AUTHOR_ID,
+      openReports: 3,
+      wasHidden: true,
+    });
+    expect(mocks.resolve).toHaveBeenCalledWith(COMMENT_ID, 'approved', MODERATOR_ID);
+    expect(mocks.approve).toHaveBeenCalledWith(
+      { _id: mocks.comment._id },
+      { $set: expect.objectContaining({ reportCount: 0, hidden: false, approvedAt: expect.any(Date) }) },
+      { timestamps: false }
+    );
+    expect(res.json.mock.calls[0][0].data.resolvedReports).toBe(3);
+  });
+
+  it('requires a reason to remove a comment', async () => {
+    const mocks = mockDecision();
+
+    const { error } = await run(moderationController.removeComment, buildRequest());
+
+    expect(error.statusCode).toBe(400);
+    expect(mocks.remove).not.toHaveBeenCalled();
+  });
+
+  it('records the removed content before removing it and notifies the author', async () => {
+    const mocks = mockDecision();
+
+    const { res, error } = await run(moderationController.removeComment, buildRequest({ reason: 'Spam' }));
+
+    expect(error).toBeUndefined();
+    expect(mocks.audit).toHaveBeenCalledWith(
+      expect.anything(),
+      'comment.remove',
+      'comment',
+      COMMENT_ID,
+      expect.objectContaining({ reason: 'Spam', authorId: AUTHOR_ID, content: 'Spam, spam, spam' })
+    );
+    expect(mocks.audit.mock.invocationCallOrder[0]).toBeLessThan(mocks.remove.mock.invocationCallOrder[0]);
+    expect(mocks.notify).toHaveBeenCalledWith('joe@example.com', 'Joe', 'Heat', 'Spam', expect.any(String));
+    expect(res.json.mock.calls[0][0].data).toMatchObject({
+      resolvedReports: 3,
+      tombstoned: false,
+      authorNotified: true,
+    });
+  });
+
+  it('bans the author after recording the decision and signs them out everywhere', async () => {
+    const mocks = mockDecision();
+
+    const { error } = await run(moderationController.banUser, buildRequest({ reason: 'Repeated spam' }));
+
+    expect(error).toBeUndefined();
+    expect(mocks.audit.mock.calls.map(([, action]) => action)).toEqual(['user.ban', 'comment.remove']);
+    expect(mocks.author.isActive).toBe(false);
+    expect(mocks.revoke).toHaveBeenCalledWith(AUTHOR_ID, 'account_deactivated');
+    expect(mocks.audit.mock.invocationCallOrder[0]).toBeLessThan(mocks.revoke.mock.invocationCallOrder[0]);
+  });
+
+  it('does not ban moderators or admins', async () => {
+    const mocks = mockDecision();
+    mocks.author.role = 'moderator';
+
+    const { error } = await run(moderationController.banUser, buildRequest({ reason: 'Repeated spam' }));
+
+    expect(error.statusCode).toBe(403);
+    expect(mocks.audit).not.toHaveBeenCalled();
+    expect(mocks.remove).not.toHaveBeenCalled();
+  });
+});
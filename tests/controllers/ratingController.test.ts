@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Tests for helpfulness votes on reviews
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { ratingController } from '../../src/controllers/ratingController';
+import { Rating } from '../../src/models/Rating';
+import { ReviewVote } from '../../src/models/ReviewVote';
+import { IAuthenticatedRequest } from '../../src/types';
+
+const VOTER_ID = '64a000000000000000000001';
+const AUTHOR_ID = '64a000000000000000000002';
+const RATING_ID = '64d000000000000000000001';
+
+/**
+ * Builds a vote request by the given user
+ */
+const buildRequest = (userId: string, body: Record<string, unknown> = {}): IAuthenticatedRequest =>
+  ({
+    user: { userId, email: 'jane@example.com', role: 'user' },
+    params: { ratingId: RATING_ID },
+    body,
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Runs a handler and returns the response body and the error passed to next, if any
+ */
+const run = async (
+  handler: (req: IAuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: IAuthenticatedRequest
+) => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await handler.call(ratingController, req, res as Response, next);
+
+  return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] as any };
+};
+
+/**
+ * Stubs the review being voted on and the counters read back after the vote
+ */
+const mockReview = () => {
+  const review = new Rating({
+    _id: RATING_ID,
+    userId: AUTHOR_ID,
+    movieId: '64e000000000000000000001',
+    rating: 4,
+    review: { body: 'Tense from start to finish.', language: 'en' },
+  });
+  const counters = { helpfulVotes: 3, unhelpfulVotes: 1, helpfulness: 0.3006 };
+
+  jest
+    .spyOn(Rating, 'findById')
+    .mockReturnValueOnce(Promise.resolve(review) as any)
+    .mockReturnValue({ select: () => ({ lean: () => Promise.resolve(counters) }) } as any);
+
+  return {
+    upsert: jest.spyOn(ReviewVote, 'findOneAndUpdate').mockResolvedValue({} as any),
+    recount: jest.spyOn(ReviewVote, 'updateReviewCounts').mockResolvedValue(),
+  };
+};
+
+describe('ratingController.voteReview', () => {
+  it('records the vote once per user and recounts the review', async () => {
+    const mocks = mockReview();
+
+    const { body, error } = await run(ratingController.voteReview, buildRequest(VOTER_ID, { helpful: true }));
+
+    expect(error).toBeUndefined();
+    expect(mocks.upsert).toHaveBeenCalledWith(
+      { ratingId: RATING_ID, userId: VOTER_ID },
+      { $set: { helpful: true } },
+      expect.objectContaining({ upsert: true })
+    );
+    expect(mocks.recount).toHaveBeenCalledWith(RATING_ID);
+    expect(body.data).toEqual({
+      reviewId: RATING_ID,
+      myVote: 'helpful',
+      helpfulVotes: 3,
+      unhelpfulVotes: 1,
+      helpfulness: 0.3006,
+    });
+  });
+
+  it('does not let authors vote on their own review', async () => {
+    const mocks = mockReview();
+
+    const { error } = await run(ratingController.voteReview, buildRequest(AUTHOR_ID, { helpful: true }));
+
+    expect(error.statusCode).toBe(403);
+    expect(mocks.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects votes that are not true or false', async () => {
+    const { error } = await run(ratingController.voteReview, buildRequest(VOTER_ID, { helpful: 'yes' }));
+
+    expect(error.statusCode).toBe(400);
+  });
+});
+
+describe('ratingController.removeReviewVote', () => {
+  it('answers 404 when the user has not voted', async () => {
+    jest.spyOn(ReviewVote, 'findOneAndDelete').mockResolvedValue(null);
+    const recount = jest.spyOn(ReviewVote, 'updateReviewCounts');
+
+    const { error } = await run(ratingController.removeReviewVote, buildRequest(VOTER_ID));
+
+    expect(error.statusCode).toBe(404);
+    expect(recount).not.toHaveBeenCalled();
+  });
+});
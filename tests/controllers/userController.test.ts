@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Tests for the admin user management controller
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { userController } from '../../src/controllers/userController';
+import { User, IUserDocument } from '../../src/models/User';
+import { AuditLog } from '../../src/models/AuditLog';
+import { Session } from '../../src/models/Session';
+import { IAuthenticatedRequest } from '../../src/types';
+
+const ADMIN_ID = '64a000000000000000000001';
+const TARGET_ID = '64a000000000000000000002';
+
+/**
+ * Builds a request of the admin acting on a user
+ */
+const buildRequest = (targetId: string, body: Record<string, unknown> = {}): IAuthenticatedRequest =>
+  ({
+    user: { userId: ADMIN_ID, email: 'admin@example.com', role: 'admin' },
+    params: { id: targetId },
+    body,
+    headers: {},
+    ip: '127.0.0.1',
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Builds a response object recording the status code
+ */
+const buildResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+/**
+ * Runs a handler bound to the controller and returns the response and the error passed to next, if any
+ */
+const run = async (
+  handler: (req: IAuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: IAuthenticatedRequest
+) => {
+  const res = buildResponse();
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await handler.call(userController, req, res, next);
+
+  return { res, error: next.mock.calls[0]?.[0] as any };
+};
+
+describe('userController admin actions', () => {
+  let target: IUserDocument;
+  let calls: string[];
+  let save: jest.SpyInstance;
+
+  beforeEach(() => {
+    calls = [];
+    target = User.hydrate({
+      _id: TARGET_ID,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      role: 'user',
+      isActive: true,
+    });
+
+    jest.spyOn(User, 'findById').mockResolvedValue(target);
+    save = jest.spyOn(target, 'save').mockImplementation((() => {
+      calls.push('save');
+      return Promise.resolve(target);
+    }) as any);
+    jest.spyOn(Session, 'revokeUserSessions').mockImplementation(async () => {
+      calls.push('revokeSessions');
+      return 1;
+    });
+  });
+
+  it('records the deactivation before deactivating and signing the user out', async () => {
+    const create = jest.spyOn(AuditLog, 'create').mockImplementation((async () => {
+      calls.push('audit');
+      return {};
+    }) as any);
+
+    const { res, error } = await run(
+      userController.deactivateUser,
+      buildRequest(TARGET_ID, { reason: 'spam' })
+    );
+
+    expect(error).toBeUndefined();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(calls).toEqual(['audit', 'save', 'revokeSessions']);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: ADMIN_ID,
+        action: 'user.deactivate',
+        targetType: 'user',
+        targetId: TARGET_ID,
+        details: { reason: 'spam' },
+      })
+    );
+    expect(target.isActive).toBe(false);
+    expect(Session.revokeUserSessions).toHaveBeenCalledWith(TARGET_ID, 'account_deactivated');
+  });
+
+  it('does not perform an action that could not be audited', async () => {
+    jest.spyOn(AuditLog, 'create').mockRejectedValue(new Error('write failed') as never);
+
+    const { error } = await run(userController.changeRole, buildRequest(TARGET_ID, { role: 'moderator' }));
+
+    expect(error.message).toBe('write failed');
+    expect(save).not.toHaveBeenCalled();
+    expect(target.role).toBe('user');
+  });
+
+  it('refuses to let admins deactivate themselves', async () => {
+    const create = jest.spyOn(AuditLog, 'create');
+    target.set('_id', ADMIN_ID);
+
+    const { error } = await run(userController.deactivateUser, buildRequest(ADMIN_ID));
+
+    expect(error.statusCode).toBe(400);
+    expect(create).not.toHaveBeenCalled();
+    expect(save).not.toHaveBeenCalled();
+  });
+});
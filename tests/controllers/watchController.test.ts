@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests for the watch progress controller
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { watchController } from '../../src/controllers/watchController';
+import { WatchProgress } from '../../src/models/WatchProgress';
+import { Movie } from '../../src/models/Movie';
+import { User } from '../../src/models/User';
+import { viewService } from '../../src/services/viewService';
+import { IAuthenticatedRequest } from '../../src/types';
+
+const USER_ID = '64a000000000000000000001';
+const MOVIE_ID = '64e000000000000000000001';
+
+/**
+ * Builds an authenticated PUT /api/movies/:id/progress request
+ */
+const buildRequest = (body: Record<string, unknown>): IAuthenticatedRequest =>
+  ({
+    user: { userId: USER_ID, email: 'jane@example.com', role: 'user' },
+    params: { id: MOVIE_ID },
+    query: {},
+    body,
+    ip: '203.0.113.7',
+    get: () => 'Firefox',
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Runs updateProgress and returns the response and the error passed to next, if any
+ */
+const updateProgress = async (body: Record<string, unknown>) => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await watchController.updateProgress(buildRequest(body), res as Response, next);
+
+  return { data: res.json.mock.calls[0]?.[0].data, error: next.mock.calls[0]?.[0] as any };
+};
+
+/**
+ * Stubs the lookup of the user's history setting
+ */
+const mockHistoryPaused = (historyPaused: boolean) =>
+  jest.spyOn(User, 'findById').mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ historyPaused }) }),
+  } as any);
+
+describe('watchController.updateProgress', () => {
+  let recordHeartbeat: jest.SpyInstance;
+
+  beforeEach(() => {
+    const movie = new Movie({ _id: MOVIE_ID, title: 'Heat', duration: 100, views: 0 });
+    jest.spyOn(Movie, 'findOne').mockResolvedValue(movie);
+    mockHistoryPaused(false);
+    recordHeartbeat = jest
+      .spyOn(viewService, 'recordHeartbeat')
+      .mockResolvedValue({ counted: false, reason: 'too_short', views: 0 });
+  });
+
+  it('saves the position and credits the heartbeat towards a view', async () => {
+    const updateOne = jest.spyOn(WatchProgress, 'updateOne').mockResolvedValue({} as any);
+
+    const { data, error } = await updateProgress({ position: 5500 });
+
+    expect(error).toBeUndefined();
+    expect(updateOne).toHaveBeenCalledWith(
+      { userId: USER_ID, movieId: MOVIE_ID },
+      { $set: expect.objectContaining({ position: 5500, duration: 6000, completed: true }) },
+      expect.objectContaining({ upsert: true })
+    );
+    expect(recordHeartbeat).toHaveBeenCalledWith(
+      expect.anything(),
+      { userId: USER_ID, ip: '203.0.113.7', userAgent: 'Firefox' },
+      5500
+    );
+    expect(data).toMatchObject({ percentage: 92, completed: true, viewCounted: false });
+  });
+
+  it('updates the entry a concurrent first heartbeat created instead of failing', async () => {
+    const updateOne = jest
+      .spyOn(WatchProgress, 'updateOne')
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }))
+      .mockResolvedValueOnce({} as any);
+
+    const { data, error } = await updateProgress({ position: 60 });
+
+    expect(error).toBeUndefined();
+    expect(updateOne).toHaveBeenCalledTimes(2);
+    expect((updateOne.mock.calls[1] as unknown[])[2]).not.toHaveProperty('upsert');
+    expect(data).toMatchObject({ position: 60, completed: false });
+  });
+
+  it('passes on other errors', async () => {
+    jest.spyOn(WatchProgress, 'updateOne').mockRejectedValue(new Error('connection lost'));
+
+    const { error } = await updateProgress({ position: 60 });
+
+    expect(error.message).toBe('connection lost');
+  });
+
+  it('still credits views but stores no progress while the history is paused', async () => {
+    mockHistoryPaused(true);
+    recordHeartbeat.mockResolvedValue({ counted: true, reason: null, views: 1 });
+    const updateOne = jest.spyOn(WatchProgress, 'updateOne');
+
+    const { data, error } = await updateProgress({ position: 60 });
+
+    expect(error).toBeUndefined();
+    expect(recordHeartbeat).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ userId: USER_ID }), 60);
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(data).toEqual({ movieId: MOVIE_ID, recorded: false, viewCounted: true });
+  });
+
+  it('rejects a negative position', async () => {
+    const { error } = await updateProgress({ position: -1 });
+
+    expect(error.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Tests for role-based and verified-email access control
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { NextFunction, Response } from 'express';
+import { requireAdmin, requireRole, requireVerifiedEmail } from '../../src/middleware/auth';
+import { IAuthenticatedRequest, UserRole } from '../../src/types';
+
+/**
+ * Builds a request authenticated as a user with the given role, or an anonymous one
+ */
+const buildRequest = (role?: UserRole): IAuthenticatedRequest =>
+  ({
+    user: role && { userId: '64a000000000000000000001', email: 'jane@example.com', role },
+  }) as unknown as IAuthenticatedRequest;
+
+/**
+ * Builds a response object recording the status code
+ */
+const buildResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+describe('requireRole', () => {
+  it('rejects anonymous requests with 401', () => {
+    const res = buildResponse();
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+    requireAdmin(buildRequest(), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects users without one of the roles with 403', () => {
+    const res = buildResponse();
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+    requireAdmin(buildRequest('user'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets users with one of the roles through', () => {
+    const middleware = requireRole('admin', 'moderator');
+
+    for (const role of ['admin', 'moderator'] as UserRole[]) {
+      const res = buildResponse();
+      const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+      middleware(buildRequest(role), res, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.status).not.toHaveBeenCalled();
+    }
+  });
+});
+
+describe('requireVerifiedEmail', () => {
+  /**
+   * Builds a request authenticated as a user whose email is verified or not
+   */
+  const buildVerifiedRequest = (emailVerified: boolean): IAuthenticatedRequest =>
+    ({
+      user: { userId: '64a000000000000000000001', email: 'jane@example.com', role: 'user', emailVerified },
+    }) as unknown as IAuthenticatedRequest;
+
+  it('rejects anonymous requests with 401', () => {
+    const res = buildResponse();
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+    requireVerifiedEmail(buildRequest(), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects users with an unverified email with 403', () => {
+    const res = buildResponse();
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+    requireVerifiedEmail(buildVerifiedRequest(false), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets users with a verified email through', () => {
+    const res = buildResponse();
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+    requireVerifiedEmail(buildVerifiedRequest(true), res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
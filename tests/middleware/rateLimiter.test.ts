@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Tests for the rate limiting middleware
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Request, Response } from 'express';
+import { createRateLimiter, emailKey, ipKey } from '../../src/middleware/rateLimiter';
+import { MemoryRateLimitStore, IRateLimitStore } from '../../src/services/rateLimitStore';
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Builds a request from an IP address with an optional JSON body
+ */
+const buildRequest = (ip: string, body: Record<string, unknown> = {}): Request =>
+  ({ ip, body, headers: {} }) as unknown as Request;
+
+/**
+ * Runs a middleware once and returns the headers it set and the error it passed on, if any
+ */
+const hit = async (limiter: ReturnType<typeof createRateLimiter>, req: Request) => {
+  const headers: Record<string, string> = {};
+  const res = {
+    set: jest.fn((name: string | Record<string, string>, value?: string) => {
+      Object.assign(headers, typeof name === 'string' ? { [name]: value } : name);
+    }),
+  } as unknown as Response;
+  const next = jest.fn();
+
+  await limiter(req, res, next);
+
+  expect(next).toHaveBeenCalledTimes(1);
+  return { headers, error: next.mock.calls[0][0] as any };
+};
+
+describe('createRateLimiter', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryRateLimitStore();
+  });
+
+  it('lets requests through until the limit and reports the remaining quota', async () => {
+    const limiter = createRateLimiter({ name: 'test', windowMs: WINDOW_MS, max: 3, keyGenerator: ipKey, store });
+
+    for (let request = 1; request <= 3; request++) {
+      const { headers, error } = await hit(limiter, buildRequest('10.0.0.1'));
+      expect(error).toBeUndefined();
+      expect(headers['RateLimit-Limit']).toBe('3');
+      expect(headers['RateLimit-Remaining']).toBe(String(3 - request));
+    }
+  });
+
+  it('rejects requests over the limit with 429 and Retry-After', async () => {
+    const limiter = createRateLimiter({ name: 'test', windowMs: WINDOW_MS, max: 2, keyGenerator: ipKey, store });
+
+    await hit(limiter, buildRequest('10.0.0.1'));
+    await hit(limiter, buildRequest('10.0.0.1'));
+    const { headers, error } = await hit(limiter, buildRequest('10.0.0.1'));
+
+    expect(error.statusCode).toBe(429);
+    expect(headers['Retry-After']).toBe('60');
+    expect(headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('counts every key separately', async () => {
+    const limiter = createRateLimiter({ name: 'test', windowMs: WINDOW_MS, max: 1, keyGenerator: ipKey, store });
+
+    await hit(limiter, buildRequest('10.0.0.1'));
+
+    expect((await hit(limiter, buildRequest('10.0.0.1'))).error.statusCode).toBe(429);
+    expect((await hit(limiter, buildRequest('10.0.0.2'))).error).toBeUndefined();
+  });
+
+  it('starts a new window once the previous one has ended', async () => {
+    const limiter = createRateLimiter({ name: 'test', windowMs: WINDOW_MS, max: 1, keyGenerator: ipKey, store });
+
+    await hit(limiter, buildRequest('10.0.0.1'));
+    expect((await hit(limiter, buildRequest('10.0.0.1'))).error.statusCode).toBe(429);
+
+    now += WINDOW_MS;
+
+    expect((await hit(limiter, buildRequest('10.0.0.1'))).error).toBeUndefined();
+  });
+
+  it('limits one email address across IP addresses', async () => {
+    const limiter = createRateLimiter({ name: 'login-email', windowMs: WINDOW_MS, max: 2, keyGenerator: emailKey, store });
+
+    await hit(limiter, buildRequest('10.0.0.1', { email: 'jane@example.com' }));
+    await hit(limiter, buildRequest('10.0.0.2', { email: ' Jane@Example.com ' }));
+    const { error } = await hit(limiter, buildRequest('10.0.0.3', { email: 'JANE@example.com' }));
+
+    expect(error.statusCode).toBe(429);
+  });
+
+  it('skips requests without a key', async () => {
+    const limiter = createRateLimiter({ name: 'login-email', windowMs: WINDOW_MS, max: 1, keyGenerator: emailKey, store });
+
+    await hit(limiter, buildRequest('10.0.0.1'));
+    const { headers, error } = await hit(limiter, buildRequest('10.0.0.1'));
+
+    expect(error).toBeUndefined();
+    expect(headers).toEqual({});
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const failingStore: IRateLimitStore = {
+      increment: jest.fn().mockRejectedValue(new Error('store unavailable')),
+      reset: jest.fn(),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const limiter = createRateLimiter({ name: 'test', windowMs: WINDOW_MS, max: 1, keyGenerator: ipKey, store: failingStore });
+
+    expect((await hit(limiter, buildRequest('10.0.0.1'))).error).toBeUndefined();
+  });
+});
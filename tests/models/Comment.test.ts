@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests for comment threads and the tombstones left by removed comments
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import Comment from '../../src/models/Comment';
+import { CommentReaction } from '../../src/models/CommentReaction';
+
+const MOVIE_ID = '64e000000000000000000001';
+const ROOT_ID = '64c000000000000000000001';
+const PARENT_ID = '64c000000000000000000002';
+const REPLY_ID = '64c000000000000000000003';
+
+/**
+ * Builds a query chain resolving to the given documents
+ */
+const chain = (docs: unknown[]) => {
+  const query: any = {};
+  for (const method of ['sort', 'skip', 'limit', 'populate']) {
+    query[method] = jest.fn().mockReturnValue(query);
+  }
+  query.lean = jest.fn().mockResolvedValue(docs);
+  return query;
+};
+
+describe('Comment.removeComment', () => {
+  beforeEach(() => {
+    jest.spyOn(CommentReaction, 'deleteMany').mockResolvedValue({ deletedCount: 0 } as any);
+  });
+
+  it('deletes a reply and the tombstones it leaves without replies, up to a live comment', async () => {
+    const deleteOne = jest.spyOn(Comment, 'deleteOne').mockResolvedValue({ deletedCount: 1 } as any);
+    const findOneAndUpdate = jest.spyOn(Comment, 'findOneAndUpdate').mockImplementation(((filter: any) =>
+      Promise.resolve(
+        filter._id === PARENT_ID
+          ? { _id: PARENT_ID, parentId: ROOT_ID, deleted: true, replyCount: 0 }
+          : { _id: ROOT_ID, parentId: null, deleted: false, replyCount: 0 }
+      )) as any);
+    const reply = new Comment({
+      _id: REPLY_ID,
+      userId: '64a000000000000000000001',
+      movieId: MOVIE_ID,
+      content: 'Agreed',
+      parentId: PARENT_ID,
+      rootId: ROOT_ID,
+      depth: 2,
+    });
+
+    await expect(Comment.removeComment(reply)).resolves.toBe('deleted');
+
+    expect(deleteOne.mock.calls.map(([filter]) => (filter as any)._id.toString())).toEqual([REPLY_ID, PARENT_ID]);
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ _id: ROOT_ID }, { $inc: { replyCount: -1 } }, { new: true });
+  });
+
+  it('keeps a tombstone that still has other replies', async () => {
+    const deleteOne = jest.spyOn(Comment, 'deleteOne').mockResolvedValue({ deletedCount: 1 } as any);
+    jest
+      .spyOn(Comment, 'findOneAndUpdate')
+      .mockResolvedValue({ _id: PARENT_ID, parentId: ROOT_ID, deleted: true, replyCount: 1 } as any);
+    const reply = new Comment({
+      _id: REPLY_ID,
+      userId: '64a000000000000000000001',
+      movieId: MOVIE_ID,
+      content: 'Agreed',
+      parentId: PARENT_ID,
+      rootId: ROOT_ID,
+      depth: 2,
+    });
+
+    await Comment.removeComment(reply);
+
+    expect(deleteOne).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Comment.getReplies', () => {
+  it('shows removed comments as placeholders and nests their replies', async () => {
+    const tombstone = {
+      _id: PARENT_ID,
+      movieId: MOVIE_ID,
+      userId: null,
+      content: 'Removed text still stored by an older version',
+      parentId: ROOT_ID,
+      deleted: true,
+      replyCount: 1,
+      createdAt: new Date('2025-10-01T00:00:00Z'),
+    };
+    const reply = {
+      _id: REPLY_ID,
+      movieId: MOVIE_ID,
+      userId: { firstName: 'Jane' },
+      content: 'Agreed',
+      parentId: PARENT_ID,
+      deleted: false,
+      replyCount: 0,
+      createdAt: new Date('2025-10-02T00:00:00Z'),
+    };
+    jest.spyOn(Comment, 'find').mockReturnValue(chain([tombstone]));
+    jest.spyOn(Comment, 'countDocuments').mockResolvedValue(1 as any);
+    const aggregate = jest.spyOn(Comment, 'aggregate').mockResolvedValue([{ _id: PARENT_ID, replies: [reply] }]);
+    jest.spyOn(Comment, 'populate').mockResolvedValue([] as any);
+
+    const page = await Comment.getReplies(ROOT_ID, { page: 1, limit: 20, skip: 0 } as any, 1);
+
+    expect(Comment.find).toHaveBeenCalledWith({ parentId: ROOT_ID });
+    expect(aggregate.mock.calls[0][0][0]).toEqual({ $match: { parentId: { $in: [PARENT_ID] } } });
+    expect(page.comments).toHaveLength(1);
+    expect(page.comments[0]).toMatchObject({ _id: PARENT_ID, deleted: true, content: null, userId: null });
+    expect(page.comments[0].replies).toEqual([reply]);
+  });
+});
+
+describe('Comment.getMovieComments', () => {
+  it('ranks the top comments by their Wilson score, newest first on ties', async () => {
+    const query = chain([]);
+    const find = jest.spyOn(Comment, 'find').mockReturnValue(query);
+    jest.spyOn(Comment, 'countDocuments').mockResolvedValue(0 as any);
+    jest.spyOn(Comment, 'aggregate').mockResolvedValue([]);
+
+    await Comment.getMovieComments(MOVIE_ID, { page: 1, limit: 20, skip: 0 } as any, 0, 'top');
+
+    expect(find).toHaveBeenCalledWith({ movieId: MOVIE_ID, parentId: null });
+    expect(query.sort).toHaveBeenCalledWith({ topScore: -1, _id: -1 });
+  });
+});
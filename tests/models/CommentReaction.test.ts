@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Tests for recounting the reactions of a comment
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { CommentReaction } from '../../src/models/CommentReaction';
+import Comment from '../../src/models/Comment';
+import { wilsonLowerBound } from '../../src/utils/wilsonScore';
+
+const COMMENT_ID = '64c000000000000000000001';
+
+describe('CommentReaction.updateCommentCounts', () => {
+  it('ranks by the users reacting on each side, not by the reactions they leave', async () => {
+    // Two users leave five positive reactions between them, one user is angry and sad
+    const aggregate = jest.spyOn(CommentReaction, 'aggregate').mockResolvedValue([
+      {
+        types: [
+          { _id: 'like', count: 2 },
+          { _id: 'love', count: 2 },
+          { _id: 'wow', count: 1 },
+          { _id: 'angry', count: 1 },
+          { _id: 'sad', count: 1 },
+        ],
+        reactors: [{ _id: null, positive: 2, negative: 1 }],
+      },
+    ]);
+    const updateOne = jest.spyOn(Comment, 'updateOne').mockResolvedValue({} as any);
+
+    await CommentReaction.updateCommentCounts(COMMENT_ID);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: COMMENT_ID },
+      {
+        $set: {
+          reactionCounts: { like: 2, love: 2, laugh: 0, wow: 1, sad: 1, angry: 1 },
+          topScore: wilsonLowerBound(2, 3),
+          controversyScore: 1.7321,
+        },
+      },
+      { timestamps: false }
+    );
+
+    // Reactions are grouped per user, with "sad" on neither side
+    const reactorStages = (aggregate.mock.calls[0][0][1] as any).$facet.reactors;
+    expect(reactorStages[0].$group).toEqual({
+      _id: '$userId',
+      positive: { $max: { $cond: [{ $in: ['$type', ['like', 'love', 'laugh', 'wow']] }, 1, 0] } },
+      negative: { $max: { $cond: [{ $in: ['$type', ['angry']] }, 1, 0] } },
+    });
+  });
+
+  it('resets the counts and scores once the last reaction is removed', async () => {
+    jest.spyOn(CommentReaction, 'aggregate').mockResolvedValue([{ types: [], reactors: [] }]);
+    const updateOne = jest.spyOn(Comment, 'updateOne').mockResolvedValue({} as any);
+
+    await CommentReaction.updateCommentCounts(COMMENT_ID);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: COMMENT_ID },
+      {
+        $set: {
+          reactionCounts: { like: 0, love: 0, laugh: 0, wow: 0, sad: 0, angry: 0 },
+          topScore: 0,
+          controversyScore: 0,
+        },
+      },
+      { timestamps: false }
+    );
+  });
+});
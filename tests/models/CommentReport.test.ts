@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests for hiding comments once enough users report them
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import Comment from '../../src/models/Comment';
+import { CommentReport } from '../../src/models/CommentReport';
+
+const COMMENT_ID = '64c000000000000000000001';
+const THRESHOLD = 3;
+
+/**
+ * Mocks the open report count of the comment and whether a moderator approved it
+ */
+const mockComment = (openReports: number, approvedAt: Date | null = null) => {
+  const lastReportedAt = new Date('2025-10-25T12:00:00Z');
+
+  jest
+    .spyOn(CommentReport, 'aggregate')
+    .mockResolvedValue(openReports > 0 ? [{ _id: null, count: openReports, lastReportedAt }] : []);
+  jest.spyOn(Comment, 'findById').mockReturnValue({
+    select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue({ approvedAt }) }),
+  } as any);
+
+  return {
+    lastReportedAt,
+    updateOne: jest.spyOn(Comment, 'updateOne').mockResolvedValue({} as any),
+  };
+};
+
+describe('CommentReport.updateCommentReports', () => {
+  it('keeps the comment visible below the threshold', async () => {
+    const { updateOne, lastReportedAt } = mockComment(THRESHOLD - 1);
+
+    const result = await CommentReport.updateCommentReports(COMMENT_ID, THRESHOLD);
+
+    expect(result).toEqual({ reportCount: THRESHOLD - 1, hidden: false });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: COMMENT_ID },
+      { $set: { reportCount: THRESHOLD - 1, lastReportedAt, hidden: false } },
+      { timestamps: false }
+    );
+  });
+
+  it('hides the comment once the open reports reach the threshold', async () => {
+    const { updateOne } = mockComment(THRESHOLD);
+
+    const result = await CommentReport.updateCommentReports(COMMENT_ID, THRESHOLD);
+
+    expect(result).toEqual({ reportCount: THRESHOLD, hidden: true });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: COMMENT_ID },
+      { $set: expect.objectContaining({ hidden: true }) },
+      { timestamps: false }
+    );
+  });
+
+  it('counts only open reports', async () => {
+    mockComment(THRESHOLD);
+
+    await CommentReport.updateCommentReports(COMMENT_ID, THRESHOLD);
+
+    const [pipeline] = (CommentReport.aggregate as jest.Mock).mock.calls[0];
+    expect(pipeline[0]).toEqual({ $match: { commentId: COMMENT_ID, status: 'open' } });
+  });
+
+  it('does not hide a comment a moderator approved', async () => {
+    mockComment(THRESHOLD + 2, new Date());
+
+    const result = await CommentReport.updateCommentReports(COMMENT_ID, THRESHOLD);
+
+    expect(result).toEqual({ reportCount: THRESHOLD + 2, hidden: false });
+  });
+
+  it('shows the comment again when its reports are withdrawn', async () => {
+    const { updateOne } = mockComment(0);
+
+    const result = await CommentReport.updateCommentReports(COMMENT_ID, THRESHOLD);
+
+    expect(result).toEqual({ reportCount: 0, hidden: false });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: COMMENT_ID },
+      { $set: { reportCount: 0, lastReportedAt: null, hidden: false } },
+      { timestamps: false }
+    );
+  });
+});
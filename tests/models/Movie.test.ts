@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Tests for the movie full-text search
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Movie, buildSearchDocuments, sanitizeTextSearch } from '../../src/models/Movie';
+
+describe('sanitizeTextSearch', () => {
+  it('treats quotes and leading dashes as plain text', () => {
+    expect(sanitizeTextSearch('"the matrix" -reloaded')).toBe('the matrix reloaded');
+  });
+
+  it('drops words without letters or digits', () => {
+    expect(sanitizeTextSearch('alien -- !!! 3')).toBe('alien 3');
+    expect(sanitizeTextSearch('"-"')).toBe('');
+  });
+});
+
+describe('buildSearchDocuments', () => {
+  it('copies the searchable text once per search language', () => {
+    const documents = buildSearchDocuments({
+      title: 'Corriendo',
+      director: 'Ana Ruiz',
+      cast: ['Luis Gómez'],
+      description: 'Una carrera',
+    });
+
+    expect(documents.map((document) => document.language)).toEqual(['english', 'spanish']);
+    for (const document of documents) {
+      expect(document).toMatchObject({
+        title: 'Corriendo',
+        director: 'Ana Ruiz',
+        cast: ['Luis Gómez'],
+        description: 'Una carrera',
+      });
+    }
+  });
+
+  it('indexes an empty cast for movies without one', () => {
+    const [document] = buildSearchDocuments({
+      title: 'Untitled',
+      director: 'Unknown',
+      cast: undefined as any,
+      description: '',
+    });
+
+    expect(document.cast).toEqual([]);
+  });
+});
+
+describe('Movie.textSearch', () => {
+  it('stems the query in the request language and ranks by relevance', async () => {
+    const chain: any = {
+      sort: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue([{ title: 'Corriendo', score: 7.5 }]),
+    };
+    const find = jest.spyOn(Movie, 'find').mockReturnValue(chain);
+    jest.spyOn(Movie, 'countDocuments').mockResolvedValue(11 as never);
+
+    const result = await Movie.textSearch('"corriendo"', 'es', 2, 10);
+
+    expect(result).toEqual({ movies: [{ title: 'Corriendo', score: 7.5 }], total: 11 });
+    expect(find).toHaveBeenCalledWith(
+      {
+        isActive: true,
+        $text: {
+          $search: 'corriendo',
+          $language: 'spanish',
+          $caseSensitive: false,
+          $diacriticSensitive: false,
+        },
+      },
+      { score: { $meta: 'textScore' } }
+    );
+    expect(chain.sort).toHaveBeenCalledWith({ score: { $meta: 'textScore' }, averageRating: -1, views: -1 });
+    expect(chain.skip).toHaveBeenCalledWith(10);
+    expect(chain.limit).toHaveBeenCalledWith(10);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Tests for recounting the helpfulness votes of a review
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { ReviewVote } from '../../src/models/ReviewVote';
+import { Rating } from '../../src/models/Rating';
+
+const RATING_ID = '64d000000000000000000001';
+
+describe('ReviewVote.updateReviewCounts', () => {
+  it('stores the vote counts and the Wilson helpfulness on the rating', async () => {
+    const aggregate = jest
+      .spyOn(ReviewVote, 'aggregate')
+      .mockResolvedValue([{ _id: null, helpful: 95, total: 100 }]);
+    const updateOne = jest.spyOn(Rating, 'updateOne').mockResolvedValue({} as any);
+
+    await ReviewVote.updateReviewCounts(RATING_ID);
+
+    expect(aggregate.mock.calls[0][0][0]).toEqual({ $match: { ratingId: RATING_ID } });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: RATING_ID },
+      { $set: { helpfulVotes: 95, unhelpfulVotes: 5, helpfulness: 0.8882 } }
+    );
+  });
+
+  it('resets the counts once the last vote is withdrawn', async () => {
+    jest.spyOn(ReviewVote, 'aggregate').mockResolvedValue([]);
+    const updateOne = jest.spyOn(Rating, 'updateOne').mockResolvedValue({} as any);
+
+    await ReviewVote.updateReviewCounts(RATING_ID);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: RATING_ID },
+      { $set: { helpfulVotes: 0, unhelpfulVotes: 0, helpfulness: 0 } }
+    );
+  });
+});
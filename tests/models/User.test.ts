@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Tests for the progressive login lockout
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { User, IUserDocument } from '../../src/models/User';
+
+const MAX_ATTEMPTS = 3;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ILockoutState {
+  failedLoginAttempts: number;
+  lockUntil: Date | null;
+  lockCount: number;
+}
+
+/**
+ * Keeps the lockout fields of one stored user and applies the atomic updates to them
+ */
+const mockStoredUser = (): ILockoutState => {
+  const stored: ILockoutState = { failedLoginAttempts: 0, lockUntil: null, lockCount: 0 };
+
+  jest.spyOn(User, 'findOneAndUpdate').mockImplementation(((filter: any, update: any) => {
+    const minAttempts = filter.failedLoginAttempts?.$gte;
+    if (minAttempts !== undefined && stored.failedLoginAttempts < minAttempts) {
+      return Promise.resolve(null);
+    }
+
+    Object.assign(stored, update.$set);
+    for (const [field, amount] of Object.entries<number>(update.$inc || {})) {
+      (stored as any)[field] += amount;
+    }
+
+    return Promise.resolve({ ...stored });
+  }) as any);
+
+  jest.spyOn(User, 'updateOne').mockImplementation(((filter: any, update: any) => {
+    Object.assign(stored, update.$set);
+    return Promise.resolve({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+  }) as any);
+
+  return stored;
+};
+
+/**
+ * Builds an unsaved user
+ */
+const buildUser = (): IUserDocument =>
+  new User({
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    password: 'hashed-password',
+  });
+
+/**
+ * Registers wrong passwords until the account locks and returns the lockout duration
+ */
+const lockOut = async (user: IUserDocument): Promise<number> => {
+  let locked = false;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    locked = await user.registerFailedLogin(MAX_ATTEMPTS, LOCKOUT_MS);
+    expect(locked).toBe(attempt === MAX_ATTEMPTS);
+  }
+
+  return user.lockUntil!.getTime() - Date.now();
+};
+
+describe('User login lockout', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  it('locks the account once the failed attempts reach the limit', async () => {
+    const stored = mockStoredUser();
+    const user = buildUser();
+
+    expect(await lockOut(user)).toBe(LOCKOUT_MS);
+    expect(user.isLocked()).toBe(true);
+    expect(stored).toEqual({ failedLoginAttempts: 0, lockUntil: user.lockUntil, lockCount: 1 });
+  });
+
+  it('counts parallel wrong passwords and locks only once', async () => {
+    const stored = mockStoredUser();
+
+    // Each request loads its own copy of the user
+    const results = await Promise.all(
+      Array.from({ length: MAX_ATTEMPTS + 2 }, () => buildUser().registerFailedLogin(MAX_ATTEMPTS, LOCKOUT_MS))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(stored.lockCount).toBe(1);
+    expect(stored.lockUntil!.getTime() - now).toBe(LOCKOUT_MS);
+  });
+
+  it('doubles the lockout for every lock since the last successful login, up to a day', async () => {
+    mockStoredUser();
+    const user = buildUser();
+    const durations: number[] = [];
+
+    for (let lock = 0; lock < 9; lock++) {
+      durations.push(await lockOut(user));
+    }
+
+    // 15 minutes doubled up to 16 hours, then capped
+    expect(durations.slice(0, 7)).toEqual([1, 2, 4, 8, 16, 32, 64].map((factor) => factor * LOCKOUT_MS));
+    expect(durations.slice(7)).toEqual([DAY_MS, DAY_MS]);
+  });
+
+  it('is no longer locked once the lockout has passed', async () => {
+    mockStoredUser();
+    const user = buildUser();
+    await lockOut(user);
+
+    user.lockUntil = new Date(Date.now() - 1000);
+
+    expect(user.isLocked()).toBe(false);
+  });
+
+  it('starts over after a successful login', async () => {
+    const stored = mockStoredUser();
+    const user = buildUser();
+    await lockOut(user);
+    await lockOut(user);
+
+    await user.resetLoginAttempts();
+
+    expect(user.isLocked()).toBe(false);
+    expect(stored).toEqual({ failedLoginAttempts: 0, lockUntil: null, lockCount: 0 });
+    expect(await lockOut(user)).toBe(LOCKOUT_MS);
+  });
+});
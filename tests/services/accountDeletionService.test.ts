@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Tests for purging accounts whose deletion grace period has ended
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { accountDeletionService } from '../../src/services/accountDeletionService';
+import { User, IUserDocument } from '../../src/models/User';
+import { Rating } from '../../src/models/Rating';
+import Comment from '../../src/models/Comment';
+import { Favorite } from '../../src/models/Favorite';
+import { Session } from '../../src/models/Session';
+import { WatchProgress } from '../../src/models/WatchProgress';
+import { ReviewVote } from '../../src/models/ReviewVote';
+import { CommentReaction } from '../../src/models/CommentReaction';
+import { CommentReport } from '../../src/models/CommentReport';
+import { UploadService } from '../../src/services/uploadService';
+import { dataExportService } from '../../src/services/dataExportService';
+import { viewService } from '../../src/services/viewService';
+
+const USER_ID = '64a000000000000000000001';
+
+/**
+ * Builds an unsaved user whose deletion was due yesterday
+ */
+const buildUser = (avatar: string | null): IUserDocument =>
+  new User({
+    _id: USER_ID,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    password: 'hashed-password',
+    avatar,
+    deletionRequestedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000),
+    deletionScheduledFor: new Date(Date.now() - 24 * 60 * 60 * 1000),
+  });
+
+/**
+ * Mocks every model and service the purge touches. Distinct lookups return the given IDs.
+ */
+const mockPurge = (user: IUserDocument | null) => {
+  const distinct = {
+    ratingIds: ['64d000000000000000000001'],
+    votedRatingIds: ['64d000000000000000000002', '64d000000000000000000003'],
+    ratedMovieIds: ['64e000000000000000000001', '64e000000000000000000002'],
+    reactedCommentIds: ['64c000000000000000000001'],
+    reportedCommentIds: ['64c000000000000000000002'],
+  };
+
+  jest.spyOn(User, 'findOne').mockResolvedValue(user);
+  jest.spyOn(Rating, 'distinct').mockImplementation(((field: string) =>
+    Promise.resolve(field === '_id' ? distinct.ratingIds : distinct.ratedMovieIds)) as any);
+  jest.spyOn(ReviewVote, 'distinct').mockResolvedValue(distinct.votedRatingIds as any);
+  jest.spyOn(CommentReaction, 'distinct').mockResolvedValue(distinct.reactedCommentIds as any);
+  jest.spyOn(CommentReport, 'distinct').mockResolvedValue(distinct.reportedCommentIds as any);
+
+  return {
+    distinct,
+    deleted: {
+      votes: jest.spyOn(ReviewVote, 'deleteMany').mockResolvedValue({ deletedCount: 3 } as any),
+      reactions: jest.spyOn(CommentReaction, 'deleteMany').mockResolvedValue({ deletedCount: 1 } as any),
+      reports: jest.spyOn(CommentReport, 'deleteMany').mockResolvedValue({ deletedCount: 1 } as any),
+      ratings: jest.spyOn(Rating, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any),
+      favorites: jest.spyOn(Favorite, 'deleteMany').mockResolvedValue({ deletedCount: 4 } as any),
+      sessions: jest.spyOn(Session, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any),
+      progress: jest.spyOn(WatchProgress, 'deleteMany').mockResolvedValue({ deletedCount: 5 } as any),
+      views: jest.spyOn(viewService, 'deleteUserViews').mockResolvedValue(5),
+      exports: jest.spyOn(dataExportService, 'deleteUserExports').mockResolvedValue(1),
+      user: jest.spyOn(User, 'deleteOne').mockResolvedValue({ deletedCount: 1 } as any),
+    },
+    recounted: {
+      reviews: jest.spyOn(ReviewVote, 'updateReviewCounts').mockResolvedValue(),
+      movies: jest.spyOn(Rating, 'updateMovieRating').mockResolvedValue(),
+      reactions: jest.spyOn(CommentReaction, 'updateCommentCounts').mockResolvedValue(),
+      reports: jest.spyOn(CommentReport, 'updateCommentReports').mockResolvedValue({ reportCount: 0, hidden: false }),
+    },
+    removeComments: jest.spyOn(Comment, 'removeUserComments').mockResolvedValue(6),
+    deleteFile: jest.spyOn(UploadService, 'deleteFile').mockResolvedValue(),
+  };
+};
+
+describe('accountDeletionService.purgeUser', () => {
+  it('does nothing when the deletion is not due, e.g. after a cancelling login', async () => {
+    const mocks = mockPurge(null);
+
+    await expect(accountDeletionService.purgeUser(USER_ID)).resolves.toBeNull();
+
+    expect(User.findOne).toHaveBeenCalledWith({
+      _id: USER_ID,
+      deletionScheduledFor: { $ne: null, $lte: expect.any(Date) },
+    });
+    for (const spy of Object.values(mocks.deleted)) {
+      expect(spy).not.toHaveBeenCalled();
+    }
+    expect(mocks.removeComments).not.toHaveBeenCalled();
+  });
+
+  it('removes the personal data and recounts everything it contributed to', async () => {
+    const mocks = mockPurge(buildUser(null));
+
+    const result = await accountDeletionService.purgeUser(USER_ID);
+
+    expect(result).toEqual({
+      userId: USER_ID,
+      ratingsDeleted: 2,
+      commentsDeleted: 6,
+      favoritesDeleted: 4,
+      sessionsDeleted: 2,
+      moviesRecomputed: 2,
+      avatarDeleted: false,
+    });
+
+    // Votes by the user and votes on the user's reviews
+    expect(mocks.deleted.votes).toHaveBeenCalledWith({
+      $or: [{ userId: USER_ID }, { ratingId: { $in: mocks.distinct.ratingIds } }],
+    });
+    expect(mocks.deleted.ratings).toHaveBeenCalledWith({ userId: USER_ID });
+    expect(mocks.deleted.reactions).toHaveBeenCalledWith({ userId: USER_ID });
+    expect(mocks.deleted.reports).toHaveBeenCalledWith({ reporterId: USER_ID });
+    expect(mocks.deleted.favorites).toHaveBeenCalledWith({ userId: USER_ID });
+    expect(mocks.deleted.sessions).toHaveBeenCalledWith({ userId: USER_ID });
+    expect(mocks.deleted.progress).toHaveBeenCalledWith({ userId: USER_ID });
+    expect(mocks.deleted.views).toHaveBeenCalledWith(USER_ID);
+    expect(mocks.deleted.exports).toHaveBeenCalledWith(USER_ID);
+    expect(mocks.removeComments).toHaveBeenCalledWith(USER_ID);
+
+    expect(mocks.recounted.reviews.mock.calls.map(([id]) => id)).toEqual(mocks.distinct.votedRatingIds);
+    expect(mocks.recounted.movies.mock.calls.map(([id]) => id)).toEqual(mocks.distinct.ratedMovieIds);
+    expect(mocks.recounted.reactions.mock.calls.map(([id]) => id)).toEqual(mocks.distinct.reactedCommentIds);
+    expect(mocks.recounted.reports).toHaveBeenCalledWith(mocks.distinct.reportedCommentIds[0], 3);
+
+    // The account itself goes last, so an interrupted purge is found and run again
+    expect(mocks.deleted.user).toHaveBeenCalledWith({ _id: USER_ID });
+    const userDeletedAt = mocks.deleted.user.mock.invocationCallOrder[0];
+    for (const spy of [...Object.values(mocks.recounted), mocks.removeComments, mocks.deleted.sessions]) {
+      expect(spy.mock.invocationCallOrder.every((order) => order < userDeletedAt)).toBe(true);
+    }
+  });
+
+  it('deletes a Cloudinary avatar but leaves external avatars alone', async () => {
+    const cloudinary = mockPurge(buildUser('https://res.cloudinary.com/demo/image/upload/avatar.jpg'));
+    await expect(accountDeletionService.purgeUser(USER_ID)).resolves.toMatchObject({ avatarDeleted: true });
+    expect(cloudinary.deleteFile).toHaveBeenCalledWith(UploadService.getAvatarPublicId(USER_ID), 'image');
+
+    jest.restoreAllMocks();
+
+    const external = mockPurge(buildUser('https://example.com/avatar.jpg'));
+    await expect(accountDeletionService.purgeUser(USER_ID)).resolves.toMatchObject({ avatarDeleted: false });
+    expect(external.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('keeps the account when the avatar cannot be deleted, so the purge is retried', async () => {
+    const mocks = mockPurge(buildUser('https://res.cloudinary.com/demo/image/upload/avatar.jpg'));
+    mocks.deleteFile.mockRejectedValue(new Error('Failed to delete file from Cloudinary: timeout'));
+
+    await expect(accountDeletionService.purgeUser(USER_ID)).rejects.toThrow('timeout');
+
+    expect(mocks.deleted.user).not.toHaveBeenCalled();
+  });
+});
+
+describe('Comment removal for a purged user', () => {
+  const COMMENT_ID = '64c000000000000000000009';
+
+  beforeEach(() => {
+    jest.spyOn(CommentReaction, 'deleteMany').mockResolvedValue({ deletedCount: 0 } as any);
+  });
+
+  it('leaves a tombstone without content or author when the comment has replies', async () => {
+    const updateOne = jest.spyOn(Comment, 'updateOne').mockResolvedValue({} as any);
+    const comment = new Comment({
+      _id: COMMENT_ID,
+      userId: USER_ID,
+      movieId: '64e000000000000000000001',
+      content: 'Great movie',
+      replyCount: 2,
+    });
+
+    await expect(Comment.removeComment(comment)).resolves.toBe('tombstoned');
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: comment._id },
+      { $set: expect.objectContaining({ deleted: true, content: null, userId: null }) }
+    );
+  });
+
+  it('detaches the user from tombstones left by earlier removals', async () => {
+    jest.spyOn(Comment, 'find').mockReturnValue({ sort: jest.fn().mockResolvedValue([]) } as any);
+    const updateMany = jest.spyOn(Comment, 'updateMany').mockResolvedValue({} as any);
+
+    await Comment.removeUserComments(USER_ID);
+
+    expect(updateMany).toHaveBeenCalledWith({ userId: USER_ID, deleted: true }, { $set: { userId: null } });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests for faceted catalog browsing
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { catalogService, IBrowseFilters, IBrowseOptions } from '../../src/services/catalogService';
+import { Movie } from '../../src/models/Movie';
+
+/**
+ * Builds browse filters with nothing selected except the given dimensions
+ */
+const buildFilters = (selected: Partial<IBrowseFilters> = {}): IBrowseFilters => ({
+  genres: [],
+  genreMode: 'any',
+  releaseYear: {},
+  duration: {},
+  rating: {},
+  directors: [],
+  cast: [],
+  videoProviders: [],
+  subtitles: [],
+  ...selected,
+});
+
+const OPTIONS: IBrowseOptions = { page: 2, limit: 10, sortBy: 'averageRating', sortOrder: -1 };
+
+/**
+ * Aggregation output with empty facets
+ */
+const emptyResult = () => ({
+  movies: [],
+  total: [],
+  genres: [],
+  releaseYear: [],
+  duration: [],
+  rating: [],
+  directors: [],
+  cast: [],
+  videoProviders: [],
+  subtitles: [],
+});
+
+/**
+ * Makes Movie.aggregate resolve to the given facet output and returns the $facet stage it receives
+ */
+const mockAggregate = (output: Record<string, unknown[]>) => {
+  const aggregate = jest.spyOn(Movie, 'aggregate').mockResolvedValue([output] as any);
+  return () => (aggregate.mock.calls[0][0] as any[])[1].$facet;
+};
+
+describe('catalogService.browse', () => {
+  it('counts OR-combined dimensions without their own filter and AND-combined ones with it', async () => {
+    const facetStage = mockAggregate(emptyResult());
+    const genreCondition = { genre: { $in: ['Action', 'Drama'] } };
+    const yearCondition = { releaseYear: { $gte: 1990, $lte: 1999 } };
+    const subtitleCondition = { $and: [{ 'subtitles.spanish': { $nin: [null, ''] } }] };
+
+    await catalogService.browse(
+      buildFilters({ genres: ['Action', 'Drama'], releaseYear: { min: 1990, max: 1999 }, subtitles: ['spanish'] }),
+      OPTIONS
+    );
+
+    const facet = facetStage();
+    expect(facet.movies[0]).toEqual({ $match: { $and: [genreCondition, yearCondition, subtitleCondition] } });
+    expect(facet.movies.slice(1, 3)).toEqual([{ $sort: { averageRating: -1, _id: 1 } }, { $skip: 10 }]);
+    expect(facet.genres[0]).toEqual({ $match: { $and: [yearCondition, subtitleCondition] } });
+    expect(facet.releaseYear[0]).toEqual({ $match: { $and: [genreCondition, subtitleCondition] } });
+    expect(facet.subtitles[0]).toEqual({ $match: { $and: [genreCondition, yearCondition, subtitleCondition] } });
+  });
+
+  it('narrows the genre counts by the selected genres when all of them are required', async () => {
+    const facetStage = mockAggregate(emptyResult());
+
+    await catalogService.browse(buildFilters({ genres: ['Action', 'Drama'], genreMode: 'all' }), OPTIONS);
+
+    expect(facetStage().genres[0]).toEqual({ $match: { $and: [{ genre: { $all: ['Action', 'Drama'] } }] } });
+  });
+
+  it('turns the facet output into counts, including empty buckets', async () => {
+    mockAggregate({
+      ...emptyResult(),
+      movies: [{ title: 'Heat' }],
+      total: [{ count: 21 }],
+      genres: [{ _id: 'Action', count: 12 }],
+      releaseYear: [
+        { _id: 1990, count: 3, min: 1991, max: 1999 },
+        { _id: 2000, count: 18, min: 2000, max: 2008 },
+      ],
+      duration: [
+        { _id: 90, count: 15, min: 95, max: 118 },
+        { _id: 150, count: 6, min: 160, max: 190 },
+      ],
+      subtitles: [{ _id: null, spanish: 4, english: 9 }],
+    });
+
+    const result = await catalogService.browse(buildFilters(), OPTIONS);
+
+    expect(result.movies).toEqual([{ title: 'Heat' }]);
+    expect(result.total).toBe(21);
+    expect(result.facets.genres).toEqual([{ value: 'Action', count: 12 }]);
+    expect(result.facets.releaseYear).toEqual({
+      min: 1991,
+      max: 2008,
+      buckets: [
+        { from: 1990, to: 2000, count: 3 },
+        { from: 2000, to: 2010, count: 18 },
+      ],
+    });
+    expect(result.facets.duration).toEqual({
+      min: 95,
+      max: 190,
+      buckets: [
+        { from: 0, to: 90, count: 0 },
+        { from: 90, to: 120, count: 15 },
+        { from: 120, to: 150, count: 0 },
+        { from: 150, to: 600, count: 6 },
+      ],
+    });
+    expect(result.facets.rating).toMatchObject({ min: null, max: null });
+    expect(result.facets.subtitles).toEqual([
+      { value: 'spanish', count: 4 },
+      { value: 'english', count: 9 },
+    ]);
+  });
+});
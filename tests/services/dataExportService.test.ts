@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for the personal data export service
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import JSZip from 'jszip';
+import { dataExportService, IUserDataExport } from '../../src/services/dataExportService';
+import { DataExport, IDataExportDocument, DATA_EXPORT_MAX_ATTEMPTS } from '../../src/models/DataExport';
+
+const USER_ID = '64a000000000000000000001';
+
+/**
+ * Builds an unsaved export interrupted after the given number of attempts
+ */
+const buildExport = (attempts: number): IDataExportDocument =>
+  new DataExport({ userId: USER_ID, format: 'zip', status: 'processing', attempts });
+
+describe('dataExportService.recoverStaleExports', () => {
+  let processExport: jest.SpyInstance;
+
+  beforeEach(() => {
+    processExport = jest.spyOn(dataExportService, 'processExport').mockResolvedValue();
+  });
+
+  it('retries interrupted exports and fails those out of attempts', async () => {
+    const retried = buildExport(1);
+    const exhausted = buildExport(DATA_EXPORT_MAX_ATTEMPTS);
+    jest.spyOn(DataExport, 'findStale').mockResolvedValue([retried, exhausted]);
+    const claim = jest
+      .spyOn(DataExport, 'findOneAndUpdate')
+      .mockImplementation(((filter: any) => Promise.resolve(filter._id === retried._id ? retried : exhausted)) as any);
+
+    expect(await dataExportService.recoverStaleExports()).toEqual({ requeued: 1, failed: 1 });
+
+    expect(claim).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: exhausted._id }),
+      { $set: { status: 'failed', error: 'Export was interrupted too many times' } },
+      { new: true }
+    );
+    expect(processExport).toHaveBeenCalledTimes(1);
+    expect(processExport).toHaveBeenCalledWith(retried._id.toString());
+  });
+
+  it('leaves exports claimed by another worker alone', async () => {
+    jest.spyOn(DataExport, 'findStale').mockResolvedValue([buildExport(1)]);
+    jest.spyOn(DataExport, 'findOneAndUpdate').mockResolvedValue(null);
+
+    expect(await dataExportService.recoverStaleExports()).toEqual({ requeued: 0, failed: 0 });
+    expect(processExport).not.toHaveBeenCalled();
+  });
+});
+
+describe('dataExportService.buildArchive', () => {
+  const data: IUserDataExport = {
+    exportedAt: '2025-10-25T12:00:00.000Z',
+    profile: { id: USER_ID, email: 'jane@example.com', firstName: 'Jane' },
+    ratings: [{ movieTitle: 'Heat, Director\'s Cut', rating: 5 }],
+    reviewVotes: [],
+    comments: [{ movieTitle: 'Heat', content: 'She said "wow"' }],
+    commentReactions: [],
+    commentReports: [],
+    favorites: [],
+    watchHistory: [{ movieTitle: 'Heat', completed: true }],
+    sessions: [],
+  };
+
+  it('returns the JSON as is', async () => {
+    const archive = await dataExportService.buildArchive(data, 'json');
+
+    expect(archive.fileName).toBe(`movies-platform-data-${USER_ID}-2025-10-25.json`);
+    expect(JSON.parse(archive.data.toString('utf-8'))).toEqual(data);
+  });
+
+  it('packages the JSON and one escaped CSV per section in a ZIP', async () => {
+    const archive = await dataExportService.buildArchive(data, 'zip');
+    const zip = await JSZip.loadAsync(archive.data);
+
+    expect(archive.contentType).toBe('application/zip');
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'comment-reactions.csv',
+      'comment-reports.csv',
+      'comments.csv',
+      'data.json',
+      'favorites.csv',
+      'profile.csv',
+      'ratings.csv',
+      'review-votes.csv',
+      'sessions.csv',
+      'watch-history.csv',
+    ]);
+    expect(await zip.file('ratings.csv')!.async('string')).toBe(
+      'movieTitle,rating\r\n"Heat, Director\'s Cut",5'
+    );
+    expect(await zip.file('comments.csv')!.async('string')).toBe(
+      'movieTitle,content\r\nHeat,"She said ""wow"""'
+    );
+    expect(await zip.file('favorites.csv')!.async('string')).toBe('');
+    expect(await zip.file('watch-history.csv')!.async('string')).toBe('movieTitle,completed\r\nHeat,true');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for personalized recommendations
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { recommendationService } from '../../src/services/recommendationService';
+import { Movie } from '../../src/models/Movie';
+import { Rating } from '../../src/models/Rating';
+import { Favorite } from '../../src/models/Favorite';
+import { WatchProgress } from '../../src/models/WatchProgress';
+import { MovieSimilarity } from '../../src/models/MovieSimilarity';
+
+const USER_ID = '64a000000000000000000001';
+const LIKED = '64e000000000000000000001';
+const DISLIKED = '64e000000000000000000002';
+const WATCHED = '64e000000000000000000003';
+const SAME_DIRECTOR = '64e000000000000000000004';
+const CO_RATED = '64e000000000000000000005';
+const POPULAR = '64e000000000000000000006';
+
+const CATALOG = [
+  { _id: LIKED, title: 'Heat', genre: ['Crime'], director: 'Michael Mann', cast: ['Al Pacino'], weightedRating: 4.5 },
+  { _id: DISLIKED, title: 'Gigli', genre: ['Comedy'], director: 'Martin Brest', cast: [], weightedRating: 1.2 },
+  { _id: WATCHED, title: 'Collateral', genre: ['Crime'], director: 'Michael Mann', cast: [], weightedRating: 4 },
+  { _id: SAME_DIRECTOR, title: 'Thief', genre: ['Crime'], director: 'Michael Mann', cast: [], weightedRating: 4 },
+  { _id: CO_RATED, title: 'Ronin', genre: ['Action'], director: 'John Frankenheimer', cast: [], weightedRating: 3.9 },
+  { _id: POPULAR, title: 'Up', genre: ['Animation'], director: 'Pete Docter', cast: [], weightedRating: 4.6 },
+];
+
+/**
+ * Mocks a query chain that resolves to the given result
+ */
+const chain = (result: unknown) => {
+  const query: any = {};
+  for (const method of ['select', 'sort', 'limit']) {
+    query[method] = jest.fn().mockReturnValue(query);
+  }
+  query.lean = jest.fn().mockResolvedValue(result);
+  return query;
+};
+
+/**
+ * Mocks the user's ratings, favorites and history, the similarity model and a Movie.find that
+ * applies the ID filters the service sends to the catalog
+ */
+const mockData = (ratings: Array<{ movieId: string; rating: number }>) => {
+  jest.spyOn(Rating, 'find').mockReturnValue(chain(ratings));
+  jest.spyOn(Favorite, 'find').mockReturnValue(chain([]));
+  jest.spyOn(WatchProgress, 'find').mockReturnValue(chain([{ movieId: WATCHED }]));
+  jest.spyOn(MovieSimilarity, 'find').mockReturnValue(
+    chain([
+      {
+        movieId: LIKED,
+        neighbors: [
+          { movieId: CO_RATED, score: 0.8 },
+          { movieId: DISLIKED, score: 0.9 },
+        ],
+      },
+    ])
+  );
+
+  return jest.spyOn(Movie, 'find').mockImplementation(((filter: any) => {
+    const included: string[] | undefined = filter._id?.$in;
+    const excluded: string[] = filter._id?.$nin || [];
+    return chain(
+      CATALOG.filter((movie) => !included || included.includes(movie._id))
+        .filter((movie) => !excluded.includes(movie._id))
+        .filter((movie) => !filter.$or || movie.genre.includes('Crime'))
+    );
+  }) as any);
+};
+
+describe('recommendationService.getRecommendations', () => {
+  it('recommends top-rated movies the user has not seen when nothing is liked yet', async () => {
+    const find = mockData([{ movieId: DISLIKED, rating: 2 }]);
+
+    const result = await recommendationService.getRecommendations(USER_ID, 10);
+
+    expect(result.strategy).toBe('top_rated');
+    expect(find).toHaveBeenCalledWith(
+      expect.objectContaining({ isActive: true, _id: { $nin: [DISLIKED, WATCHED] } })
+    );
+    expect(result.movies.every((movie) => movie.recommendation.reasons[0] === 'top_rated')).toBe(true);
+  });
+
+  it('combines content and rating similarity and never repeats rated or watched movies', async () => {
+    mockData([
+      { movieId: LIKED, rating: 5 },
+      { movieId: DISLIKED, rating: 1 },
+    ]);
+
+    const result = await recommendationService.getRecommendations(USER_ID, 2);
+
+    expect(result.strategy).toBe('personalized');
+    expect(result.movies.map((movie) => [movie.title, movie.recommendation.reasons])).toEqual([
+      ['Thief', ['genre', 'director']],
+      ['Ronin', ['similar_ratings']],
+    ]);
+
+    const ids = result.movies.map((movie) => movie._id);
+    for (const seen of [LIKED, DISLIKED, WATCHED]) {
+      expect(ids).not.toContain(seen);
+    }
+  });
+
+  it('fills up with top-rated movies when the signals find too few', async () => {
+    mockData([{ movieId: LIKED, rating: 4 }]);
+
+    const result = await recommendationService.getRecommendations(USER_ID, 4);
+
+    expect(result.movies.map((movie) => movie.title)).toEqual(['Thief', 'Ronin', 'Gigli', 'Up']);
+    expect(result.movies[3].recommendation.reasons).toEqual(['top_rated']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Tests for refresh token rotation and reuse detection
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import crypto from 'crypto';
+import { Session, ISessionDocument } from '../../src/models/Session';
+import { User } from '../../src/models/User';
+import { sessionService } from '../../src/services/sessionService';
+
+const SESSION_ID = '64b000000000000000000001';
+const USER_ID = '64a000000000000000000001';
+const SECRET = 'a'.repeat(96);
+
+const hash = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Builds an unsaved session whose current refresh token secret is `secret`
+ */
+const buildSession = (secret: string, overrides: Partial<ISessionDocument> = {}): ISessionDocument =>
+  new Session({
+    _id: SESSION_ID,
+    userId: USER_ID,
+    refreshTokenHash: hash(secret),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    ...overrides,
+  });
+
+/**
+ * Makes Session.findById(...).select(...) resolve to `session`
+ */
+const mockFindSession = (session: ISessionDocument | null): void => {
+  jest.spyOn(Session, 'findById').mockReturnValue({
+    select: jest.fn().mockResolvedValue(session),
+  } as any);
+};
+
+/**
+ * Makes User.findById(...).select(...).lean() resolve to the session owner
+ */
+const mockFindUser = (isActive: boolean = true): void => {
+  jest.spyOn(User, 'findById').mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      lean: jest.fn().mockResolvedValue({ _id: USER_ID, email: 'jane@example.com', role: 'user', isActive }),
+    }),
+  } as any);
+};
+
+describe('sessionService.refreshSession', () => {
+  let revokeSession: jest.SpyInstance;
+
+  beforeEach(() => {
+    revokeSession = jest.spyOn(Session, 'revokeSession').mockResolvedValue(true);
+  });
+
+  it('rotates the refresh token and returns a new pair', async () => {
+    mockFindSession(buildSession(SECRET));
+    mockFindUser();
+    const rotate = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue({ _id: SESSION_ID } as any);
+
+    const tokens = await sessionService.refreshSession(`${SESSION_ID}.${SECRET}`);
+
+    expect(tokens).not.toBeNull();
+    expect(tokens!.refreshToken.startsWith(`${SESSION_ID}.`)).toBe(true);
+    expect(tokens!.refreshToken).not.toBe(`${SESSION_ID}.${SECRET}`);
+
+    // Only the token that was presented can be swapped, and the new secret is stored hashed
+    const [filter, update] = rotate.mock.calls[0] as [any, any];
+    expect(filter).toEqual({ _id: SESSION_ID, refreshTokenHash: hash(SECRET), revokedAt: null });
+    expect(update.$set.refreshTokenHash).toBe(hash(tokens!.refreshToken.split('.')[1]));
+    expect(revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when an already rotated token is presented again', async () => {
+    // The session has moved on to a newer secret
+    mockFindSession(buildSession('b'.repeat(96)));
+    const rotate = jest.spyOn(Session, 'findOneAndUpdate');
+
+    const tokens = await sessionService.refreshSession(`${SESSION_ID}.${SECRET}`);
+
+    expect(tokens).toBeNull();
+    expect(revokeSession).toHaveBeenCalledWith(SESSION_ID, 'token_reuse');
+    expect(rotate).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when a concurrent request rotated the same token first', async () => {
+    mockFindSession(buildSession(SECRET));
+    mockFindUser();
+    jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+
+    const tokens = await sessionService.refreshSession(`${SESSION_ID}.${SECRET}`);
+
+    expect(tokens).toBeNull();
+    expect(revokeSession).toHaveBeenCalledWith(SESSION_ID, 'token_reuse');
+  });
+
+  it('revokes the session when the account was deactivated', async () => {
+    mockFindSession(buildSession(SECRET));
+    mockFindUser(false);
+    const rotate = jest.spyOn(Session, 'findOneAndUpdate');
+
+    const tokens = await sessionService.refreshSession(`${SESSION_ID}.${SECRET}`);
+
+    expect(tokens).toBeNull();
+    expect(revokeSession).toHaveBeenCalledWith(SESSION_ID, 'account_deactivated');
+    expect(rotate).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens of revoked sessions without revoking again', async () => {
+    mockFindSession(buildSession(SECRET, { revokedAt: new Date(), revokedReason: 'logout' } as any));
+
+    const tokens = await sessionService.refreshSession(`${SESSION_ID}.${SECRET}`);
+
+    expect(tokens).toBeNull();
+    expect(revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed tokens without a database lookup', async () => {
+    const findById = jest.spyOn(Session, 'findById');
+
+    await expect(sessionService.refreshSession('not-a-token')).resolves.toBeNull();
+    await expect(sessionService.refreshSession(`${SESSION_ID}.`)).resolves.toBeNull();
+
+    expect(findById).not.toHaveBeenCalled();
+  });
+});
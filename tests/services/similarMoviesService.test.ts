@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for similar movies and their shared cache
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { similarMoviesService } from '../../src/services/similarMoviesService';
+import { Movie } from '../../src/models/Movie';
+import { Favorite } from '../../src/models/Favorite';
+import { MovieSimilarity } from '../../src/models/MovieSimilarity';
+import { SimilarMoviesCache } from '../../src/models/SimilarMoviesCache';
+import { IMovie } from '../../src/types';
+
+const HEAT = {
+  _id: '64e000000000000000000001',
+  title: 'Heat',
+  genre: ['Crime', 'Drama'],
+  director: 'Michael Mann',
+  cast: ['Al Pacino', 'Robert De Niro'],
+  releaseYear: 1995,
+} as IMovie & { _id: string };
+
+const CATALOG = [
+  {
+    _id: '64e000000000000000000002',
+    title: 'Thief',
+    genre: ['Crime'],
+    director: 'Michael Mann',
+    cast: [],
+    releaseYear: 1981,
+  },
+  {
+    _id: '64e000000000000000000003',
+    title: 'Casino',
+    genre: ['Crime', 'Drama'],
+    director: 'Martin Scorsese',
+    cast: ['Robert De Niro'],
+    releaseYear: 1995,
+  },
+  {
+    _id: '64e000000000000000000004',
+    title: 'Cars',
+    genre: ['Animation'],
+    director: 'John Lasseter',
+    cast: [],
+    releaseYear: 2006,
+  },
+];
+
+/**
+ * Mocks a query chain that resolves to the given result
+ */
+const chain = (result: unknown) => {
+  const query: any = {};
+  for (const method of ['select', 'sort', 'limit']) {
+    query[method] = jest.fn().mockReturnValue(query);
+  }
+  query.lean = jest.fn().mockResolvedValue(result);
+  return query;
+};
+
+/**
+ * Mocks the catalog, the signals and a cache that holds the given list
+ */
+const mockCatalog = (cached: Array<{ movieId: string; score: number; reasons: string[] }> | null) => {
+  jest.spyOn(Movie, 'countDocuments').mockResolvedValue(4);
+  jest.spyOn(Movie, 'aggregate').mockResolvedValue([
+    { _id: 'Crime', count: 3 },
+    { _id: 'Drama', count: 2 },
+    { _id: 'Animation', count: 1 },
+  ]);
+  jest.spyOn(Favorite, 'find').mockReturnValue(chain([]));
+  jest.spyOn(MovieSimilarity, 'findOne').mockReturnValue(chain(null));
+  jest.spyOn(SimilarMoviesCache, 'findOne').mockReturnValue(chain(cached && { movies: cached }));
+
+  return {
+    find: jest.spyOn(Movie, 'find').mockImplementation(((filter: any) => {
+      const included: string[] | undefined = filter._id?.$in;
+      return chain(CATALOG.filter((movie) => !included || included.includes(movie._id)));
+    }) as any),
+    store: jest.spyOn(SimilarMoviesCache, 'updateOne').mockResolvedValue({} as any),
+  };
+};
+
+describe('similarMoviesService.getSimilar', () => {
+  it('ranks candidates and stores only their IDs and scores in the shared cache', async () => {
+    const mocks = mockCatalog(null);
+
+    const movies = await similarMoviesService.getSimilar(HEAT, 2);
+
+    expect(movies.map((movie) => [movie.title, movie.similarity.reasons])).toEqual([
+      ['Casino', ['genre', 'cast', 'release_year']],
+      ['Thief', ['genre', 'director']],
+    ]);
+
+    const [filter, update, options] = mocks.store.mock.calls[0] as any[];
+    expect(filter).toEqual({ movieId: HEAT._id });
+    expect(options).toEqual({ upsert: true });
+    expect(update.$set.movies.map((entry: any) => Object.keys(entry))).toEqual([
+      ['movieId', 'score', 'reasons'],
+      ['movieId', 'score', 'reasons'],
+      ['movieId', 'score', 'reasons'],
+    ]);
+    expect(update.$set.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('serves a cached list with fresh movie details and skips deactivated movies', async () => {
+    const mocks = mockCatalog([
+      { movieId: '64e000000000000000000009', score: 0.9, reasons: ['genre'] },
+      { movieId: '64e000000000000000000002', score: 0.5, reasons: ['director'] },
+    ]);
+
+    const movies = await similarMoviesService.getSimilar(HEAT, 10);
+
+    expect(SimilarMoviesCache.findOne).toHaveBeenCalledWith({
+      movieId: HEAT._id,
+      expiresAt: { $gt: expect.any(Date) },
+    });
+    expect(Movie.aggregate).not.toHaveBeenCalled();
+    expect(mocks.store).not.toHaveBeenCalled();
+    expect(mocks.find).toHaveBeenCalledWith({
+      _id: { $in: ['64e000000000000000000009', '64e000000000000000000002'] },
+      isActive: true,
+    });
+    expect(movies).toEqual([
+      expect.objectContaining({ title: 'Thief', similarity: { score: 0.5, reasons: ['director'] } }),
+    ]);
+  });
+
+  it('keeps the list another instance cached at the same time', async () => {
+    const mocks = mockCatalog(null);
+    mocks.store.mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }));
+
+    await expect(similarMoviesService.getSimilar(HEAT, 1)).resolves.toHaveLength(1);
+  });
+});
+
+describe('similarMoviesService.invalidateAll', () => {
+  it('clears the cache shared by every instance', async () => {
+    const deleteMany = jest
+      .spyOn(SimilarMoviesCache, 'deleteMany')
+      .mockResolvedValue({ deletedCount: 12 } as any);
+
+    await similarMoviesService.invalidateAll();
+
+    expect(deleteMany).toHaveBeenCalledWith({});
+  });
+});
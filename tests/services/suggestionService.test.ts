@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Tests for the search suggestion service
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { suggestionService } from '../../src/services/suggestionService';
+import { Movie } from '../../src/models/Movie';
+
+/**
+ * Makes Movie.find resolve to the given candidate movies and returns the spy
+ */
+const mockCandidates = (movies: Array<Record<string, unknown>>) => {
+  const chain: any = {
+    select: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(movies),
+  };
+  return jest.spyOn(Movie, 'find').mockReturnValue(chain);
+};
+
+describe('suggestionService.suggest', () => {
+  it('matches accent-insensitively and highlights the original text', async () => {
+    const find = mockCandidates([
+      { _id: 'm1', title: 'Acción Mutante', releaseYear: 1993, director: 'Álex de la Iglesia', cast: [] },
+    ]);
+
+    const { titles } = await suggestionService.suggest('ACC', 5);
+
+    expect(find).toHaveBeenCalledWith({ isActive: true, searchTokens: { $regex: '^acc' } });
+    expect(titles).toEqual([
+      {
+        movieId: 'm1',
+        title: 'Acción Mutante',
+        releaseYear: 1993,
+        poster: null,
+        segments: [
+          { text: 'Acc', match: true },
+          { text: 'ión Mutante', match: false },
+        ],
+      },
+    ]);
+  });
+
+  it('highlights a match at the start of a later word but not inside a word', async () => {
+    mockCandidates([
+      { _id: 'm1', title: 'Superstar', releaseYear: 1999, cast: [] },
+      { _id: 'm2', title: 'Lone Star', releaseYear: 1996, cast: [] },
+    ]);
+
+    const { titles } = await suggestionService.suggest('star', 5);
+
+    expect(titles.map((title) => title.segments)).toEqual([
+      [
+        { text: 'Lone ', match: false },
+        { text: 'Star', match: true },
+      ],
+    ]);
+  });
+
+  it('maps the highlight back across collapsed whitespace and combined characters', async () => {
+    mockCandidates([{ _id: 'm1', title: 'The  Niño Files', releaseYear: 2001, cast: [] }]);
+
+    const { titles } = await suggestionService.suggest('the nin', 5);
+
+    expect(titles[0].segments).toEqual([
+      { text: 'The  Niñ', match: true },
+      { text: 'o Files', match: false },
+    ]);
+  });
+
+  it('groups people by normalized name and ranks them by matching movies', async () => {
+    mockCandidates([
+      { _id: 'm1', title: 'One', releaseYear: 2000, director: 'Pedro Almodóvar', cast: ['Penélope Cruz'] },
+      { _id: 'm2', title: 'Two', releaseYear: 2001, director: 'Pedro Almodovar', cast: ['Penelope Cruz'] },
+      { _id: 'm3', title: 'Three', releaseYear: 2002, director: 'Paul Thomas', cast: ['Pedro Pascal'] },
+    ]);
+
+    const { titles, directors, cast } = await suggestionService.suggest('pe', 5);
+
+    expect(titles).toHaveLength(0);
+    expect(directors).toEqual([
+      {
+        name: 'Pedro Almodóvar',
+        movieCount: 2,
+        segments: [
+          { text: 'Pe', match: true },
+          { text: 'dro Almodóvar', match: false },
+        ],
+      },
+    ]);
+    expect(cast.map((person) => [person.name, person.movieCount])).toEqual([
+      ['Penélope Cruz', 2],
+      ['Pedro Pascal', 1],
+    ]);
+  });
+
+  it('does not query the database for an empty prefix', async () => {
+    const find = mockCandidates([]);
+
+    expect(await suggestionService.suggest('   ', 5)).toEqual({ titles: [], directors: [], cast: [] });
+    expect(find).not.toHaveBeenCalled();
+  });
+});
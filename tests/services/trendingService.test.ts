@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for the trending movies service
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { ActivityEvent } from '../../src/models/ActivityEvent';
+import { trendingService, TRENDING_MAX_LIMIT, TRENDING_WINDOWS } from '../../src/services/trendingService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Builds aggregation results for the given number of trending movies
+ */
+const buildResults = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    movie: { title: `Movie ${index + 1}` },
+    trending: { score: count - index, views: 1, ratings: 0, favorites: 0, comments: 0 },
+  }));
+
+describe('trendingService.getTrending', () => {
+  let aggregate: jest.SpyInstance;
+
+  beforeEach(() => {
+    // Every test starts with an empty cache
+    (trendingService as any).cache.clear();
+    aggregate = jest.spyOn(ActivityEvent, 'aggregate').mockResolvedValue(buildResults(3) as any);
+  });
+
+  it('only counts events inside the window and halves their weight every half-life', async () => {
+    const before = Date.now();
+    await trendingService.getTrending('24h', 10);
+    const after = Date.now();
+
+    const [match, group] = aggregate.mock.calls[0][0];
+    const since = match.$match.createdAt.$gte.getTime();
+    expect(since).toBeGreaterThanOrEqual(before - 24 * HOUR_MS);
+    expect(since).toBeLessThanOrEqual(after - 24 * HOUR_MS);
+
+    const [weight, decay] = group.$group.score.$sum.$multiply;
+    const [rate] = decay.$exp.$multiply;
+    const { halfLifeMs } = TRENDING_WINDOWS['24h'];
+    expect(Math.exp(rate * halfLifeMs)).toBeCloseTo(0.5, 10);
+    expect(Math.exp(rate * 2 * halfLifeMs)).toBeCloseTo(0.25, 10);
+
+    const weights = Object.fromEntries(
+      weight.$switch.branches.map((branch: any) => [branch.case.$eq[1], branch.then])
+    );
+    expect(weights).toEqual({ view: 1, comment: 3, favorite: 4, rating: 5 });
+  });
+
+  it('ranks the largest list once and serves smaller limits from the cache', async () => {
+    const first = await trendingService.getTrending('7d', 2);
+    const second = await trendingService.getTrending('7d', 10);
+
+    expect(aggregate).toHaveBeenCalledTimes(1);
+    const pipeline = aggregate.mock.calls[0][0];
+    expect(pipeline).toContainEqual({ $limit: TRENDING_MAX_LIMIT });
+    expect(first.map((movie) => movie.title)).toEqual(['Movie 1', 'Movie 2']);
+    expect(second).toHaveLength(3);
+    expect(second[0].trending.score).toBe(3);
+  });
+
+  it('caches each window and genre separately', async () => {
+    await trendingService.getTrending('7d', 10);
+    await trendingService.getTrending('7d', 10, 'Drama');
+    await trendingService.getTrending('30d', 10);
+    await trendingService.getTrending('7d', 10, 'Drama');
+
+    expect(aggregate).toHaveBeenCalledTimes(3);
+    const lookup = aggregate.mock.calls[1][0].find((stage: any) => stage.$lookup).$lookup;
+    expect(lookup.pipeline[0].$match.genre).toBe('Drama');
+  });
+
+  it('recomputes the ranking once the cached one expires', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await trendingService.getTrending('24h', 10);
+    clock.mockReturnValue(now + 61 * 1000);
+    await trendingService.getTrending('24h', 10);
+
+    expect(aggregate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Tests for heartbeat-based movie view counting
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { viewService, IViewer } from '../../src/services/viewService';
+import { trendingService } from '../../src/services/trendingService';
+import { MovieView } from '../../src/models/MovieView';
+import { Movie, IMovieDocument } from '../../src/models/Movie';
+
+// VIEW_MIN_WATCH_SECONDS and VIEW_DEDUP_WINDOW_MS keep their defaults of 30 seconds and 6 hours
+const WINDOW_MS = 6 * 60 * 60 * 1000;
+const MOVIE_ID = '64e000000000000000000001';
+const SIGNED_IN: IViewer = { userId: '64a000000000000000000001', ip: '203.0.113.7', userAgent: 'Firefox' };
+const ANONYMOUS: IViewer = { ip: '203.0.113.7', userAgent: 'Firefox' };
+
+/**
+ * Builds an unsaved two-hour movie
+ */
+const buildMovie = (): IMovieDocument =>
+  new Movie({ _id: MOVIE_ID, title: 'Heat', duration: 120, views: 0 }) as IMovieDocument;
+
+/**
+ * Keeps MovieView records in memory and applies the filters and updates the service sends
+ */
+const mockViewStore = () => {
+  const records = new Map<string, any>();
+
+  const matches = (record: any, filter: any): boolean =>
+    Object.entries(filter).every(([field, condition]: [string, any]) => {
+      if (field === '$or') {
+        return condition.some((branch: any) => matches(record, branch));
+      }
+
+      const value = record[field];
+      if (condition === null) {
+        return value === null || value === undefined;
+      }
+      if (condition instanceof Date) {
+        return value?.getTime() === condition.getTime();
+      }
+      if (typeof condition === 'object' && '$gte' in condition) {
+        return value >= condition.$gte;
+      }
+      if (typeof condition === 'object' && '$lte' in condition) {
+        return value !== null && value <= condition.$lte;
+      }
+      return value === condition;
+    });
+
+  const find = (filter: any) => [...records.values()].find((record) => matches(record, filter)) || null;
+  const query = (filter: any) => {
+    const result = Promise.resolve().then(() => (find(filter) ? { ...find(filter) } : null));
+    return { lean: () => result, select: () => ({ lean: () => result }) };
+  };
+
+  jest.spyOn(MovieView, 'findOne').mockImplementation(query as any);
+  jest.spyOn(MovieView, 'create').mockImplementation((async (doc: any) => {
+    const key = `${doc.movieId}|${doc.viewerKey}`;
+    if (records.has(key)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    records.set(key, { _id: key, lastCountedAt: null, ...doc });
+    return doc;
+  }) as any);
+  jest.spyOn(MovieView, 'updateOne').mockImplementation((async (filter: any, update: any) => {
+    const record = find(filter);
+    if (!record) {
+      return { modifiedCount: 0 };
+    }
+    Object.assign(record, update.$set);
+    for (const [field, amount] of Object.entries<number>(update.$inc || {})) {
+      record[field] += amount;
+    }
+    return { modifiedCount: 1 };
+  }) as any);
+
+  return records;
+};
+
+describe('viewService.getViewerKey', () => {
+  it('identifies signed-in viewers by account', () => {
+    expect(viewService.getViewerKey(SIGNED_IN)).toBe(`user:${SIGNED_IN.userId}`);
+  });
+
+  it('fingerprints anonymous viewers without storing their address', () => {
+    const key = viewService.getViewerKey(ANONYMOUS);
+
+    expect(key).toMatch(/^anon:[0-9a-f]{32}$/);
+    expect(key).not.toContain(ANONYMOUS.ip);
+    expect(viewService.getViewerKey({ ...ANONYMOUS })).toBe(key);
+    expect(viewService.getViewerKey({ ...ANONYMOUS, userAgent: 'Chrome' })).not.toBe(key);
+  });
+});
+
+describe('viewService.recordHeartbeat', () => {
+  let movie: IMovieDocument;
+  let now: number;
+  let incrementViews: jest.SpyInstance;
+
+  /**
+   * Sends a heartbeat after the given number of seconds
+   */
+  const heartbeat = (afterSeconds: number, position: number, viewer: IViewer = ANONYMOUS) => {
+    now += afterSeconds * 1000;
+    jest.setSystemTime(now);
+    return viewService.recordHeartbeat(movie, viewer, position);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    now = Date.now();
+    movie = buildMovie();
+    mockViewStore();
+    incrementViews = jest.spyOn(movie, 'incrementViews').mockImplementation(async () => {
+      movie.views = (movie.views || 0) + 1;
+    });
+    jest.spyOn(trendingService, 'record').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts a view once the heartbeats add up to the minimum watch time', async () => {
+    await expect(heartbeat(0, 0)).resolves.toEqual({ counted: false, reason: 'too_short', views: 0 });
+    await expect(heartbeat(20, 20)).resolves.toMatchObject({ counted: false, reason: 'too_short' });
+    await expect(heartbeat(20, 40)).resolves.toEqual({ counted: true, reason: null, views: 1 });
+
+    expect(incrementViews).toHaveBeenCalledTimes(1);
+    expect(trendingService.record).toHaveBeenCalledWith(MOVIE_ID, 'view');
+  });
+
+  it('never credits more than the time since the previous heartbeat', async () => {
+    await heartbeat(0, 0);
+
+    // Seeking to the end after ten seconds only earns ten seconds
+    await expect(heartbeat(10, 7000)).resolves.toMatchObject({ counted: false, reason: 'too_short' });
+    // Replaying the same position earns nothing
+    await expect(heartbeat(10, 7000)).resolves.toMatchObject({ counted: false, reason: 'too_short' });
+
+    expect(incrementViews).not.toHaveBeenCalled();
+  });
+
+  it('credits concurrent heartbeats once', async () => {
+    await heartbeat(0, 0);
+    now += 25 * 1000;
+    jest.setSystemTime(now);
+
+    await Promise.all([
+      viewService.recordHeartbeat(movie, ANONYMOUS, 25),
+      viewService.recordHeartbeat(movie, ANONYMOUS, 25),
+    ]);
+    await expect(heartbeat(5, 30)).resolves.toMatchObject({ counted: true });
+
+    expect(incrementViews).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts an anonymous viewer at most once per window', async () => {
+    await heartbeat(0, 0);
+    await heartbeat(30, 30);
+    await heartbeat(30, 60);
+    await expect(heartbeat(30, 90)).resolves.toMatchObject({ counted: false, reason: 'duplicate' });
+
+    // Once the window has passed, the time watched since the counted view counts another one
+    now += WINDOW_MS;
+    jest.setSystemTime(now);
+    await expect(heartbeat(0, 90)).resolves.toMatchObject({ counted: true, views: 2 });
+    await expect(heartbeat(30, 120)).resolves.toMatchObject({ counted: false, reason: 'duplicate' });
+  });
+
+  it('keeps separate records for each viewer', async () => {
+    await heartbeat(0, 0, SIGNED_IN);
+    await heartbeat(0, 0);
+    await expect(heartbeat(30, 30, SIGNED_IN)).resolves.toMatchObject({ counted: true });
+    await expect(heartbeat(0, 30)).resolves.toMatchObject({ counted: true });
+
+    expect(incrementViews).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('viewService.deleteUserViews', () => {
+  it('removes only the records of the signed-in user', async () => {
+    const deleteMany = jest.spyOn(MovieView, 'deleteMany').mockResolvedValue({ deletedCount: 3 } as any);
+
+    await expect(viewService.deleteUserViews(SIGNED_IN.userId!)).resolves.toBe(3);
+
+    expect(deleteMany).toHaveBeenCalledWith({ viewerKey: `user:${SIGNED_IN.userId}` });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Test environment setup
+ * @description Provides the required environment variables before any module reads the
+ * configuration, so tests never depend on a local .env file
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+process.env.DOTENV_CONFIG_QUIET = 'true';
+process.env.NODE_ENV = 'test';
+process.env.MONGODB_URI = 'mongodb://127.0.0.1:27017/movies-platform-test';
+process.env.JWT_SECRET = 'test-jwt-secret-that-is-at-least-32-characters-long';
+process.env.EMAIL_SERVICE = 'smtp';
+process.env.EMAIL_USER = 'test-user';
+process.env.EMAIL_PASSWORD = 'test-password';
+process.env.CLOUDINARY_CLOUD_NAME = 'test-cloud';
+process.env.CLOUDINARY_API_KEY = 'test-key';
+process.env.CLOUDINARY_API_SECRET = 'test-secret';
+process.env.LOGIN_MAX_ATTEMPTS = '5';
+process.env.LOGIN_LOCKOUT_MS = '900000';
+process.env.COMMENT_REPORT_HIDE_THRESHOLD = '3';
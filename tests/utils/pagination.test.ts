@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Tests for the shared pagination helpers
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { Model } from 'mongoose';
+import { formatPagination, paginate, parsePagination } from '../../src/utils/pagination';
+
+const IDS = ['64f000000000000000000001', '64f000000000000000000002', '64f000000000000000000003'];
+
+/**
+ * Builds a stand-in model whose queries resolve to the given documents and record their filters
+ */
+const buildModel = (documents: Array<Record<string, unknown>>, total = documents.length) => {
+  const query: any = {
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(documents),
+  };
+  const model = {
+    find: jest.fn().mockReturnValue(query),
+    countDocuments: jest.fn().mockResolvedValue(total),
+  };
+  return { model: model as unknown as Model<any>, find: model.find, query };
+};
+
+/**
+ * Returns the cursor filter of the last cursor-mode find
+ */
+const cursorFilterOf = (find: jest.Mock) => find.mock.calls[0][0].$and[1];
+
+/**
+ * Runs a first page and returns the cursor it issued for its last item
+ */
+const nextCursorOf = async (value: unknown, order: 1 | -1 = -1): Promise<string> => {
+  const { model } = buildModel([{ _id: IDS[0], rating: value }], 20);
+  const result = await paginate(model, {}, { field: 'rating', order }, parsePagination({ limit: '1' }));
+  return result.nextCursor!;
+};
+
+describe('parsePagination', () => {
+  it('applies the default limit and rejects invalid values', () => {
+    expect(parsePagination({})).toEqual({ limit: 12, page: 1, cursor: null, direction: null });
+    expect(() => parsePagination({ limit: '500' })).toThrow('Invalid pagination parameters');
+    expect(() => parsePagination({ page: '0' })).toThrow('Invalid pagination parameters');
+  });
+
+  it('rejects both directions at once and malformed cursors', () => {
+    expect(() => parsePagination({ after: 'a', before: 'b' })).toThrow('either "after" or "before"');
+    expect(() => parsePagination({ after: 'not-a-cursor' })).toThrow('Invalid pagination cursor');
+
+    const smuggled = Buffer.from(JSON.stringify(['rating', -1, { $gt: 0 }, IDS[0]])).toString('base64url');
+    expect(() => parsePagination({ after: smuggled })).toThrow('Invalid pagination cursor');
+  });
+});
+
+describe('paginate', () => {
+  it('counts and issues cursors in page mode', async () => {
+    const { model, query } = buildModel([{ _id: IDS[0], rating: 5 }, { _id: IDS[1], rating: 4 }], 5);
+
+    const result = await paginate(
+      model,
+      { active: true },
+      { field: 'rating', order: -1 },
+      parsePagination({ page: '2', limit: '2' })
+    );
+
+    expect(query.sort).toHaveBeenCalledWith({ rating: -1, _id: -1 });
+    expect(query.skip).toHaveBeenCalledWith(2);
+    expect(result).toMatchObject({ total: 5, page: 2, totalPages: 3, hasNextPage: true, hasPrevPage: true });
+    expect(formatPagination(result, 'ratings')).toMatchObject({
+      currentPage: 2,
+      totalRatings: 5,
+      ratingsPerPage: 2,
+    });
+  });
+
+  it('continues after a cursor with the value and the _id as tie-breaker', async () => {
+    const cursor = await nextCursorOf(4);
+    const { model, find, query } = buildModel([{ _id: IDS[1], rating: 3 }, { _id: IDS[2], rating: 2 }]);
+
+    const result = await paginate(
+      model,
+      { active: true },
+      { field: 'rating', order: -1 },
+      parsePagination({ after: cursor, limit: '1' })
+    );
+
+    expect(find.mock.calls[0][0].$and[0]).toEqual({ active: true });
+    expect(cursorFilterOf(find)).toEqual({
+      $or: [{ rating: { $lt: 4 } }, { rating: 4, _id: { $lt: IDS[0] } }, { rating: null }],
+    });
+    expect(query.limit).toHaveBeenCalledWith(2);
+    expect(result.items).toEqual([{ _id: IDS[1], rating: 3 }]);
+    expect(result).toMatchObject({ hasNextPage: true, hasPrevPage: true });
+  });
+
+  it('walks backwards in reverse order and restores the order', async () => {
+    const cursor = await nextCursorOf(4, 1);
+    const { model, find, query } = buildModel([{ _id: IDS[2], rating: 3 }, { _id: IDS[1], rating: 2 }]);
+
+    const result = await paginate(
+      model,
+      {},
+      { field: 'rating', order: 1 },
+      parsePagination({ before: cursor, limit: '5' })
+    );
+
+    expect(query.sort).toHaveBeenCalledWith({ rating: -1, _id: -1 });
+    expect(cursorFilterOf(find).$or).toContainEqual({ rating: null });
+    expect(result.items.map((item: any) => item.rating)).toEqual([2, 3]);
+    expect(result).toMatchObject({ hasNextPage: true, hasPrevPage: false, prevCursor: null });
+  });
+
+  it('pages through items without a sort value', async () => {
+    // Legacy items without the field come last in descending order
+    const cursor = await nextCursorOf(undefined);
+    const { model, find } = buildModel([]);
+
+    await paginate(model, {}, { field: 'rating', order: -1 }, parsePagination({ after: cursor }));
+
+    expect(cursorFilterOf(find)).toEqual({ rating: null, _id: { $lt: IDS[0] } });
+
+    // Walking back from them reaches every item with a value
+    const back = buildModel([]);
+    await paginate(back.model, {}, { field: 'rating', order: -1 }, parsePagination({ before: cursor }));
+
+    expect(cursorFilterOf(back.find)).toEqual({
+      $or: [{ rating: null, _id: { $gt: IDS[0] } }, { rating: { $ne: null } }],
+    });
+  });
+
+  it('rejects a cursor issued for another sort order', async () => {
+    const cursor = await nextCursorOf(4, -1);
+    const { model } = buildModel([]);
+
+    await expect(
+      paginate(model, {}, { field: 'rating', order: 1 }, parsePagination({ after: cursor }))
+    ).rejects.toThrow('Cursor does not match the requested sort order');
+  });
+});
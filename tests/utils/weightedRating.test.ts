@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Tests for the Bayesian weighted rating
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { calculateWeightedRating } from '../../src/utils/weightedRating';
+
+// RATING_PRIOR_MEAN and RATING_MIN_VOTES keep their defaults of 3 and 10
+describe('calculateWeightedRating', () => {
+  it('gives unrated movies the prior mean', () => {
+    expect(calculateWeightedRating(0, 0)).toBe(3);
+  });
+
+  it('weighs the average and the prior equally at the minimum number of votes', () => {
+    expect(calculateWeightedRating(5, 10)).toBe(4);
+  });
+
+  it('ranks a slightly lower average over many votes above a perfect score over a few', () => {
+    const fewPerfect = calculateWeightedRating(5, 5);
+    const manyHigh = calculateWeightedRating(4.8, 2000);
+
+    expect(fewPerfect).toBe(3.667);
+    expect(manyHigh).toBe(4.791);
+    expect(manyHigh).toBeGreaterThan(fewPerfect);
+  });
+
+  it('pulls low averages with few votes up towards the prior', () => {
+    expect(calculateWeightedRating(1, 2)).toBeCloseTo(2.667, 3);
+  });
+});
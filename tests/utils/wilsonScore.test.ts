@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Tests for the Wilson score lower bound
+ * @version 1.0.0
+ * @author Movies Platform Team
+ * @since 2025-10-25
+ */
+
+import { wilsonLowerBound } from '../../src/utils/wilsonScore';
+
+describe('wilsonLowerBound', () => {
+  it('scores content without votes as 0', () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+  });
+
+  it('matches the documented examples', () => {
+    expect(wilsonLowerBound(1, 1)).toBe(0.2065);
+    expect(wilsonLowerBound(95, 100)).toBe(0.8882);
+  });
+
+  it('ranks a high share over many votes above a perfect share over a few', () => {
+    const ranked = [
+      [1, 1],
+      [95, 100],
+      [10, 10],
+      [60, 100],
+      [0, 5],
+    ]
+      .map(([positive, total]) => ({ votes: `${positive}/${total}`, score: wilsonLowerBound(positive, total) }))
+      .sort((a, b) => b.score - a.score)
+      .map((entry) => entry.votes);
+
+    expect(ranked).toEqual(['95/100', '10/10', '60/100', '1/1', '0/5']);
+  });
+
+  it('grows with the number of votes at the same share', () => {
+    expect(wilsonLowerBound(8, 10)).toBeLessThan(wilsonLowerBound(80, 100));
+    expect(wilsonLowerBound(80, 100)).toBeLessThan(wilsonLowerBound(800, 1000));
+  });
+});